@@ -8,6 +8,24 @@ import Index from "./pages/Index";
 import Auth from "./pages/Auth";
 import NotFound from "./pages/NotFound";
 import Inventory from "./pages/Inventory";
+import ItemDetail from "./pages/ItemDetail";
+import ExpiringStock from "./pages/ExpiringStock";
+import SerialLookup from "./pages/SerialLookup";
+import Suppliers from "./pages/Suppliers";
+import PurchaseOrders from "./pages/PurchaseOrders";
+import PurchaseOrderDetail from "./pages/PurchaseOrderDetail";
+import SalesOrders from "./pages/SalesOrders";
+import SalesOrderDetail from "./pages/SalesOrderDetail";
+import Settings from "./pages/Settings";
+import MarginReport from "./pages/MarginReport";
+import Valuation from "./pages/Valuation";
+import ReorderSuggestions from "./pages/ReorderSuggestions";
+import Forecast from "./pages/Forecast";
+import Stocktakes from "./pages/Stocktakes";
+import StocktakeDetail from "./pages/StocktakeDetail";
+import Shrinkage from "./pages/Shrinkage";
+import Returns from "./pages/Returns";
+import Labels from "./pages/Labels";
 import ProtectedRoute from "@/components/ProtectedRoute";
 
 const queryClient = new QueryClient();
@@ -23,6 +41,24 @@ const App = () => (
             <Route path="/" element={<Index />} />
             <Route path="/auth" element={<Auth />} />
             <Route path="/inventory" element={<ProtectedRoute><Inventory /></ProtectedRoute>} />
+            <Route path="/inventory/:id" element={<ProtectedRoute><ItemDetail /></ProtectedRoute>} />
+            <Route path="/expiring" element={<ProtectedRoute><ExpiringStock /></ProtectedRoute>} />
+            <Route path="/serials" element={<ProtectedRoute><SerialLookup /></ProtectedRoute>} />
+            <Route path="/suppliers" element={<ProtectedRoute><Suppliers /></ProtectedRoute>} />
+            <Route path="/purchase-orders" element={<ProtectedRoute><PurchaseOrders /></ProtectedRoute>} />
+            <Route path="/purchase-orders/:id" element={<ProtectedRoute><PurchaseOrderDetail /></ProtectedRoute>} />
+            <Route path="/sales-orders" element={<ProtectedRoute><SalesOrders /></ProtectedRoute>} />
+            <Route path="/sales-orders/:id" element={<ProtectedRoute><SalesOrderDetail /></ProtectedRoute>} />
+            <Route path="/margins" element={<ProtectedRoute><MarginReport /></ProtectedRoute>} />
+            <Route path="/valuation" element={<ProtectedRoute><Valuation /></ProtectedRoute>} />
+            <Route path="/reorder" element={<ProtectedRoute><ReorderSuggestions /></ProtectedRoute>} />
+            <Route path="/forecast" element={<ProtectedRoute><Forecast /></ProtectedRoute>} />
+            <Route path="/stocktakes" element={<ProtectedRoute><Stocktakes /></ProtectedRoute>} />
+            <Route path="/stocktakes/:id" element={<ProtectedRoute><StocktakeDetail /></ProtectedRoute>} />
+            <Route path="/shrinkage" element={<ProtectedRoute><Shrinkage /></ProtectedRoute>} />
+            <Route path="/returns" element={<ProtectedRoute><Returns /></ProtectedRoute>} />
+            <Route path="/labels" element={<ProtectedRoute><Labels /></ProtectedRoute>} />
+            <Route path="/settings" element={<ProtectedRoute><Settings /></ProtectedRoute>} />
             {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
             <Route path="*" element={<NotFound />} />
           </Routes>
@@ -0,0 +1,143 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { useToast } from "@/hooks/use-toast";
+import { useLocations } from "@/hooks/useLocations";
+import { useUnits } from "@/hooks/useUnits";
+import type { InventoryItem } from "@/hooks/useInventoryItems";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import AdjustmentReasonSelect from "@/components/inventory/AdjustmentReasonSelect";
+import { formatQuantity, quantityStep } from "@/lib/units";
+
+interface AdjustStockDialogProps {
+  item: InventoryItem | null;
+  /** Prefills the amount, e.g. -1 when opened from the decrease button */
+  defaultDelta: number;
+  /** Where the change lands; the default location when not given */
+  locationId?: string;
+  onOpenChange: (open: boolean) => void;
+}
+
+const AdjustStockDialog = ({ item, defaultDelta, locationId, onOpenChange }: AdjustStockDialogProps) => {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const { data: locations } = useLocations();
+  const { data: units } = useUnits();
+
+  const [amount, setAmount] = useState("");
+  const [reasonCode, setReasonCode] = useState("");
+  const [note, setNote] = useState("");
+
+  // Reset the form whenever a different item is opened
+  useEffect(() => {
+    if (!item) return;
+    setAmount(String(defaultDelta));
+    setReasonCode("");
+    setNote("");
+  }, [item, defaultDelta]);
+
+  const unit = units?.find((u) => u.id === item?.unit_id);
+  const step = quantityStep(unit);
+  const location = locationId ? locations?.find((l) => l.id === locationId) : locations?.find((l) => l.is_default);
+
+  // Deltas are applied server-side so concurrent adjustments never overwrite each other
+  const adjust = useMutation({
+    mutationFn: async () => {
+      if (!item) throw new Error("No item selected");
+      const delta = parseFloat(amount);
+      if (!Number.isFinite(delta) || delta === 0) throw new Error("Enter an amount to add or remove");
+      if (!reasonCode) throw new Error("Choose a reason for the adjustment");
+
+      const { data, error } = await supabase.rpc("adjust_stock", {
+        _item_id: item.id,
+        _delta: delta,
+        _reason_code: reasonCode,
+        _location_id: locationId,
+        _note: note.trim() || undefined,
+      });
+      if (error) throw error;
+      return { row: data as InventoryItem, delta };
+    },
+    onSuccess: ({ row, delta }) => {
+      queryClient.setQueryData<InventoryItem[]>(["inventory-items"], (prev) =>
+        prev?.map((it) => (it.id === row.id ? row : it))
+      );
+      queryClient.invalidateQueries({ queryKey: ["stock-levels"] });
+      queryClient.invalidateQueries({ queryKey: ["locations"] });
+      queryClient.invalidateQueries({ queryKey: ["stock-movements"] });
+      onOpenChange(false);
+      toast({
+        title: "Stock adjusted",
+        description: `${delta > 0 ? "+" : ""}${formatQuantity(delta, unit)} ${row.name}`,
+      });
+    },
+    onError: (err: Error) => {
+      toast({ title: "Adjustment failed", description: err.message || "Could not adjust stock.", variant: "destructive" });
+    },
+  });
+
+  return (
+    <Dialog open={!!item} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Adjust Stock</DialogTitle>
+          <DialogDescription>
+            Change {item?.name} stock{location ? ` at ${location.name}` : ""}. Use a negative amount to take stock out.
+          </DialogDescription>
+        </DialogHeader>
+        <form
+          className="space-y-4"
+          onSubmit={(e) => {
+            e.preventDefault();
+            adjust.mutate();
+          }}
+        >
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <Label htmlFor="adjust_amount">Amount ({unit?.symbol ?? "ea"})</Label>
+              <Input
+                id="adjust_amount"
+                type="number"
+                inputMode={step < 1 ? "decimal" : "numeric"}
+                step={step}
+                value={amount}
+                onChange={(e) => setAmount(e.target.value)}
+                autoFocus
+              />
+            </div>
+            <div>
+              <Label>Reason</Label>
+              <AdjustmentReasonSelect value={reasonCode} onChange={setReasonCode} />
+            </div>
+          </div>
+          <div>
+            <Label htmlFor="adjust_note">Note</Label>
+            <Input
+              id="adjust_note"
+              value={note}
+              onChange={(e) => setNote(e.target.value)}
+              placeholder="Optional, e.g. pallet dropped in aisle 4"
+            />
+          </div>
+          <DialogFooter>
+            <Button type="submit" disabled={adjust.isPending || !reasonCode}>
+              Adjust Stock
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default AdjustStockDialog;
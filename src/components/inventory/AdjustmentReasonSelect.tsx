@@ -0,0 +1,36 @@
+import { useAdjustmentReasons } from "@/hooks/useAdjustmentReasons";
+import { Select, SelectContent, SelectItem, SelectSeparator, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { BUILT_IN_REASONS } from "@/lib/adjustments";
+
+interface AdjustmentReasonSelectProps {
+  value: string;
+  onChange: (code: string) => void;
+}
+
+/** Built-in reasons first, then the user's own. */
+const AdjustmentReasonSelect = ({ value, onChange }: AdjustmentReasonSelectProps) => {
+  const { data: customReasons } = useAdjustmentReasons();
+
+  return (
+    <Select value={value} onValueChange={onChange}>
+      <SelectTrigger aria-label="Adjustment reason">
+        <SelectValue placeholder="Choose reason" />
+      </SelectTrigger>
+      <SelectContent>
+        {BUILT_IN_REASONS.map((r) => (
+          <SelectItem key={r.code} value={r.code}>
+            {r.name}
+          </SelectItem>
+        ))}
+        {customReasons?.length ? <SelectSeparator /> : null}
+        {customReasons?.map((r) => (
+          <SelectItem key={r.id} value={r.code}>
+            {r.name}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+};
+
+export default AdjustmentReasonSelect;
@@ -0,0 +1,133 @@
+import { useMemo, useState } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { useToast } from "@/hooks/use-toast";
+import { useCategories } from "@/hooks/useCategories";
+import { Button } from "@/components/ui/button";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import {
+  Command,
+  CommandEmpty,
+  CommandGroup,
+  CommandInput,
+  CommandItem,
+  CommandList,
+  CommandSeparator,
+} from "@/components/ui/command";
+import { buildCategoryTree, categoryPath, flattenCategoryTree } from "@/lib/categories";
+import { cn } from "@/lib/utils";
+import { Check, ChevronsUpDown, Plus } from "lucide-react";
+
+interface CategoryPickerProps {
+  /** Category id, or "" for none */
+  value: string;
+  onChange: (value: string) => void;
+  id?: string;
+}
+
+const CategoryPicker = ({ value, onChange, id }: CategoryPickerProps) => {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const { data: categories } = useCategories();
+
+  const [open, setOpen] = useState(false);
+  const [search, setSearch] = useState("");
+
+  const byId = useMemo(() => new Map(categories?.map((c) => [c.id, c]) ?? []), [categories]);
+  const options = useMemo(
+    () =>
+      flattenCategoryTree(buildCategoryTree(categories ?? [])).map((node) => ({
+        node,
+        path: categoryPath(node.category.id, byId),
+      })),
+    [categories, byId]
+  );
+
+  const typed = search.trim();
+  // Typing "Apparel > Shirts" offers to create both levels at once
+  const exists = options.some((o) => o.path.toLowerCase() === typed.toLowerCase());
+
+  const addCategory = useMutation({
+    mutationFn: async (path: string) => {
+      const { data, error } = await supabase.rpc("add_category", { _path: path });
+      if (error) throw error;
+      return data;
+    },
+    onSuccess: (category) => {
+      queryClient.invalidateQueries({ queryKey: ["categories"] });
+      onChange(category.id);
+      setSearch("");
+      setOpen(false);
+    },
+    onError: (err: Error) => {
+      toast({ title: "Add failed", description: err.message || "Could not add category.", variant: "destructive" });
+    },
+  });
+
+  const choose = (next: string) => {
+    onChange(next);
+    setSearch("");
+    setOpen(false);
+  };
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>
+        <Button
+          id={id}
+          variant="outline"
+          role="combobox"
+          aria-expanded={open}
+          className="w-full justify-between font-normal"
+        >
+          <span className={cn("truncate", !value && "text-muted-foreground")}>
+            {value ? categoryPath(value, byId) || "Select category" : "Select category"}
+          </span>
+          <ChevronsUpDown className="ml-2 h-4 w-4 shrink-0 opacity-50" />
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-[--radix-popover-trigger-width] min-w-64 p-0" align="start">
+        <Command>
+          <CommandInput placeholder="Search or create, e.g. Apparel > Shirts" value={search} onValueChange={setSearch} />
+          <CommandList>
+            <CommandEmpty>No categories yet.</CommandEmpty>
+            {typed && !exists ? (
+              <>
+                <CommandGroup>
+                  <CommandItem
+                    value={typed}
+                    onSelect={() => addCategory.mutate(typed)}
+                    disabled={addCategory.isPending}
+                  >
+                    <Plus className="mr-2 h-4 w-4" />
+                    Create "{typed}"
+                  </CommandItem>
+                </CommandGroup>
+                <CommandSeparator />
+              </>
+            ) : null}
+            <CommandGroup>
+              {!typed ? (
+                <CommandItem value="__none__" onSelect={() => choose("")}>
+                  <Check className={cn("mr-2 h-4 w-4", value ? "opacity-0" : "opacity-100")} />
+                  No category
+                </CommandItem>
+              ) : null}
+              {options.map(({ node, path }) => (
+                <CommandItem key={node.category.id} value={path} onSelect={() => choose(node.category.id)}>
+                  <Check className={cn("mr-2 h-4 w-4", value === node.category.id ? "opacity-100" : "opacity-0")} />
+                  {/* Indent by depth when browsing; show whole paths while searching */}
+                  <span style={typed ? undefined : { paddingLeft: `${node.depth}rem` }}>
+                    {typed ? path : node.category.name}
+                  </span>
+                </CommandItem>
+              ))}
+            </CommandGroup>
+          </CommandList>
+        </Command>
+      </PopoverContent>
+    </Popover>
+  );
+};
+
+export default CategoryPicker;
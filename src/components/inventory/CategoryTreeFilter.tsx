@@ -0,0 +1,95 @@
+import { useMemo, useState } from "react";
+import { useCategories, type Category } from "@/hooks/useCategories";
+import { Button } from "@/components/ui/button";
+import { buildCategoryTree, type CategoryNode } from "@/lib/categories";
+import { cn } from "@/lib/utils";
+import { ChevronDown, ChevronRight } from "lucide-react";
+
+export const ALL_CATEGORIES = "all";
+export const UNCATEGORISED = "none";
+
+interface CategoryTreeFilterProps {
+  value: string;
+  onChange: (value: string) => void;
+  /** Items filed directly under each category id; "" counts the uncategorised */
+  counts: Map<string, number>;
+}
+
+const CategoryTreeFilter = ({ value, onChange, counts }: CategoryTreeFilterProps) => {
+  const { data: categories } = useCategories();
+  const [collapsed, setCollapsed] = useState<Set<string>>(new Set());
+
+  const tree = useMemo(() => buildCategoryTree(categories ?? []), [categories]);
+
+  // A category's count includes everything filed beneath it
+  const totals = useMemo(() => {
+    const map = new Map<string, number>();
+    const total = (node: CategoryNode<Category>): number => {
+      const sum = node.children.reduce((acc, child) => acc + total(child), counts.get(node.category.id) ?? 0);
+      map.set(node.category.id, sum);
+      return sum;
+    };
+    tree.forEach(total);
+    return map;
+  }, [tree, counts]);
+
+  const toggle = (id: string) =>
+    setCollapsed((prev) => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+
+  const entry = (key: string, label: string, count: number) => (
+    <Button
+      variant="ghost"
+      size="sm"
+      className={cn("h-7 flex-1 justify-between px-2 font-normal", value === key && "bg-accent font-medium")}
+      onClick={() => onChange(key)}
+      aria-pressed={value === key}
+    >
+      <span className="truncate">{label}</span>
+      <span className="text-xs text-muted-foreground">{count}</span>
+    </Button>
+  );
+
+  const renderNode = (node: CategoryNode<Category>) => {
+    const { id, name } = node.category;
+    const open = !collapsed.has(id);
+    return (
+      <li key={id}>
+        <div className="flex items-center">
+          {node.children.length ? (
+            <Button
+              variant="ghost"
+              size="sm"
+              className="h-6 w-6 p-0"
+              style={{ marginLeft: `${node.depth}rem` }}
+              onClick={() => toggle(id)}
+              aria-label={`${open ? "Collapse" : "Expand"} ${name}`}
+            >
+              {open ? <ChevronDown className="h-4 w-4" /> : <ChevronRight className="h-4 w-4" />}
+            </Button>
+          ) : (
+            <span className="w-6 shrink-0" style={{ marginLeft: `${node.depth}rem` }} />
+          )}
+          {entry(id, name, totals.get(id) ?? 0)}
+        </div>
+        {open && node.children.length ? <ul>{node.children.map(renderNode)}</ul> : null}
+      </li>
+    );
+  };
+
+  const all = Array.from(counts.values()).reduce((sum, n) => sum + n, 0);
+
+  return (
+    <nav aria-label="Filter by category" className="space-y-1 text-sm">
+      <div className="flex">{entry(ALL_CATEGORIES, "All categories", all)}</div>
+      <ul>{tree.map(renderNode)}</ul>
+      {counts.get("") ? <div className="flex">{entry(UNCATEGORISED, "Uncategorised", counts.get("") ?? 0)}</div> : null}
+    </nav>
+  );
+};
+
+export default CategoryTreeFilter;
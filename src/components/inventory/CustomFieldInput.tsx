@@ -0,0 +1,56 @@
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import type { CustomField } from "@/hooks/useCustomFields";
+
+// Radix Select can't hold an empty value, so "no value" gets its own key
+const NO_VALUE = "__none__";
+
+interface CustomFieldInputProps {
+  field: CustomField;
+  /** Raw form input; see toCustomValue */
+  value: string;
+  onChange: (value: string) => void;
+  id?: string;
+  /** Label for the empty choice of select and yes/no fields */
+  blankLabel?: string;
+}
+
+const CustomFieldInput = ({ field, value, onChange, id, blankLabel = "Not set" }: CustomFieldInputProps) => {
+  if (field.field_type === "select" || field.field_type === "boolean") {
+    const choices =
+      field.field_type === "boolean"
+        ? [
+            { value: "true", label: "Yes" },
+            { value: "false", label: "No" },
+          ]
+        : field.options.map((option) => ({ value: option, label: option }));
+    return (
+      <Select value={value || NO_VALUE} onValueChange={(next) => onChange(next === NO_VALUE ? "" : next)}>
+        <SelectTrigger id={id} aria-label={field.name}>
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value={NO_VALUE}>{blankLabel}</SelectItem>
+          {choices.map((choice) => (
+            <SelectItem key={choice.value} value={choice.value}>
+              {choice.label}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    );
+  }
+
+  return (
+    <Input
+      id={id}
+      type={field.field_type === "number" ? "number" : field.field_type === "date" ? "date" : "text"}
+      inputMode={field.field_type === "number" ? "decimal" : undefined}
+      value={value}
+      onChange={(e) => onChange(e.target.value)}
+      aria-label={field.name}
+    />
+  );
+};
+
+export default CustomFieldInput;
@@ -0,0 +1,204 @@
+import { useState } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/hooks/useAuth";
+import { useToast } from "@/hooks/use-toast";
+import { useCustomFields } from "@/hooks/useCustomFields";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { CUSTOM_FIELD_TYPES, type CustomFieldType } from "@/lib/customFields";
+import { parseOptionValues } from "@/lib/variants";
+import { Plus, Trash2 } from "lucide-react";
+
+interface CustomFieldsDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+const typeLabel = (type: string) => CUSTOM_FIELD_TYPES.find((t) => t.value === type)?.label ?? type;
+
+const CustomFieldsDialog = ({ open, onOpenChange }: CustomFieldsDialogProps) => {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const { data: fields } = useCustomFields();
+
+  const [name, setName] = useState("");
+  const [fieldType, setFieldType] = useState<CustomFieldType>("text");
+  const [options, setOptions] = useState("");
+
+  const invalidateFields = () => queryClient.invalidateQueries({ queryKey: ["custom-fields"] });
+
+  const addField = useMutation({
+    mutationFn: async () => {
+      if (!user) throw new Error("Not authenticated");
+      if (!name.trim()) throw new Error("Name is required");
+      const choices = fieldType === "select" ? parseOptionValues(options) : [];
+      if (fieldType === "select" && !choices.length) throw new Error("List the options to choose from");
+
+      const { error } = await supabase.from("custom_fields").insert({
+        user_id: user.id,
+        name: name.trim(),
+        field_type: fieldType,
+        options: choices,
+      });
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      invalidateFields();
+      setName("");
+      setFieldType("text");
+      setOptions("");
+    },
+    onError: (err: Error) => {
+      toast({ title: "Add failed", description: err.message || "Could not add field.", variant: "destructive" });
+    },
+  });
+
+  const updateField = useMutation({
+    mutationFn: async ({ id, ...changes }: { id: string; show_in_table?: boolean; options?: string[] }) => {
+      const { error } = await supabase.from("custom_fields").update(changes).eq("id", id);
+      if (error) throw error;
+    },
+    onSuccess: invalidateFields,
+    onError: (err: Error) => {
+      toast({ title: "Update failed", description: err.message || "Could not update field.", variant: "destructive" });
+    },
+  });
+
+  const deleteField = useMutation({
+    mutationFn: async (id: string) => {
+      const { error } = await supabase.from("custom_fields").delete().eq("id", id);
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      invalidateFields();
+      // Deleting a field also clears its values from the items
+      queryClient.invalidateQueries({ queryKey: ["inventory-items"] });
+    },
+    onError: (err: Error) => {
+      toast({ title: "Delete failed", description: err.message || "Could not delete field.", variant: "destructive" });
+    },
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Custom fields</DialogTitle>
+          <DialogDescription>Track your own attributes on every item, such as material or HS code.</DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          {fields?.length ? (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Field</TableHead>
+                  <TableHead>Type</TableHead>
+                  <TableHead>Options</TableHead>
+                  <TableHead className="text-center">Column</TableHead>
+                  <TableHead />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {fields.map((f) => (
+                  <TableRow key={f.id}>
+                    <TableCell className="font-medium">{f.name}</TableCell>
+                    <TableCell>{typeLabel(f.field_type)}</TableCell>
+                    <TableCell>
+                      {f.field_type === "select" ? (
+                        <Input
+                          key={`${f.id}:${f.options.join(",")}`}
+                          defaultValue={f.options.join(", ")}
+                          onBlur={(e) => {
+                            const next = parseOptionValues(e.target.value);
+                            if (next.length && next.join(",") !== f.options.join(",")) {
+                              updateField.mutate({ id: f.id, options: next });
+                            }
+                          }}
+                          aria-label={`Options for ${f.name}`}
+                        />
+                      ) : (
+                        <span className="text-muted-foreground">-</span>
+                      )}
+                    </TableCell>
+                    <TableCell className="text-center">
+                      <Switch
+                        checked={f.show_in_table}
+                        onCheckedChange={(checked) => updateField.mutate({ id: f.id, show_in_table: checked })}
+                        aria-label={`Show ${f.name} as a column`}
+                      />
+                    </TableCell>
+                    <TableCell className="text-right">
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => {
+                          if (confirm(`Delete ${f.name}? Its values are cleared from every item.`)) deleteField.mutate(f.id);
+                        }}
+                        aria-label={`Delete ${f.name}`}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          ) : (
+            <p className="text-sm text-muted-foreground">No custom fields yet.</p>
+          )}
+
+          <div className="grid grid-cols-[1fr_9rem_auto] gap-2 items-end">
+            <div>
+              <Label htmlFor="custom_field_name">Name</Label>
+              <Input
+                id="custom_field_name"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                placeholder="e.g. Material"
+              />
+            </div>
+            <div>
+              <Label>Type</Label>
+              <Select value={fieldType} onValueChange={(v) => setFieldType(v as CustomFieldType)}>
+                <SelectTrigger aria-label="Field type">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {CUSTOM_FIELD_TYPES.map((t) => (
+                    <SelectItem key={t.value} value={t.value}>
+                      {t.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <Button onClick={() => addField.mutate()} disabled={addField.isPending}>
+              <Plus className="mr-2 h-4 w-4" /> Add
+            </Button>
+            {fieldType === "select" ? (
+              <div className="col-span-3">
+                <Label htmlFor="custom_field_options">Options</Label>
+                <Input
+                  id="custom_field_options"
+                  value={options}
+                  onChange={(e) => setOptions(e.target.value)}
+                  placeholder="e.g. Cotton, Wool, Linen"
+                />
+              </div>
+            ) : null}
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default CustomFieldsDialog;
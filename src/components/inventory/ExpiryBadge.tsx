@@ -0,0 +1,23 @@
+import { Badge } from "@/components/ui/badge";
+import { daysUntil, expiryStatus } from "@/lib/lots";
+
+interface ExpiryBadgeProps {
+  expiresOn: string | null;
+  windowDays?: number;
+}
+
+const ExpiryBadge = ({ expiresOn, windowDays = 30 }: ExpiryBadgeProps) => {
+  if (!expiresOn) return <Badge variant="outline">No expiry</Badge>;
+
+  const days = daysUntil(expiresOn);
+  switch (expiryStatus(expiresOn, windowDays)) {
+    case "expired":
+      return <Badge variant="destructive">Expired</Badge>;
+    case "expiring":
+      return <Badge variant="secondary">{days === 0 ? "Expires today" : `${days}d left`}</Badge>;
+    default:
+      return <Badge variant="outline">{days}d left</Badge>;
+  }
+};
+
+export default ExpiryBadge;
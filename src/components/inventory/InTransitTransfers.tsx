@@ -0,0 +1,112 @@
+import { useMemo } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { useToast } from "@/hooks/use-toast";
+import { useInTransitTransfers, useLocations } from "@/hooks/useLocations";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Truck } from "lucide-react";
+
+const InTransitTransfers = () => {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const { data: locations } = useLocations();
+  const { data: transfers } = useInTransitTransfers();
+
+  const locationNames = useMemo(
+    () => new Map(locations?.map((loc) => [loc.id, loc.name]) ?? []),
+    [locations]
+  );
+
+  const settle = useMutation({
+    mutationFn: async ({ id, action }: { id: string; action: "receive" | "cancel" }) => {
+      const { error } =
+        action === "receive"
+          ? await supabase.rpc("receive_transfer", { _transfer_id: id })
+          : await supabase.rpc("cancel_transfer", { _transfer_id: id });
+      if (error) throw error;
+      return action;
+    },
+    onSuccess: (action) => {
+      queryClient.invalidateQueries({ queryKey: ["inventory-items"] });
+      queryClient.invalidateQueries({ queryKey: ["stock-levels"] });
+      queryClient.invalidateQueries({ queryKey: ["stock-transfers"] });
+      toast({
+        title: action === "receive" ? "Transfer received" : "Transfer cancelled",
+        description: action === "receive" ? "Stock was added to the destination." : "Stock was returned to the source.",
+      });
+    },
+    onError: (err: Error) => {
+      toast({ title: "Update failed", description: err.message || "Could not update transfer.", variant: "destructive" });
+    },
+  });
+
+  if (!transfers?.length) return null;
+
+  return (
+    <Card className="mb-6">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2 text-lg">
+          <Truck className="h-5 w-5" /> In Transit
+        </CardTitle>
+        <CardDescription>Transfers that have left their source but not yet arrived</CardDescription>
+      </CardHeader>
+      <CardContent>
+        <div className="w-full overflow-x-auto">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Item</TableHead>
+                <TableHead>From</TableHead>
+                <TableHead>To</TableHead>
+                <TableHead className="text-right">Qty</TableHead>
+                <TableHead>Sent</TableHead>
+                <TableHead className="text-right">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {transfers.map((tr) => (
+                <TableRow key={tr.id}>
+                  <TableCell>
+                    <div className="font-medium">{tr.inventory_items?.name ?? "-"}</div>
+                    {tr.note ? <div className="text-sm text-muted-foreground">{tr.note}</div> : null}
+                  </TableCell>
+                  <TableCell>{locationNames.get(tr.from_location_id) ?? "-"}</TableCell>
+                  <TableCell>{locationNames.get(tr.to_location_id) ?? "-"}</TableCell>
+                  <TableCell className="text-right font-medium">{tr.quantity}</TableCell>
+                  <TableCell>{new Date(tr.created_at).toLocaleDateString()}</TableCell>
+                  <TableCell className="text-right">
+                    <div className="flex justify-end gap-2">
+                      <Button
+                        size="sm"
+                        onClick={() => settle.mutate({ id: tr.id, action: "receive" })}
+                        disabled={settle.isPending}
+                      >
+                        Receive
+                      </Button>
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => {
+                          if (confirm("Cancel this transfer and return the stock to its source?")) {
+                            settle.mutate({ id: tr.id, action: "cancel" });
+                          }
+                        }}
+                        disabled={settle.isPending}
+                      >
+                        Cancel
+                      </Button>
+                    </div>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default InTransitTransfers;
@@ -0,0 +1,200 @@
+import { useEffect, useMemo, useRef, useState } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/hooks/useAuth";
+import { useToast } from "@/hooks/use-toast";
+import { useImageUrls, useItemImages } from "@/hooks/useItemImages";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import ItemThumbnail from "@/components/inventory/ItemThumbnail";
+import { checkImage, IMAGE_TYPES, imagePaths, ITEM_IMAGES_BUCKET, makeThumbnail } from "@/lib/images";
+import { cn } from "@/lib/utils";
+import { ImageIcon, ImagePlus, Star, Trash2 } from "lucide-react";
+
+interface ItemImageGalleryProps {
+  itemId: string;
+  itemName: string;
+}
+
+const ItemImageGallery = ({ itemId, itemName }: ItemImageGalleryProps) => {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const fileInput = useRef<HTMLInputElement>(null);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+
+  const { data: allImages } = useItemImages();
+  const images = useMemo(() => allImages?.filter((image) => image.item_id === itemId) ?? [], [allImages, itemId]);
+  const selected = images.find((image) => image.id === selectedId) ?? images[0];
+  const { data: fullUrls } = useImageUrls(selected ? [selected.path] : []);
+
+  useEffect(() => {
+    setSelectedId(null);
+  }, [itemId]);
+
+  const upload = useMutation({
+    mutationFn: async (files: File[]) => {
+      if (!user) throw new Error("Not authenticated");
+      files.forEach(checkImage);
+
+      const storage = supabase.storage.from(ITEM_IMAGES_BUCKET);
+      let position = images.reduce((max, image) => Math.max(max, image.position), -1);
+      for (const file of files) {
+        const { path, thumbnailPath } = imagePaths(user.id, itemId, file);
+        const thumbnail = await makeThumbnail(file);
+
+        const { error: fileError } = await storage.upload(path, file, { contentType: file.type });
+        if (fileError) throw fileError;
+        const { error: thumbError } = await storage.upload(thumbnailPath, thumbnail, { contentType: "image/jpeg" });
+        if (thumbError) {
+          await storage.remove([path]);
+          throw thumbError;
+        }
+
+        position += 1;
+        const { error } = await supabase.from("item_images").insert({
+          user_id: user.id,
+          item_id: itemId,
+          path,
+          thumbnail_path: thumbnailPath,
+          position,
+        });
+        if (error) {
+          // Don't leave files behind that no row points to
+          await storage.remove([path, thumbnailPath]);
+          throw error;
+        }
+      }
+      return files.length;
+    },
+    onSuccess: (count) => {
+      toast({ title: count === 1 ? "Image added" : `${count} images added` });
+    },
+    onError: (err: Error) => {
+      toast({ title: "Upload failed", description: err.message || "Could not upload image.", variant: "destructive" });
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: ["item-images"] });
+      if (fileInput.current) fileInput.current.value = "";
+    },
+  });
+
+  const makeMain = useMutation({
+    mutationFn: async (id: string) => {
+      const first = images.reduce((min, image) => Math.min(min, image.position), 0);
+      const { error } = await supabase.from("item_images").update({ position: first - 1 }).eq("id", id);
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["item-images"] });
+    },
+    onError: (err: Error) => {
+      toast({ title: "Update failed", description: err.message || "Could not change the main image.", variant: "destructive" });
+    },
+  });
+
+  const remove = useMutation({
+    mutationFn: async (id: string) => {
+      const image = images.find((img) => img.id === id);
+      if (!image) throw new Error("Image not found");
+      const { error } = await supabase.from("item_images").delete().eq("id", id);
+      if (error) throw error;
+      await supabase.storage.from(ITEM_IMAGES_BUCKET).remove([image.path, image.thumbnail_path]);
+    },
+    onSuccess: () => {
+      setSelectedId(null);
+      queryClient.invalidateQueries({ queryKey: ["item-images"] });
+      toast({ title: "Image removed" });
+    },
+    onError: (err: Error) => {
+      toast({ title: "Delete failed", description: err.message || "Could not remove image.", variant: "destructive" });
+    },
+  });
+
+  const handleFiles = (fileList: FileList | null) => {
+    const files = Array.from(fileList ?? []);
+    if (files.length > 0) upload.mutate(files);
+  };
+
+  const fullUrl = selected ? fullUrls?.get(selected.path) : undefined;
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between space-y-0">
+        <div className="space-y-1.5">
+          <CardTitle className="text-2xl">Images</CardTitle>
+          <CardDescription>The main image is shown in the items table. JPEG, PNG, WebP or GIF up to 5 MB.</CardDescription>
+        </div>
+        <input
+          ref={fileInput}
+          type="file"
+          accept={IMAGE_TYPES.join(",")}
+          multiple
+          className="hidden"
+          onChange={(e) => handleFiles(e.target.files)}
+        />
+        <Button variant="outline" onClick={() => fileInput.current?.click()} disabled={upload.isPending}>
+          <ImagePlus className="h-4 w-4 mr-2" />
+          {upload.isPending ? "Uploading..." : "Add Images"}
+        </Button>
+      </CardHeader>
+      <CardContent>
+        {!selected ? (
+          <div className="flex flex-col items-center justify-center gap-2 rounded border border-dashed py-12 text-muted-foreground">
+            <ImageIcon className="h-8 w-8" />
+            <p>No images yet</p>
+          </div>
+        ) : (
+          <div className="space-y-4">
+            <div className="flex h-80 items-center justify-center overflow-hidden rounded border bg-muted">
+              {fullUrl ? (
+                <img src={fullUrl} alt={itemName} className="max-h-full max-w-full object-contain" />
+              ) : (
+                <p className="text-muted-foreground">Loading...</p>
+              )}
+            </div>
+            <div className="flex items-center justify-between gap-2">
+              <div className="flex flex-wrap gap-2">
+                {images.map((image, index) => (
+                  <button
+                    key={image.id}
+                    type="button"
+                    onClick={() => setSelectedId(image.id)}
+                    className={cn("rounded", image.id === selected.id && "ring-2 ring-primary ring-offset-2")}
+                    title={index === 0 ? "Main image" : undefined}
+                  >
+                    <ItemThumbnail url={image.thumbnailUrl} name={itemName} className="h-16 w-16" />
+                  </button>
+                ))}
+              </div>
+              <div className="flex gap-2">
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => makeMain.mutate(selected.id)}
+                  disabled={selected.id === images[0].id || makeMain.isPending}
+                >
+                  <Star className="h-4 w-4 mr-2" />
+                  Make Main
+                </Button>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => {
+                    if (confirm("Remove this image?")) remove.mutate(selected.id);
+                  }}
+                  disabled={remove.isPending}
+                >
+                  <Trash2 className="h-4 w-4 mr-2" />
+                  Remove
+                </Button>
+              </div>
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default ItemImageGallery;
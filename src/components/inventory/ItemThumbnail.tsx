@@ -0,0 +1,25 @@
+import { cn } from "@/lib/utils";
+import { ImageIcon } from "lucide-react";
+
+interface ItemThumbnailProps {
+  url?: string | null;
+  name: string;
+  className?: string;
+}
+
+const ItemThumbnail = ({ url, name, className }: ItemThumbnailProps) => (
+  <div
+    className={cn(
+      "h-10 w-10 shrink-0 overflow-hidden rounded border bg-muted flex items-center justify-center",
+      className
+    )}
+  >
+    {url ? (
+      <img src={url} alt={name} loading="lazy" className="h-full w-full object-cover" />
+    ) : (
+      <ImageIcon className="h-4 w-4 text-muted-foreground" />
+    )}
+  </div>
+);
+
+export default ItemThumbnail;
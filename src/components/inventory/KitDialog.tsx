@@ -0,0 +1,310 @@
+import { useEffect, useMemo, useState } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/hooks/useAuth";
+import { useToast } from "@/hooks/use-toast";
+import { useInventoryItems } from "@/hooks/useInventoryItems";
+import { useKitComponents } from "@/hooks/useKits";
+import { useLocations, useStockLevels } from "@/hooks/useLocations";
+import { useUnits } from "@/hooks/useUnits";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Separator } from "@/components/ui/separator";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { buildableKits } from "@/lib/kits";
+import { isParentItem } from "@/lib/variants";
+import { formatQuantity, quantityStep } from "@/lib/units";
+import { Plus, Trash2 } from "lucide-react";
+
+interface KitDialogProps {
+  item: { id: string; name: string } | null;
+  defaultLocationId?: string;
+  onOpenChange: (open: boolean) => void;
+}
+
+type BuildDirection = "assemble" | "disassemble";
+
+const KitDialog = ({ item, defaultLocationId, onOpenChange }: KitDialogProps) => {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const { data: items } = useInventoryItems();
+  const { data: allComponents } = useKitComponents();
+  const { data: locations } = useLocations();
+  const { data: stockLevels } = useStockLevels();
+  const { data: units } = useUnits();
+
+  const [componentId, setComponentId] = useState("");
+  const [componentQty, setComponentQty] = useState<number>(1);
+  const [locationId, setLocationId] = useState("");
+  const [buildQty, setBuildQty] = useState<number>(1);
+
+  // Reset the form whenever a different item is opened
+  useEffect(() => {
+    if (!item) return;
+    setComponentId("");
+    setComponentQty(1);
+    setLocationId(defaultLocationId || locations?.find((l) => l.is_default)?.id || "");
+    setBuildQty(1);
+  }, [item, defaultLocationId, locations]);
+
+  const components = useMemo(
+    () => allComponents?.filter((c) => c.kit_id === item?.id) ?? [],
+    [allComponents, item]
+  );
+  const itemNames = useMemo(() => new Map(items?.map((it) => [it.id, it.name]) ?? []), [items]);
+  // Component quantities are in each component's own base unit
+  const unitOf = (itemId: string) => {
+    const unitId = items?.find((it) => it.id === itemId)?.unit_id;
+    return units?.find((u) => u.id === unitId);
+  };
+  const usedAsComponent = allComponents?.some((c) => c.component_id === item?.id) ?? false;
+
+  // Kits are one level deep, so other kits can't be picked as components
+  const candidates =
+    items?.filter(
+      (it) =>
+        it.id !== item?.id &&
+        !isParentItem(it) &&
+        !allComponents?.some((c) => c.kit_id === it.id) &&
+        !components.some((c) => c.component_id === it.id)
+    ) ?? [];
+
+  const onHandAt = (itemId: string) =>
+    stockLevels?.find((lvl) => lvl.item_id === itemId && lvl.location_id === locationId)?.quantity ?? 0;
+  const buildable = buildableKits(components, onHandAt);
+
+  const invalidateComponents = () => queryClient.invalidateQueries({ queryKey: ["kit-components"] });
+
+  const addComponent = useMutation({
+    mutationFn: async () => {
+      if (!user) throw new Error("Not authenticated");
+      if (!item) throw new Error("No item selected");
+      if (!componentId) throw new Error("Choose a component");
+      if (!Number.isFinite(componentQty) || componentQty <= 0) throw new Error("Quantity must be positive");
+
+      const { error } = await supabase.from("kit_components").insert({
+        user_id: user.id,
+        kit_id: item.id,
+        component_id: componentId,
+        quantity: componentQty,
+      });
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      invalidateComponents();
+      setComponentId("");
+      setComponentQty(1);
+    },
+    onError: (err: Error) => {
+      toast({ title: "Add failed", description: err.message || "Could not add component.", variant: "destructive" });
+    },
+  });
+
+  const updateComponent = useMutation({
+    mutationFn: async ({ id, quantity }: { id: string; quantity: number }) => {
+      const { error } = await supabase.from("kit_components").update({ quantity }).eq("id", id);
+      if (error) throw error;
+    },
+    onSuccess: invalidateComponents,
+    onError: (err: Error) => {
+      toast({ title: "Update failed", description: err.message || "Could not update component.", variant: "destructive" });
+    },
+  });
+
+  const removeComponent = useMutation({
+    mutationFn: async (id: string) => {
+      const { error } = await supabase.from("kit_components").delete().eq("id", id);
+      if (error) throw error;
+    },
+    onSuccess: invalidateComponents,
+    onError: (err: Error) => {
+      toast({ title: "Remove failed", description: err.message || "Could not remove component.", variant: "destructive" });
+    },
+  });
+
+  const build = useMutation({
+    mutationFn: async (direction: BuildDirection) => {
+      if (!item) throw new Error("No item selected");
+      if (!Number.isFinite(buildQty) || buildQty <= 0) throw new Error("Quantity must be positive");
+
+      const { data, error } = await supabase.rpc(direction === "assemble" ? "assemble_kit" : "disassemble_kit", {
+        _kit_id: item.id,
+        _quantity: buildQty,
+        _location_id: locationId || undefined,
+      });
+      if (error) throw error;
+      return data;
+    },
+    onSuccess: (assembly) => {
+      queryClient.invalidateQueries({ queryKey: ["inventory-items"] });
+      queryClient.invalidateQueries({ queryKey: ["stock-levels"] });
+      toast({
+        title: assembly.direction === "assemble" ? "Kits assembled" : "Kits disassembled",
+        description: `${assembly.quantity} × ${item?.name}`,
+      });
+    },
+    onError: (err: Error) => {
+      toast({ title: "Build failed", description: err.message || "Could not build kits.", variant: "destructive" });
+    },
+  });
+
+  return (
+    <Dialog open={!!item} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Kit: {item?.name}</DialogTitle>
+          <DialogDescription>Define the components that make up one kit, then assemble or break kits down.</DialogDescription>
+        </DialogHeader>
+
+        {usedAsComponent ? (
+          <p className="text-sm text-muted-foreground">
+            {item?.name} is a component of another kit, so it can't have components of its own.
+          </p>
+        ) : (
+          <div className="space-y-4">
+            {components.length ? (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Component</TableHead>
+                    <TableHead className="text-right">Per Kit</TableHead>
+                    <TableHead className="text-right">On Hand Here</TableHead>
+                    <TableHead />
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {components.map((c) => (
+                    <TableRow key={c.id}>
+                      <TableCell>{itemNames.get(c.component_id) ?? "Unknown item"}</TableCell>
+                      <TableCell>
+                        <Input
+                          key={`${c.id}:${c.quantity}`}
+                          type="number"
+                          inputMode={unitOf(c.component_id)?.decimal_places ? "decimal" : "numeric"}
+                          min={0}
+                          step={quantityStep(unitOf(c.component_id))}
+                          defaultValue={c.quantity}
+                          onBlur={(e) => {
+                            const next = parseFloat(e.target.value || "0");
+                            if (Number.isFinite(next) && next > 0 && next !== c.quantity) {
+                              updateComponent.mutate({ id: c.id, quantity: next });
+                            }
+                          }}
+                          className="w-20 ml-auto text-right"
+                          aria-label={`Quantity of ${itemNames.get(c.component_id)} per kit`}
+                        />
+                      </TableCell>
+                      <TableCell className="text-right">{formatQuantity(onHandAt(c.component_id), unitOf(c.component_id))}</TableCell>
+                      <TableCell className="text-right">
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => removeComponent.mutate(c.id)}
+                          aria-label={`Remove ${itemNames.get(c.component_id)}`}
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            ) : (
+              <p className="text-sm text-muted-foreground">No components yet. Add the items this kit is built from.</p>
+            )}
+
+            <div className="grid grid-cols-[1fr_6rem_auto] gap-2 items-end">
+              <div>
+                <Label>Component</Label>
+                <Select value={componentId} onValueChange={setComponentId}>
+                  <SelectTrigger aria-label="Component item">
+                    <SelectValue placeholder="Choose item" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {candidates.map((it) => (
+                      <SelectItem key={it.id} value={it.id}>
+                        {it.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div>
+                <Label htmlFor="kit_component_qty">Per Kit</Label>
+                <Input
+                  id="kit_component_qty"
+                  type="number"
+                  inputMode={unitOf(componentId)?.decimal_places ? "decimal" : "numeric"}
+                  min={0}
+                  step={quantityStep(unitOf(componentId))}
+                  value={componentQty}
+                  onChange={(e) => setComponentQty(parseFloat(e.target.value || "0"))}
+                />
+              </div>
+              <Button variant="outline" onClick={() => addComponent.mutate()} disabled={addComponent.isPending}>
+                <Plus className="mr-2 h-4 w-4" /> Add
+              </Button>
+            </div>
+
+            <Separator />
+
+            <div className="grid grid-cols-[1fr_6rem] gap-2 items-end">
+              <div>
+                <Label>Location</Label>
+                <Select value={locationId} onValueChange={setLocationId}>
+                  <SelectTrigger aria-label="Build location">
+                    <SelectValue placeholder="Choose location" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {locations?.map((loc) => (
+                      <SelectItem key={loc.id} value={loc.id}>
+                        {loc.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div>
+                <Label htmlFor="kit_build_qty">Kits</Label>
+                <Input
+                  id="kit_build_qty"
+                  type="number"
+                  inputMode="numeric"
+                  min={1}
+                  value={buildQty}
+                  onChange={(e) => setBuildQty(parseInt(e.target.value || "0", 10))}
+                />
+              </div>
+            </div>
+            <div className="flex items-center justify-between">
+              <p className="text-sm text-muted-foreground">
+                {components.length ? `Components here are enough for ${buildable} kit${buildable === 1 ? "" : "s"}.` : null}
+              </p>
+              <div className="flex gap-2">
+                <Button
+                  variant="outline"
+                  onClick={() => build.mutate("disassemble")}
+                  disabled={build.isPending || !components.length || onHandAt(item?.id ?? "") < 1}
+                >
+                  Disassemble
+                </Button>
+                <Button
+                  onClick={() => build.mutate("assemble")}
+                  disabled={build.isPending || !components.length || buildable < 1}
+                >
+                  Assemble
+                </Button>
+              </div>
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default KitDialog;
@@ -0,0 +1,113 @@
+import { useState } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/hooks/useAuth";
+import { useToast } from "@/hooks/use-toast";
+import { useLocations } from "@/hooks/useLocations";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectSeparator, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { MapPin, Plus } from "lucide-react";
+
+export const ALL_LOCATIONS = "all";
+
+interface LocationPickerProps {
+  value: string;
+  onChange: (value: string) => void;
+}
+
+const LocationPicker = ({ value, onChange }: LocationPickerProps) => {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const { data: locations } = useLocations();
+
+  const [open, setOpen] = useState(false);
+  const [name, setName] = useState("");
+
+  const addLocation = useMutation({
+    mutationFn: async () => {
+      if (!user) throw new Error("Not authenticated");
+      if (!name.trim()) throw new Error("Name is required");
+
+      const { data, error } = await supabase
+        .from("locations")
+        .insert({ user_id: user.id, name: name.trim(), is_default: !locations?.length })
+        .select()
+        .single();
+      if (error) throw error;
+      return data;
+    },
+    onSuccess: (location) => {
+      queryClient.invalidateQueries({ queryKey: ["locations"] });
+      setName("");
+      setOpen(false);
+      onChange(location.id);
+      toast({ title: "Location added", description: `${location.name} is ready to hold stock.` });
+    },
+    onError: (err: Error) => {
+      toast({ title: "Add failed", description: err.message || "Could not add location.", variant: "destructive" });
+    },
+  });
+
+  return (
+    <div className="flex items-center gap-2">
+      <Select value={value} onValueChange={onChange}>
+        <SelectTrigger className="w-48" aria-label="Location">
+          <MapPin className="h-4 w-4 mr-2 text-muted-foreground" />
+          <SelectValue placeholder="All locations" />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value={ALL_LOCATIONS}>All locations</SelectItem>
+          {locations?.length ? <SelectSeparator /> : null}
+          {locations?.map((loc) => (
+            <SelectItem key={loc.id} value={loc.id}>
+              {loc.name}
+              {loc.is_default ? " (default)" : ""}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+
+      <Dialog open={open} onOpenChange={setOpen}>
+        <DialogTrigger asChild>
+          <Button variant="outline" size="icon" aria-label="Add location">
+            <Plus className="h-4 w-4" />
+          </Button>
+        </DialogTrigger>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>New location</DialogTitle>
+            <DialogDescription>Add a place where you keep stock, such as a back room or a van.</DialogDescription>
+          </DialogHeader>
+          <div>
+            <Label htmlFor="location_name">Name</Label>
+            <Input
+              id="location_name"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="e.g. Back Room"
+            />
+          </div>
+          <DialogFooter>
+            <Button onClick={() => addLocation.mutate()} disabled={addLocation.isPending}>
+              Add Location
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
+
+export default LocationPicker;
@@ -0,0 +1,179 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/hooks/useAuth";
+import { useToast } from "@/hooks/use-toast";
+import { useCurrency } from "@/hooks/useCurrency";
+import { usePriceHistory, type PriceChange } from "@/hooks/usePriceHistory";
+import type { InventoryItem } from "@/hooks/useInventoryItems";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { formatMoney, isCurrencyCode } from "@/lib/currency";
+import { formatPercent, marginPercent, markupPercent } from "@/lib/pricing";
+
+interface PriceDialogProps {
+  item: InventoryItem | null;
+  onOpenChange: (open: boolean) => void;
+}
+
+const PRICE_TYPE_LABELS: Record<string, string> = {
+  cost: "Cost",
+  sale: "Selling",
+};
+
+const toPrice = (value: string) => (value.trim() ? Number(parseFloat(value).toFixed(2)) : null);
+
+const PriceDialog = ({ item, onOpenChange }: PriceDialogProps) => {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const { baseCurrency } = useCurrency();
+  const { data: history } = usePriceHistory(item?.id);
+
+  const [costPrice, setCostPrice] = useState("");
+  const [unitPrice, setUnitPrice] = useState("");
+  const [currency, setCurrency] = useState("");
+
+  // Reset the form whenever a different item is opened
+  useEffect(() => {
+    if (!item) return;
+    setCostPrice(item.cost_price != null ? String(item.cost_price) : "");
+    setUnitPrice(item.unit_price != null ? String(item.unit_price) : "");
+    setCurrency(item.currency);
+  }, [item]);
+
+  const draft = { cost_price: toPrice(costPrice), unit_price: toPrice(unitPrice) };
+
+  const savePrices = useMutation({
+    mutationFn: async () => {
+      if (!item) throw new Error("No item selected");
+      const code = (currency.trim() || baseCurrency).toUpperCase();
+      if (!isCurrencyCode(code)) throw new Error("Currency must be a 3-letter code, e.g. USD");
+      if ((draft.cost_price ?? 0) < 0 || (draft.unit_price ?? 0) < 0) throw new Error("Prices can't be negative");
+
+      const { error } = await supabase
+        .from("inventory_items")
+        .update({ ...draft, currency: code })
+        .eq("id", item.id);
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["inventory-items"] });
+      queryClient.invalidateQueries({ queryKey: ["price-history", item?.id] });
+      onOpenChange(false);
+      toast({ title: "Prices saved", description: `${item?.name} has been repriced.` });
+    },
+    onError: (err: Error) => {
+      toast({ title: "Save failed", description: err.message || "Could not save prices.", variant: "destructive" });
+    },
+  });
+
+  // History only keeps who made a change, and we can only name ourselves
+  const changedBy = (change: PriceChange) =>
+    !change.changed_by ? "Not recorded" : change.changed_by === user?.id ? user.email ?? "You" : "Another user";
+
+  const money = (amount: number | null, code: string) => (amount != null ? formatMoney(amount, code) : "none");
+
+  return (
+    <Dialog open={!!item} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Prices</DialogTitle>
+          <DialogDescription>What {item?.name} costs you and what you sell it for.</DialogDescription>
+        </DialogHeader>
+        <div className="grid grid-cols-3 gap-4">
+          <div>
+            <Label htmlFor="price_cost">Cost Price</Label>
+            <Input
+              id="price_cost"
+              type="number"
+              inputMode="decimal"
+              min={0}
+              step="0.01"
+              value={costPrice}
+              onChange={(e) => setCostPrice(e.target.value)}
+              placeholder="e.g. 8.50"
+            />
+          </div>
+          <div>
+            <Label htmlFor="price_sale">Selling Price</Label>
+            <Input
+              id="price_sale"
+              type="number"
+              inputMode="decimal"
+              min={0}
+              step="0.01"
+              value={unitPrice}
+              onChange={(e) => setUnitPrice(e.target.value)}
+              placeholder="e.g. 19.99"
+            />
+          </div>
+          <div>
+            <Label htmlFor="price_currency">Currency</Label>
+            <Input
+              id="price_currency"
+              value={currency}
+              onChange={(e) => setCurrency(e.target.value)}
+              maxLength={3}
+              placeholder={baseCurrency}
+            />
+          </div>
+        </div>
+        <p className="text-sm text-muted-foreground">
+          Margin {formatPercent(marginPercent(draft))} · Markup {formatPercent(markupPercent(draft))}
+        </p>
+
+        <div>
+          <h3 className="font-semibold mb-2">History</h3>
+          {history?.length ? (
+            <div className="max-h-64 overflow-y-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>When</TableHead>
+                    <TableHead>Price</TableHead>
+                    <TableHead>Change</TableHead>
+                    <TableHead>By</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {history.map((change) => (
+                    <TableRow key={change.id}>
+                      <TableCell>{new Date(change.created_at).toLocaleString()}</TableCell>
+                      <TableCell>{PRICE_TYPE_LABELS[change.price_type] ?? change.price_type}</TableCell>
+                      <TableCell>
+                        {change.old_price != null ? `${money(change.old_price, change.currency)} → ` : ""}
+                        {money(change.new_price, change.currency)}
+                      </TableCell>
+                      <TableCell>{changedBy(change)}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          ) : (
+            <p className="text-sm text-muted-foreground">No price changes recorded yet.</p>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button onClick={() => savePrices.mutate()} disabled={savePrices.isPending}>
+            Save Prices
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default PriceDialog;
@@ -0,0 +1,166 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { useToast } from "@/hooks/use-toast";
+import { useUnits } from "@/hooks/useUnits";
+import type { InventoryItem } from "@/hooks/useInventoryItems";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { quantityStep } from "@/lib/units";
+
+interface ReorderDialogProps {
+  item: InventoryItem | null;
+  onOpenChange: (open: boolean) => void;
+}
+
+const toQuantity = (value: string) => (value.trim() ? parseFloat(value) : null);
+
+const ReorderDialog = ({ item, onOpenChange }: ReorderDialogProps) => {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const { data: units } = useUnits();
+
+  const [reorderPoint, setReorderPoint] = useState("");
+  const [reorderQuantity, setReorderQuantity] = useState("");
+  const [maxLevel, setMaxLevel] = useState("");
+  const [leadTime, setLeadTime] = useState("");
+
+  // Reset the form whenever a different item is opened
+  useEffect(() => {
+    if (!item) return;
+    setReorderPoint(item.reorder_point != null ? String(item.reorder_point) : "");
+    setReorderQuantity(item.reorder_quantity != null ? String(item.reorder_quantity) : "");
+    setMaxLevel(item.max_stock_level != null ? String(item.max_stock_level) : "");
+    setLeadTime(item.lead_time_days != null ? String(item.lead_time_days) : "");
+  }, [item]);
+
+  const unit = units?.find((u) => u.id === item?.unit_id);
+  const symbol = unit?.symbol ?? "ea";
+  const step = quantityStep(unit);
+
+  const saveSettings = useMutation({
+    mutationFn: async () => {
+      if (!item) throw new Error("No item selected");
+      const draft = {
+        reorder_point: toQuantity(reorderPoint),
+        reorder_quantity: toQuantity(reorderQuantity),
+        max_stock_level: toQuantity(maxLevel),
+      };
+      if (Object.values(draft).some((v) => v !== null && (!Number.isFinite(v) || v < 0))) {
+        throw new Error("Quantities can't be negative");
+      }
+      const leadTimeDays = leadTime.trim() ? parseInt(leadTime, 10) : null;
+      if (leadTimeDays !== null && (!Number.isFinite(leadTimeDays) || leadTimeDays < 0)) {
+        throw new Error("Lead time must be a whole number of days");
+      }
+      if (draft.reorder_quantity === 0 || draft.max_stock_level === 0) {
+        throw new Error("Reorder quantity and max level must be above zero");
+      }
+      if (draft.reorder_point !== null && draft.reorder_quantity === null && draft.max_stock_level === null) {
+        throw new Error("Set a reorder quantity or a max level to go with the reorder point");
+      }
+      if (draft.max_stock_level !== null && draft.reorder_point !== null && draft.max_stock_level <= draft.reorder_point) {
+        throw new Error("The max level must be above the reorder point");
+      }
+
+      const { error } = await supabase
+        .from("inventory_items")
+        .update({ ...draft, lead_time_days: leadTimeDays })
+        .eq("id", item.id);
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["inventory-items"] });
+      onOpenChange(false);
+      toast({ title: "Reorder settings saved", description: `${item?.name} will be suggested for reorder at its reorder point.` });
+    },
+    onError: (err: Error) => {
+      toast({ title: "Save failed", description: err.message || "Could not save reorder settings.", variant: "destructive" });
+    },
+  });
+
+  return (
+    <Dialog open={!!item} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Reorder Settings</DialogTitle>
+          <DialogDescription>
+            When {item?.name} falls to the reorder point it is suggested for reordering, less anything already on order.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="grid grid-cols-3 gap-4">
+          <div>
+            <Label htmlFor="reorder_point">Reorder Point ({symbol})</Label>
+            <Input
+              id="reorder_point"
+              type="number"
+              inputMode={step < 1 ? "decimal" : "numeric"}
+              min={0}
+              step={step}
+              value={reorderPoint}
+              onChange={(e) => setReorderPoint(e.target.value)}
+              placeholder="Off"
+            />
+          </div>
+          <div>
+            <Label htmlFor="reorder_quantity">Reorder Quantity ({symbol})</Label>
+            <Input
+              id="reorder_quantity"
+              type="number"
+              inputMode={step < 1 ? "decimal" : "numeric"}
+              min={0}
+              step={step}
+              value={reorderQuantity}
+              onChange={(e) => setReorderQuantity(e.target.value)}
+            />
+          </div>
+          <div>
+            <Label htmlFor="max_stock_level">Max Level ({symbol})</Label>
+            <Input
+              id="max_stock_level"
+              type="number"
+              inputMode={step < 1 ? "decimal" : "numeric"}
+              min={0}
+              step={step}
+              value={maxLevel}
+              onChange={(e) => setMaxLevel(e.target.value)}
+            />
+          </div>
+        </div>
+        <div className="w-1/3 pr-3">
+          <Label htmlFor="lead_time_days">Lead Time (days)</Label>
+          <Input
+            id="lead_time_days"
+            type="number"
+            inputMode="numeric"
+            min={0}
+            step={1}
+            value={leadTime}
+            onChange={(e) => setLeadTime(e.target.value)}
+            placeholder="Supplier's"
+          />
+        </div>
+        <p className="text-sm text-muted-foreground">
+          With a max level, suggestions refill stock up to it; otherwise they order the reorder quantity. Leave the reorder
+          point empty to stop suggesting this item. Without a lead time, the preferred supplier's is used for forecasts.
+        </p>
+        <DialogFooter>
+          <Button onClick={() => saveSettings.mutate()} disabled={saveSettings.isPending}>
+            Save Settings
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ReorderDialog;
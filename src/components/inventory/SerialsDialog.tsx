@@ -0,0 +1,201 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { useToast } from "@/hooks/use-toast";
+import { useLocations } from "@/hooks/useLocations";
+import { useSerialNumbers } from "@/hooks/useSerials";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import AdjustmentReasonSelect from "@/components/inventory/AdjustmentReasonSelect";
+import { parseSerials } from "@/lib/serials";
+
+export type SerialsMode = "receive" | "remove";
+
+interface SerialsDialogProps {
+  item: { id: string; name: string; currency?: string } | null;
+  mode: SerialsMode;
+  defaultLocationId?: string;
+  onOpenChange: (open: boolean) => void;
+}
+
+const SerialsDialog = ({ item, mode, defaultLocationId, onOpenChange }: SerialsDialogProps) => {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const { data: locations } = useLocations();
+  const { data: serialNumbers } = useSerialNumbers();
+
+  const [raw, setRaw] = useState("");
+  const [locationId, setLocationId] = useState("");
+  const [reasonCode, setReasonCode] = useState("");
+  const [note, setNote] = useState("");
+  const [unitCost, setUnitCost] = useState("");
+
+  // Reset the form whenever a different item is opened
+  useEffect(() => {
+    if (!item) return;
+    setRaw("");
+    setLocationId(defaultLocationId || locations?.find((l) => l.is_default)?.id || "");
+    setReasonCode("");
+    setNote("");
+    setUnitCost("");
+  }, [item, mode, defaultLocationId, locations]);
+
+  const serials = parseSerials(raw);
+  const inStock =
+    serialNumbers?.filter(
+      (s) => s.item_id === item?.id && s.status === "in_stock" && (!defaultLocationId || s.location_id === defaultLocationId)
+    ) ?? [];
+
+  const addSerial = (serial: string) => {
+    if (!serials.includes(serial)) setRaw((prev) => (prev.trim() ? `${prev.trim()}\n${serial}` : serial));
+  };
+
+  const submit = useMutation({
+    mutationFn: async () => {
+      if (!item) throw new Error("No item selected");
+      if (!serials.length) throw new Error("Enter at least one serial number");
+      const cost = unitCost.trim() ? parseFloat(unitCost) : undefined;
+      if (cost !== undefined && (!Number.isFinite(cost) || cost < 0)) throw new Error("Unit cost can't be negative");
+      if (mode === "remove" && !reasonCode) throw new Error("Choose a reason for the adjustment");
+
+      const { data, error } =
+        mode === "receive"
+          ? await supabase.rpc("receive_serials", {
+              _item_id: item.id,
+              _serials: serials,
+              _location_id: locationId || undefined,
+              _note: note.trim() || undefined,
+              _unit_cost: cost,
+            })
+          : await supabase.rpc("remove_serials", {
+              _item_id: item.id,
+              _serials: serials,
+              _reason_code: reasonCode,
+              _note: note.trim() || undefined,
+            });
+      if (error) throw error;
+      return data;
+    },
+    onSuccess: (rows) => {
+      queryClient.invalidateQueries({ queryKey: ["inventory-items"] });
+      queryClient.invalidateQueries({ queryKey: ["stock-levels"] });
+      queryClient.invalidateQueries({ queryKey: ["serial-numbers"] });
+      onOpenChange(false);
+      toast({
+        title: mode === "receive" ? "Units received" : "Units removed",
+        description: `${rows.length} × ${item?.name}`,
+      });
+    },
+    onError: (err: Error) => {
+      toast({ title: "Update failed", description: err.message || "Could not update stock.", variant: "destructive" });
+    },
+  });
+
+  return (
+    <Dialog open={!!item} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>{mode === "receive" ? "Receive units" : "Remove units"}</DialogTitle>
+          <DialogDescription>
+            {item?.name} is serialized. Type or scan one serial number per line.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4">
+          <div>
+            <Label htmlFor="serials_input">Serial Numbers</Label>
+            <Textarea
+              id="serials_input"
+              rows={5}
+              value={raw}
+              onChange={(e) => setRaw(e.target.value)}
+              placeholder={"SN-0001\nSN-0002"}
+              autoFocus
+            />
+            <p className="text-sm text-muted-foreground mt-1">
+              {serials.length} unit{serials.length === 1 ? "" : "s"}
+            </p>
+          </div>
+          {mode === "receive" ? (
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <Label>Location</Label>
+                <Select value={locationId} onValueChange={setLocationId}>
+                  <SelectTrigger aria-label="Receiving location">
+                    <SelectValue placeholder="Default location" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {locations?.map((loc) => (
+                      <SelectItem key={loc.id} value={loc.id}>
+                        {loc.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div>
+                <Label htmlFor="serials_unit_cost">Unit Cost{item?.currency ? ` (${item.currency})` : ""}</Label>
+                <Input
+                  id="serials_unit_cost"
+                  type="number"
+                  inputMode="decimal"
+                  min={0}
+                  step="0.01"
+                  value={unitCost}
+                  onChange={(e) => setUnitCost(e.target.value)}
+                  placeholder="Item's cost price"
+                />
+              </div>
+            </div>
+          ) : (
+            <>
+              {inStock.length ? (
+                <div>
+                  <Label>In Stock</Label>
+                  <div className="flex flex-wrap gap-1 mt-1">
+                    {inStock.map((s) => (
+                      <button key={s.id} type="button" onClick={() => addSerial(s.serial)}>
+                        <Badge variant={serials.includes(s.serial) ? "default" : "outline"}>{s.serial}</Badge>
+                      </button>
+                    ))}
+                  </div>
+                </div>
+              ) : null}
+              <div>
+                <Label>Reason</Label>
+                <AdjustmentReasonSelect value={reasonCode} onChange={setReasonCode} />
+              </div>
+            </>
+          )}
+          <div>
+            <Label htmlFor="serials_note">Note</Label>
+            <Input
+              id="serials_note"
+              value={note}
+              onChange={(e) => setNote(e.target.value)}
+              placeholder={mode === "receive" ? "Optional, e.g. returned by customer" : "Optional, e.g. damaged"}
+            />
+          </div>
+        </div>
+        <DialogFooter>
+          <Button onClick={() => submit.mutate()} disabled={submit.isPending || !serials.length || (mode === "remove" && !reasonCode)}>
+            {mode === "receive" ? "Receive" : "Remove"} {serials.length || ""}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default SerialsDialog;
@@ -0,0 +1,212 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { useToast } from "@/hooks/use-toast";
+import { useLocations, useStockLevels } from "@/hooks/useLocations";
+import { useUnits } from "@/hooks/useUnits";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { parseSerials } from "@/lib/serials";
+import { formatQuantity, quantityStep } from "@/lib/units";
+
+interface TransferDialogProps {
+  item: { id: string; name: string; is_serialized?: boolean; unit_id?: string } | null;
+  defaultFromLocationId?: string;
+  onOpenChange: (open: boolean) => void;
+}
+
+const TransferDialog = ({ item, defaultFromLocationId, onOpenChange }: TransferDialogProps) => {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const { data: locations } = useLocations();
+  const { data: stockLevels } = useStockLevels();
+  const { data: units } = useUnits();
+
+  const [fromId, setFromId] = useState("");
+  const [toId, setToId] = useState("");
+  const [quantity, setQuantity] = useState<number>(1);
+  const [inTransit, setInTransit] = useState(false);
+  const [note, setNote] = useState("");
+  const [rawSerials, setRawSerials] = useState("");
+
+  // Reset the form whenever a different item is opened
+  useEffect(() => {
+    if (!item) return;
+    setFromId(defaultFromLocationId || locations?.find((l) => l.is_default)?.id || "");
+    setToId("");
+    setQuantity(1);
+    setInTransit(false);
+    setNote("");
+    setRawSerials("");
+  }, [item, defaultFromLocationId, locations]);
+
+  const serialized = !!item?.is_serialized;
+  const unit = units?.find((u) => u.id === item?.unit_id);
+  const serials = parseSerials(rawSerials);
+
+  const onHand =
+    stockLevels?.find((lvl) => lvl.item_id === item?.id && lvl.location_id === fromId)?.quantity ?? 0;
+
+  const transfer = useMutation({
+    mutationFn: async () => {
+      if (!item) throw new Error("No item selected");
+      // Serialized units leave from wherever they are stocked and arrive straight away
+      if (serialized) {
+        if (!toId) throw new Error("Choose a destination");
+        if (!serials.length) throw new Error("Enter the serial numbers to move");
+        const { data, error } = await supabase.rpc("transfer_serials", {
+          _item_id: item.id,
+          _serials: serials,
+          _to_location_id: toId,
+          _note: note.trim() || undefined,
+        });
+        if (error) throw error;
+        return { status: "completed", quantity: data.reduce((sum, t) => sum + t.quantity, 0) };
+      }
+
+      if (!fromId || !toId) throw new Error("Choose both locations");
+      if (fromId === toId) throw new Error("Source and destination must differ");
+
+      if (!Number.isFinite(quantity) || quantity <= 0) throw new Error("Quantity must be positive");
+
+      const { data, error } = await supabase.rpc("transfer_stock", {
+        _item_id: item.id,
+        _from_location_id: fromId,
+        _to_location_id: toId,
+        _quantity: quantity,
+        _in_transit: inTransit,
+        _note: note.trim() || undefined,
+      });
+      if (error) throw error;
+      return data;
+    },
+    onSuccess: (transfer) => {
+      queryClient.invalidateQueries({ queryKey: ["inventory-items"] });
+      queryClient.invalidateQueries({ queryKey: ["stock-levels"] });
+      queryClient.invalidateQueries({ queryKey: ["stock-transfers"] });
+      queryClient.invalidateQueries({ queryKey: ["serial-numbers"] });
+      onOpenChange(false);
+      toast({
+        title: transfer.status === "in_transit" ? "Transfer dispatched" : "Stock transferred",
+        description:
+          transfer.status === "in_transit"
+            ? `${transfer.quantity} × ${item?.name} are on their way.`
+            : `${transfer.quantity} × ${item?.name} moved.`,
+      });
+    },
+    onError: (err: Error) => {
+      toast({ title: "Transfer failed", description: err.message || "Could not transfer stock.", variant: "destructive" });
+    },
+  });
+
+  return (
+    <Dialog open={!!item} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Transfer stock</DialogTitle>
+          <DialogDescription>Move units of {item?.name} from one location to another.</DialogDescription>
+        </DialogHeader>
+        <div className="grid grid-cols-2 gap-4">
+          {!serialized ? (
+            <div>
+              <Label>From</Label>
+              <Select value={fromId} onValueChange={setFromId}>
+                <SelectTrigger aria-label="Source location">
+                  <SelectValue placeholder="Choose location" />
+                </SelectTrigger>
+                <SelectContent>
+                  {locations?.map((loc) => (
+                    <SelectItem key={loc.id} value={loc.id}>
+                      {loc.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              {fromId ? <p className="text-sm text-muted-foreground mt-1">{formatQuantity(onHand, unit)} on hand</p> : null}
+            </div>
+          ) : null}
+          <div>
+            <Label>To</Label>
+            <Select value={toId} onValueChange={setToId}>
+              <SelectTrigger aria-label="Destination location">
+                <SelectValue placeholder="Choose location" />
+              </SelectTrigger>
+              <SelectContent>
+                {locations
+                  ?.filter((loc) => serialized || loc.id !== fromId)
+                  .map((loc) => (
+                    <SelectItem key={loc.id} value={loc.id}>
+                      {loc.name}
+                    </SelectItem>
+                  ))}
+              </SelectContent>
+            </Select>
+          </div>
+          {serialized ? (
+            <div className="col-span-2">
+              <Label htmlFor="transfer_serials">Serial Numbers</Label>
+              <Textarea
+                id="transfer_serials"
+                rows={4}
+                value={rawSerials}
+                onChange={(e) => setRawSerials(e.target.value)}
+                placeholder="One serial number per line"
+              />
+              <p className="text-sm text-muted-foreground mt-1">
+                {serials.length} unit{serials.length === 1 ? "" : "s"}
+              </p>
+            </div>
+          ) : (
+            <>
+              <div>
+                <Label htmlFor="transfer_quantity">Quantity</Label>
+                <Input
+                  id="transfer_quantity"
+                  type="number"
+                  inputMode={unit?.decimal_places ? "decimal" : "numeric"}
+                  min={0}
+                  step={quantityStep(unit)}
+                  max={onHand || undefined}
+                  value={quantity}
+                  onChange={(e) => setQuantity(parseFloat(e.target.value || "0"))}
+                />
+              </div>
+              <div className="flex items-end gap-2 pb-2">
+                <Switch id="transfer_in_transit" checked={inTransit} onCheckedChange={setInTransit} />
+                <Label htmlFor="transfer_in_transit">In transit</Label>
+              </div>
+            </>
+          )}
+          <div className="col-span-2">
+            <Label htmlFor="transfer_note">Note</Label>
+            <Input
+              id="transfer_note"
+              value={note}
+              onChange={(e) => setNote(e.target.value)}
+              placeholder="Optional, e.g. courier reference"
+            />
+          </div>
+        </div>
+        <DialogFooter>
+          <Button onClick={() => transfer.mutate()} disabled={transfer.isPending}>
+            {inTransit && !serialized ? "Dispatch" : "Transfer"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default TransferDialog;
@@ -0,0 +1,140 @@
+import { useState } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/hooks/useAuth";
+import { useToast } from "@/hooks/use-toast";
+import { useUnits } from "@/hooks/useUnits";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectSeparator, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { Plus } from "lucide-react";
+
+export const NO_UNIT = "none";
+
+interface UnitPickerProps {
+  value: string;
+  onChange: (value: string) => void;
+  placeholder?: string;
+  /** Offers a NO_UNIT option with this label, e.g. for "same as base unit" */
+  noneLabel?: string;
+  ariaLabel?: string;
+}
+
+const UnitPicker = ({ value, onChange, placeholder = "Each (ea)", noneLabel, ariaLabel = "Unit" }: UnitPickerProps) => {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const { data: units } = useUnits();
+
+  const [open, setOpen] = useState(false);
+  const [name, setName] = useState("");
+  const [symbol, setSymbol] = useState("");
+  const [decimalPlaces, setDecimalPlaces] = useState<number>(0);
+
+  const addUnit = useMutation({
+    mutationFn: async () => {
+      if (!user) throw new Error("Not authenticated");
+      if (!name.trim() || !symbol.trim()) throw new Error("Name and symbol are required");
+
+      const { data, error } = await supabase
+        .from("units")
+        .insert({
+          user_id: user.id,
+          name: name.trim(),
+          symbol: symbol.trim(),
+          decimal_places: Number.isFinite(decimalPlaces) ? decimalPlaces : 0,
+        })
+        .select()
+        .single();
+      if (error) throw error;
+      return data;
+    },
+    onSuccess: (unit) => {
+      queryClient.invalidateQueries({ queryKey: ["units"] });
+      setName("");
+      setSymbol("");
+      setDecimalPlaces(0);
+      setOpen(false);
+      onChange(unit.id);
+      toast({ title: "Unit added", description: `${unit.name} (${unit.symbol}) can now be used for items.` });
+    },
+    onError: (err: Error) => {
+      toast({ title: "Add failed", description: err.message || "Could not add unit.", variant: "destructive" });
+    },
+  });
+
+  return (
+    <div className="flex items-center gap-2">
+      <Select value={value} onValueChange={onChange}>
+        <SelectTrigger aria-label={ariaLabel}>
+          <SelectValue placeholder={placeholder} />
+        </SelectTrigger>
+        <SelectContent>
+          {noneLabel ? <SelectItem value={NO_UNIT}>{noneLabel}</SelectItem> : null}
+          {noneLabel && units?.length ? <SelectSeparator /> : null}
+          {units?.map((unit) => (
+            <SelectItem key={unit.id} value={unit.id}>
+              {unit.name} ({unit.symbol})
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+
+      <Dialog open={open} onOpenChange={setOpen}>
+        <DialogTrigger asChild>
+          <Button variant="outline" size="icon" aria-label="Add unit">
+            <Plus className="h-4 w-4" />
+          </Button>
+        </DialogTrigger>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>New unit</DialogTitle>
+            <DialogDescription>Add a unit of measure, such as a case or a kilogram.</DialogDescription>
+          </DialogHeader>
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <Label htmlFor="unit_name">Name</Label>
+              <Input id="unit_name" value={name} onChange={(e) => setName(e.target.value)} placeholder="e.g. Kilogram" />
+            </div>
+            <div>
+              <Label htmlFor="unit_symbol">Symbol</Label>
+              <Input id="unit_symbol" value={symbol} onChange={(e) => setSymbol(e.target.value)} placeholder="e.g. kg" />
+            </div>
+            <div className="col-span-2">
+              <Label htmlFor="unit_decimals">Decimal places</Label>
+              <Input
+                id="unit_decimals"
+                type="number"
+                inputMode="numeric"
+                min={0}
+                max={6}
+                value={decimalPlaces}
+                onChange={(e) => setDecimalPlaces(parseInt(e.target.value || "0", 10))}
+              />
+              <p className="text-sm text-muted-foreground mt-1">
+                0 for units counted whole, like cases. Use 3 to weigh kilograms to the gram.
+              </p>
+            </div>
+          </div>
+          <DialogFooter>
+            <Button onClick={() => addUnit.mutate()} disabled={addUnit.isPending}>
+              Add Unit
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
+
+export default UnitPicker;
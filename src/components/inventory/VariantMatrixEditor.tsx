@@ -0,0 +1,210 @@
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import {
+  buildVariantCombinations,
+  duplicateSkus,
+  parseOptionAxes,
+  skuKey,
+  variantLabel,
+  variantSku,
+  type OptionValues,
+} from "@/lib/variants";
+import { Plus, Trash2, Wand2 } from "lucide-react";
+
+export interface AxisDraft {
+  name: string;
+  values: string;
+}
+
+export interface VariantDraft {
+  values: OptionValues;
+  sku: string;
+  price: string;
+  quantity: number;
+}
+
+interface VariantMatrixEditorProps {
+  axes: AxisDraft[];
+  onAxesChange: (axes: AxisDraft[]) => void;
+  rows: VariantDraft[];
+  onRowsChange: (rows: VariantDraft[]) => void;
+  baseSku: string;
+  basePrice: string;
+  /** SKUs already used by other items, flagged if a variant reuses one */
+  takenSkus?: (string | null)[];
+  showQuantity?: boolean;
+  quantityStep?: number;
+}
+
+const MAX_AXES = 3;
+
+const VariantMatrixEditor = ({
+  axes,
+  onAxesChange,
+  rows,
+  onRowsChange,
+  baseSku,
+  basePrice,
+  takenSkus,
+  showQuantity = true,
+  quantityStep = 1,
+}: VariantMatrixEditorProps) => {
+  const optionAxes = parseOptionAxes(axes);
+  const duplicates = duplicateSkus(rows.map((r) => r.sku), takenSkus);
+
+  const updateAxis = (index: number, patch: Partial<AxisDraft>) =>
+    onAxesChange(axes.map((a, i) => (i === index ? { ...a, ...patch } : a)));
+
+  const updateRow = (index: number, patch: Partial<VariantDraft>) =>
+    onRowsChange(rows.map((r, i) => (i === index ? { ...r, ...patch } : r)));
+
+  // Rebuild the matrix, keeping edits to combinations that still exist
+  const generate = () => {
+    const previous = new Map(rows.map((r) => [variantLabel(r.values, optionAxes), r]));
+    onRowsChange(
+      buildVariantCombinations(optionAxes).map(
+        (values) =>
+          previous.get(variantLabel(values, optionAxes)) ?? {
+            values,
+            sku: variantSku(baseSku, values, optionAxes),
+            price: basePrice,
+            quantity: 0,
+          }
+      )
+    );
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="space-y-2">
+        {axes.map((axis, index) => (
+          <div key={index} className="grid grid-cols-1 md:grid-cols-[1fr_2fr_auto] gap-2 items-end">
+            <div>
+              <Label htmlFor={`axis_name_${index}`}>Option</Label>
+              <Input
+                id={`axis_name_${index}`}
+                value={axis.name}
+                onChange={(e) => updateAxis(index, { name: e.target.value })}
+                placeholder={index === 0 ? "e.g. Size" : "e.g. Colour"}
+              />
+            </div>
+            <div>
+              <Label htmlFor={`axis_values_${index}`}>Values</Label>
+              <Input
+                id={`axis_values_${index}`}
+                value={axis.values}
+                onChange={(e) => updateAxis(index, { values: e.target.value })}
+                placeholder={index === 0 ? "e.g. S, M, L, XL" : "e.g. Blue, Black"}
+              />
+            </div>
+            <Button
+              variant="outline"
+              size="icon"
+              onClick={() => onAxesChange(axes.filter((_, i) => i !== index))}
+              disabled={axes.length === 1}
+              aria-label="Remove option"
+            >
+              <Trash2 className="h-4 w-4" />
+            </Button>
+          </div>
+        ))}
+        <div className="flex gap-2">
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => onAxesChange([...axes, { name: "", values: "" }])}
+            disabled={axes.length >= MAX_AXES}
+          >
+            <Plus className="mr-2 h-4 w-4" /> Add Option
+          </Button>
+          <Button variant="secondary" size="sm" onClick={generate} disabled={!optionAxes.length}>
+            <Wand2 className="mr-2 h-4 w-4" /> Generate Variants
+          </Button>
+        </div>
+      </div>
+
+      {rows.length ? (
+        <div className="w-full overflow-x-auto">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                {optionAxes.map((a) => (
+                  <TableHead key={a.name}>{a.name}</TableHead>
+                ))}
+                <TableHead>SKU</TableHead>
+                <TableHead className="text-right">Price</TableHead>
+                {showQuantity ? <TableHead className="text-right">Quantity</TableHead> : null}
+                <TableHead />
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {rows.map((row, index) => {
+                const label = variantLabel(row.values, optionAxes);
+                return (
+                  <TableRow key={label}>
+                    {optionAxes.map((a) => (
+                      <TableCell key={a.name}>{row.values[a.name] ?? "-"}</TableCell>
+                    ))}
+                    <TableCell>
+                      <Input
+                        value={row.sku}
+                        onChange={(e) => updateRow(index, { sku: e.target.value })}
+                        aria-label={`SKU for ${label}`}
+                        aria-invalid={duplicates.has(skuKey(row.sku))}
+                        className={duplicates.has(skuKey(row.sku)) ? "border-destructive" : undefined}
+                      />
+                    </TableCell>
+                    <TableCell>
+                      <Input
+                        type="number"
+                        inputMode="decimal"
+                        step="0.01"
+                        value={row.price}
+                        onChange={(e) => updateRow(index, { price: e.target.value })}
+                        className="w-28 ml-auto text-right"
+                        aria-label={`Price for ${label}`}
+                      />
+                    </TableCell>
+                    {showQuantity ? (
+                      <TableCell>
+                        <Input
+                          type="number"
+                          inputMode={quantityStep < 1 ? "decimal" : "numeric"}
+                          min={0}
+                          step={quantityStep}
+                          value={row.quantity}
+                          onChange={(e) => updateRow(index, { quantity: parseFloat(e.target.value || "0") })}
+                          className="w-24 ml-auto text-right"
+                          aria-label={`Quantity for ${label}`}
+                        />
+                      </TableCell>
+                    ) : null}
+                    <TableCell className="text-right">
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => onRowsChange(rows.filter((_, i) => i !== index))}
+                        aria-label={`Remove ${label}`}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                );
+              })}
+            </TableBody>
+          </Table>
+          {duplicates.size ? (
+            <p className="mt-2 text-sm text-destructive">Some SKUs are already in use. Give each variant its own.</p>
+          ) : null}
+        </div>
+      ) : (
+        <p className="text-sm text-muted-foreground">Enter option values, then generate the variant matrix.</p>
+      )}
+    </div>
+  );
+};
+
+export default VariantMatrixEditor;
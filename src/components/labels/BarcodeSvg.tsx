@@ -0,0 +1,53 @@
+import { useMemo } from "react";
+import type { Barcode } from "@/lib/barcodes";
+
+interface BarcodeSvgProps {
+  barcode: Barcode;
+  className?: string;
+}
+
+/**
+ * Draws a barcode at any size. Linear codes stretch to fill the box, since
+ * only bar widths relative to each other matter; matrix codes stay square.
+ */
+const BarcodeSvg = ({ barcode, className }: BarcodeSvgProps) => {
+  const { width, height, path } = useMemo(() => {
+    const q = barcode.quietZone;
+    if (barcode.type === "linear") {
+      let d = "";
+      let start = -1;
+      barcode.bars.forEach((dark, i) => {
+        if (dark && start < 0) start = i;
+        if (start >= 0 && (!dark || i === barcode.bars.length - 1)) {
+          const end = dark ? i + 1 : i;
+          d += `M${start + q} 0h${end - start}v1h${start - end}z`;
+          start = -1;
+        }
+      });
+      return { width: barcode.bars.length + 2 * q, height: 1, path: d };
+    }
+    let d = "";
+    barcode.modules.forEach((row, y) =>
+      row.forEach((dark, x) => {
+        if (dark) d += `M${x + q} ${y + q}h1v1h-1z`;
+      })
+    );
+    const size = barcode.modules.length + 2 * q;
+    return { width: size, height: size, path: d };
+  }, [barcode]);
+
+  return (
+    <svg
+      viewBox={`0 0 ${width} ${height}`}
+      preserveAspectRatio={barcode.type === "linear" ? "none" : "xMidYMid meet"}
+      shapeRendering="crispEdges"
+      className={className}
+      role="img"
+    >
+      <rect width={width} height={height} fill="#ffffff" />
+      <path d={path} fill="#000000" />
+    </svg>
+  );
+};
+
+export default BarcodeSvg;
@@ -0,0 +1,65 @@
+import BarcodeSvg from "@/components/labels/BarcodeSvg";
+import type { Barcode } from "@/lib/barcodes";
+import { labelPosition, type LabelTemplate } from "@/lib/labels";
+
+export interface PrintLabel {
+  name: string;
+  value: string;
+  barcode: Barcode;
+}
+
+interface LabelSheetProps {
+  template: LabelTemplate;
+  labels: (PrintLabel | null)[];
+}
+
+const mm = (value: number) => `${value}mm`;
+
+/** One page of labels, drawn at its real size so it prints straight onto the sheet. */
+const LabelSheet = ({ template, labels }: LabelSheetProps) => {
+  const padding = Math.min(2, template.labelHeight / 10);
+  const fontSize = Math.min(3.2, template.labelHeight / 7);
+
+  return (
+    <div
+      className="relative bg-white text-black shadow-md print:shadow-none break-after-page overflow-hidden"
+      style={{ width: mm(template.pageWidth), height: mm(template.pageHeight) }}
+    >
+      {labels.map((label, index) => {
+        if (!label) return null;
+        const { x, y } = labelPosition(template, index);
+        const matrix = label.barcode.type === "matrix";
+        return (
+          <div
+            key={index}
+            className={`absolute flex overflow-hidden outline-dashed outline-1 outline-muted print:outline-none ${matrix ? "flex-row items-center" : "flex-col"}`}
+            style={{
+              left: mm(x),
+              top: mm(y),
+              width: mm(template.labelWidth),
+              height: mm(template.labelHeight),
+              padding: mm(padding),
+              gap: mm(padding),
+              fontSize: mm(fontSize),
+              lineHeight: 1.15,
+            }}
+          >
+            {matrix ? <BarcodeSvg barcode={label.barcode} className="h-full aspect-square shrink-0" /> : null}
+            <div className={matrix ? "min-w-0 flex-1" : "min-w-0"}>
+              <div className="font-semibold truncate">{label.name}</div>
+              {matrix ? <div className="font-mono break-all opacity-80">{label.value}</div> : null}
+            </div>
+            {matrix ? null : (
+              <>
+                <BarcodeSvg barcode={label.barcode} className="min-h-0 w-full flex-1" />
+                <div className="font-mono text-center truncate">{label.value}</div>
+              </>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+};
+
+export default LabelSheet;
@@ -0,0 +1,16 @@
+import { Badge, type BadgeProps } from "@/components/ui/badge";
+
+const STATUS_STYLES: Record<string, { label: string; variant: BadgeProps["variant"] }> = {
+  draft: { label: "Draft", variant: "outline" },
+  sent: { label: "Sent", variant: "secondary" },
+  partially_received: { label: "Partially Received", variant: "secondary" },
+  received: { label: "Received", variant: "default" },
+  closed: { label: "Closed", variant: "outline" },
+};
+
+const PurchaseOrderStatusBadge = ({ status }: { status: string }) => {
+  const style = STATUS_STYLES[status] ?? { label: status, variant: "outline" };
+  return <Badge variant={style.variant}>{style.label}</Badge>;
+};
+
+export default PurchaseOrderStatusBadge;
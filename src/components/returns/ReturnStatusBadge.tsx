@@ -0,0 +1,14 @@
+import { Badge, type BadgeProps } from "@/components/ui/badge";
+
+const STATUS_STYLES: Record<string, { label: string; variant: BadgeProps["variant"] }> = {
+  requested: { label: "Requested", variant: "secondary" },
+  approved: { label: "Approved", variant: "default" },
+  rejected: { label: "Rejected", variant: "destructive" },
+};
+
+const ReturnStatusBadge = ({ status }: { status: string }) => {
+  const style = STATUS_STYLES[status] ?? { label: status, variant: "outline" };
+  return <Badge variant={style.variant}>{style.label}</Badge>;
+};
+
+export default ReturnStatusBadge;
@@ -0,0 +1,15 @@
+import { Badge, type BadgeProps } from "@/components/ui/badge";
+
+const STATUS_STYLES: Record<string, { label: string; variant: BadgeProps["variant"] }> = {
+  draft: { label: "Draft", variant: "outline" },
+  confirmed: { label: "Confirmed", variant: "secondary" },
+  fulfilled: { label: "Fulfilled", variant: "default" },
+  cancelled: { label: "Cancelled", variant: "destructive" },
+};
+
+const SalesOrderStatusBadge = ({ status }: { status: string }) => {
+  const style = STATUS_STYLES[status] ?? { label: status, variant: "outline" };
+  return <Badge variant={style.variant}>{style.label}</Badge>;
+};
+
+export default SalesOrderStatusBadge;
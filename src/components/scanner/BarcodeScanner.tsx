@@ -0,0 +1,132 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { createBarcodeReader, decodeImageFile } from "@/lib/scanning";
+import { ImageIcon } from "lucide-react";
+
+interface BarcodeScannerProps {
+  onDetected: (code: string) => void;
+  /** Keeps the camera running but stops reading, e.g. while a match is shown */
+  paused?: boolean;
+}
+
+// How often a frame is read, and how long the same code is ignored after a
+// read so holding a label in view counts as one scan
+const SCAN_INTERVAL_MS = 200;
+const REPEAT_DELAY_MS = 1500;
+
+const BarcodeScanner = ({ onDetected, paused = false }: BarcodeScannerProps) => {
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const fileInput = useRef<HTMLInputElement>(null);
+  const onDetectedRef = useRef(onDetected);
+  const pausedRef = useRef(paused);
+  const lastRead = useRef<{ code: string; at: number } | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [photoMessage, setPhotoMessage] = useState<string | null>(null);
+
+  useEffect(() => {
+    onDetectedRef.current = onDetected;
+    pausedRef.current = paused;
+  }, [onDetected, paused]);
+
+  const report = useCallback((code: string) => {
+    const now = Date.now();
+    const last = lastRead.current;
+    if (last && last.code === code && now - last.at < REPEAT_DELAY_MS) return;
+    lastRead.current = { code, at: now };
+    onDetectedRef.current(code);
+  }, []);
+
+  useEffect(() => {
+    let stream: MediaStream | null = null;
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    let stopped = false;
+
+    const start = async () => {
+      if (!navigator.mediaDevices?.getUserMedia) {
+        throw new Error("This browser can't use the camera. Pick a photo of the barcode instead.");
+      }
+      const read = await createBarcodeReader();
+      stream = await navigator.mediaDevices.getUserMedia({
+        video: { facingMode: "environment", width: { ideal: 1280 }, height: { ideal: 720 } },
+        audio: false,
+      });
+      const video = videoRef.current;
+      // Closed while the permission prompt was open
+      if (stopped || !video) {
+        stream.getTracks().forEach((track) => track.stop());
+        return;
+      }
+      video.srcObject = stream;
+      await video.play();
+
+      const tick = async () => {
+        if (stopped) return;
+        if (!pausedRef.current && video.readyState >= video.HAVE_CURRENT_DATA) {
+          const code = await read(video).catch(() => null);
+          if (code && !stopped) report(code);
+        }
+        timer = setTimeout(tick, SCAN_INTERVAL_MS);
+      };
+      tick();
+    };
+
+    start().catch((err: Error) => {
+      if (stopped) return;
+      setError(
+        err.name === "NotAllowedError"
+          ? "Camera access was blocked. Allow it in the browser's site settings, or pick a photo instead."
+          : err.message || "Could not start the camera."
+      );
+    });
+
+    return () => {
+      stopped = true;
+      clearTimeout(timer);
+      stream?.getTracks().forEach((track) => track.stop());
+    };
+  }, [report]);
+
+  const readPhoto = async (file: File | undefined) => {
+    if (!file) return;
+    setPhotoMessage(null);
+    try {
+      const code = await decodeImageFile(file);
+      if (code) report(code);
+      else setPhotoMessage("No barcode found in that photo.");
+    } catch (err) {
+      setPhotoMessage((err as Error).message || "Could not read that photo.");
+    } finally {
+      if (fileInput.current) fileInput.current.value = "";
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="relative aspect-video w-full overflow-hidden rounded-md bg-black">
+        <video ref={videoRef} className="h-full w-full object-cover" muted playsInline />
+        {error ? (
+          <div className="absolute inset-0 flex items-center justify-center p-4 text-center text-sm text-white">{error}</div>
+        ) : (
+          // Where to hold the barcode
+          <div className="pointer-events-none absolute inset-x-8 top-1/2 h-0.5 -translate-y-1/2 bg-destructive/80" />
+        )}
+      </div>
+      <div className="flex items-center justify-between gap-2">
+        <p className="text-xs text-muted-foreground">{photoMessage ?? "Line the barcode up with the red line."}</p>
+        <input
+          ref={fileInput}
+          type="file"
+          accept="image/*"
+          className="hidden"
+          onChange={(e) => readPhoto(e.target.files?.[0])}
+        />
+        <Button variant="outline" size="sm" onClick={() => fileInput.current?.click()}>
+          <ImageIcon className="h-4 w-4 mr-2" />
+          From Photo
+        </Button>
+      </div>
+    </div>
+  );
+};
+
+export default BarcodeScanner;
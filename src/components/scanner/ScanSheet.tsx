@@ -0,0 +1,258 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { useToast } from "@/hooks/use-toast";
+import { useInventoryItems, type InventoryItem } from "@/hooks/useInventoryItems";
+import { useLocations, useStockLevels } from "@/hooks/useLocations";
+import { useUnits } from "@/hooks/useUnits";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Sheet, SheetContent, SheetDescription, SheetHeader, SheetTitle } from "@/components/ui/sheet";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import AdjustmentReasonSelect from "@/components/inventory/AdjustmentReasonSelect";
+import BarcodeScanner from "@/components/scanner/BarcodeScanner";
+import { findScannedItem } from "@/lib/scanning";
+import { isParentItem } from "@/lib/variants";
+import { formatQuantity, quantityStep } from "@/lib/units";
+import { Minus, Plus } from "lucide-react";
+
+type ScanMode = "adjust" | "receive";
+
+interface ScanSheetProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  /** Where changes land; the default location when not given */
+  locationId?: string;
+}
+
+/**
+ * Scan a label to find its item. In adjust mode a match opens a quick
+ * adjustment; in receive mode every scan adds one unit straight away.
+ */
+const ScanSheet = ({ open, onOpenChange, locationId }: ScanSheetProps) => {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const { data: items } = useInventoryItems();
+  const { data: locations } = useLocations();
+  const { data: stockLevels } = useStockLevels();
+  const { data: units } = useUnits();
+
+  const [mode, setMode] = useState<ScanMode>("adjust");
+  const [reasonCode, setReasonCode] = useState("");
+  const [match, setMatch] = useState<InventoryItem | null>(null);
+  const [amount, setAmount] = useState("1");
+  const [message, setMessage] = useState<string | null>(null);
+  const [received, setReceived] = useState<Map<string, number>>(new Map());
+
+  // Each visit to the floor starts afresh
+  useEffect(() => {
+    if (!open) return;
+    setMatch(null);
+    setMessage(null);
+    setReceived(new Map());
+  }, [open]);
+
+  const location = locationId ? locations?.find((l) => l.id === locationId) : locations?.find((l) => l.is_default);
+  const unitOf = (item: InventoryItem) => units?.find((u) => u.id === item.unit_id);
+  const onHand = (item: InventoryItem) =>
+    stockLevels?.find((lvl) => lvl.item_id === item.id && lvl.location_id === location?.id)?.quantity ?? 0;
+
+  const adjust = useMutation({
+    mutationFn: async ({ item, delta }: { item: InventoryItem; delta: number }) => {
+      // Stock scanned in is a receipt, costed like one, not an adjustment
+      if (mode === "receive") {
+        const { data, error } = await supabase.rpc("receive_stock", {
+          _item_id: item.id,
+          _quantity: delta,
+          _location_id: locationId,
+          _note: "Scanned in",
+        });
+        if (error) throw error;
+        return data as InventoryItem;
+      }
+      if (!reasonCode) throw new Error("Choose a reason for the adjustment");
+      const { data, error } = await supabase.rpc("adjust_stock", {
+        _item_id: item.id,
+        _delta: delta,
+        _reason_code: reasonCode,
+        _location_id: locationId,
+      });
+      if (error) throw error;
+      return data as InventoryItem;
+    },
+    onSuccess: (row, { delta }) => {
+      queryClient.setQueryData<InventoryItem[]>(["inventory-items"], (prev) =>
+        prev?.map((it) => (it.id === row.id ? row : it))
+      );
+      queryClient.invalidateQueries({ queryKey: ["stock-levels"] });
+      queryClient.invalidateQueries({ queryKey: ["locations"] });
+      queryClient.invalidateQueries({ queryKey: ["stock-movements"] });
+      if (mode === "receive") {
+        setReceived((prev) => new Map(prev).set(row.id, (prev.get(row.id) ?? 0) + delta));
+        return;
+      }
+      setMatch(null);
+      toast({
+        title: "Stock adjusted",
+        description: `${delta > 0 ? "+" : ""}${formatQuantity(delta, unitOf(row))} ${row.name}`,
+      });
+    },
+    onError: (err: Error) => {
+      if (mode === "receive") {
+        toast({ title: "Receipt failed", description: err.message || "Could not receive stock.", variant: "destructive" });
+        return;
+      }
+      toast({ title: "Adjustment failed", description: err.message || "Could not adjust stock.", variant: "destructive" });
+    },
+  });
+
+  const handleScan = (code: string) => {
+    const item = findScannedItem(items ?? [], code);
+    if (!item) {
+      setMessage(`No item has the SKU ${code}`);
+      return;
+    }
+    if (isParentItem(item)) {
+      setMessage(`${item.name} has variants; scan a variant's label instead`);
+      return;
+    }
+    if (item.is_serialized) {
+      setMessage(`${item.name} is serialized; add or remove its units by serial number`);
+      return;
+    }
+    setMessage(null);
+    if (mode === "receive") {
+      adjust.mutate({ item, delta: 1 });
+    } else {
+      setMatch(item);
+      setAmount("1");
+    }
+  };
+
+  const unit = match ? unitOf(match) : undefined;
+  const step = quantityStep(unit);
+  const nudge = (by: number) => setAmount((prev) => String((parseFloat(prev) || 0) + by * step));
+
+  const applyAdjustment = () => {
+    if (!match) return;
+    const delta = parseFloat(amount);
+    if (!Number.isFinite(delta) || delta === 0) {
+      toast({ title: "Adjustment failed", description: "Enter an amount to add or remove", variant: "destructive" });
+      return;
+    }
+    adjust.mutate({ item: match, delta });
+  };
+
+  const receivedItems = [...received].map(([id, count]) => ({ item: items?.find((it) => it.id === id), count }));
+
+  return (
+    <Sheet open={open} onOpenChange={onOpenChange}>
+      <SheetContent side="bottom" className="max-h-[90vh] overflow-y-auto">
+        <SheetHeader>
+          <SheetTitle>Scan Items</SheetTitle>
+          <SheetDescription>
+            Scan a SKU barcode or item QR code{location ? `. Changes are made at ${location.name}.` : "."}
+          </SheetDescription>
+        </SheetHeader>
+
+        <div className="mx-auto mt-4 grid max-w-3xl gap-4 md:grid-cols-2">
+          <BarcodeScanner onDetected={handleScan} paused={!!match} />
+
+          <div className="space-y-4">
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <Label>Mode</Label>
+                <ToggleGroup
+                  type="single"
+                  variant="outline"
+                  value={mode}
+                  onValueChange={(value) => {
+                    if (!value) return;
+                    setMode(value as ScanMode);
+                    setMatch(null);
+                  }}
+                  className="justify-start"
+                >
+                  <ToggleGroupItem value="adjust">Adjust</ToggleGroupItem>
+                  <ToggleGroupItem value="receive">Receive</ToggleGroupItem>
+                </ToggleGroup>
+              </div>
+              {mode === "adjust" ? (
+                <div>
+                  <Label>Reason</Label>
+                  <AdjustmentReasonSelect value={reasonCode} onChange={setReasonCode} />
+                </div>
+              ) : null}
+            </div>
+
+            {message ? <p className="text-sm text-destructive">{message}</p> : null}
+
+            {match ? (
+              <form
+                className="space-y-3 rounded-md border p-4"
+                onSubmit={(e) => {
+                  e.preventDefault();
+                  applyAdjustment();
+                }}
+              >
+                <div>
+                  <div className="font-medium">{match.name}</div>
+                  <div className="text-sm text-muted-foreground">
+                    {match.sku || "No SKU"} · {formatQuantity(onHand(match), unit)} on hand
+                  </div>
+                </div>
+                <div className="flex items-center gap-2">
+                  <Button type="button" variant="outline" size="icon" onClick={() => nudge(-1)} aria-label="Remove one">
+                    <Minus className="h-4 w-4" />
+                  </Button>
+                  <Input
+                    type="number"
+                    inputMode={step < 1 ? "decimal" : "numeric"}
+                    step={step}
+                    value={amount}
+                    onChange={(e) => setAmount(e.target.value)}
+                    aria-label={`Amount (${unit?.symbol ?? "ea"})`}
+                    className="text-center"
+                  />
+                  <Button type="button" variant="outline" size="icon" onClick={() => nudge(1)} aria-label="Add one">
+                    <Plus className="h-4 w-4" />
+                  </Button>
+                </div>
+                <div className="flex justify-end gap-2">
+                  <Button type="button" variant="outline" onClick={() => setMatch(null)}>
+                    Scan Next
+                  </Button>
+                  <Button type="submit" disabled={adjust.isPending || !reasonCode}>
+                    Adjust Stock
+                  </Button>
+                </div>
+              </form>
+            ) : mode === "receive" ? (
+              <div className="rounded-md border p-4">
+                <div className="text-sm font-medium mb-2">Scanned in</div>
+                {receivedItems.length ? (
+                  <ul className="space-y-1 text-sm">
+                    {receivedItems.map(({ item, count }) => (
+                      <li key={item?.id} className="flex items-center justify-between gap-2">
+                        <span>{item?.name ?? "Unknown item"}</span>
+                        <Badge variant="secondary">+{item ? formatQuantity(count, unitOf(item)) : count}</Badge>
+                      </li>
+                    ))}
+                  </ul>
+                ) : (
+                  <p className="text-sm text-muted-foreground">Each scan adds one unit.</p>
+                )}
+              </div>
+            ) : (
+              <p className="text-sm text-muted-foreground">Scan a label to adjust that item's stock.</p>
+            )}
+          </div>
+        </div>
+      </SheetContent>
+    </Sheet>
+  );
+};
+
+export default ScanSheet;
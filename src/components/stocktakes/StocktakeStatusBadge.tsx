@@ -0,0 +1,14 @@
+import { Badge, type BadgeProps } from "@/components/ui/badge";
+
+const STATUS_STYLES: Record<string, { label: string; variant: BadgeProps["variant"] }> = {
+  counting: { label: "Counting", variant: "secondary" },
+  posted: { label: "Posted", variant: "default" },
+  cancelled: { label: "Cancelled", variant: "outline" },
+};
+
+const StocktakeStatusBadge = ({ status }: { status: string }) => {
+  const style = STATUS_STYLES[status] ?? { label: status, variant: "outline" };
+  return <Badge variant={style.variant}>{style.label}</Badge>;
+};
+
+export default StocktakeStatusBadge;
@@ -0,0 +1,213 @@
+import { useMemo, useState } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/hooks/useAuth";
+import { useToast } from "@/hooks/use-toast";
+import { useInventoryItems } from "@/hooks/useInventoryItems";
+import { useItemSuppliers, type Supplier } from "@/hooks/useSuppliers";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { isParentItem } from "@/lib/variants";
+import { DEFAULT_CURRENCY, formatMoney } from "@/lib/currency";
+import { Plus, Trash2 } from "lucide-react";
+
+interface SupplierItemsDialogProps {
+  supplier: Supplier | null;
+  onOpenChange: (open: boolean) => void;
+}
+
+const SupplierItemsDialog = ({ supplier, onOpenChange }: SupplierItemsDialogProps) => {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const { data: items } = useInventoryItems();
+  const { data: itemSuppliers } = useItemSuppliers();
+
+  const [itemId, setItemId] = useState("");
+  const [supplierSku, setSupplierSku] = useState("");
+  const [cost, setCost] = useState<string>("");
+  const [minOrderQty, setMinOrderQty] = useState<number>(1);
+  const [preferred, setPreferred] = useState(false);
+
+  const links = useMemo(
+    () => itemSuppliers?.filter((link) => link.supplier_id === supplier?.id) ?? [],
+    [itemSuppliers, supplier]
+  );
+  const itemNames = useMemo(() => new Map(items?.map((it) => [it.id, it.name]) ?? []), [items]);
+  const unlinkedItems = items?.filter((it) => !isParentItem(it) && !links.some((link) => link.item_id === it.id)) ?? [];
+
+  const formatCost = (value: number) => formatMoney(value, supplier?.currency ?? DEFAULT_CURRENCY);
+
+  const linkItem = useMutation({
+    mutationFn: async () => {
+      if (!user || !supplier) throw new Error("Not authenticated");
+      if (!itemId) throw new Error("Choose an item");
+
+      const { error } = await supabase.from("item_suppliers").insert({
+        user_id: user.id,
+        item_id: itemId,
+        supplier_id: supplier.id,
+        supplier_sku: supplierSku.trim() || null,
+        cost: cost ? Number(parseFloat(cost).toFixed(2)) : null,
+        min_order_qty: Number.isFinite(minOrderQty) && minOrderQty > 0 ? minOrderQty : 1,
+        is_preferred: preferred,
+      });
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["item-suppliers"] });
+      setItemId("");
+      setSupplierSku("");
+      setCost("");
+      setMinOrderQty(1);
+      setPreferred(false);
+    },
+    onError: (err: Error) => {
+      toast({ title: "Link failed", description: err.message || "Could not link item.", variant: "destructive" });
+    },
+  });
+
+  const setPreferredLink = useMutation({
+    mutationFn: async ({ id, isPreferred }: { id: string; isPreferred: boolean }) => {
+      const { error } = await supabase.from("item_suppliers").update({ is_preferred: isPreferred }).eq("id", id);
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["item-suppliers"] });
+    },
+    onError: (err: Error) => {
+      toast({ title: "Update failed", description: err.message || "Could not update link.", variant: "destructive" });
+    },
+  });
+
+  const unlinkItem = useMutation({
+    mutationFn: async (id: string) => {
+      const { error } = await supabase.from("item_suppliers").delete().eq("id", id);
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["item-suppliers"] });
+    },
+    onError: (err: Error) => {
+      toast({ title: "Unlink failed", description: err.message || "Could not unlink item.", variant: "destructive" });
+    },
+  });
+
+  return (
+    <Dialog open={!!supplier} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-3xl">
+        <DialogHeader>
+          <DialogTitle>Items from {supplier?.name}</DialogTitle>
+          <DialogDescription>Supplier SKUs, costs and minimum order quantities for each item.</DialogDescription>
+        </DialogHeader>
+
+        {links.length === 0 ? (
+          <div className="text-center text-muted-foreground py-4">No items linked yet.</div>
+        ) : (
+          <div className="w-full overflow-x-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Item</TableHead>
+                  <TableHead>Supplier SKU</TableHead>
+                  <TableHead className="text-right">Cost</TableHead>
+                  <TableHead className="text-right">Min Order</TableHead>
+                  <TableHead>Preferred</TableHead>
+                  <TableHead className="text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {links.map((link) => (
+                  <TableRow key={link.id}>
+                    <TableCell className="font-medium">{itemNames.get(link.item_id) ?? "-"}</TableCell>
+                    <TableCell>{link.supplier_sku || "-"}</TableCell>
+                    <TableCell className="text-right">{link.cost != null ? formatCost(link.cost) : "-"}</TableCell>
+                    <TableCell className="text-right">{link.min_order_qty}</TableCell>
+                    <TableCell>
+                      <Switch
+                        checked={link.is_preferred}
+                        onCheckedChange={(checked) => setPreferredLink.mutate({ id: link.id, isPreferred: checked })}
+                        aria-label={`Preferred supplier for ${itemNames.get(link.item_id) ?? "item"}`}
+                      />
+                    </TableCell>
+                    <TableCell className="text-right">
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => unlinkItem.mutate(link.id)}
+                        aria-label={`Unlink ${itemNames.get(link.item_id) ?? "item"}`}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+
+        <div className="grid grid-cols-1 md:grid-cols-5 gap-4 items-end border-t pt-4">
+          <div className="md:col-span-2">
+            <Label>Item</Label>
+            <Select value={itemId} onValueChange={setItemId}>
+              <SelectTrigger aria-label="Item to link">
+                <SelectValue placeholder="Choose item" />
+              </SelectTrigger>
+              <SelectContent>
+                {unlinkedItems.map((it) => (
+                  <SelectItem key={it.id} value={it.id}>
+                    {it.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div>
+            <Label htmlFor="supplier_sku">Supplier SKU</Label>
+            <Input id="supplier_sku" value={supplierSku} onChange={(e) => setSupplierSku(e.target.value)} placeholder="Optional" />
+          </div>
+          <div>
+            <Label htmlFor="supplier_cost">Cost ({supplier?.currency})</Label>
+            <Input
+              id="supplier_cost"
+              type="number"
+              inputMode="decimal"
+              step="0.01"
+              value={cost}
+              onChange={(e) => setCost(e.target.value)}
+              placeholder="e.g. 8.50"
+            />
+          </div>
+          <div>
+            <Label htmlFor="min_order_qty">Min Order</Label>
+            <Input
+              id="min_order_qty"
+              type="number"
+              inputMode="numeric"
+              min={1}
+              value={minOrderQty}
+              onChange={(e) => setMinOrderQty(parseInt(e.target.value || "1", 10))}
+            />
+          </div>
+          <div className="flex items-center gap-2 md:col-span-4">
+            <Switch id="link_preferred" checked={preferred} onCheckedChange={setPreferred} />
+            <Label htmlFor="link_preferred">Preferred supplier for this item</Label>
+          </div>
+          <div className="flex justify-end">
+            <Button onClick={() => linkItem.mutate()} disabled={linkItem.isPending}>
+              <Plus className="mr-2" /> Link Item
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default SupplierItemsDialog;
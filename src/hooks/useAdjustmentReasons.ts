@@ -0,0 +1,21 @@
+import { useQuery } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/hooks/useAuth";
+import type { Tables } from "@/integrations/supabase/types";
+
+export type CustomAdjustmentReason = Tables<"adjustment_reasons">;
+
+/** The reasons the user added; the built-in ones live in lib/adjustments. */
+export const useAdjustmentReasons = () => {
+  const { user, loading } = useAuth();
+
+  return useQuery<CustomAdjustmentReason[]>({
+    queryKey: ["adjustment-reasons"],
+    queryFn: async () => {
+      const { data, error } = await supabase.from("adjustment_reasons").select("*").order("name");
+      if (error) throw error;
+      return data;
+    },
+    enabled: !!user && !loading,
+  });
+};
@@ -0,0 +1,21 @@
+import { useMemo } from "react";
+import { useProfile } from "@/hooks/useProfile";
+import { useExchangeRates } from "@/hooks/useExchangeRates";
+import { convertAmount, DEFAULT_CURRENCY, sumInCurrency, type MoneyAmount } from "@/lib/currency";
+
+/** The account's base currency, with conversions based on the user's own rates. */
+export const useCurrency = () => {
+  const { data: profile } = useProfile();
+  const { data: rates } = useExchangeRates();
+  const baseCurrency = profile?.base_currency ?? DEFAULT_CURRENCY;
+
+  return useMemo(
+    () => ({
+      baseCurrency,
+      convert: (amount: number, from: string, to: string) => convertAmount(amount, from, to, rates ?? []),
+      toBase: (amount: number, from: string) => convertAmount(amount, from, baseCurrency, rates ?? []),
+      sumToBase: (amounts: MoneyAmount[]) => sumInCurrency(amounts, baseCurrency, rates ?? []),
+    }),
+    [baseCurrency, rates]
+  );
+};
@@ -0,0 +1,20 @@
+import { useQuery } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/hooks/useAuth";
+import type { Tables } from "@/integrations/supabase/types";
+
+export type CustomField = Tables<"custom_fields">;
+
+export const useCustomFields = () => {
+  const { user, loading } = useAuth();
+
+  return useQuery<CustomField[]>({
+    queryKey: ["custom-fields"],
+    queryFn: async () => {
+      const { data, error } = await supabase.from("custom_fields").select("*").order("created_at");
+      if (error) throw error;
+      return data;
+    },
+    enabled: !!user && !loading,
+  });
+};
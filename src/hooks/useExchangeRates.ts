@@ -0,0 +1,24 @@
+import { useQuery } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/hooks/useAuth";
+import type { Tables } from "@/integrations/supabase/types";
+
+export type ExchangeRate = Tables<"exchange_rates">;
+
+export const useExchangeRates = () => {
+  const { user, loading } = useAuth();
+
+  return useQuery<ExchangeRate[]>({
+    queryKey: ["exchange-rates"],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("exchange_rates")
+        .select("*")
+        .order("from_currency")
+        .order("to_currency");
+      if (error) throw error;
+      return data;
+    },
+    enabled: !!user && !loading,
+  });
+};
@@ -0,0 +1,23 @@
+import { useQuery } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/hooks/useAuth";
+import type { Tables } from "@/integrations/supabase/types";
+
+export type InventoryItem = Tables<"inventory_items">;
+
+export const useInventoryItems = () => {
+  const { user, loading } = useAuth();
+
+  return useQuery<InventoryItem[]>({
+    queryKey: ["inventory-items"],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("inventory_items")
+        .select("*")
+        .order("created_at", { ascending: false });
+      if (error) throw error;
+      return data;
+    },
+    enabled: !!user && !loading,
+  });
+};
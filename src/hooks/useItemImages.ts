@@ -0,0 +1,66 @@
+import { useQuery } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/hooks/useAuth";
+import { ITEM_IMAGES_BUCKET, SIGNED_URL_SECONDS } from "@/lib/images";
+import type { Tables } from "@/integrations/supabase/types";
+
+export type ItemImage = Tables<"item_images"> & {
+  thumbnailUrl: string | null;
+};
+
+const signUrls = async (paths: string[]) => {
+  if (paths.length === 0) return new Map<string, string>();
+  const { data, error } = await supabase.storage
+    .from(ITEM_IMAGES_BUCKET)
+    .createSignedUrls(paths, SIGNED_URL_SECONDS);
+  if (error) throw error;
+  return new Map(
+    data.filter((d) => d.path && d.signedUrl).map((d) => [d.path as string, d.signedUrl])
+  );
+};
+
+// Refetch well before the signed links stop working
+const staleTime = (SIGNED_URL_SECONDS - 5 * 60) * 1000;
+
+/** All of the user's images, main picture first, with signed thumbnail links. */
+export const useItemImages = () => {
+  const { user, loading } = useAuth();
+
+  return useQuery<ItemImage[]>({
+    queryKey: ["item-images"],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("item_images")
+        .select("*")
+        .order("position")
+        .order("created_at");
+      if (error) throw error;
+
+      const urls = await signUrls(data.map((image) => image.thumbnail_path));
+      return data.map((image) => ({ ...image, thumbnailUrl: urls.get(image.thumbnail_path) ?? null }));
+    },
+    enabled: !!user && !loading,
+    staleTime,
+  });
+};
+
+/** Signed links to the full-size images, keyed by path. */
+export const useImageUrls = (paths: string[]) => {
+  const { user, loading } = useAuth();
+
+  return useQuery<Map<string, string>>({
+    queryKey: ["item-images", "full", paths],
+    queryFn: () => signUrls(paths),
+    enabled: !!user && !loading && paths.length > 0,
+    staleTime,
+  });
+};
+
+/** Each item's main thumbnail link. */
+export const mainThumbnails = (images: ItemImage[] = []) => {
+  const map = new Map<string, string>();
+  for (const image of images) {
+    if (image.thumbnailUrl && !map.has(image.item_id)) map.set(image.item_id, image.thumbnailUrl);
+  }
+  return map;
+};
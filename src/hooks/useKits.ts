@@ -0,0 +1,20 @@
+import { useQuery } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/hooks/useAuth";
+import type { Tables } from "@/integrations/supabase/types";
+
+export type KitComponent = Tables<"kit_components">;
+
+export const useKitComponents = () => {
+  const { user, loading } = useAuth();
+
+  return useQuery<KitComponent[]>({
+    queryKey: ["kit-components"],
+    queryFn: async () => {
+      const { data, error } = await supabase.from("kit_components").select("*").order("created_at");
+      if (error) throw error;
+      return data;
+    },
+    enabled: !!user && !loading,
+  });
+};
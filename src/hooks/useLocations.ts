@@ -0,0 +1,59 @@
+import { useQuery } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/hooks/useAuth";
+import type { Tables } from "@/integrations/supabase/types";
+
+export type Location = Tables<"locations">;
+export type StockLevel = Tables<"stock_levels">;
+export type InTransitTransfer = Tables<"stock_transfers"> & { inventory_items: { name: string } | null };
+
+export const useLocations = () => {
+  const { user, loading } = useAuth();
+
+  return useQuery<Location[]>({
+    queryKey: ["locations"],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("locations")
+        .select("*")
+        .order("is_default", { ascending: false })
+        .order("name");
+      if (error) throw error;
+      return data;
+    },
+    enabled: !!user && !loading,
+  });
+};
+
+export const useStockLevels = () => {
+  const { user, loading } = useAuth();
+
+  return useQuery<StockLevel[]>({
+    queryKey: ["stock-levels"],
+    queryFn: async () => {
+      const { data, error } = await supabase.from("stock_levels").select("*");
+      if (error) throw error;
+      return data;
+    },
+    enabled: !!user && !loading,
+  });
+};
+
+/** Transfers that have left their source location but not yet arrived, oldest first. */
+export const useInTransitTransfers = () => {
+  const { user, loading } = useAuth();
+
+  return useQuery<InTransitTransfer[]>({
+    queryKey: ["stock-transfers", "in_transit"],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("stock_transfers")
+        .select("*, inventory_items(name)")
+        .eq("status", "in_transit")
+        .order("created_at", { ascending: true });
+      if (error) throw error;
+      return data as InTransitTransfer[];
+    },
+    enabled: !!user && !loading,
+  });
+};
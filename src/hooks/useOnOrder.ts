@@ -0,0 +1,31 @@
+import { useQuery } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/hooks/useAuth";
+import { OPEN_ORDER_STATUSES } from "@/lib/reorder";
+
+/**
+ * Base units still awaiting delivery on sent purchase orders, by item. Keyed
+ * under "purchase-orders" so anything that changes an order refreshes it.
+ */
+export const useOnOrder = () => {
+  const { user, loading } = useAuth();
+
+  return useQuery<Map<string, number>>({
+    queryKey: ["purchase-orders", "on-order"],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("purchase_order_lines")
+        .select("item_id, quantity_ordered, quantity_received, unit_factor, purchase_orders!inner(status)")
+        .in("purchase_orders.status", OPEN_ORDER_STATUSES);
+      if (error) throw error;
+
+      const onOrder = new Map<string, number>();
+      data.forEach((line) => {
+        const outstanding = Math.max(line.quantity_ordered - line.quantity_received, 0) * line.unit_factor;
+        if (outstanding > 0) onOrder.set(line.item_id, (onOrder.get(line.item_id) ?? 0) + outstanding);
+      });
+      return onOrder;
+    },
+    enabled: !!user && !loading,
+  });
+};
@@ -0,0 +1,24 @@
+import { useEffect } from "react";
+
+// SEO: Title, description, canonical
+export const usePageMeta = (title: string, description: string, path: string) => {
+  useEffect(() => {
+    document.title = title;
+
+    let tag = document.querySelector('meta[name="description"]');
+    if (!tag) {
+      tag = document.createElement("meta");
+      tag.setAttribute("name", "description");
+      document.head.appendChild(tag);
+    }
+    tag.setAttribute("content", description);
+
+    let canonical = document.querySelector("link[rel=canonical]") as HTMLLinkElement | null;
+    if (!canonical) {
+      canonical = document.createElement("link");
+      canonical.rel = "canonical";
+      document.head.appendChild(canonical);
+    }
+    canonical.href = window.location.origin + path;
+  }, [title, description, path]);
+};
@@ -0,0 +1,25 @@
+import { useQuery } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/hooks/useAuth";
+import type { Tables } from "@/integrations/supabase/types";
+
+export type PriceChange = Tables<"price_history">;
+
+/** Changes to an item's cost and selling prices, newest first. */
+export const usePriceHistory = (itemId: string | undefined) => {
+  const { user, loading } = useAuth();
+
+  return useQuery<PriceChange[]>({
+    queryKey: ["price-history", itemId],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("price_history")
+        .select("*")
+        .eq("item_id", itemId!)
+        .order("created_at", { ascending: false });
+      if (error) throw error;
+      return data;
+    },
+    enabled: !!user && !loading && !!itemId,
+  });
+};
@@ -0,0 +1,21 @@
+import { useQuery } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/hooks/useAuth";
+import type { Tables } from "@/integrations/supabase/types";
+
+export type Profile = Tables<"profiles">;
+
+export const useProfile = () => {
+  const { user, loading } = useAuth();
+
+  return useQuery<Profile | null>({
+    queryKey: ["profile"],
+    queryFn: async () => {
+      // Row level security limits this to the signed-in user's own profile
+      const { data, error } = await supabase.from("profiles").select("*").maybeSingle();
+      if (error) throw error;
+      return data;
+    },
+    enabled: !!user && !loading,
+  });
+};
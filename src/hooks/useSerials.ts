@@ -0,0 +1,20 @@
+import { useQuery } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/hooks/useAuth";
+import type { Tables } from "@/integrations/supabase/types";
+
+export type SerialNumber = Tables<"serial_numbers">;
+
+export const useSerialNumbers = () => {
+  const { user, loading } = useAuth();
+
+  return useQuery<SerialNumber[]>({
+    queryKey: ["serial-numbers"],
+    queryFn: async () => {
+      const { data, error } = await supabase.from("serial_numbers").select("*").order("serial");
+      if (error) throw error;
+      return data;
+    },
+    enabled: !!user && !loading,
+  });
+};
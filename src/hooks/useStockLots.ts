@@ -0,0 +1,27 @@
+import { useQuery } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/hooks/useAuth";
+import type { Tables } from "@/integrations/supabase/types";
+
+export type StockLot = Tables<"stock_lots"> & {
+  inventory_items: { name: string; sku: string | null } | null;
+  locations: { name: string } | null;
+};
+
+export const useStockLots = () => {
+  const { user, loading } = useAuth();
+
+  return useQuery<StockLot[]>({
+    queryKey: ["stock-lots"],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("stock_lots")
+        .select("*, inventory_items(name, sku), locations(name)")
+        .order("expires_on", { nullsFirst: false })
+        .order("created_at");
+      if (error) throw error;
+      return data as StockLot[];
+    },
+    enabled: !!user && !loading,
+  });
+};
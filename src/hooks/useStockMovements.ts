@@ -0,0 +1,36 @@
+import { useQuery } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/hooks/useAuth";
+import type { Tables } from "@/integrations/supabase/types";
+
+export type StockMovement = Pick<
+  Tables<"stock_movements">,
+  "id" | "item_id" | "delta" | "reason" | "reason_code" | "reference_type" | "unit_cost" | "cost_currency" | "created_at"
+>;
+
+// The API returns at most this many rows per request
+const PAGE_SIZE = 1000;
+
+/** The whole stock ledger, oldest first. */
+export const useStockMovements = () => {
+  const { user, loading } = useAuth();
+
+  return useQuery<StockMovement[]>({
+    queryKey: ["stock-movements"],
+    queryFn: async () => {
+      const rows: StockMovement[] = [];
+      for (let from = 0; ; from += PAGE_SIZE) {
+        const { data, error } = await supabase
+          .from("stock_movements")
+          .select("id, item_id, delta, reason, reason_code, reference_type, unit_cost, cost_currency, created_at")
+          .order("created_at")
+          .order("id")
+          .range(from, from + PAGE_SIZE - 1);
+        if (error) throw error;
+        rows.push(...data);
+        if (data.length < PAGE_SIZE) return rows;
+      }
+    },
+    enabled: !!user && !loading,
+  });
+};
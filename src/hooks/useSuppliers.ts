@@ -0,0 +1,38 @@
+import { useQuery } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/hooks/useAuth";
+import type { Tables } from "@/integrations/supabase/types";
+
+export type Supplier = Tables<"suppliers">;
+export type ItemSupplier = Tables<"item_suppliers"> & { suppliers: { name: string } | null };
+
+export const useSuppliers = () => {
+  const { user, loading } = useAuth();
+
+  return useQuery<Supplier[]>({
+    queryKey: ["suppliers"],
+    queryFn: async () => {
+      const { data, error } = await supabase.from("suppliers").select("*").order("name");
+      if (error) throw error;
+      return data;
+    },
+    enabled: !!user && !loading,
+  });
+};
+
+export const useItemSuppliers = () => {
+  const { user, loading } = useAuth();
+
+  return useQuery<ItemSupplier[]>({
+    queryKey: ["item-suppliers"],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("item_suppliers")
+        .select("*, suppliers(name)")
+        .order("created_at");
+      if (error) throw error;
+      return data as ItemSupplier[];
+    },
+    enabled: !!user && !loading,
+  });
+};
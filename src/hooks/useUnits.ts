@@ -0,0 +1,20 @@
+import { useQuery } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/hooks/useAuth";
+import type { Tables } from "@/integrations/supabase/types";
+
+export type Unit = Tables<"units">;
+
+export const useUnits = () => {
+  const { user, loading } = useAuth();
+
+  return useQuery<Unit[]>({
+    queryKey: ["units"],
+    queryFn: async () => {
+      const { data, error } = await supabase.from("units").select("*").order("name");
+      if (error) throw error;
+      return data;
+    },
+    enabled: !!user && !loading,
+  });
+};
@@ -14,51 +14,527 @@ export type Database = {
   }
   public: {
     Tables: {
+      adjustment_reasons: {
+        Row: {
+          code: string
+          created_at: string
+          id: string
+          name: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          code: string
+          created_at?: string
+          id?: string
+          name: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          code?: string
+          created_at?: string
+          id?: string
+          name?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      categories: {
+        Row: {
+          created_at: string
+          id: string
+          name: string
+          parent_id: string | null
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          name: string
+          parent_id?: string | null
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          name?: string
+          parent_id?: string | null
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "categories_parent_id_fkey"
+            columns: ["parent_id"]
+            isOneToOne: false
+            referencedRelation: "categories"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      custom_fields: {
+        Row: {
+          created_at: string
+          field_type: string
+          id: string
+          name: string
+          options: string[]
+          show_in_table: boolean
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          field_type: string
+          id?: string
+          name: string
+          options?: string[]
+          show_in_table?: boolean
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          field_type?: string
+          id?: string
+          name?: string
+          options?: string[]
+          show_in_table?: boolean
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      exchange_rates: {
+        Row: {
+          created_at: string
+          from_currency: string
+          id: string
+          rate: number
+          to_currency: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          from_currency: string
+          id?: string
+          rate: number
+          to_currency: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          from_currency?: string
+          id?: string
+          rate?: number
+          to_currency?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
       inventory_items: {
         Row: {
-          category: string | null
+          available_quantity: number | null
+          category_id: string | null
+          cost_price: number | null
           created_at: string
+          currency: string
+          custom_values: Json
           description: string | null
           id: string
+          is_serialized: boolean
+          lead_time_days: number | null
           low_stock_threshold: number | null
+          max_stock_level: number | null
           name: string
+          option_axes: Json | null
+          option_values: Json | null
+          parent_id: string | null
+          purchase_factor: number
+          purchase_unit_id: string | null
           quantity: number
+          reorder_point: number | null
+          reorder_quantity: number | null
+          reserved_quantity: number
+          sale_factor: number
+          sale_unit_id: string | null
           sku: string | null
+          unit_id: string
           unit_price: number | null
           updated_at: string
           user_id: string
         }
         Insert: {
-          category?: string | null
+          available_quantity?: never
+          category_id?: string | null
+          cost_price?: number | null
           created_at?: string
+          currency?: string
+          custom_values?: Json
           description?: string | null
           id?: string
+          is_serialized?: boolean
+          lead_time_days?: number | null
           low_stock_threshold?: number | null
+          max_stock_level?: number | null
           name: string
+          option_axes?: Json | null
+          option_values?: Json | null
+          parent_id?: string | null
+          purchase_factor?: number
+          purchase_unit_id?: string | null
           quantity?: number
+          reorder_point?: number | null
+          reorder_quantity?: number | null
+          reserved_quantity?: number
+          sale_factor?: number
+          sale_unit_id?: string | null
           sku?: string | null
+          unit_id?: string
           unit_price?: number | null
           updated_at?: string
           user_id: string
         }
         Update: {
-          category?: string | null
+          available_quantity?: never
+          category_id?: string | null
+          cost_price?: number | null
           created_at?: string
+          currency?: string
+          custom_values?: Json
           description?: string | null
           id?: string
+          is_serialized?: boolean
+          lead_time_days?: number | null
           low_stock_threshold?: number | null
+          max_stock_level?: number | null
           name?: string
+          option_axes?: Json | null
+          option_values?: Json | null
+          parent_id?: string | null
+          purchase_factor?: number
+          purchase_unit_id?: string | null
           quantity?: number
+          reorder_point?: number | null
+          reorder_quantity?: number | null
+          reserved_quantity?: number
+          sale_factor?: number
+          sale_unit_id?: string | null
           sku?: string | null
+          unit_id?: string
           unit_price?: number | null
           updated_at?: string
           user_id?: string
         }
+        Relationships: [
+          {
+            foreignKeyName: "inventory_items_category_id_fkey"
+            columns: ["category_id"]
+            isOneToOne: false
+            referencedRelation: "categories"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "inventory_items_parent_id_fkey"
+            columns: ["parent_id"]
+            isOneToOne: false
+            referencedRelation: "inventory_items"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "inventory_items_purchase_unit_id_fkey"
+            columns: ["purchase_unit_id"]
+            isOneToOne: false
+            referencedRelation: "units"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "inventory_items_sale_unit_id_fkey"
+            columns: ["sale_unit_id"]
+            isOneToOne: false
+            referencedRelation: "units"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "inventory_items_unit_id_fkey"
+            columns: ["unit_id"]
+            isOneToOne: false
+            referencedRelation: "units"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      item_images: {
+        Row: {
+          created_at: string
+          id: string
+          item_id: string
+          path: string
+          position: number
+          thumbnail_path: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          item_id: string
+          path: string
+          position?: number
+          thumbnail_path: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          item_id?: string
+          path?: string
+          position?: number
+          thumbnail_path?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "item_images_item_id_fkey"
+            columns: ["item_id"]
+            isOneToOne: false
+            referencedRelation: "inventory_items"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      item_suppliers: {
+        Row: {
+          cost: number | null
+          created_at: string
+          id: string
+          is_preferred: boolean
+          item_id: string
+          min_order_qty: number
+          supplier_id: string
+          supplier_sku: string | null
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          cost?: number | null
+          created_at?: string
+          id?: string
+          is_preferred?: boolean
+          item_id: string
+          min_order_qty?: number
+          supplier_id: string
+          supplier_sku?: string | null
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          cost?: number | null
+          created_at?: string
+          id?: string
+          is_preferred?: boolean
+          item_id?: string
+          min_order_qty?: number
+          supplier_id?: string
+          supplier_sku?: string | null
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "item_suppliers_item_id_fkey"
+            columns: ["item_id"]
+            isOneToOne: false
+            referencedRelation: "inventory_items"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "item_suppliers_supplier_id_fkey"
+            columns: ["supplier_id"]
+            isOneToOne: false
+            referencedRelation: "suppliers"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      kit_assemblies: {
+        Row: {
+          created_at: string
+          direction: string
+          id: string
+          kit_id: string
+          location_id: string
+          note: string | null
+          quantity: number
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          direction: string
+          id?: string
+          kit_id: string
+          location_id: string
+          note?: string | null
+          quantity: number
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          direction?: string
+          id?: string
+          kit_id?: string
+          location_id?: string
+          note?: string | null
+          quantity?: number
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "kit_assemblies_kit_id_fkey"
+            columns: ["kit_id"]
+            isOneToOne: false
+            referencedRelation: "inventory_items"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "kit_assemblies_location_id_fkey"
+            columns: ["location_id"]
+            isOneToOne: false
+            referencedRelation: "locations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      kit_components: {
+        Row: {
+          component_id: string
+          created_at: string
+          id: string
+          kit_id: string
+          quantity: number
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          component_id: string
+          created_at?: string
+          id?: string
+          kit_id: string
+          quantity: number
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          component_id?: string
+          created_at?: string
+          id?: string
+          kit_id?: string
+          quantity?: number
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "kit_components_component_id_fkey"
+            columns: ["component_id"]
+            isOneToOne: false
+            referencedRelation: "inventory_items"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "kit_components_kit_id_fkey"
+            columns: ["kit_id"]
+            isOneToOne: false
+            referencedRelation: "inventory_items"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      locations: {
+        Row: {
+          created_at: string
+          id: string
+          is_default: boolean
+          name: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          is_default?: boolean
+          name: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          is_default?: boolean
+          name?: string
+          updated_at?: string
+          user_id?: string
+        }
         Relationships: []
       }
+      price_history: {
+        Row: {
+          changed_by: string | null
+          created_at: string
+          currency: string
+          id: string
+          item_id: string
+          new_price: number | null
+          old_price: number | null
+          price_type: string
+          user_id: string
+        }
+        Insert: {
+          changed_by?: string | null
+          created_at?: string
+          currency: string
+          id?: string
+          item_id: string
+          new_price?: number | null
+          old_price?: number | null
+          price_type: string
+          user_id: string
+        }
+        Update: {
+          changed_by?: string | null
+          created_at?: string
+          currency?: string
+          id?: string
+          item_id?: string
+          new_price?: number | null
+          old_price?: number | null
+          price_type?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "price_history_item_id_fkey"
+            columns: ["item_id"]
+            isOneToOne: false
+            referencedRelation: "inventory_items"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       profiles: {
         Row: {
           avatar_url: string | null
+          base_currency: string
+          costing_method: string
           created_at: string
           full_name: string | null
           id: string
@@ -67,6 +543,8 @@ export type Database = {
         }
         Insert: {
           avatar_url?: string | null
+          base_currency?: string
+          costing_method?: string
           created_at?: string
           full_name?: string | null
           id?: string
@@ -75,6 +553,8 @@ export type Database = {
         }
         Update: {
           avatar_url?: string | null
+          base_currency?: string
+          costing_method?: string
           created_at?: string
           full_name?: string | null
           id?: string
@@ -83,12 +563,1488 @@ export type Database = {
         }
         Relationships: []
       }
-    }
-    Views: {
-      [_ in never]: never
-    }
-    Functions: {
-      [_ in never]: never
+      purchase_order_lines: {
+        Row: {
+          created_at: string
+          id: string
+          item_id: string
+          purchase_order_id: string
+          quantity_ordered: number
+          quantity_received: number
+          unit_cost: number | null
+          unit_factor: number
+          unit_id: string | null
+          updated_at: string
+          user_id: string
+          variance: number | null
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          item_id: string
+          purchase_order_id: string
+          quantity_ordered: number
+          quantity_received?: number
+          unit_cost?: number | null
+          unit_factor?: number
+          unit_id?: string | null
+          updated_at?: string
+          user_id: string
+          variance?: never
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          item_id?: string
+          purchase_order_id?: string
+          quantity_ordered?: number
+          quantity_received?: number
+          unit_cost?: number | null
+          unit_factor?: number
+          unit_id?: string | null
+          updated_at?: string
+          user_id?: string
+          variance?: never
+        }
+        Relationships: [
+          {
+            foreignKeyName: "purchase_order_lines_item_id_fkey"
+            columns: ["item_id"]
+            isOneToOne: false
+            referencedRelation: "inventory_items"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "purchase_order_lines_purchase_order_id_fkey"
+            columns: ["purchase_order_id"]
+            isOneToOne: false
+            referencedRelation: "purchase_orders"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "purchase_order_lines_unit_id_fkey"
+            columns: ["unit_id"]
+            isOneToOne: false
+            referencedRelation: "units"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      purchase_order_receipts: {
+        Row: {
+          id: string
+          line_id: string
+          location_id: string
+          note: string | null
+          quantity: number
+          received_at: string
+          user_id: string
+        }
+        Insert: {
+          id?: string
+          line_id: string
+          location_id: string
+          note?: string | null
+          quantity: number
+          received_at?: string
+          user_id: string
+        }
+        Update: {
+          id?: string
+          line_id?: string
+          location_id?: string
+          note?: string | null
+          quantity?: number
+          received_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "purchase_order_receipts_line_id_fkey"
+            columns: ["line_id"]
+            isOneToOne: false
+            referencedRelation: "purchase_order_lines"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "purchase_order_receipts_location_id_fkey"
+            columns: ["location_id"]
+            isOneToOne: false
+            referencedRelation: "locations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      purchase_orders: {
+        Row: {
+          closed_at: string | null
+          created_at: string
+          expected_date: string | null
+          id: string
+          location_id: string | null
+          notes: string | null
+          reference: string | null
+          sent_at: string | null
+          status: string
+          supplier_id: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          closed_at?: string | null
+          created_at?: string
+          expected_date?: string | null
+          id?: string
+          location_id?: string | null
+          notes?: string | null
+          reference?: string | null
+          sent_at?: string | null
+          status?: string
+          supplier_id: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          closed_at?: string | null
+          created_at?: string
+          expected_date?: string | null
+          id?: string
+          location_id?: string | null
+          notes?: string | null
+          reference?: string | null
+          sent_at?: string | null
+          status?: string
+          supplier_id?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "purchase_orders_location_id_fkey"
+            columns: ["location_id"]
+            isOneToOne: false
+            referencedRelation: "locations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "purchase_orders_supplier_id_fkey"
+            columns: ["supplier_id"]
+            isOneToOne: false
+            referencedRelation: "suppliers"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      returns: {
+        Row: {
+          condition: string
+          created_at: string
+          customer_name: string
+          id: string
+          item_id: string
+          location_id: string | null
+          processed_at: string | null
+          quantity: number
+          reason: string | null
+          reference: string | null
+          status: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          condition?: string
+          created_at?: string
+          customer_name: string
+          id?: string
+          item_id: string
+          location_id?: string | null
+          processed_at?: string | null
+          quantity: number
+          reason?: string | null
+          reference?: string | null
+          status?: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          condition?: string
+          created_at?: string
+          customer_name?: string
+          id?: string
+          item_id?: string
+          location_id?: string | null
+          processed_at?: string | null
+          quantity?: number
+          reason?: string | null
+          reference?: string | null
+          status?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "returns_item_id_fkey"
+            columns: ["item_id"]
+            isOneToOne: false
+            referencedRelation: "inventory_items"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "returns_location_id_fkey"
+            columns: ["location_id"]
+            isOneToOne: false
+            referencedRelation: "locations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      sales_order_lines: {
+        Row: {
+          created_at: string
+          id: string
+          item_id: string
+          quantity: number
+          sales_order_id: string
+          unit_factor: number
+          unit_id: string | null
+          unit_price: number | null
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          item_id: string
+          quantity: number
+          sales_order_id: string
+          unit_factor?: number
+          unit_id?: string | null
+          unit_price?: number | null
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          item_id?: string
+          quantity?: number
+          sales_order_id?: string
+          unit_factor?: number
+          unit_id?: string | null
+          unit_price?: number | null
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "sales_order_lines_item_id_fkey"
+            columns: ["item_id"]
+            isOneToOne: false
+            referencedRelation: "inventory_items"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "sales_order_lines_sales_order_id_fkey"
+            columns: ["sales_order_id"]
+            isOneToOne: false
+            referencedRelation: "sales_orders"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "sales_order_lines_unit_id_fkey"
+            columns: ["unit_id"]
+            isOneToOne: false
+            referencedRelation: "units"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      sales_orders: {
+        Row: {
+          cancelled_at: string | null
+          confirmed_at: string | null
+          created_at: string
+          currency: string
+          customer_name: string
+          fulfilled_at: string | null
+          id: string
+          location_id: string | null
+          notes: string | null
+          reference: string | null
+          status: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          cancelled_at?: string | null
+          confirmed_at?: string | null
+          created_at?: string
+          currency?: string
+          customer_name: string
+          fulfilled_at?: string | null
+          id?: string
+          location_id?: string | null
+          notes?: string | null
+          reference?: string | null
+          status?: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          cancelled_at?: string | null
+          confirmed_at?: string | null
+          created_at?: string
+          currency?: string
+          customer_name?: string
+          fulfilled_at?: string | null
+          id?: string
+          location_id?: string | null
+          notes?: string | null
+          reference?: string | null
+          status?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "sales_orders_location_id_fkey"
+            columns: ["location_id"]
+            isOneToOne: false
+            referencedRelation: "locations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      serial_events: {
+        Row: {
+          created_at: string
+          event: string
+          id: string
+          location_id: string | null
+          movement_id: string
+          note: string | null
+          serial_id: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          event: string
+          id?: string
+          location_id?: string | null
+          movement_id: string
+          note?: string | null
+          serial_id: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          event?: string
+          id?: string
+          location_id?: string | null
+          movement_id?: string
+          note?: string | null
+          serial_id?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "serial_events_location_id_fkey"
+            columns: ["location_id"]
+            isOneToOne: false
+            referencedRelation: "locations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "serial_events_movement_id_fkey"
+            columns: ["movement_id"]
+            isOneToOne: false
+            referencedRelation: "stock_movements"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "serial_events_serial_id_fkey"
+            columns: ["serial_id"]
+            isOneToOne: false
+            referencedRelation: "serial_numbers"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      serial_numbers: {
+        Row: {
+          created_at: string
+          id: string
+          item_id: string
+          location_id: string | null
+          serial: string
+          status: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          item_id: string
+          location_id?: string | null
+          serial: string
+          status?: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          item_id?: string
+          location_id?: string | null
+          serial?: string
+          status?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "serial_numbers_item_id_fkey"
+            columns: ["item_id"]
+            isOneToOne: false
+            referencedRelation: "inventory_items"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "serial_numbers_location_id_fkey"
+            columns: ["location_id"]
+            isOneToOne: false
+            referencedRelation: "locations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      stock_levels: {
+        Row: {
+          created_at: string
+          id: string
+          item_id: string
+          location_id: string
+          low_stock_threshold: number | null
+          quantity: number
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          item_id: string
+          location_id: string
+          low_stock_threshold?: number | null
+          quantity?: number
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          item_id?: string
+          location_id?: string
+          low_stock_threshold?: number | null
+          quantity?: number
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "stock_levels_item_id_fkey"
+            columns: ["item_id"]
+            isOneToOne: false
+            referencedRelation: "inventory_items"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "stock_levels_location_id_fkey"
+            columns: ["location_id"]
+            isOneToOne: false
+            referencedRelation: "locations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      stock_lots: {
+        Row: {
+          created_at: string
+          expires_on: string | null
+          id: string
+          item_id: string
+          location_id: string
+          lot_number: string
+          manufactured_on: string | null
+          quantity: number
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          expires_on?: string | null
+          id?: string
+          item_id: string
+          location_id: string
+          lot_number: string
+          manufactured_on?: string | null
+          quantity?: number
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          expires_on?: string | null
+          id?: string
+          item_id?: string
+          location_id?: string
+          lot_number?: string
+          manufactured_on?: string | null
+          quantity?: number
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "stock_lots_item_id_fkey"
+            columns: ["item_id"]
+            isOneToOne: false
+            referencedRelation: "inventory_items"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "stock_lots_location_id_fkey"
+            columns: ["location_id"]
+            isOneToOne: false
+            referencedRelation: "locations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      stock_movements: {
+        Row: {
+          cost_currency: string | null
+          created_at: string
+          delta: number
+          id: string
+          item_id: string
+          location_id: string
+          lot_id: string | null
+          note: string | null
+          reason: string
+          reason_code: string | null
+          reference_id: string | null
+          reference_type: string | null
+          serial_id: string | null
+          unit_cost: number | null
+          user_id: string
+        }
+        Insert: {
+          cost_currency?: string | null
+          created_at?: string
+          delta: number
+          id?: string
+          item_id: string
+          location_id?: string
+          lot_id?: string | null
+          note?: string | null
+          reason?: string
+          reason_code?: string | null
+          reference_id?: string | null
+          reference_type?: string | null
+          serial_id?: string | null
+          unit_cost?: number | null
+          user_id: string
+        }
+        Update: {
+          cost_currency?: string | null
+          created_at?: string
+          delta?: number
+          id?: string
+          item_id?: string
+          location_id?: string
+          lot_id?: string | null
+          note?: string | null
+          reason?: string
+          reason_code?: string | null
+          reference_id?: string | null
+          reference_type?: string | null
+          serial_id?: string | null
+          unit_cost?: number | null
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "stock_movements_item_id_fkey"
+            columns: ["item_id"]
+            isOneToOne: false
+            referencedRelation: "inventory_items"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "stock_movements_location_id_fkey"
+            columns: ["location_id"]
+            isOneToOne: false
+            referencedRelation: "locations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "stock_movements_lot_id_fkey"
+            columns: ["lot_id"]
+            isOneToOne: false
+            referencedRelation: "stock_lots"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "stock_movements_serial_id_fkey"
+            columns: ["serial_id"]
+            isOneToOne: false
+            referencedRelation: "serial_numbers"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      stock_transfers: {
+        Row: {
+          created_at: string
+          from_location_id: string
+          id: string
+          item_id: string
+          note: string | null
+          quantity: number
+          received_at: string | null
+          status: string
+          to_location_id: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          from_location_id: string
+          id?: string
+          item_id: string
+          note?: string | null
+          quantity: number
+          received_at?: string | null
+          status?: string
+          to_location_id: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          from_location_id?: string
+          id?: string
+          item_id?: string
+          note?: string | null
+          quantity?: number
+          received_at?: string | null
+          status?: string
+          to_location_id?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "stock_transfers_from_location_id_fkey"
+            columns: ["from_location_id"]
+            isOneToOne: false
+            referencedRelation: "locations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "stock_transfers_item_id_fkey"
+            columns: ["item_id"]
+            isOneToOne: false
+            referencedRelation: "inventory_items"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "stock_transfers_to_location_id_fkey"
+            columns: ["to_location_id"]
+            isOneToOne: false
+            referencedRelation: "locations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      stocktake_lines: {
+        Row: {
+          counted_at: string | null
+          counted_by: string | null
+          counted_quantity: number | null
+          created_at: string
+          expected_quantity: number
+          id: string
+          item_id: string
+          stocktake_id: string
+          updated_at: string
+          user_id: string
+          variance: number | null
+        }
+        Insert: {
+          counted_at?: string | null
+          counted_by?: string | null
+          counted_quantity?: number | null
+          created_at?: string
+          expected_quantity: number
+          id?: string
+          item_id: string
+          stocktake_id: string
+          updated_at?: string
+          user_id: string
+          variance?: never
+        }
+        Update: {
+          counted_at?: string | null
+          counted_by?: string | null
+          counted_quantity?: number | null
+          created_at?: string
+          expected_quantity?: number
+          id?: string
+          item_id?: string
+          stocktake_id?: string
+          updated_at?: string
+          user_id?: string
+          variance?: never
+        }
+        Relationships: [
+          {
+            foreignKeyName: "stocktake_lines_item_id_fkey"
+            columns: ["item_id"]
+            isOneToOne: false
+            referencedRelation: "inventory_items"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "stocktake_lines_stocktake_id_fkey"
+            columns: ["stocktake_id"]
+            isOneToOne: false
+            referencedRelation: "stocktakes"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      stocktakes: {
+        Row: {
+          created_at: string
+          id: string
+          location_id: string
+          posted_at: string | null
+          reference: string | null
+          status: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          location_id: string
+          posted_at?: string | null
+          reference?: string | null
+          status?: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          location_id?: string
+          posted_at?: string | null
+          reference?: string | null
+          status?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "stocktakes_location_id_fkey"
+            columns: ["location_id"]
+            isOneToOne: false
+            referencedRelation: "locations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      suppliers: {
+        Row: {
+          contact_name: string | null
+          created_at: string
+          currency: string
+          email: string | null
+          id: string
+          lead_time_days: number | null
+          name: string
+          notes: string | null
+          phone: string | null
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          contact_name?: string | null
+          created_at?: string
+          currency?: string
+          email?: string | null
+          id?: string
+          lead_time_days?: number | null
+          name: string
+          notes?: string | null
+          phone?: string | null
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          contact_name?: string | null
+          created_at?: string
+          currency?: string
+          email?: string | null
+          id?: string
+          lead_time_days?: number | null
+          name?: string
+          notes?: string | null
+          phone?: string | null
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      units: {
+        Row: {
+          created_at: string
+          decimal_places: number
+          id: string
+          name: string
+          symbol: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          decimal_places?: number
+          id?: string
+          name: string
+          symbol: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          decimal_places?: number
+          id?: string
+          name?: string
+          symbol?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+    }
+    Views: {
+      [_ in never]: never
+    }
+    Functions: {
+      account_currency: {
+        Args: never
+        Returns: string
+      }
+      add_category: {
+        Args: { _path: string }
+        Returns: {
+          created_at: string
+          id: string
+          name: string
+          parent_id: string | null
+          updated_at: string
+          user_id: string
+        }
+      }
+      adjust_stock: {
+        Args: {
+          _delta: number
+          _item_id: string
+          _location_id?: string
+          _note?: string
+          _reason_code: string
+        }
+        Returns: {
+          available_quantity: number | null
+          category_id: string | null
+          cost_price: number | null
+          created_at: string
+          currency: string
+          custom_values: Json
+          description: string | null
+          id: string
+          is_serialized: boolean
+          lead_time_days: number | null
+          low_stock_threshold: number | null
+          max_stock_level: number | null
+          name: string
+          option_axes: Json | null
+          option_values: Json | null
+          parent_id: string | null
+          purchase_factor: number
+          purchase_unit_id: string | null
+          quantity: number
+          reorder_point: number | null
+          reorder_quantity: number | null
+          reserved_quantity: number
+          sale_factor: number
+          sale_unit_id: string | null
+          sku: string | null
+          unit_id: string
+          unit_price: number | null
+          updated_at: string
+          user_id: string
+        }
+      }
+      approve_return: {
+        Args: { _return_id: string }
+        Returns: {
+          condition: string
+          created_at: string
+          customer_name: string
+          id: string
+          item_id: string
+          location_id: string | null
+          processed_at: string | null
+          quantity: number
+          reason: string | null
+          reference: string | null
+          status: string
+          updated_at: string
+          user_id: string
+        }
+      }
+      assemble_kit: {
+        Args: {
+          _kit_id: string
+          _location_id?: string
+          _note?: string
+          _quantity: number
+        }
+        Returns: {
+          created_at: string
+          direction: string
+          id: string
+          kit_id: string
+          location_id: string
+          note: string | null
+          quantity: number
+          user_id: string
+        }
+      }
+      book_serial_movements: {
+        Args: {
+          _cost_currency?: string
+          _direction: number
+          _item: unknown
+          _location_id: string
+          _note: string
+          _reason: string
+          _reference_id: string
+          _reference_type: string
+          _serials: string[]
+          _unit_cost?: number
+        }
+        Returns: {
+          created_at: string
+          id: string
+          item_id: string
+          location_id: string | null
+          serial: string
+          status: string
+          updated_at: string
+          user_id: string
+        }[]
+      }
+      build_kit: {
+        Args: {
+          _direction: string
+          _kit_id: string
+          _location_id: string
+          _note: string
+          _quantity: number
+        }
+        Returns: {
+          created_at: string
+          direction: string
+          id: string
+          kit_id: string
+          location_id: string
+          note: string | null
+          quantity: number
+          user_id: string
+        }
+      }
+      builtin_adjustment_reasons: {
+        Args: never
+        Returns: string[]
+      }
+      cancel_sales_order: {
+        Args: { _order_id: string }
+        Returns: {
+          cancelled_at: string | null
+          confirmed_at: string | null
+          created_at: string
+          customer_name: string
+          fulfilled_at: string | null
+          id: string
+          location_id: string | null
+          notes: string | null
+          reference: string | null
+          status: string
+          updated_at: string
+          user_id: string
+        }
+      }
+      cancel_stocktake: {
+        Args: { _stocktake_id: string }
+        Returns: {
+          created_at: string
+          id: string
+          location_id: string
+          posted_at: string | null
+          reference: string | null
+          status: string
+          updated_at: string
+          user_id: string
+        }
+      }
+      cancel_transfer: {
+        Args: { _transfer_id: string }
+        Returns: {
+          created_at: string
+          from_location_id: string
+          id: string
+          item_id: string
+          note: string | null
+          quantity: number
+          received_at: string | null
+          status: string
+          to_location_id: string
+          updated_at: string
+          user_id: string
+        }
+      }
+      category_path_id: {
+        Args: { _path: string; _user_id: string }
+        Returns: string
+      }
+      check_custom_value: {
+        Args: { _field: unknown; _value: Json }
+        Returns: undefined
+      }
+      check_unit_quantity: {
+        Args: { _quantity: number; _unit_id: string }
+        Returns: undefined
+      }
+      close_purchase_order: {
+        Args: { _order_id: string }
+        Returns: {
+          closed_at: string | null
+          created_at: string
+          expected_date: string | null
+          id: string
+          location_id: string | null
+          notes: string | null
+          reference: string | null
+          sent_at: string | null
+          status: string
+          supplier_id: string
+          updated_at: string
+          user_id: string
+        }
+      }
+      confirm_sales_order: {
+        Args: { _order_id: string }
+        Returns: {
+          cancelled_at: string | null
+          confirmed_at: string | null
+          created_at: string
+          customer_name: string
+          fulfilled_at: string | null
+          id: string
+          location_id: string | null
+          notes: string | null
+          reference: string | null
+          status: string
+          updated_at: string
+          user_id: string
+        }
+      }
+      count_stocktake_item: {
+        Args: {
+          _add?: boolean
+          _item_id: string
+          _quantity: number
+          _stocktake_id: string
+        }
+        Returns: {
+          counted_at: string | null
+          counted_by: string | null
+          counted_quantity: number | null
+          created_at: string
+          expected_quantity: number
+          id: string
+          item_id: string
+          stocktake_id: string
+          updated_at: string
+          user_id: string
+          variance: number | null
+        }
+      }
+      create_item_with_variants: {
+        Args: { _item: Json; _variants: Json }
+        Returns: {
+          available_quantity: number | null
+          category_id: string | null
+          cost_price: number | null
+          created_at: string
+          currency: string
+          custom_values: Json
+          description: string | null
+          id: string
+          is_serialized: boolean
+          lead_time_days: number | null
+          low_stock_threshold: number | null
+          max_stock_level: number | null
+          name: string
+          option_axes: Json | null
+          option_values: Json | null
+          parent_id: string | null
+          purchase_factor: number
+          purchase_unit_id: string | null
+          quantity: number
+          reorder_point: number | null
+          reorder_quantity: number | null
+          reserved_quantity: number
+          sale_factor: number
+          sale_unit_id: string | null
+          sku: string | null
+          unit_id: string
+          unit_price: number | null
+          updated_at: string
+          user_id: string
+        }
+      }
+      default_location_id: {
+        Args: { _user_id: string }
+        Returns: string
+      }
+      default_unit_id: {
+        Args: { _user_id: string }
+        Returns: string
+      }
+      disassemble_kit: {
+        Args: {
+          _kit_id: string
+          _location_id?: string
+          _note?: string
+          _quantity: number
+        }
+        Returns: {
+          created_at: string
+          direction: string
+          id: string
+          kit_id: string
+          location_id: string
+          note: string | null
+          quantity: number
+          user_id: string
+        }
+      }
+      fulfil_sales_order: {
+        Args: { _order_id: string; _serials?: string[] }
+        Returns: {
+          cancelled_at: string | null
+          confirmed_at: string | null
+          created_at: string
+          customer_name: string
+          fulfilled_at: string | null
+          id: string
+          location_id: string | null
+          notes: string | null
+          reference: string | null
+          status: string
+          updated_at: string
+          user_id: string
+        }
+      }
+      place_purchase_order: {
+        Args: { _lines: Json; _notes?: string; _supplier_id: string }
+        Returns: {
+          closed_at: string | null
+          created_at: string
+          expected_date: string | null
+          id: string
+          location_id: string | null
+          notes: string | null
+          reference: string | null
+          sent_at: string | null
+          status: string
+          supplier_id: string
+          updated_at: string
+          user_id: string
+        }
+      }
+      post_stocktake: {
+        Args: { _stocktake_id: string }
+        Returns: {
+          created_at: string
+          id: string
+          location_id: string
+          posted_at: string | null
+          reference: string | null
+          status: string
+          updated_at: string
+          user_id: string
+        }
+      }
+      receive_lot: {
+        Args: {
+          _expires_on?: string
+          _item_id: string
+          _location_id?: string
+          _lot_number: string
+          _manufactured_on?: string
+          _note?: string
+          _quantity: number
+          _unit_cost?: number
+        }
+        Returns: {
+          created_at: string
+          expires_on: string | null
+          id: string
+          item_id: string
+          location_id: string
+          lot_number: string
+          manufactured_on: string | null
+          quantity: number
+          updated_at: string
+          user_id: string
+        }
+      }
+      receive_purchase_order_line: {
+        Args: {
+          _line_id: string
+          _location_id?: string
+          _note?: string
+          _quantity: number
+          _serials?: string[]
+        }
+        Returns: {
+          created_at: string
+          id: string
+          item_id: string
+          purchase_order_id: string
+          quantity_ordered: number
+          quantity_received: number
+          unit_cost: number | null
+          unit_factor: number
+          unit_id: string | null
+          updated_at: string
+          user_id: string
+          variance: number | null
+        }
+      }
+      receive_serials: {
+        Args: {
+          _item_id: string
+          _location_id?: string
+          _note?: string
+          _reason?: string
+          _serials: string[]
+          _unit_cost?: number
+        }
+        Returns: {
+          created_at: string
+          id: string
+          item_id: string
+          location_id: string | null
+          serial: string
+          status: string
+          updated_at: string
+          user_id: string
+        }[]
+      }
+      receive_stock: {
+        Args: {
+          _item_id: string
+          _location_id?: string
+          _note?: string
+          _quantity: number
+        }
+        Returns: {
+          available_quantity: number | null
+          category_id: string | null
+          cost_price: number | null
+          created_at: string
+          currency: string
+          custom_values: Json
+          description: string | null
+          id: string
+          is_serialized: boolean
+          lead_time_days: number | null
+          low_stock_threshold: number | null
+          max_stock_level: number | null
+          name: string
+          option_axes: Json | null
+          option_values: Json | null
+          parent_id: string | null
+          purchase_factor: number
+          purchase_unit_id: string | null
+          quantity: number
+          reorder_point: number | null
+          reorder_quantity: number | null
+          reserved_quantity: number
+          sale_factor: number
+          sale_unit_id: string | null
+          sku: string | null
+          unit_id: string
+          unit_price: number | null
+          updated_at: string
+          user_id: string
+        }
+      }
+      receive_transfer: {
+        Args: { _transfer_id: string }
+        Returns: {
+          created_at: string
+          from_location_id: string
+          id: string
+          item_id: string
+          note: string | null
+          quantity: number
+          received_at: string | null
+          status: string
+          to_location_id: string
+          updated_at: string
+          user_id: string
+        }
+      }
+      reject_return: {
+        Args: { _return_id: string }
+        Returns: {
+          condition: string
+          created_at: string
+          customer_name: string
+          id: string
+          item_id: string
+          location_id: string | null
+          processed_at: string | null
+          quantity: number
+          reason: string | null
+          reference: string | null
+          status: string
+          updated_at: string
+          user_id: string
+        }
+      }
+      remove_serials: {
+        Args: {
+          _item_id: string
+          _note?: string
+          _reason_code: string
+          _serials: string[]
+        }
+        Returns: {
+          created_at: string
+          id: string
+          item_id: string
+          location_id: string | null
+          serial: string
+          status: string
+          updated_at: string
+          user_id: string
+        }[]
+      }
+      send_purchase_order: {
+        Args: { _order_id: string }
+        Returns: {
+          closed_at: string | null
+          created_at: string
+          expected_date: string | null
+          id: string
+          location_id: string | null
+          notes: string | null
+          reference: string | null
+          sent_at: string | null
+          status: string
+          supplier_id: string
+          updated_at: string
+          user_id: string
+        }
+      }
+      set_stock_threshold: {
+        Args: { _item_id: string; _location_id: string; _threshold: number }
+        Returns: {
+          created_at: string
+          id: string
+          item_id: string
+          location_id: string
+          low_stock_threshold: number | null
+          quantity: number
+          updated_at: string
+          user_id: string
+        }
+      }
+      start_stocktake: {
+        Args: { _item_ids?: string[]; _location_id: string; _reference?: string }
+        Returns: {
+          created_at: string
+          id: string
+          location_id: string
+          posted_at: string | null
+          reference: string | null
+          status: string
+          updated_at: string
+          user_id: string
+        }
+      }
+      transfer_serials: {
+        Args: {
+          _item_id: string
+          _note?: string
+          _serials: string[]
+          _to_location_id: string
+        }
+        Returns: {
+          created_at: string
+          from_location_id: string
+          id: string
+          item_id: string
+          note: string | null
+          quantity: number
+          received_at: string | null
+          status: string
+          to_location_id: string
+          updated_at: string
+          user_id: string
+        }[]
+      }
+      transfer_stock: {
+        Args: {
+          _from_location_id: string
+          _in_transit?: boolean
+          _item_id: string
+          _note?: string
+          _quantity: number
+          _to_location_id: string
+        }
+        Returns: {
+          created_at: string
+          from_location_id: string
+          id: string
+          item_id: string
+          note: string | null
+          quantity: number
+          received_at: string | null
+          status: string
+          to_location_id: string
+          updated_at: string
+          user_id: string
+        }
+      }
     }
     Enums: {
       [_ in never]: never
@@ -0,0 +1,63 @@
+export interface AdjustmentReason {
+  code: string;
+  name: string;
+}
+
+/** Reasons every account has. Keep in step with builtin_adjustment_reasons() in the database. */
+export const BUILT_IN_REASONS: AdjustmentReason[] = [
+  { code: "damaged", name: "Damaged" },
+  { code: "theft", name: "Theft" },
+  { code: "found", name: "Found" },
+  { code: "expired", name: "Expired" },
+  { code: "correction", name: "Correction" },
+  { code: "sample", name: "Sample" },
+];
+
+/** Turns a reason's name into the code stored on movements, e.g. "Water damage" → "water_damage". */
+export const reasonCode = (name: string) =>
+  name
+    .trim()
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "_")
+    .replace(/^_+|_+$/g, "");
+
+export const isBuiltInReason = (code: string) => BUILT_IN_REASONS.some((r) => r.code === code);
+
+export type ShrinkagePeriod = "week" | "month" | "quarter";
+
+export const SHRINKAGE_PERIODS: { value: ShrinkagePeriod; label: string }[] = [
+  { value: "week", label: "Weekly" },
+  { value: "month", label: "Monthly" },
+  { value: "quarter", label: "Quarterly" },
+];
+
+export const isShrinkagePeriod = (value: string | null | undefined): value is ShrinkagePeriod =>
+  SHRINKAGE_PERIODS.some((p) => p.value === value);
+
+/** The local date the period containing `date` starts on. Weeks start on Monday. */
+export const periodStart = (date: Date, period: ShrinkagePeriod) => {
+  if (period === "week") {
+    return new Date(date.getFullYear(), date.getMonth(), date.getDate() - ((date.getDay() + 6) % 7));
+  }
+  if (period === "quarter") return new Date(date.getFullYear(), date.getMonth() - (date.getMonth() % 3), 1);
+  return new Date(date.getFullYear(), date.getMonth(), 1);
+};
+
+export const periodLabel = (start: Date, period: ShrinkagePeriod) => {
+  if (period === "week") return `Week of ${start.toLocaleDateString(undefined, { month: "short", day: "numeric" })}`;
+  if (period === "quarter") return `Q${Math.floor(start.getMonth() / 3) + 1} ${start.getFullYear()}`;
+  return start.toLocaleDateString(undefined, { month: "short", year: "numeric" });
+};
+
+/** The start of every period overlapping `from`..`to`, oldest first. */
+export const periodsBetween = (from: Date, to: Date, period: ShrinkagePeriod) => {
+  const starts: Date[] = [];
+  for (let start = periodStart(from, period); start <= to; ) {
+    starts.push(start);
+    start =
+      period === "week"
+        ? new Date(start.getFullYear(), start.getMonth(), start.getDate() + 7)
+        : new Date(start.getFullYear(), start.getMonth() + (period === "quarter" ? 3 : 1), 1);
+  }
+  return starts;
+};
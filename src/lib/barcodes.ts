@@ -0,0 +1,390 @@
+export type Symbology = "code128" | "ean13" | "qr";
+
+export const SYMBOLOGIES: { value: Symbology; label: string }[] = [
+  { value: "code128", label: "Code 128" },
+  { value: "ean13", label: "EAN-13" },
+  { value: "qr", label: "QR code" },
+];
+
+export const isSymbology = (value: string | null): value is Symbology =>
+  SYMBOLOGIES.some((s) => s.value === value);
+
+/** A row of bars, one entry per module, with the blank margin it needs on each side. */
+export interface LinearBarcode {
+  type: "linear";
+  bars: boolean[];
+  quietZone: number;
+}
+
+/** A square grid of dark and light modules. */
+export interface MatrixBarcode {
+  type: "matrix";
+  modules: boolean[][];
+  quietZone: number;
+}
+
+export type Barcode = LinearBarcode | MatrixBarcode;
+
+/** Encodes `text`, throwing when the symbology can't hold it. */
+export const encodeBarcode = (symbology: Symbology, text: string): Barcode => {
+  if (!text) throw new Error("Nothing to encode");
+  switch (symbology) {
+    case "code128":
+      return { type: "linear", bars: code128(text), quietZone: 10 };
+    case "ean13":
+      return { type: "linear", bars: ean13(text), quietZone: 11 };
+    case "qr":
+      return { type: "matrix", modules: qrCode(text), quietZone: 4 };
+  }
+};
+
+// Bar and space widths alternate, starting with a bar
+const widthsToBars = (widths: string) =>
+  [...widths].flatMap((w, i) => Array<boolean>(Number(w)).fill(i % 2 === 0));
+
+/* ---------- Code 128 ---------- */
+
+// Symbol values 0-105 as bar/space widths; 103-105 are the start codes
+export const CODE128_PATTERNS = [
+  "212222", "222122", "222221", "121223", "121322", "131222", "122213", "122312", "132212", "221213",
+  "221312", "231212", "112232", "122132", "122231", "113222", "123122", "123221", "223211", "221132",
+  "221231", "213212", "223112", "312131", "311222", "321122", "321221", "312212", "322112", "322211",
+  "212123", "212321", "232121", "111323", "131123", "131321", "112313", "132113", "132311", "211313",
+  "231113", "231311", "112133", "112331", "132131", "113123", "113321", "133121", "313121", "211331",
+  "231131", "213113", "213311", "213131", "311123", "311321", "331121", "312113", "312311", "332111",
+  "314111", "221411", "431111", "111224", "111422", "121124", "121421", "141122", "141221", "112214",
+  "112412", "122114", "122411", "142112", "142211", "241211", "221114", "413111", "241112", "134111",
+  "111242", "121142", "121241", "114212", "124112", "124211", "411212", "421112", "421211", "212141",
+  "214121", "412121", "111143", "111341", "131141", "114113", "114311", "411113", "411311", "113141",
+  "114131", "311141", "411131", "211412", "211214", "211232",
+];
+export const CODE128_STOP = "2331112";
+const START_B = 104;
+const START_C = 105;
+
+const code128 = (text: string) => {
+  let values: number[];
+  // Code set C packs digit pairs into one symbol, halving the width of numeric SKUs
+  if (/^(\d\d)+$/.test(text)) {
+    values = [START_C, ...(text.match(/\d\d/g) ?? []).map(Number)];
+  } else {
+    values = [START_B];
+    for (const char of text) {
+      const code = char.charCodeAt(0);
+      if (char.length > 1 || code < 32 || code > 126) {
+        throw new Error("Code 128 can only hold letters, digits and common symbols");
+      }
+      values.push(code - 32);
+    }
+  }
+  const checksum = values.reduce((sum, value, i) => sum + value * Math.max(i, 1), 0) % 103;
+  return widthsToBars([...values, checksum].map((v) => CODE128_PATTERNS[v]).join("") + CODE128_STOP);
+};
+
+/* ---------- EAN-13 ---------- */
+
+export const EAN_L = ["0001101", "0011001", "0010011", "0111101", "0100011", "0110001", "0101111", "0111011", "0110111", "0001011"];
+// The first digit isn't drawn; it picks which left-hand digits use the G set
+export const EAN_PARITY = ["LLLLLL", "LLGLGG", "LLGGLG", "LLGGGL", "LGLLGG", "LGGLLG", "LGGGLL", "LGLGLG", "LGLGGL", "LGGLGL"];
+
+export const invert = (bits: string) => [...bits].map((b) => (b === "1" ? "0" : "1")).join("");
+
+/** The check digit completing a 12-digit EAN. */
+export const ean13CheckDigit = (digits: string) => {
+  const sum = [...digits.slice(0, 12)].reduce((total, d, i) => total + Number(d) * (i % 2 === 0 ? 1 : 3), 0);
+  return (10 - (sum % 10)) % 10;
+};
+
+const ean13 = (text: string) => {
+  if (!/^\d{12,13}$/.test(text)) throw new Error("EAN-13 needs 13 digits, or 12 for a UPC-A code");
+  // A UPC-A code is the EAN-13 with a leading 0, and scans back as that
+  const code = text.length === 12 ? `0${text}` : text;
+  if (Number(code[12]) !== ean13CheckDigit(code)) throw new Error(`${text} has the wrong check digit`);
+  const digits = [...code].map(Number);
+
+  const parity = EAN_PARITY[digits[0]];
+  let bits = "101";
+  digits.slice(1, 7).forEach((d, i) => {
+    const right = invert(EAN_L[d]);
+    bits += parity[i] === "L" ? EAN_L[d] : [...right].reverse().join("");
+  });
+  bits += "01010";
+  digits.slice(7).forEach((d) => (bits += invert(EAN_L[d])));
+  bits += "101";
+  return [...bits].map((b) => b === "1");
+};
+
+/* ---------- QR code ---------- */
+
+// Versions 1-10 at error correction level M, which hold up to 213 bytes
+const QR_MAX_VERSION = 10;
+const QR_ECC_PER_BLOCK = [0, 10, 16, 26, 18, 24, 16, 18, 22, 22, 26];
+const QR_BLOCKS = [0, 1, 1, 1, 2, 2, 4, 4, 4, 5, 5];
+const QR_LEVEL_M_BITS = 0;
+
+const gfMultiply = (x: number, y: number) => {
+  let z = 0;
+  for (let i = 7; i >= 0; i--) {
+    z = (z << 1) ^ ((z >>> 7) * 0x11d);
+    z ^= ((y >>> i) & 1) * x;
+  }
+  return z;
+};
+
+const reedSolomonDivisor = (degree: number) => {
+  const result = Array<number>(degree).fill(0);
+  result[degree - 1] = 1;
+  let root = 1;
+  for (let i = 0; i < degree; i++) {
+    for (let j = 0; j < degree; j++) {
+      result[j] = gfMultiply(result[j], root);
+      if (j + 1 < degree) result[j] ^= result[j + 1];
+    }
+    root = gfMultiply(root, 0x02);
+  }
+  return result;
+};
+
+/** Error correction codewords for one block of data. */
+export const reedSolomonRemainder = (data: number[], degree: number) => {
+  const divisor = reedSolomonDivisor(degree);
+  const result = Array<number>(degree).fill(0);
+  for (const byte of data) {
+    const factor = byte ^ (result.shift() as number);
+    result.push(0);
+    divisor.forEach((coef, i) => (result[i] ^= gfMultiply(coef, factor)));
+  }
+  return result;
+};
+
+const qrSize = (version: number) => version * 4 + 17;
+
+// Modules left for data and error correction once the fixed patterns are drawn
+const rawDataModules = (version: number) => {
+  let result = (16 * version + 128) * version + 64;
+  if (version >= 2) {
+    const alignments = Math.floor(version / 7) + 2;
+    result -= (25 * alignments - 10) * alignments - 55;
+    if (version >= 7) result -= 36;
+  }
+  return result;
+};
+
+const dataCodewords = (version: number) =>
+  Math.floor(rawDataModules(version) / 8) - QR_ECC_PER_BLOCK[version] * QR_BLOCKS[version];
+
+const alignmentPositions = (version: number) => {
+  if (version === 1) return [];
+  const count = Math.floor(version / 7) + 2;
+  const step = Math.ceil((version * 4 + 4) / (count * 2 - 2)) * 2;
+  const result = [6];
+  for (let pos = qrSize(version) - 7; result.length < count; pos -= step) result.splice(1, 0, pos);
+  return result;
+};
+
+// BCH remainder of `value` by `generator`, used for the format and version bits
+const bchBits = (value: number, generator: number, degree: number) => {
+  let rem = value;
+  for (let i = 0; i < degree; i++) rem = (rem << 1) ^ ((rem >>> (degree - 1)) * generator);
+  return (value << degree) | rem;
+};
+
+const MASKS: ((x: number, y: number) => boolean)[] = [
+  (x, y) => (x + y) % 2 === 0,
+  (_x, y) => y % 2 === 0,
+  (x) => x % 3 === 0,
+  (x, y) => (x + y) % 3 === 0,
+  (x, y) => (Math.floor(x / 3) + Math.floor(y / 2)) % 2 === 0,
+  (x, y) => ((x * y) % 2) + ((x * y) % 3) === 0,
+  (x, y) => (((x * y) % 2) + ((x * y) % 3)) % 2 === 0,
+  (x, y) => (((x + y) % 2) + ((x * y) % 3)) % 2 === 0,
+];
+
+const encodeData = (bytes: Uint8Array) => {
+  for (let version = 1; version <= QR_MAX_VERSION; version++) {
+    const countBits = version < 10 ? 8 : 16;
+    const capacity = dataCodewords(version) * 8;
+    if (4 + countBits + bytes.length * 8 > capacity) continue;
+
+    const bits: number[] = [];
+    const append = (value: number, length: number) => {
+      for (let i = length - 1; i >= 0; i--) bits.push((value >>> i) & 1);
+    };
+    append(0b0100, 4); // byte mode
+    append(bytes.length, countBits);
+    bytes.forEach((b) => append(b, 8));
+    append(0, Math.min(4, capacity - bits.length));
+    append(0, (8 - (bits.length % 8)) % 8);
+    for (let pad = 0xec; bits.length < capacity; pad ^= 0xec ^ 0x11) append(pad, 8);
+
+    const codewords: number[] = [];
+    for (let i = 0; i < bits.length; i += 8) codewords.push(parseInt(bits.slice(i, i + 8).join(""), 2));
+    return { version, codewords };
+  }
+  throw new Error("Too long for a QR code label");
+};
+
+// Splits data into blocks, adds error correction to each and interleaves them
+const addErrorCorrection = (version: number, data: number[]) => {
+  const blockCount = QR_BLOCKS[version];
+  const eccLength = QR_ECC_PER_BLOCK[version];
+  const rawCodewords = Math.floor(rawDataModules(version) / 8);
+  const shortBlocks = blockCount - (rawCodewords % blockCount);
+  const shortLength = Math.floor(rawCodewords / blockCount) - eccLength;
+
+  const blocks: number[][] = [];
+  const eccs: number[][] = [];
+  for (let i = 0, offset = 0; i < blockCount; i++) {
+    const length = shortLength + (i < shortBlocks ? 0 : 1);
+    const block = data.slice(offset, offset + length);
+    offset += length;
+    blocks.push(block);
+    eccs.push(reedSolomonRemainder(block, eccLength));
+  }
+
+  const result: number[] = [];
+  for (let i = 0; i <= shortLength; i++) blocks.forEach((b) => i < b.length && result.push(b[i]));
+  for (let i = 0; i < eccLength; i++) eccs.forEach((e) => result.push(e[i]));
+  return result;
+};
+
+// Lower is easier to scan: long runs, solid blocks, finder look-alikes and
+// an uneven dark/light balance all count against a mask
+const penalty = (modules: boolean[][]) => {
+  const size = modules.length;
+  let score = 0;
+  const line = (get: (i: number) => boolean) => {
+    let run = 1;
+    for (let i = 1; i <= size; i++) {
+      if (i < size && get(i) === get(i - 1)) {
+        run++;
+      } else {
+        if (run >= 5) score += run - 2;
+        run = 1;
+      }
+    }
+    const bits = Array.from({ length: size }, (_, i) => (get(i) ? "1" : "0")).join("");
+    for (const pattern of ["10111010000", "00001011101"]) {
+      for (let at = bits.indexOf(pattern); at !== -1; at = bits.indexOf(pattern, at + 1)) score += 40;
+    }
+  };
+  for (let i = 0; i < size; i++) {
+    line((x) => modules[i][x]);
+    line((y) => modules[y][i]);
+  }
+  for (let y = 0; y < size - 1; y++) {
+    for (let x = 0; x < size - 1; x++) {
+      const c = modules[y][x];
+      if (c === modules[y][x + 1] && c === modules[y + 1][x] && c === modules[y + 1][x + 1]) score += 3;
+    }
+  }
+  const dark = modules.flat().filter(Boolean).length;
+  score += Math.floor(Math.abs((dark * 20) / (size * size) - 10)) * 10;
+  return score;
+};
+
+/** QR code modules for `text` as UTF-8, row by row. */
+export const qrCode = (text: string) => {
+  const { version, codewords } = encodeData(new TextEncoder().encode(text));
+  const size = qrSize(version);
+  const modules = Array.from({ length: size }, () => Array<boolean>(size).fill(false));
+  const reserved = Array.from({ length: size }, () => Array<boolean>(size).fill(false));
+  const setFixed = (x: number, y: number, dark: boolean) => {
+    modules[y][x] = dark;
+    reserved[y][x] = true;
+  };
+
+  // Timing lines, then the finders and alignment patterns over them
+  for (let i = 0; i < size; i++) {
+    setFixed(6, i, i % 2 === 0);
+    setFixed(i, 6, i % 2 === 0);
+  }
+  for (const [cx, cy] of [[3, 3], [size - 4, 3], [3, size - 4]]) {
+    for (let dy = -4; dy <= 4; dy++) {
+      for (let dx = -4; dx <= 4; dx++) {
+        const x = cx + dx;
+        const y = cy + dy;
+        const dist = Math.max(Math.abs(dx), Math.abs(dy));
+        if (x >= 0 && x < size && y >= 0 && y < size) setFixed(x, y, dist !== 2 && dist !== 4);
+      }
+    }
+  }
+  const positions = alignmentPositions(version);
+  positions.forEach((cx, i) =>
+    positions.forEach((cy, j) => {
+      const last = positions.length - 1;
+      // Skip the three corners the finders already occupy
+      if ((i === 0 && j === 0) || (i === 0 && j === last) || (i === last && j === 0)) return;
+      for (let dy = -2; dy <= 2; dy++) {
+        for (let dx = -2; dx <= 2; dx++) setFixed(cx + dx, cy + dy, Math.max(Math.abs(dx), Math.abs(dy)) !== 1);
+      }
+    })
+  );
+
+  const drawFormat = (mask: number) => {
+    const bits = bchBits((QR_LEVEL_M_BITS << 3) | mask, 0x537, 10) ^ 0x5412;
+    const bit = (i: number) => ((bits >>> i) & 1) === 1;
+    for (let i = 0; i <= 5; i++) setFixed(8, i, bit(i));
+    setFixed(8, 7, bit(6));
+    setFixed(8, 8, bit(7));
+    setFixed(7, 8, bit(8));
+    for (let i = 9; i < 15; i++) setFixed(14 - i, 8, bit(i));
+    for (let i = 0; i < 8; i++) setFixed(size - 1 - i, 8, bit(i));
+    for (let i = 8; i < 15; i++) setFixed(8, size - 15 + i, bit(i));
+    setFixed(8, size - 8, true);
+  };
+  drawFormat(0); // reserves the format areas before data goes in
+
+  if (version >= 7) {
+    const bits = bchBits(version, 0x1f25, 12);
+    for (let i = 0; i < 18; i++) {
+      const dark = ((bits >>> i) & 1) === 1;
+      const a = size - 11 + (i % 3);
+      const b = Math.floor(i / 3);
+      setFixed(a, b, dark);
+      setFixed(b, a, dark);
+    }
+  }
+
+  // Data runs in two-module columns zigzagging up and down from the bottom right
+  const data = addErrorCorrection(version, codewords);
+  let i = 0;
+  for (let right = size - 1; right >= 1; right -= 2) {
+    if (right === 6) right = 5;
+    for (let vert = 0; vert < size; vert++) {
+      for (let j = 0; j < 2; j++) {
+        const x = right - j;
+        const y = ((right + 1) & 2) === 0 ? size - 1 - vert : vert;
+        if (!reserved[y][x] && i < data.length * 8) {
+          modules[y][x] = ((data[i >>> 3] >>> (7 - (i & 7))) & 1) === 1;
+          i++;
+        }
+      }
+    }
+  }
+
+  const applyMask = (mask: number) => {
+    for (let y = 0; y < size; y++) {
+      for (let x = 0; x < size; x++) {
+        if (!reserved[y][x] && MASKS[mask](x, y)) modules[y][x] = !modules[y][x];
+      }
+    }
+  };
+
+  // Masking twice undoes it, so each candidate can be tried in place
+  let best = 0;
+  let bestScore = Infinity;
+  MASKS.forEach((_, mask) => {
+    applyMask(mask);
+    drawFormat(mask);
+    const score = penalty(modules);
+    if (score < bestScore) {
+      best = mask;
+      bestScore = score;
+    }
+    applyMask(mask);
+  });
+  applyMask(best);
+  drawFormat(best);
+  return modules;
+};
@@ -0,0 +1,70 @@
+interface CategoryLike {
+  id: string;
+  parent_id: string | null;
+  name: string;
+}
+
+export interface CategoryNode<T extends CategoryLike> {
+  category: T;
+  depth: number;
+  children: CategoryNode<T>[];
+}
+
+/** Joins the levels of a category path; add_category also accepts "/". */
+export const CATEGORY_SEPARATOR = " > ";
+
+/** Arranges categories into a tree with siblings sorted by name. */
+export const buildCategoryTree = <T extends CategoryLike>(categories: T[]) => {
+  const nodes = new Map<string, CategoryNode<T>>(
+    categories.map((category) => [category.id, { category, depth: 0, children: [] }])
+  );
+  const roots: CategoryNode<T>[] = [];
+  nodes.forEach((node) => {
+    const parent = node.category.parent_id ? nodes.get(node.category.parent_id) : undefined;
+    if (parent) parent.children.push(node);
+    else roots.push(node);
+  });
+
+  const sortLevel = (level: CategoryNode<T>[], depth: number) => {
+    level.sort((a, b) => a.category.name.localeCompare(b.category.name));
+    level.forEach((node) => {
+      node.depth = depth;
+      sortLevel(node.children, depth + 1);
+    });
+  };
+  sortLevel(roots, 0);
+  return roots;
+};
+
+/** Lists the tree depth-first, so each category follows its parent. */
+export const flattenCategoryTree = <T extends CategoryLike>(roots: CategoryNode<T>[]): CategoryNode<T>[] =>
+  roots.flatMap((node) => [node, ...flattenCategoryTree(node.children)]);
+
+/** The full path of a category, e.g. "Apparel > Shirts". */
+export const categoryPath = <T extends CategoryLike>(id: string | null, byId: Map<string, T>) => {
+  const names: string[] = [];
+  const seen = new Set<string>();
+  let current = id ? byId.get(id) : undefined;
+  while (current && !seen.has(current.id)) {
+    seen.add(current.id);
+    names.unshift(current.name);
+    current = current.parent_id ? byId.get(current.parent_id) : undefined;
+  }
+  return names.join(CATEGORY_SEPARATOR);
+};
+
+/** The ids of a category and every category nested beneath it. */
+export const categorySubtree = <T extends CategoryLike>(id: string, categories: T[]) => {
+  const ids = new Set([id]);
+  let grew = true;
+  while (grew) {
+    grew = false;
+    categories.forEach((c) => {
+      if (c.parent_id && ids.has(c.parent_id) && !ids.has(c.id)) {
+        ids.add(c.id);
+        grew = true;
+      }
+    });
+  }
+  return ids;
+};
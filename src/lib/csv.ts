@@ -0,0 +1,19 @@
+type CsvValue = string | number | null | undefined;
+
+const escapeCell = (value: CsvValue) => {
+  const text = value == null ? "" : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/** Builds CSV text from rows of cells, quoting only where needed. */
+export const toCsv = (rows: CsvValue[][]) => rows.map((row) => row.map(escapeCell).join(",")).join("\r\n");
+
+/** Saves CSV text as a file through the browser's download prompt. */
+export const downloadCsv = (filename: string, csv: string) => {
+  const url = URL.createObjectURL(new Blob([csv], { type: "text/csv;charset=utf-8" }));
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+};
@@ -0,0 +1,56 @@
+export const DEFAULT_CURRENCY = "USD";
+
+interface RateLike {
+  from_currency: string;
+  to_currency: string;
+  rate: number;
+}
+
+export interface MoneyAmount {
+  amount: number;
+  currency: string;
+}
+
+/** ISO 4217-style code as stored in the database, e.g. "EUR". */
+export const isCurrencyCode = (code: string) => /^[A-Z]{3}$/.test(code);
+
+const formatters = new Map<string, Intl.NumberFormat>();
+
+/** Formats an amount in a currency, e.g. "€12.50". */
+export const formatMoney = (amount: number, currency: string) => {
+  let formatter = formatters.get(currency);
+  if (!formatter) {
+    formatter = new Intl.NumberFormat(undefined, { style: "currency", currency });
+    formatters.set(currency, formatter);
+  }
+  return formatter.format(amount);
+};
+
+/**
+ * Converts an amount with the user's own rates, using a direct rate or the
+ * inverse of the opposite one. Returns null when no rate is known.
+ */
+export const convertAmount = (amount: number, from: string, to: string, rates: RateLike[]) => {
+  if (from === to) return amount;
+  const direct = rates.find((r) => r.from_currency === from && r.to_currency === to);
+  if (direct) return amount * direct.rate;
+  const inverse = rates.find((r) => r.from_currency === to && r.to_currency === from);
+  return inverse ? amount / inverse.rate : null;
+};
+
+/**
+ * Totals amounts in mixed currencies in one currency. Amounts that can't be
+ * converted are left out and their currencies listed in `missing`.
+ */
+export const sumInCurrency = (amounts: MoneyAmount[], to: string, rates: RateLike[]) => {
+  const missing = new Set<string>();
+  const total = amounts.reduce((sum, { amount, currency }) => {
+    const converted = convertAmount(amount, currency, to, rates);
+    if (converted === null) {
+      missing.add(currency);
+      return sum;
+    }
+    return sum + converted;
+  }, 0);
+  return { total, missing: Array.from(missing).sort() };
+};
@@ -0,0 +1,79 @@
+import type { Json } from "@/integrations/supabase/types";
+import { parseDate } from "@/lib/lots";
+
+export type CustomFieldType = "text" | "number" | "date" | "select" | "boolean";
+
+export const CUSTOM_FIELD_TYPES: { value: CustomFieldType; label: string }[] = [
+  { value: "text", label: "Text" },
+  { value: "number", label: "Number" },
+  { value: "date", label: "Date" },
+  { value: "select", label: "Select" },
+  { value: "boolean", label: "Yes / No" },
+];
+
+interface FieldLike {
+  id: string;
+  name: string;
+  field_type: string;
+  options: string[];
+}
+
+export type CustomValues = Record<string, Json>;
+
+/** An item's custom_values as a plain object keyed by field id. */
+export const customValuesOf = (raw: Json): CustomValues =>
+  raw && typeof raw === "object" && !Array.isArray(raw) ? (raw as CustomValues) : {};
+
+/**
+ * Converts form input into the value stored for the field. Every input is
+ * a string ("true"/"false" for yes/no fields); blank input means no value.
+ */
+export const toCustomValue = (field: FieldLike, input: string): Json | null => {
+  const text = input.trim();
+  if (!text) return null;
+  switch (field.field_type) {
+    case "number": {
+      const n = Number(text);
+      if (!Number.isFinite(n)) throw new Error(`${field.name} must be a number`);
+      return n;
+    }
+    case "boolean":
+      return text === "true";
+    default:
+      return text;
+  }
+};
+
+/** Builds custom_values from form input, leaving out blank fields. */
+export const buildCustomValues = (fields: FieldLike[], draft: Record<string, string>) => {
+  const values: CustomValues = {};
+  fields.forEach((field) => {
+    const value = toCustomValue(field, draft[field.id] ?? "");
+    if (value !== null) values[field.id] = value;
+  });
+  return values;
+};
+
+/** Display text for a stored value, e.g. "Yes" or a localised date. */
+export const formatCustomValue = (field: FieldLike, value: Json | undefined) => {
+  if (value === undefined || value === null) return "";
+  if (field.field_type === "boolean") return value ? "Yes" : "No";
+  if (field.field_type === "date" && typeof value === "string") return parseDate(value).toLocaleDateString();
+  if (typeof value === "number") return value.toLocaleString();
+  return String(value);
+};
+
+/**
+ * Whether a stored value passes a filter typed in the same form input:
+ * text fields match on a case-insensitive substring, the rest exactly.
+ */
+export const customValueMatches = (field: FieldLike, value: Json | undefined, input: string) => {
+  if (!input.trim()) return true;
+  if (value === undefined || value === null) return false;
+  if (field.field_type === "text") return String(value).toLowerCase().includes(input.trim().toLowerCase());
+  try {
+    return toCustomValue(field, input) === value;
+  } catch {
+    return false;
+  }
+};
@@ -0,0 +1,76 @@
+export type ForecastModel = "moving_average" | "exponential" | "seasonal_naive";
+
+export const FORECAST_MODELS: { value: ForecastModel; label: string }[] = [
+  { value: "moving_average", label: "Moving average (last 4 weeks)" },
+  { value: "exponential", label: "Exponential smoothing" },
+  { value: "seasonal_naive", label: "Seasonal naive (same weekday last week)" },
+];
+
+export const isForecastModel = (value: string | null | undefined): value is ForecastModel =>
+  FORECAST_MODELS.some((m) => m.value === value);
+
+/** Days of history the forecasts look back over: 13 whole weeks. */
+export const HISTORY_DAYS = 91;
+
+const MOVING_AVERAGE_DAYS = 28;
+const SMOOTHING = 0.3;
+const SEASON_DAYS = 7;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const startOfDay = (d: Date) => new Date(d.getFullYear(), d.getMonth(), d.getDate());
+
+/** The date `days` after the start of `today`, at local midnight. */
+export const addDays = (days: number, today = new Date()) =>
+  new Date(today.getFullYear(), today.getMonth(), today.getDate() + days);
+
+/**
+ * Units taken out of stock on each of the `days` whole days before today,
+ * oldest first. Today is left out because it isn't over yet.
+ */
+export const dailyOutflows = (movements: { delta: number; created_at: string }[], days = HISTORY_DAYS, today = new Date()) => {
+  const series = new Array<number>(days).fill(0);
+  const start = addDays(-days, today).getTime();
+  movements.forEach((m) => {
+    if (m.delta >= 0) return;
+    // Rounded so days either side of a daylight saving change still land right
+    const index = Math.round((startOfDay(new Date(m.created_at)).getTime() - start) / DAY_MS);
+    if (index >= 0 && index < days) series[index] -= m.delta;
+  });
+  return series;
+};
+
+const mean = (values: number[]) => (values.length ? values.reduce((sum, v) => sum + v, 0) / values.length : 0);
+
+/** Forecast daily demand for the next `horizon` days, starting today. */
+export const forecastDemand = (history: number[], model: ForecastModel, horizon: number): number[] => {
+  if (model === "seasonal_naive" && history.length >= SEASON_DAYS) {
+    // The history ends yesterday, so a week back from its end is today's weekday
+    const season = history.slice(-SEASON_DAYS);
+    return Array.from({ length: horizon }, (_, day) => season[day % SEASON_DAYS]);
+  }
+  if (model === "exponential" && history.length) {
+    const level = history.slice(1).reduce((level, x) => SMOOTHING * x + (1 - SMOOTHING) * level, history[0]);
+    return new Array<number>(horizon).fill(level);
+  }
+  return new Array<number>(horizon).fill(mean(history.slice(-MOVING_AVERAGE_DAYS)));
+};
+
+/**
+ * Days from today until forecast demand uses up the stock on hand, or null
+ * when it lasts beyond the forecast.
+ */
+export const daysUntilStockOut = (onHand: number, forecast: number[]) => {
+  if (onHand <= 0) return 0;
+  let remaining = onHand;
+  for (let day = 0; day < forecast.length; day++) {
+    remaining -= forecast[day];
+    if (remaining <= 0) return day;
+  }
+  return null;
+};
+
+/** Sums a daily series into whole weeks, dropping any partial week at the end. */
+export const weeklyTotals = (daily: number[]) =>
+  Array.from({ length: Math.floor(daily.length / 7) }, (_, week) =>
+    daily.slice(week * 7, week * 7 + 7).reduce((sum, v) => sum + v, 0)
+  );
@@ -0,0 +1,55 @@
+/** Private bucket holding item images under <user id>/<item id>/. */
+export const ITEM_IMAGES_BUCKET = "item-images";
+
+/** Matches the bucket's own limits, so uploads fail early with a clear message. */
+export const MAX_IMAGE_BYTES = 5 * 1024 * 1024;
+export const IMAGE_TYPES = ["image/jpeg", "image/png", "image/webp", "image/gif"];
+
+// Signed links are reused until shortly before they expire
+export const SIGNED_URL_SECONDS = 60 * 60;
+
+const THUMBNAIL_SIZE = 160;
+const THUMBNAIL_QUALITY = 0.8;
+
+export const checkImage = (file: File) => {
+  if (!IMAGE_TYPES.includes(file.type)) throw new Error(`${file.name} isn't a JPEG, PNG, WebP or GIF image`);
+  if (file.size > MAX_IMAGE_BYTES) throw new Error(`${file.name} is larger than 5 MB`);
+};
+
+/** Where an upload and its thumbnail are stored. */
+export const imagePaths = (userId: string, itemId: string, file: File) => {
+  const id = crypto.randomUUID();
+  const extension = file.type.split("/")[1] ?? "jpg";
+  return {
+    path: `${userId}/${itemId}/${id}.${extension}`,
+    thumbnailPath: `${userId}/${itemId}/${id}_thumb.jpg`,
+  };
+};
+
+/**
+ * Scales an image down to fit a `size` pixel square, as a JPEG. Made in the
+ * browser so tables only ever download a few kilobytes per item.
+ */
+export const makeThumbnail = async (file: Blob, size = THUMBNAIL_SIZE): Promise<Blob> => {
+  const bitmap = await createImageBitmap(file);
+  const scale = Math.min(1, size / Math.max(bitmap.width, bitmap.height));
+  const canvas = document.createElement("canvas");
+  canvas.width = Math.max(1, Math.round(bitmap.width * scale));
+  canvas.height = Math.max(1, Math.round(bitmap.height * scale));
+
+  const context = canvas.getContext("2d");
+  if (!context) throw new Error("Could not create a thumbnail");
+  // JPEG has no transparency, so transparent areas would otherwise turn black
+  context.fillStyle = "#ffffff";
+  context.fillRect(0, 0, canvas.width, canvas.height);
+  context.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+  bitmap.close();
+
+  return new Promise((resolve, reject) =>
+    canvas.toBlob(
+      (blob) => (blob ? resolve(blob) : reject(new Error("Could not create a thumbnail"))),
+      "image/jpeg",
+      THUMBNAIL_QUALITY
+    )
+  );
+};
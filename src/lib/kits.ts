@@ -0,0 +1,25 @@
+interface ComponentLine {
+  kit_id: string;
+  component_id: string;
+  quantity: number;
+}
+
+/** Groups kit component lines by the kit they belong to. */
+export const componentsByKit = <T extends ComponentLine>(components: T[]) => {
+  const byKit = new Map<string, T[]>();
+  components.forEach((c) => {
+    const list = byKit.get(c.kit_id) ?? [];
+    list.push(c);
+    byKit.set(c.kit_id, list);
+  });
+  return byKit;
+};
+
+/** How many kits the components on hand could build; the scarcest component decides. */
+export const buildableKits = (components: ComponentLine[], availableOf: (itemId: string) => number) => {
+  if (!components.length) return 0;
+  return Math.max(
+    0,
+    Math.min(...components.map((c) => Math.floor(availableOf(c.component_id) / c.quantity)))
+  );
+};
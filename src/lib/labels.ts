@@ -0,0 +1,116 @@
+/** A sheet of sticky labels; all measurements are in millimetres. */
+export interface LabelTemplate {
+  id: string;
+  name: string;
+  pageWidth: number;
+  pageHeight: number;
+  columns: number;
+  rows: number;
+  labelWidth: number;
+  labelHeight: number;
+  top: number;
+  left: number;
+  // Distance from one label's edge to the same edge of the next
+  columnPitch: number;
+  rowPitch: number;
+}
+
+const INCH = 25.4;
+const LETTER = { pageWidth: 8.5 * INCH, pageHeight: 11 * INCH };
+const A4 = { pageWidth: 210, pageHeight: 297 };
+
+// Letter sizes are published in inches, A4 sizes in millimetres
+const inches = (template: Omit<LabelTemplate, "pageWidth" | "pageHeight" | "id" | "name">) => ({
+  ...LETTER,
+  columns: template.columns,
+  rows: template.rows,
+  labelWidth: template.labelWidth * INCH,
+  labelHeight: template.labelHeight * INCH,
+  top: template.top * INCH,
+  left: template.left * INCH,
+  columnPitch: template.columnPitch * INCH,
+  rowPitch: template.rowPitch * INCH,
+});
+
+export const LABEL_TEMPLATES: LabelTemplate[] = [
+  {
+    id: "avery-5160",
+    name: "Avery 5160 · 30 per sheet, 2⅝″ × 1″",
+    ...inches({ columns: 3, rows: 10, labelWidth: 2.625, labelHeight: 1, top: 0.5, left: 0.1875, columnPitch: 2.75, rowPitch: 1 }),
+  },
+  {
+    id: "avery-5163",
+    name: "Avery 5163 · 10 per sheet, 4″ × 2″",
+    ...inches({ columns: 2, rows: 5, labelWidth: 4, labelHeight: 2, top: 0.5, left: 0.15625, columnPitch: 4.1875, rowPitch: 2 }),
+  },
+  {
+    id: "avery-5167",
+    name: "Avery 5167 · 80 per sheet, 1¾″ × ½″",
+    ...inches({ columns: 4, rows: 20, labelWidth: 1.75, labelHeight: 0.5, top: 0.5, left: 0.28125, columnPitch: 2.0625, rowPitch: 0.5 }),
+  },
+  {
+    id: "avery-l7160",
+    name: "Avery L7160 · 21 per sheet, 63.5 × 38.1 mm",
+    ...A4,
+    columns: 3,
+    rows: 7,
+    labelWidth: 63.5,
+    labelHeight: 38.1,
+    top: 15.15,
+    left: 7.25,
+    columnPitch: 66.04,
+    rowPitch: 38.1,
+  },
+  {
+    id: "avery-l7163",
+    name: "Avery L7163 · 14 per sheet, 99.1 × 38.1 mm",
+    ...A4,
+    columns: 2,
+    rows: 7,
+    labelWidth: 99.1,
+    labelHeight: 38.1,
+    top: 15.15,
+    left: 4.65,
+    columnPitch: 101.6,
+    rowPitch: 38.1,
+  },
+  {
+    id: "avery-l7651",
+    name: "Avery L7651 · 65 per sheet, 38.1 × 21.2 mm",
+    ...A4,
+    columns: 5,
+    rows: 13,
+    labelWidth: 38.1,
+    labelHeight: 21.2,
+    top: 10.7,
+    left: 4.75,
+    columnPitch: 40.64,
+    rowPitch: 21.2,
+  },
+];
+
+export const findTemplate = (id: string | null) =>
+  LABEL_TEMPLATES.find((t) => t.id === id) ?? LABEL_TEMPLATES[0];
+
+export const labelsPerSheet = (template: LabelTemplate) => template.columns * template.rows;
+
+/** Where a label sits on its sheet, filling rows left to right. */
+export const labelPosition = (template: LabelTemplate, index: number) => {
+  const slot = index % labelsPerSheet(template);
+  return {
+    x: template.left + (slot % template.columns) * template.columnPitch,
+    y: template.top + Math.floor(slot / template.columns) * template.rowPitch,
+  };
+};
+
+/**
+ * Splits labels into sheets. `skip` leaves that many positions blank at the
+ * start of the first sheet, so a partly used sheet can go back in the printer.
+ */
+export const paginateLabels = <T>(template: LabelTemplate, labels: T[], skip = 0) => {
+  const perSheet = labelsPerSheet(template);
+  const slots: (T | null)[] = [...Array<null>(Math.min(Math.max(skip, 0), perSheet - 1)).fill(null), ...labels];
+  const sheets: (T | null)[][] = [];
+  for (let i = 0; i < slots.length; i += perSheet) sheets.push(slots.slice(i, i + perSheet));
+  return sheets;
+};
@@ -0,0 +1,29 @@
+export type ExpiryStatus = "expired" | "expiring" | "ok";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** Parses a Postgres DATE ("2025-10-01") as local midnight rather than UTC. */
+export const parseDate = (value: string) => {
+  const [y, m, d] = value.split("-").map(Number);
+  return new Date(y, m - 1, d);
+};
+
+/** Whole days from today until the date; negative once it has passed. */
+export const daysUntil = (value: string, today = new Date()) => {
+  const start = new Date(today.getFullYear(), today.getMonth(), today.getDate());
+  return Math.round((parseDate(value).getTime() - start.getTime()) / DAY_MS);
+};
+
+export const expiryStatus = (expiresOn: string | null, windowDays: number): ExpiryStatus => {
+  if (!expiresOn) return "ok";
+  const days = daysUntil(expiresOn);
+  if (days < 0) return "expired";
+  return days <= windowDays ? "expiring" : "ok";
+};
+
+/** The date `days` from today as a Postgres DATE string, for range filters. */
+export const dateFromToday = (days: number, today = new Date()) => {
+  const d = new Date(today.getFullYear(), today.getMonth(), today.getDate() + days);
+  const pad = (n: number) => String(n).padStart(2, "0");
+  return `${d.getFullYear()}-${pad(d.getMonth() + 1)}-${pad(d.getDate())}`;
+};
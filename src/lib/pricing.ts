@@ -0,0 +1,14 @@
+interface PricedLike {
+  cost_price: number | null;
+  unit_price: number | null;
+}
+
+/** Profit as a share of the selling price, e.g. cost 6, price 10 → 40. */
+export const marginPercent = ({ cost_price, unit_price }: PricedLike) =>
+  cost_price != null && unit_price ? ((unit_price - cost_price) / unit_price) * 100 : null;
+
+/** Profit as a share of the cost price, e.g. cost 6, price 10 → 66.7. */
+export const markupPercent = ({ cost_price, unit_price }: PricedLike) =>
+  cost_price && unit_price != null ? ((unit_price - cost_price) / cost_price) * 100 : null;
+
+export const formatPercent = (value: number | null) => (value === null ? "-" : `${value.toFixed(1)}%`);
@@ -0,0 +1,46 @@
+interface ReorderSettings {
+  reorder_point: number | null;
+  reorder_quantity: number | null;
+  max_stock_level: number | null;
+}
+
+/** Purchase order statuses whose undelivered quantities count as on order. */
+export const OPEN_ORDER_STATUSES = ["sent", "partially_received"];
+
+/**
+ * Stock that can still be sold: on hand less what confirmed sales orders
+ * have reserved. Reordering works from this, not from stock on hand.
+ */
+export const availableStock = (item: { quantity: number; reserved_quantity: number; available_quantity: number | null }) =>
+  item.available_quantity ?? item.quantity - item.reserved_quantity;
+
+/** Available stock has fallen to the item's reorder point. */
+export const atReorderPoint = (item: ReorderSettings, available: number) =>
+  item.reorder_point != null && available <= item.reorder_point;
+
+/**
+ * Base units to order so that available stock plus stock on order clears the
+ * reorder point again: a refill to the max level when one is set, otherwise
+ * as many reorder quantities as it takes. Zero when open orders already cover it.
+ */
+export const suggestedQuantity = (item: ReorderSettings, available: number, onOrder: number) => {
+  if (item.reorder_point == null) return 0;
+  const position = available + onOrder;
+  if (position > item.reorder_point) return 0;
+  if (item.max_stock_level != null) return item.max_stock_level - position;
+  if (!item.reorder_quantity) return 0;
+  const lots = Math.floor((item.reorder_point - position) / item.reorder_quantity) + 1;
+  return lots * item.reorder_quantity;
+};
+
+/**
+ * Converts base units to the unit the supplier sells in, rounding up to what
+ * the unit allows and to the supplier's minimum order.
+ */
+export const toOrderQuantity = (baseQuantity: number, factor: number, decimalPlaces: number, minimum = 0) => {
+  if (baseQuantity <= 0) return 0;
+  const scale = 10 ** decimalPlaces;
+  // Trim float noise first so 3 / 0.1 doesn't round up to 31
+  const quantity = Math.ceil(Number(((baseQuantity / factor) * scale).toFixed(6))) / scale;
+  return Math.max(quantity, minimum);
+};
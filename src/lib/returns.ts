@@ -0,0 +1,15 @@
+export type ReturnCondition = "resellable" | "refurbish" | "scrap";
+
+export const RETURN_CONDITIONS: { value: ReturnCondition; label: string }[] = [
+  { value: "resellable", label: "Resellable" },
+  { value: "refurbish", label: "Needs refurbishing" },
+  { value: "scrap", label: "Scrap" },
+];
+
+export const RETURN_STATUSES = ["requested", "approved", "rejected"] as const;
+
+export const conditionLabel = (condition: string) =>
+  RETURN_CONDITIONS.find((c) => c.value === condition)?.label ?? condition;
+
+/** Only resellable units go back into stock on approval; the rest are written off. */
+export const restocks = (condition: string) => condition === "resellable";
@@ -0,0 +1,70 @@
+import { describe, expect, it } from "vitest";
+import { encodeBarcode, type Barcode, type Symbology } from "@/lib/barcodes";
+import { decodePixels, findScannedItem, type Pixels } from "@/lib/scanning";
+
+const DARK = 30;
+const LIGHT = 230;
+
+// Draws a barcode the way a label prints it, `module` pixels per module
+const render = (barcode: Barcode, module: number): Pixels => {
+  const rows = barcode.type === "linear" ? Array.from({ length: 20 }, () => barcode.bars) : barcode.modules;
+  const columns = rows[0].length + barcode.quietZone * 2;
+  const width = columns * module;
+  const height = barcode.type === "linear" ? rows.length : (rows.length + barcode.quietZone * 2) * module;
+  const offset = barcode.type === "linear" ? 0 : barcode.quietZone;
+  const data = new Uint8ClampedArray(width * height * 4);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const row = barcode.type === "linear" ? rows[y] : rows[Math.floor(y / module) - offset];
+      const dark = row?.[Math.floor(x / module) - barcode.quietZone] ?? false;
+      const i = (y * width + x) * 4;
+      data[i] = data[i + 1] = data[i + 2] = dark ? DARK : LIGHT;
+      data[i + 3] = 255;
+    }
+  }
+  return { width, height, data };
+};
+
+// The same image turned upside down
+const flip = ({ width, height, data }: Pixels): Pixels => {
+  const flipped = new Uint8ClampedArray(data.length);
+  for (let i = 0; i < width * height; i++) {
+    const from = (width * height - 1 - i) * 4;
+    for (let c = 0; c < 4; c++) flipped[i * 4 + c] = data[from + c];
+  }
+  return { width, height, data: flipped };
+};
+
+const roundTrip = (symbology: Symbology, text: string, module = 3) =>
+  decodePixels(render(encodeBarcode(symbology, text), module));
+
+describe("decodePixels", () => {
+  it.each(["TS-BLU-001", "1234567890", "Shelf A/12 ~ top"])("reads Code 128 %s", (text) => {
+    expect(roundTrip("code128", text)).toEqual({ format: "code128", value: text });
+  });
+
+  it("reads EAN-13", () => {
+    expect(roundTrip("ean13", "4006381333931")).toEqual({ format: "ean13", value: "4006381333931" });
+  });
+
+  it("reads UPC-A as its EAN-13 form, which finds the item by its SKU", () => {
+    const result = roundTrip("ean13", "036000291452");
+    expect(result).toEqual({ format: "ean13", value: "0036000291452" });
+    const items = [{ id: "1", sku: "036000291452" }];
+    expect(findScannedItem(items, result?.value ?? "")).toBe(items[0]);
+  });
+
+  it("reads linear barcodes upside down", () => {
+    expect(decodePixels(flip(render(encodeBarcode("code128", "TS-BLU-001"), 2)))?.value).toBe("TS-BLU-001");
+    expect(decodePixels(flip(render(encodeBarcode("ean13", "4006381333931"), 2)))?.value).toBe("4006381333931");
+  });
+
+  it.each(["3f2b8c1e-9a4d-4e6f-8b7a-1c2d3e4f5a6b", "TS-BLU-001"])("reads QR code %s", (text) => {
+    expect(roundTrip("qr", text, 4)).toEqual({ format: "qr", value: text });
+  });
+
+  it("finds nothing in a blank image", () => {
+    const data = new Uint8ClampedArray(200 * 100 * 4).fill(255);
+    expect(decodePixels({ width: 200, height: 100, data })).toBeNull();
+  });
+});
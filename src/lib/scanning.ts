@@ -0,0 +1,336 @@
+import jsQR from "jsqr";
+import { CODE128_PATTERNS, CODE128_STOP, EAN_L, EAN_PARITY, ean13CheckDigit, invert, type Symbology } from "@/lib/barcodes";
+
+/** RGBA pixels, as in ImageData. */
+export interface Pixels {
+  width: number;
+  height: number;
+  data: ArrayLike<number>;
+}
+
+export interface ScanResult {
+  format: Symbology;
+  value: string;
+}
+
+// Scan lines tried per image, spread out from the middle
+const SCAN_LINES = 15;
+// Average difference, in modules, allowed between a run and its pattern
+const MAX_RUN_ERROR = 0.45;
+
+/* ---------- Run lengths ---------- */
+
+const luminance = (data: ArrayLike<number>, i: number) => (data[i] * 299 + data[i + 1] * 587 + data[i + 2] * 114) / 1000;
+
+const scanLine = ({ width, data }: Pixels, y: number) => {
+  const row = new Float32Array(width);
+  for (let x = 0; x < width; x++) row[x] = luminance(data, (y * width + x) * 4);
+  return row;
+};
+
+const MIN_CONTRAST = 32;
+
+// Two ways of telling bars from spaces: against the midpoint of the whole
+// row, and against the midpoint nearby for uneven lighting
+const binarize = (row: Float32Array) => {
+  let min = 255;
+  let max = 0;
+  row.forEach((l) => {
+    min = Math.min(min, l);
+    max = Math.max(max, l);
+  });
+  if (max - min < MIN_CONTRAST) return [];
+  const midpoint = (min + max) / 2;
+
+  const radius = Math.max(8, Math.round(row.length / 24));
+  const local = Array.from(row, (l, i) => {
+    let low = 255;
+    let high = 0;
+    for (let j = Math.max(0, i - radius); j <= Math.min(row.length - 1, i + radius); j++) {
+      low = Math.min(low, row[j]);
+      high = Math.max(high, row[j]);
+    }
+    // Flat areas are blank paper, however dim
+    return high - low >= MIN_CONTRAST && l < (low + high) / 2;
+  });
+
+  return [Array.from(row, (l) => l < midpoint), local];
+};
+
+/** Widths of alternating runs, starting with a light one. */
+const toRuns = (dark: boolean[]) => {
+  const runs = dark[0] ? [0] : [];
+  let length = 1;
+  for (let i = 1; i <= dark.length; i++) {
+    if (i < dark.length && dark[i] === dark[i - 1]) {
+      length++;
+    } else {
+      runs.push(length);
+      length = 1;
+    }
+  }
+  return runs;
+};
+
+const toWidths = (pattern: string) => [...pattern].map(Number);
+
+// How far `runs` from `at` are from the pattern, scaled to its module count
+const runError = (runs: number[], at: number, widths: number[]) => {
+  const modules = widths.reduce((sum, w) => sum + w, 0);
+  let total = 0;
+  for (let i = 0; i < widths.length; i++) total += runs[at + i];
+  const module = total / modules;
+  let error = 0;
+  for (let i = 0; i < widths.length; i++) error += Math.abs(runs[at + i] / module - widths[i]);
+  return error / widths.length;
+};
+
+// The closest pattern, or -1 when none is close enough
+const bestMatch = (runs: number[], at: number, patterns: number[][], candidates: number[]) => {
+  let index = -1;
+  let error = MAX_RUN_ERROR;
+  for (const candidate of candidates) {
+    const candidateError = runError(runs, at, patterns[candidate]);
+    if (candidateError < error) {
+      index = candidate;
+      error = candidateError;
+    }
+  }
+  return { index, error };
+};
+
+const totalWidth = (runs: number[], at: number, count: number) => {
+  let total = 0;
+  for (let i = 0; i < count; i++) total += runs[at + i];
+  return total;
+};
+
+// Every symbol in a barcode is printed at the same scale; noise rarely is
+const sameScale = (width: number, modules: number, module: number) =>
+  Math.abs(width / modules - module) <= module * 0.25;
+
+/* ---------- Code 128 ---------- */
+
+const CODE128_WIDTHS = CODE128_PATTERNS.map(toWidths);
+const STOP_WIDTHS = toWidths(CODE128_STOP);
+const START_CODES = [103, 104, 105];
+const SYMBOL_VALUES = Array.from({ length: 103 }, (_, i) => i);
+
+const code128Text = (values: number[]) => {
+  let set = values[0] === 103 ? "A" : values[0] === 104 ? "B" : "C";
+  let shifted = false;
+  let text = "";
+  for (const value of values.slice(1)) {
+    const current = shifted ? (set === "A" ? "B" : "A") : set;
+    shifted = false;
+    if (current === "C") {
+      if (value < 100) text += String(value).padStart(2, "0");
+      else if (value === 100) set = "B";
+      else if (value === 101) set = "A";
+    } else if (value < 96) {
+      const code = current === "A" && value >= 64 ? value - 64 : value + 32;
+      text += String.fromCharCode(code);
+    } else if (value === 98) {
+      shifted = true;
+    } else if (value === 99) {
+      set = "C";
+    } else if (value === 100 && current === "A") {
+      set = "B";
+    } else if (value === 101 && current === "B") {
+      set = "A";
+    }
+    // FNC1-4 carry no text
+  }
+  return text;
+};
+
+const decodeCode128 = (runs: number[]): string | null => {
+  for (let start = 1; start + 6 + 6 + 7 < runs.length; start += 2) {
+    const startCode = bestMatch(runs, start, CODE128_WIDTHS, START_CODES).index;
+    const module = totalWidth(runs, start, 6) / 11;
+    if (startCode < 0 || runs[start - 1] < module * 5) continue;
+
+    const values = [startCode];
+    let at = start + 6;
+    let stopped = false;
+    while (at + 7 < runs.length) {
+      const symbol = bestMatch(runs, at, CODE128_WIDTHS, SYMBOL_VALUES);
+      // A symbol followed by the next one's first bar can pass for the stop pattern
+      const stopError = runError(runs, at, STOP_WIDTHS);
+      if (stopError < MAX_RUN_ERROR && stopError < symbol.error) {
+        stopped = sameScale(totalWidth(runs, at, 7), 13, module) && runs[at + 7] >= module * 5;
+        break;
+      }
+      if (symbol.index < 0 || !sameScale(totalWidth(runs, at, 6), 11, module)) break;
+      values.push(symbol.index);
+      at += 6;
+    }
+    if (!stopped || values.length < 3) continue;
+
+    const checksum = values.pop() as number;
+    const expected = values.reduce((sum, value, i) => sum + value * Math.max(i, 1), 0) % 103;
+    if (checksum === expected) return code128Text(values);
+  }
+  return null;
+};
+
+/* ---------- EAN-13 ---------- */
+
+const bitsToWidths = (bits: string) => (bits.match(/0+|1+/g) ?? []).map((run) => run.length);
+// Left-hand digits as L codes 0-9 then G codes 10-19, all starting with a space
+const EAN_LEFT = [...EAN_L, ...EAN_L.map((l) => [...invert(l)].reverse().join(""))].map(bitsToWidths);
+const EAN_RIGHT = EAN_L.map((l) => bitsToWidths(invert(l)));
+const LEFT_CANDIDATES = Array.from({ length: 20 }, (_, i) => i);
+const DIGITS = Array.from({ length: 10 }, (_, i) => i);
+const GUARD = [1, 1, 1];
+const MIDDLE_GUARD = [1, 1, 1, 1, 1];
+// Guard, six digits, middle guard, six digits, guard
+const EAN_RUNS = 3 + 24 + 5 + 24 + 3;
+
+const decodeEan13 = (runs: number[]): string | null => {
+  for (let start = 1; start + EAN_RUNS < runs.length; start += 2) {
+    if (runError(runs, start, GUARD) >= MAX_RUN_ERROR) continue;
+    const module = totalWidth(runs, start, EAN_RUNS) / 95;
+    if (runs[start - 1] < module * 5 || runs[start + EAN_RUNS] < module * 5) continue;
+
+    let at = start + 3;
+    let digits = "";
+    let parity = "";
+    for (let i = 0; i < 6; i++, at += 4) {
+      const { index } = bestMatch(runs, at, EAN_LEFT, LEFT_CANDIDATES);
+      if (index < 0 || !sameScale(totalWidth(runs, at, 4), 7, module)) break;
+      digits += index % 10;
+      parity += index < 10 ? "L" : "G";
+    }
+    if (digits.length < 6 || runError(runs, at, MIDDLE_GUARD) >= MAX_RUN_ERROR) continue;
+    at += 5;
+    for (let i = 0; i < 6; i++, at += 4) {
+      const { index } = bestMatch(runs, at, EAN_RIGHT, DIGITS);
+      if (index < 0 || !sameScale(totalWidth(runs, at, 4), 7, module)) break;
+      digits += index;
+    }
+    if (digits.length < 12 || runError(runs, at, GUARD) >= MAX_RUN_ERROR) continue;
+
+    const first = EAN_PARITY.indexOf(parity);
+    if (first < 0) continue;
+    const value = `${first}${digits}`;
+    if (ean13CheckDigit(value) === Number(value[12])) return value;
+  }
+  return null;
+};
+
+/* ---------- Images ---------- */
+
+/** Finds a QR code anywhere in an image, at any angle. */
+const decodeQr = ({ width, height, data }: Pixels): string | null => {
+  const rgba = data instanceof Uint8ClampedArray ? data : Uint8ClampedArray.from(data);
+  return jsQR(rgba, width, height, { inversionAttempts: "dontInvert" })?.data ?? null;
+};
+
+/**
+ * Finds a Code 128 or EAN-13 barcode in an image by reading scan lines
+ * across it, either way up, then looks for a QR code.
+ */
+export const decodePixels = (pixels: Pixels): ScanResult | null => {
+  const step = pixels.height / (SCAN_LINES + 1);
+  for (let line = 0; line < SCAN_LINES; line++) {
+    // 0, +1, -1, +2, -2... scan lines away from the middle
+    const offset = Math.ceil(line / 2) * (line % 2 === 0 ? -1 : 1);
+    const y = Math.min(pixels.height - 1, Math.max(0, Math.round(pixels.height / 2 + offset * step)));
+    for (const dark of binarize(scanLine(pixels, y))) {
+      for (const flipped of [false, true]) {
+        const bars = flipped ? [...dark].reverse() : dark;
+        const runs = toRuns(bars);
+        const ean = decodeEan13(runs);
+        if (ean) return { format: "ean13", value: ean };
+        const code128 = decodeCode128(runs);
+        if (code128) return { format: "code128", value: code128 };
+      }
+    }
+  }
+  const qr = decodeQr(pixels);
+  return qr ? { format: "qr", value: qr } : null;
+};
+
+interface DetectedBarcode {
+  rawValue: string;
+}
+
+interface BarcodeDetectorInstance {
+  detect(source: ImageBitmapSource): Promise<DetectedBarcode[]>;
+}
+
+interface BarcodeDetectorClass {
+  new (options: { formats: string[] }): BarcodeDetectorInstance;
+  getSupportedFormats(): Promise<string[]>;
+}
+
+const DETECTOR_FORMATS = ["code_128", "ean_13", "qr_code"];
+// Frames are scaled down to this width before the fallback reads them
+const FALLBACK_WIDTH = 1280;
+
+export type BarcodeSource = HTMLVideoElement | ImageBitmap;
+
+type BarcodeReader = (source: BarcodeSource) => Promise<string | null>;
+
+const createPixelReader = (): BarcodeReader => {
+  const canvas = document.createElement("canvas");
+  const context = canvas.getContext("2d", { willReadFrequently: true });
+  if (!context) throw new Error("Barcode scanning isn't supported in this browser");
+  return async (source) => {
+    const width = source instanceof HTMLVideoElement ? source.videoWidth : source.width;
+    const height = source instanceof HTMLVideoElement ? source.videoHeight : source.height;
+    if (!width || !height) return null;
+    const scale = Math.min(1, FALLBACK_WIDTH / width);
+    canvas.width = Math.round(width * scale);
+    canvas.height = Math.round(height * scale);
+    context.drawImage(source, 0, 0, canvas.width, canvas.height);
+    return decodePixels(context.getImageData(0, 0, canvas.width, canvas.height))?.value ?? null;
+  };
+};
+
+/**
+ * Returns a function that reads the first barcode in a video frame or image.
+ * Uses the browser's BarcodeDetector where it exists, and `decodePixels` for
+ * anything it can't read.
+ */
+export const createBarcodeReader = async (): Promise<BarcodeReader> => {
+  const Detector = (window as unknown as { BarcodeDetector?: BarcodeDetectorClass }).BarcodeDetector;
+  if (Detector) {
+    const supported = await Detector.getSupportedFormats();
+    const formats = DETECTOR_FORMATS.filter((f) => supported.includes(f));
+    if (formats.length > 0) {
+      const detector = new Detector({ formats });
+      const detect: BarcodeReader = async (source) => (await detector.detect(source))[0]?.rawValue ?? null;
+      if (formats.length === DETECTOR_FORMATS.length) return detect;
+      const fallback = createPixelReader();
+      return async (source) => (await detect(source)) ?? fallback(source);
+    }
+  }
+  return createPixelReader();
+};
+
+/** Reads a barcode from a photo, e.g. one picked from the camera roll. */
+export const decodeImageFile = async (file: Blob) => {
+  const read = await createBarcodeReader();
+  const bitmap = await createImageBitmap(file);
+  try {
+    return await read(bitmap);
+  } finally {
+    bitmap.close();
+  }
+};
+
+/**
+ * The item a scanned code belongs to: by SKU, ignoring case, or by item id as
+ * printed on QR labels. A UPC-A SKU also matches its EAN-13 form.
+ */
+export const findScannedItem = <T extends { id: string; sku: string | null }>(items: T[], code: string) => {
+  const scanned = code.trim().toLowerCase();
+  if (!scanned) return undefined;
+  const candidates = /^0\d{12}$/.test(scanned) ? [scanned, scanned.slice(1)] : [scanned];
+  return (
+    items.find((it) => it.sku && candidates.includes(it.sku.trim().toLowerCase())) ??
+    items.find((it) => it.id === scanned)
+  );
+};
@@ -0,0 +1,12 @@
+/**
+ * Splits typed or scanned serial numbers. Scanners usually end each code
+ * with Enter, so newlines separate serials as well as commas.
+ */
+export const parseSerials = (raw: string): string[] => [
+  ...new Set(
+    raw
+      .split(/[\n,]/)
+      .map((s) => s.trim())
+      .filter(Boolean)
+  ),
+];
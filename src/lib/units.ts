@@ -0,0 +1,45 @@
+interface UnitLike {
+  symbol: string;
+  decimal_places: number;
+}
+
+interface ItemUnits {
+  unit_id: string;
+  purchase_unit_id: string | null;
+  purchase_factor: number;
+  sale_unit_id: string | null;
+  sale_factor: number;
+}
+
+export interface UnitChoice {
+  unitId: string;
+  /** Base units in one of this unit */
+  factor: number;
+}
+
+/** Formats a quantity with its unit symbol, e.g. "12 ea" or "1.25 kg". */
+export const formatQuantity = (quantity: number, unit?: UnitLike | null) => {
+  const text = quantity.toLocaleString(undefined, { maximumFractionDigits: unit?.decimal_places ?? 6 });
+  return unit ? `${text} ${unit.symbol}` : text;
+};
+
+/** Input step for a unit: 1 for whole units, 0.001 for three decimal places. */
+export const quantityStep = (unit?: UnitLike | null) =>
+  unit?.decimal_places ? Number((10 ** -unit.decimal_places).toFixed(unit.decimal_places)) : 1;
+
+/** Converts a quantity in a purchase or sale unit to base units, trimming float noise. */
+export const toBaseQuantity = (quantity: number, factor: number) => Number((quantity * factor).toFixed(6));
+
+/**
+ * The units an order line for the item can be entered in: the base unit
+ * first, then the purchase and sale units when they differ from it.
+ */
+export const unitChoices = (item: ItemUnits): UnitChoice[] => {
+  const choices: UnitChoice[] = [{ unitId: item.unit_id, factor: 1 }];
+  const add = (unitId: string | null, factor: number) => {
+    if (unitId && !choices.some((c) => c.unitId === unitId)) choices.push({ unitId, factor });
+  };
+  add(item.purchase_unit_id, item.purchase_factor);
+  add(item.sale_unit_id, item.sale_factor);
+  return choices;
+};
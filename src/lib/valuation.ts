@@ -0,0 +1,135 @@
+export type CostingMethod = "fifo" | "lifo" | "average";
+
+export const COSTING_METHODS: { value: CostingMethod; label: string }[] = [
+  { value: "fifo", label: "FIFO (first in, first out)" },
+  { value: "lifo", label: "LIFO (last in, first out)" },
+  { value: "average", label: "Moving average" },
+];
+
+export const isCostingMethod = (value: string | null | undefined): value is CostingMethod =>
+  COSTING_METHODS.some((m) => m.value === value);
+
+export interface CostedMovement {
+  id: string;
+  delta: number;
+  /** Cost of one unit brought in, already in the reporting currency; null when unknown */
+  unitCost: number | null;
+}
+
+interface CostLayer {
+  quantity: number;
+  unitCost: number;
+}
+
+export interface ItemValuation {
+  quantity: number;
+  value: number;
+  /** Cost of each outbound movement, by movement id */
+  outboundCost: Map<string, number>;
+  /** Some stock came in without a known cost and was valued at zero */
+  hasUncosted: boolean;
+}
+
+// Quantities are numeric, so leftovers below this are rounding noise
+const EPSILON = 1e-9;
+
+/**
+ * Values one item's stock by replaying its movements, oldest first. Stock-ins
+ * add cost layers; stock-outs use them up in the order the method dictates,
+ * or at the running average cost.
+ */
+export const valueMovements = (movements: CostedMovement[], method: CostingMethod): ItemValuation => {
+  let layers: CostLayer[] = [];
+  // Units that went out before any stock was there to cover them
+  let shortfall = 0;
+  let lastCost = 0;
+  let hasUncosted = false;
+  const outboundCost = new Map<string, number>();
+
+  movements.forEach((m) => {
+    if (m.delta > 0) {
+      const unitCost = m.unitCost ?? 0;
+      if (m.unitCost === null) hasUncosted = true;
+      lastCost = unitCost;
+
+      // Stock-ins first make good a shortfall, which was costed when it went out
+      const covered = Math.min(shortfall, m.delta);
+      shortfall -= covered;
+      const quantity = m.delta - covered;
+      if (quantity <= EPSILON) return;
+
+      if (method === "average" && layers.length) {
+        const [pool] = layers;
+        const total = pool.quantity + quantity;
+        layers = [{ quantity: total, unitCost: (pool.quantity * pool.unitCost + quantity * unitCost) / total }];
+      } else {
+        layers.push({ quantity, unitCost });
+      }
+      return;
+    }
+
+    let remaining = -m.delta;
+    let cost = 0;
+    while (remaining > EPSILON && layers.length) {
+      const layer = method === "lifo" ? layers[layers.length - 1] : layers[0];
+      const take = Math.min(layer.quantity, remaining);
+      cost += take * layer.unitCost;
+      layer.quantity -= take;
+      remaining -= take;
+      if (layer.quantity <= EPSILON) {
+        if (method === "lifo") layers.pop();
+        else layers.shift();
+      }
+    }
+    if (remaining > EPSILON) {
+      cost += remaining * lastCost;
+      shortfall += remaining;
+    }
+    outboundCost.set(m.id, cost);
+  });
+
+  return {
+    quantity: layers.reduce((sum, l) => sum + l.quantity, 0) - shortfall,
+    value: layers.reduce((sum, l) => sum + l.quantity * l.unitCost, 0),
+    outboundCost,
+    hasUncosted,
+  };
+};
+
+export interface LedgerMovement {
+  id: string;
+  item_id: string;
+  delta: number;
+  reference_type: string | null;
+  unit_cost: number | null;
+  cost_currency: string | null;
+}
+
+/**
+ * Values every item in the stock ledger. Costs are converted with `toBase`
+ * before layering; currencies it can't convert are listed in `missingRates`.
+ * Transfers only move stock between locations, so they don't touch its value.
+ */
+export const valueLedger = (
+  movements: LedgerMovement[],
+  method: CostingMethod,
+  toBase: (amount: number, from: string) => number | null
+) => {
+  const byItem = new Map<string, CostedMovement[]>();
+  const missing = new Set<string>();
+  movements.forEach((m) => {
+    if (m.reference_type === "transfer") return;
+    let unitCost: number | null = null;
+    if (m.delta > 0 && m.unit_cost != null && m.cost_currency) {
+      unitCost = toBase(m.unit_cost, m.cost_currency);
+      if (unitCost === null) missing.add(m.cost_currency);
+    }
+    const list = byItem.get(m.item_id) ?? [];
+    list.push({ id: m.id, delta: m.delta, unitCost });
+    byItem.set(m.item_id, list);
+  });
+  return {
+    valuations: new Map(Array.from(byItem, ([itemId, list]) => [itemId, valueMovements(list, method)])),
+    missingRates: Array.from(missing).sort(),
+  };
+};
@@ -0,0 +1,98 @@
+import type { Json } from "@/integrations/supabase/types";
+
+export interface OptionAxis {
+  name: string;
+  values: string[];
+}
+
+export type OptionValues = Record<string, string>;
+
+/** Splits a comma-separated list of option values, dropping blanks and duplicates. */
+export const parseOptionValues = (raw: string): string[] => {
+  const seen = new Set<string>();
+  return raw
+    .split(",")
+    .map((v) => v.trim())
+    .filter((v) => {
+      const key = v.toLowerCase();
+      if (!v || seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    });
+};
+
+/** Turns option rows typed as "Size" / "S, M, L" into axes, skipping incomplete ones. */
+export const parseOptionAxes = (rows: { name: string; values: string }[]): OptionAxis[] =>
+  rows
+    .map((r) => ({ name: r.name.trim(), values: parseOptionValues(r.values) }))
+    .filter((a) => a.name && a.values.length);
+
+/** Every combination of the axes' values, e.g. Size × Colour. */
+export const buildVariantCombinations = (axes: OptionAxis[]): OptionValues[] => {
+  const usable = axes.filter((a) => a.name.trim() && a.values.length);
+  if (!usable.length) return [];
+  return usable.reduce<OptionValues[]>(
+    (combos, axis) => combos.flatMap((combo) => axis.values.map((value) => ({ ...combo, [axis.name.trim()]: value }))),
+    [{}]
+  );
+};
+
+export const variantLabel = (values: OptionValues, axes: OptionAxis[]) =>
+  axes
+    .map((a) => values[a.name.trim()])
+    .filter(Boolean)
+    .join(" / ");
+
+/**
+ * Short codes for an axis's values, three characters unless two values would
+ * share one (Blue / Blush), in which case the axis's codes grow until they
+ * differ. Values that only differ in punctuation (X-L / XL) are numbered.
+ */
+const axisCodes = (axis: OptionAxis): Map<string, string> => {
+  const cleaned = axis.values.map((v) => v.replace(/[^a-z0-9]/gi, "").toUpperCase());
+  const longest = Math.max(3, ...cleaned.map((c) => c.length));
+  for (let length = 3; length <= longest; length++) {
+    const codes = cleaned.map((c) => c.slice(0, length));
+    if (new Set(codes).size === codes.length) return new Map(axis.values.map((v, i) => [v, codes[i]]));
+  }
+  const shared = (code: string) => cleaned.filter((c) => c === code).length > 1;
+  return new Map(axis.values.map((v, i) => [v, shared(cleaned[i]) ? `${cleaned[i]}${i + 1}` : cleaned[i]]));
+};
+
+/** Derives a variant SKU from the parent's, e.g. TS-BLU-001 + M → TS-BLU-001-M. */
+export const variantSku = (baseSku: string, values: OptionValues, axes: OptionAxis[]) =>
+  [baseSku.trim(), ...axes.map((a) => axisCodes(a).get(values[a.name.trim()] ?? "") ?? "")].filter(Boolean).join("-");
+
+/** SKUs are compared the way scanning matches them: trimmed, ignoring case. */
+export const skuKey = (sku: string | null) => sku?.trim().toLowerCase() ?? "";
+
+/** Keys of the SKUs that appear more than once, or that are already `taken`. */
+export const duplicateSkus = (skus: string[], taken: (string | null)[] = []): Set<string> => {
+  const seen = new Set(taken.map(skuKey).filter(Boolean));
+  const duplicates = new Set<string>();
+  skus.map(skuKey).forEach((key) => {
+    if (!key) return;
+    if (seen.has(key)) duplicates.add(key);
+    seen.add(key);
+  });
+  return duplicates;
+};
+
+export const isParentItem = (item: { option_axes: Json | null }) => item.option_axes != null;
+
+export interface ItemGroup<T> {
+  item: T;
+  variants: T[];
+}
+
+/** Nests variants under their parent product, keeping the original order. */
+export const groupVariants = <T extends { id: string; parent_id: string | null }>(items: T[]): ItemGroup<T>[] => {
+  const groups = new Map<string, ItemGroup<T>>();
+  items.forEach((it) => {
+    if (!it.parent_id) groups.set(it.id, { item: it, variants: [] });
+  });
+  items.forEach((it) => {
+    if (it.parent_id) groups.get(it.parent_id)?.variants.push(it);
+  });
+  return [...groups.values()];
+};
@@ -0,0 +1,128 @@
+import { useMemo } from "react";
+import { useNavigate, useSearchParams } from "react-router-dom";
+import { usePageMeta } from "@/hooks/usePageMeta";
+import { useStockLots } from "@/hooks/useStockLots";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import ExpiryBadge from "@/components/inventory/ExpiryBadge";
+import { dateFromToday, parseDate } from "@/lib/lots";
+import { PackageSearch } from "lucide-react";
+
+const DEFAULT_WINDOW_DAYS = 30;
+const PRESETS = [7, 30, 90];
+
+const ExpiringStock = () => {
+  const navigate = useNavigate();
+  const [searchParams, setSearchParams] = useSearchParams();
+
+  // The window lives in the URL so a filtered list can be bookmarked or shared
+  const parsed = parseInt(searchParams.get("days") ?? "", 10);
+  const windowDays = Number.isFinite(parsed) && parsed >= 0 ? parsed : DEFAULT_WINDOW_DAYS;
+  const setWindowDays = (days: number) => setSearchParams({ days: String(Math.max(0, days)) }, { replace: true });
+
+  usePageMeta(
+    "Expiring Stock | Inventory Tonic",
+    "Lots that have expired or will expire soon.",
+    "/expiring"
+  );
+
+  const { data: allLots, isLoading } = useStockLots();
+
+  const lots = useMemo(() => {
+    const cutoff = dateFromToday(windowDays);
+    // Dates are ISO strings, so they compare correctly as text
+    return allLots?.filter((lot) => lot.quantity > 0 && lot.expires_on && lot.expires_on <= cutoff) ?? [];
+  }, [allLots, windowDays]);
+
+  return (
+    <div className="min-h-screen bg-background">
+      <header className="border-b bg-card">
+        <div className="container mx-auto px-4 py-4 flex items-center justify-between">
+          <div className="flex items-center gap-2">
+            <h1 className="text-xl font-bold">Expiring Stock</h1>
+          </div>
+          <div className="flex items-center gap-2">
+            <Button variant="outline" onClick={() => navigate("/inventory")}>Inventory</Button>
+            <Button variant="outline" onClick={() => navigate("/")}>Dashboard</Button>
+          </div>
+        </div>
+      </header>
+
+      <main className="container mx-auto px-4 py-8">
+        <div className="flex items-center justify-between mb-3">
+          <h2 className="text-xl font-semibold">Lots</h2>
+          <div className="flex items-center gap-2">
+            <Label htmlFor="expiry_window">Expiring within</Label>
+            <Input
+              id="expiry_window"
+              type="number"
+              inputMode="numeric"
+              min={0}
+              value={windowDays}
+              onChange={(e) => setWindowDays(parseInt(e.target.value || "0", 10))}
+              className="w-20"
+            />
+            <span className="text-sm text-muted-foreground">days</span>
+            {PRESETS.map((days) => (
+              <Button
+                key={days}
+                variant={days === windowDays ? "secondary" : "outline"}
+                size="sm"
+                onClick={() => setWindowDays(days)}
+              >
+                {days}d
+              </Button>
+            ))}
+          </div>
+        </div>
+
+        <Card>
+          <CardHeader>
+            <CardDescription>Expired lots and lots expiring in the next {windowDays} days, soonest first</CardDescription>
+          </CardHeader>
+          <CardContent>
+            {isLoading ? (
+              <div className="flex items-center gap-2 text-muted-foreground"><PackageSearch className="h-4 w-4" /> Loading lots...</div>
+            ) : !lots.length ? (
+              <div className="text-center text-muted-foreground py-8">Nothing expires in this window.</div>
+            ) : (
+              <div className="w-full overflow-x-auto">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Item</TableHead>
+                      <TableHead>SKU</TableHead>
+                      <TableHead>Lot</TableHead>
+                      <TableHead>Location</TableHead>
+                      <TableHead>Expires</TableHead>
+                      <TableHead>Status</TableHead>
+                      <TableHead className="text-right">Quantity</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {lots.map((lot) => (
+                      <TableRow key={lot.id} className="cursor-pointer" onClick={() => navigate(`/inventory/${lot.item_id}`)}>
+                        <TableCell className="font-medium">{lot.inventory_items?.name ?? "-"}</TableCell>
+                        <TableCell>{lot.inventory_items?.sku || "-"}</TableCell>
+                        <TableCell>{lot.lot_number}</TableCell>
+                        <TableCell>{lot.locations?.name ?? "-"}</TableCell>
+                        <TableCell>{lot.expires_on ? parseDate(lot.expires_on).toLocaleDateString() : "-"}</TableCell>
+                        <TableCell><ExpiryBadge expiresOn={lot.expires_on} windowDays={windowDays} /></TableCell>
+                        <TableCell className="text-right">{lot.quantity}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </main>
+    </div>
+  );
+};
+
+export default ExpiringStock;
@@ -0,0 +1,292 @@
+import { useMemo } from "react";
+import { useNavigate, useSearchParams } from "react-router-dom";
+import { CartesianGrid, Line, LineChart, XAxis, YAxis } from "recharts";
+import { usePageMeta } from "@/hooks/usePageMeta";
+import { useInventoryItems, type InventoryItem } from "@/hooks/useInventoryItems";
+import { useStockMovements, type StockMovement } from "@/hooks/useStockMovements";
+import { useItemSuppliers, useSuppliers } from "@/hooks/useSuppliers";
+import { useUnits } from "@/hooks/useUnits";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  ChartContainer,
+  ChartLegend,
+  ChartLegendContent,
+  ChartTooltip,
+  ChartTooltipContent,
+  type ChartConfig,
+} from "@/components/ui/chart";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import {
+  FORECAST_MODELS,
+  HISTORY_DAYS,
+  addDays,
+  dailyOutflows,
+  daysUntilStockOut,
+  forecastDemand,
+  isForecastModel,
+  weeklyTotals,
+} from "@/lib/forecast";
+import { formatQuantity } from "@/lib/units";
+import { isParentItem } from "@/lib/variants";
+import { PackageSearch } from "lucide-react";
+
+// Far enough ahead to find a stock-out for anything that moves at all
+const HORIZON_DAYS = 365;
+const CHART_WEEKS = 8;
+
+interface ItemForecast {
+  item: InventoryItem;
+  history: number[];
+  forecast: number[];
+  weekly: number;
+  stockOutIn: number | null;
+  leadTime: number | null;
+  orderIn: number | null;
+}
+
+const chartConfig = {
+  actual: { label: "Actual", color: "hsl(var(--primary))" },
+  forecast: { label: "Forecast", color: "hsl(var(--muted-foreground))" },
+} satisfies ChartConfig;
+
+const formatDay = (days: number) => addDays(days).toLocaleDateString();
+
+const Forecast = () => {
+  const navigate = useNavigate();
+  const [searchParams, setSearchParams] = useSearchParams();
+
+  usePageMeta(
+    "Demand Forecast | Inventory Tonic",
+    "Forecast daily and weekly demand per item, with stock-out and order-by dates.",
+    "/forecast"
+  );
+
+  const { data: items, isLoading: itemsLoading } = useInventoryItems();
+  const { data: movements, isLoading: movementsLoading } = useStockMovements();
+  const { data: suppliers } = useSuppliers();
+  const { data: itemSuppliers } = useItemSuppliers();
+  const { data: units } = useUnits();
+
+  const requested = searchParams.get("model");
+  const model = isForecastModel(requested) ? requested : "moving_average";
+  const selectedId = searchParams.get("item");
+  const setParam = (key: string, value: string) =>
+    setSearchParams(
+      (prev) => {
+        const next = new URLSearchParams(prev);
+        next.set(key, value);
+        return next;
+      },
+      { replace: true }
+    );
+
+  const unitsById = useMemo(() => new Map(units?.map((u) => [u.id, u]) ?? []), [units]);
+
+  // An item's own lead time wins over its preferred supplier's
+  const supplierLeadTimes = useMemo(() => {
+    const suppliersById = new Map(suppliers?.map((s) => [s.id, s]) ?? []);
+    const map = new Map<string, number>();
+    itemSuppliers?.forEach((link) => {
+      const days = suppliersById.get(link.supplier_id)?.lead_time_days;
+      if (link.is_preferred && days != null) map.set(link.item_id, days);
+    });
+    return map;
+  }, [suppliers, itemSuppliers]);
+
+  const forecasts = useMemo(() => {
+    // Transfers only move stock between locations, so they aren't demand
+    const outflows = new Map<string, StockMovement[]>();
+    movements?.forEach((m) => {
+      if (m.delta >= 0 || m.reference_type === "transfer") return;
+      const list = outflows.get(m.item_id) ?? [];
+      list.push(m);
+      outflows.set(m.item_id, list);
+    });
+
+    const rows: ItemForecast[] = (items ?? [])
+      .filter((it) => !isParentItem(it))
+      .map((it) => {
+        const history = dailyOutflows(outflows.get(it.id) ?? []);
+        const forecast = forecastDemand(history, model, HORIZON_DAYS);
+        const stockOutIn = daysUntilStockOut(it.quantity, forecast);
+        const leadTime = it.lead_time_days ?? supplierLeadTimes.get(it.id) ?? null;
+        return {
+          item: it,
+          history,
+          forecast,
+          weekly: forecast.slice(0, 7).reduce((sum, v) => sum + v, 0),
+          stockOutIn,
+          leadTime,
+          orderIn: stockOutIn !== null && leadTime !== null ? stockOutIn - leadTime : null,
+        };
+      });
+    // Most urgent first; items that never run out go last
+    const urgency = (row: ItemForecast) => row.orderIn ?? row.stockOutIn ?? Infinity;
+    return rows.sort((a, b) => urgency(a) - urgency(b) || b.weekly - a.weekly || a.item.name.localeCompare(b.item.name));
+  }, [items, movements, model, supplierLeadTimes]);
+
+  const selected = forecasts.find((row) => row.item.id === selectedId) ?? forecasts.find((row) => row.weekly > 0);
+
+  // Weekly totals either side of today, labelled by the day each week starts
+  const chartData = useMemo(() => {
+    if (!selected) return [];
+    const actual = weeklyTotals(selected.history).map((value, week) => ({
+      week: addDays(week * 7 - HISTORY_DAYS).toLocaleDateString(undefined, { month: "short", day: "numeric" }),
+      actual: value,
+    }));
+    const forecast = weeklyTotals(selected.forecast.slice(0, CHART_WEEKS * 7)).map((value, week) => ({
+      week: addDays(week * 7).toLocaleDateString(undefined, { month: "short", day: "numeric" }),
+      forecast: Number(value.toFixed(2)),
+    }));
+    return [...actual, ...forecast];
+  }, [selected]);
+
+  const noLeadTime = forecasts.filter((row) => row.stockOutIn !== null && row.leadTime === null).length;
+
+  return (
+    <div className="min-h-screen bg-background">
+      <header className="border-b bg-card">
+        <div className="container mx-auto px-4 py-4 flex items-center justify-between">
+          <div className="flex items-center gap-2">
+            <h1 className="text-xl font-bold">Demand Forecast</h1>
+          </div>
+          <div className="flex items-center gap-2">
+            <Button variant="outline" onClick={() => navigate("/reorder")}>Reorder</Button>
+            <Button variant="outline" onClick={() => navigate("/inventory")}>Inventory</Button>
+            <Button variant="outline" onClick={() => navigate("/")}>Dashboard</Button>
+          </div>
+        </div>
+      </header>
+
+      <main className="container mx-auto px-4 py-8 space-y-8">
+        <div>
+          <Label>Model</Label>
+          <Select value={model} onValueChange={(value) => setParam("model", value)}>
+            <SelectTrigger className="w-72" aria-label="Forecast model">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {FORECAST_MODELS.map((m) => (
+                <SelectItem key={m.value} value={m.value}>
+                  {m.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <p className="text-sm text-muted-foreground mt-2">
+            Built from every stock decrease over the last {HISTORY_DAYS / 7} weeks, except transfers between locations.
+          </p>
+        </div>
+
+        {itemsLoading || movementsLoading ? (
+          <div className="flex items-center gap-2 text-muted-foreground"><PackageSearch className="h-4 w-4" /> Loading stock movements...</div>
+        ) : !forecasts.length ? (
+          <div className="text-center text-muted-foreground py-8">No items to forecast yet.</div>
+        ) : (
+          <>
+            {selected ? (
+              <Card>
+                <CardHeader>
+                  <CardTitle className="text-2xl">{selected.item.name}</CardTitle>
+                  <CardDescription>
+                    Weekly demand, {unitsById.get(selected.item.unit_id)?.symbol ?? "units"}: the last {HISTORY_DAYS / 7} weeks
+                    and the next {CHART_WEEKS}
+                  </CardDescription>
+                </CardHeader>
+                <CardContent>
+                  <ChartContainer config={chartConfig} className="h-72 w-full aspect-auto">
+                    <LineChart data={chartData} margin={{ left: 8, right: 8 }}>
+                      <CartesianGrid vertical={false} />
+                      <XAxis dataKey="week" tickLine={false} axisLine={false} tickMargin={8} />
+                      <YAxis tickLine={false} axisLine={false} width={40} allowDecimals={false} />
+                      <ChartTooltip content={<ChartTooltipContent />} />
+                      <ChartLegend content={<ChartLegendContent />} />
+                      <Line dataKey="actual" type="monotone" stroke="var(--color-actual)" strokeWidth={2} dot={false} />
+                      <Line
+                        dataKey="forecast"
+                        type="monotone"
+                        stroke="var(--color-forecast)"
+                        strokeWidth={2}
+                        strokeDasharray="4 4"
+                        dot={false}
+                      />
+                    </LineChart>
+                  </ChartContainer>
+                </CardContent>
+              </Card>
+            ) : null}
+
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-2xl">By Item</CardTitle>
+                <CardDescription>Soonest order date first. Select an item to chart it.</CardDescription>
+              </CardHeader>
+              <CardContent>
+                {noLeadTime ? (
+                  <p className="text-sm text-muted-foreground mb-4">
+                    {noLeadTime} item{noLeadTime === 1 ? " has" : "s have"} no lead time. Set one in the item's reorder settings
+                    or on its preferred supplier to get an order date.
+                  </p>
+                ) : null}
+                <div className="w-full overflow-x-auto">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Item</TableHead>
+                        <TableHead className="text-right">On Hand</TableHead>
+                        <TableHead className="text-right">Daily Demand</TableHead>
+                        <TableHead className="text-right">Weekly Demand</TableHead>
+                        <TableHead className="text-right">Stock-out</TableHead>
+                        <TableHead className="text-right">Lead Time</TableHead>
+                        <TableHead className="text-right">Order By</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {forecasts.map((row) => {
+                        const unit = unitsById.get(row.item.unit_id);
+                        return (
+                          <TableRow
+                            key={row.item.id}
+                            className={`cursor-pointer ${row.item.id === selected?.item.id ? "bg-muted/50" : ""}`}
+                            onClick={() => setParam("item", row.item.id)}
+                          >
+                            <TableCell className="font-medium">
+                              {row.item.name}
+                              {row.item.sku ? <div className="text-xs text-muted-foreground">{row.item.sku}</div> : null}
+                            </TableCell>
+                            <TableCell className="text-right">{formatQuantity(row.item.quantity, unit)}</TableCell>
+                            <TableCell className="text-right">{(row.weekly / 7).toFixed(2)}</TableCell>
+                            <TableCell className="text-right">{row.weekly.toFixed(1)}</TableCell>
+                            <TableCell className="text-right">
+                              {row.item.quantity <= 0 ? "Out of stock" : row.stockOutIn === null ? "-" : formatDay(row.stockOutIn)}
+                            </TableCell>
+                            <TableCell className="text-right">{row.leadTime !== null ? `${row.leadTime} days` : "-"}</TableCell>
+                            <TableCell className="text-right">
+                              {row.orderIn === null ? (
+                                "-"
+                              ) : row.orderIn <= 0 ? (
+                                <Badge variant="destructive">Order now</Badge>
+                              ) : (
+                                formatDay(row.orderIn)
+                              )}
+                            </TableCell>
+                          </TableRow>
+                        );
+                      })}
+                    </TableBody>
+                  </Table>
+                </div>
+              </CardContent>
+            </Card>
+          </>
+        )}
+      </main>
+    </div>
+  );
+};
+
+export default Forecast;
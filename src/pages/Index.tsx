@@ -98,6 +98,174 @@ const Index = () => {
               <Button className="w-full" onClick={() => navigate('/inventory')}>Manage Stock</Button>
             </CardContent>
           </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Suppliers</CardTitle>
+              <CardDescription>
+                Keep track of who you buy from
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <Button className="w-full" onClick={() => navigate('/suppliers')}>View Suppliers</Button>
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Purchase Orders</CardTitle>
+              <CardDescription>
+                Order stock and receive deliveries
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <Button className="w-full" onClick={() => navigate('/purchase-orders')}>View Purchase Orders</Button>
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Reorder Suggestions</CardTitle>
+              <CardDescription>
+                See what's at its reorder point and send order sheets
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <Button className="w-full" onClick={() => navigate('/reorder')}>View Suggestions</Button>
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Demand Forecast</CardTitle>
+              <CardDescription>
+                Project demand, stock-out dates and when to order
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <Button className="w-full" onClick={() => navigate('/forecast')}>View Forecast</Button>
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Stocktakes</CardTitle>
+              <CardDescription>
+                Count stock at a location and post the variances
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <Button className="w-full" onClick={() => navigate('/stocktakes')}>Count Stock</Button>
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Shrinkage</CardTitle>
+              <CardDescription>
+                See stock lost by reason and period
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <Button className="w-full" onClick={() => navigate('/shrinkage')}>View Shrinkage</Button>
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Returns</CardTitle>
+              <CardDescription>
+                Process customer returns and restock or write them off
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <Button className="w-full" onClick={() => navigate('/returns')}>Manage Returns</Button>
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Labels</CardTitle>
+              <CardDescription>
+                Print barcode and QR code labels for shelves and products
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <Button className="w-full" onClick={() => navigate('/labels')}>Print Labels</Button>
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Sales Orders</CardTitle>
+              <CardDescription>
+                Reserve and ship stock for customers
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <Button className="w-full" onClick={() => navigate('/sales-orders')}>View Sales Orders</Button>
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Expiring Stock</CardTitle>
+              <CardDescription>
+                See lots that are close to their expiry date
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <Button className="w-full" onClick={() => navigate('/expiring')}>View Expiring Stock</Button>
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Serial Lookup</CardTitle>
+              <CardDescription>
+                Trace a single unit from receipt to sale
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <Button className="w-full" onClick={() => navigate('/serials')}>Look Up a Serial</Button>
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Margin Report</CardTitle>
+              <CardDescription>
+                Compare cost and selling prices by item and category
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <Button className="w-full" onClick={() => navigate('/margins')}>View Margins</Button>
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Inventory Valuation</CardTitle>
+              <CardDescription>
+                Value stock and cost of goods sold using FIFO, LIFO or average cost
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <Button className="w-full" onClick={() => navigate('/valuation')}>View Valuation</Button>
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Settings</CardTitle>
+              <CardDescription>
+                Set your base currency and exchange rates
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <Button className="w-full" onClick={() => navigate('/settings')}>Open Settings</Button>
+            </CardContent>
+          </Card>
         </div>
       </main>
     </div>
@@ -1,32 +1,58 @@
-import { useEffect, useMemo, useState } from "react";
+import { Fragment, useMemo, useState } from "react";
 import { useNavigate } from "react-router-dom";
-import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
 import { supabase } from "@/integrations/supabase/client";
 import { useAuth } from "@/hooks/useAuth";
 import { useToast } from "@/hooks/use-toast";
+import { usePageMeta } from "@/hooks/usePageMeta";
+import { useInventoryItems, type InventoryItem } from "@/hooks/useInventoryItems";
+import { useStockLevels, type StockLevel } from "@/hooks/useLocations";
+import { useItemSuppliers } from "@/hooks/useSuppliers";
+import { useKitComponents } from "@/hooks/useKits";
+import { useUnits } from "@/hooks/useUnits";
+import { useCategories } from "@/hooks/useCategories";
+import { useCustomFields } from "@/hooks/useCustomFields";
+import { useCurrency } from "@/hooks/useCurrency";
+import { useOnOrder } from "@/hooks/useOnOrder";
+import { mainThumbnails, useItemImages } from "@/hooks/useItemImages";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
 import { Separator } from "@/components/ui/separator";
-import { Plus, Trash2, ArrowDown, ArrowUp, PackageSearch } from "lucide-react";
-
-interface InventoryItem {
-  id: string;
-  user_id: string;
-  name: string;
-  description: string | null;
-  sku: string | null;
-  category: string | null;
-  quantity: number;
-  unit_price: number | null;
-  low_stock_threshold: number | null;
-  created_at: string;
-  updated_at: string;
-}
-
-const currency = new Intl.NumberFormat(undefined, { style: "currency", currency: "USD" });
+import { Badge } from "@/components/ui/badge";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import LocationPicker, { ALL_LOCATIONS } from "@/components/inventory/LocationPicker";
+import TransferDialog from "@/components/inventory/TransferDialog";
+import InTransitTransfers from "@/components/inventory/InTransitTransfers";
+import KitDialog from "@/components/inventory/KitDialog";
+import SerialsDialog, { type SerialsMode } from "@/components/inventory/SerialsDialog";
+import UnitPicker, { NO_UNIT } from "@/components/inventory/UnitPicker";
+import CategoryPicker from "@/components/inventory/CategoryPicker";
+import CategoryTreeFilter, { ALL_CATEGORIES, UNCATEGORISED } from "@/components/inventory/CategoryTreeFilter";
+import CustomFieldInput from "@/components/inventory/CustomFieldInput";
+import CustomFieldsDialog from "@/components/inventory/CustomFieldsDialog";
+import PriceDialog from "@/components/inventory/PriceDialog";
+import ReorderDialog from "@/components/inventory/ReorderDialog";
+import AdjustStockDialog from "@/components/inventory/AdjustStockDialog";
+import ItemThumbnail from "@/components/inventory/ItemThumbnail";
+import ScanSheet from "@/components/scanner/ScanSheet";
+import VariantMatrixEditor, { type AxisDraft, type VariantDraft } from "@/components/inventory/VariantMatrixEditor";
+import type { Json } from "@/integrations/supabase/types";
+import { ITEM_IMAGES_BUCKET } from "@/lib/images";
+import { buildableKits, componentsByKit } from "@/lib/kits";
+import { duplicateSkus, groupVariants, isParentItem, parseOptionAxes, variantLabel, type ItemGroup } from "@/lib/variants";
+import { formatQuantity, quantityStep } from "@/lib/units";
+import { categoryPath, categorySubtree } from "@/lib/categories";
+import { buildCustomValues, customValueMatches, customValuesOf, formatCustomValue } from "@/lib/customFields";
+import { formatMoney, isCurrencyCode } from "@/lib/currency";
+import { formatPercent, marginPercent, markupPercent } from "@/lib/pricing";
+import { atReorderPoint, availableStock } from "@/lib/reorder";
+import { Plus, Trash2, ArrowDown, ArrowUp, ArrowLeftRight, Boxes, PackageSearch, ChevronDown, ChevronRight, ScanBarcode, Settings2, ShoppingCart, Tag } from "lucide-react";
+
+const ANY_FIELD = "any";
 
 const Inventory = () => {
   const { user, loading } = useAuth();
@@ -36,78 +62,180 @@ const Inventory = () => {
 
   const [name, setName] = useState("");
   const [sku, setSku] = useState("");
-  const [category, setCategory] = useState("");
+  const [categoryId, setCategoryId] = useState("");
   const [description, setDescription] = useState("");
   const [quantity, setQuantity] = useState<number>(0);
+  const [costPrice, setCostPrice] = useState<string>("");
   const [unitPrice, setUnitPrice] = useState<string>("");
+  const [priceCurrency, setPriceCurrency] = useState("");
   const [threshold, setThreshold] = useState<number>(10);
+  const [unitId, setUnitId] = useState("");
+  const [purchaseUnitId, setPurchaseUnitId] = useState(NO_UNIT);
+  const [purchaseFactor, setPurchaseFactor] = useState<string>("");
+  const [saleUnitId, setSaleUnitId] = useState(NO_UNIT);
+  const [saleFactor, setSaleFactor] = useState<string>("");
+  const [hasVariants, setHasVariants] = useState(false);
+  const [serialized, setSerialized] = useState(false);
+  const [customDraft, setCustomDraft] = useState<Record<string, string>>({});
+  const [fieldsOpen, setFieldsOpen] = useState(false);
+  const [axes, setAxes] = useState<AxisDraft[]>([{ name: "", values: "" }]);
+  const [variantRows, setVariantRows] = useState<VariantDraft[]>([]);
+  const [expanded, setExpanded] = useState<Set<string>>(new Set());
   const [search, setSearch] = useState<string>("");
+  const [categoryFilter, setCategoryFilter] = useState<string>(ALL_CATEGORIES);
+  const [filterFieldId, setFilterFieldId] = useState<string>(ANY_FIELD);
+  const [filterValue, setFilterValue] = useState<string>("");
+  const [locationId, setLocationId] = useState<string>(ALL_LOCATIONS);
+  const [transferItem, setTransferItem] = useState<InventoryItem | null>(null);
+  const [kitItem, setKitItem] = useState<InventoryItem | null>(null);
+  const [priceItem, setPriceItem] = useState<InventoryItem | null>(null);
+  const [reorderItem, setReorderItem] = useState<InventoryItem | null>(null);
+  const [serialTarget, setSerialTarget] = useState<{ item: InventoryItem; mode: SerialsMode } | null>(null);
+  const [adjustTarget, setAdjustTarget] = useState<{ item: InventoryItem; delta: number } | null>(null);
+  const [scanning, setScanning] = useState(false);
 
-  // SEO: Title, description, canonical
-  useEffect(() => {
-    const title = "Inventory Management | Inventory Tonic"; // <60 chars
-    const description = "Manage inventory items, add products, and update stock levels."; // <160
-    document.title = title;
-
-    const setMeta = (name: string, content: string) => {
-      let tag = document.querySelector(`meta[name="${name}"]`);
-      if (!tag) {
-        tag = document.createElement("meta");
-        tag.setAttribute("name", name);
-        document.head.appendChild(tag);
-      }
-      tag.setAttribute("content", content);
-    };
-    setMeta("description", description);
-
-    let canonical = document.querySelector("link[rel=canonical]") as HTMLLinkElement | null;
-    if (!canonical) {
-      canonical = document.createElement("link");
-      canonical.rel = "canonical";
-      document.head.appendChild(canonical);
-    }
-    canonical.href = window.location.origin + "/inventory";
-  }, []);
-
-  const { data: items, isLoading } = useQuery<InventoryItem[]>({
-    queryKey: ["inventory-items"],
-    queryFn: async () => {
-      const { data, error } = await supabase
-        .from("inventory_items")
-        .select("*")
-        .order("created_at", { ascending: false });
-      if (error) throw error;
-      return data as InventoryItem[];
-    },
-    enabled: !!user && !loading,
-  });
+  usePageMeta(
+    "Inventory Management | Inventory Tonic", // <60 chars
+    "Manage inventory items, add products, and update stock levels.", // <160
+    "/inventory"
+  );
+
+  const { data: items, isLoading } = useInventoryItems();
+  const { data: stockLevels } = useStockLevels();
+  const { data: itemSuppliers } = useItemSuppliers();
+  const { data: kitComponents } = useKitComponents();
+  const { data: units } = useUnits();
+  const { data: categories } = useCategories();
+  const { data: customFields } = useCustomFields();
+  const { baseCurrency } = useCurrency();
+  const { data: onOrder } = useOnOrder();
+  const { data: images } = useItemImages();
+
+  const itemsById = useMemo(() => new Map(items?.map((it) => [it.id, it]) ?? []), [items]);
+  const unitsById = useMemo(() => new Map(units?.map((u) => [u.id, u]) ?? []), [units]);
+  const categoriesById = useMemo(() => new Map(categories?.map((c) => [c.id, c]) ?? []), [categories]);
+  const thumbnails = useMemo(() => mainThumbnails(images), [images]);
+  const columnFields = useMemo(() => customFields?.filter((f) => f.show_in_table) ?? [], [customFields]);
+  const filterField = customFields?.find((f) => f.id === filterFieldId);
+  // Until a unit is picked the item is counted in whole "each" units
+  const baseUnit = unitsById.get(unitId);
+  const baseSymbol = baseUnit?.symbol ?? "ea";
+  const step = quantityStep(baseUnit);
+  const kits = useMemo(() => componentsByKit(kitComponents ?? []), [kitComponents]);
+  // Variants can't reuse the SKU of another item or of their own product
+  const takenSkus = useMemo(() => [...(items?.map((it) => it.sku) ?? []), sku], [items, sku]);
+
+  const preferredSuppliers = useMemo(() => {
+    const map = new Map<string, string>();
+    itemSuppliers?.forEach((link) => {
+      if (link.is_preferred && link.suppliers) map.set(link.item_id, link.suppliers.name);
+    });
+    return map;
+  }, [itemSuppliers]);
+
+  const levelsByItem = useMemo(() => {
+    const map = new Map<string, StockLevel>();
+    if (locationId === ALL_LOCATIONS) return map;
+    stockLevels?.forEach((lvl) => {
+      if (lvl.location_id === locationId) map.set(lvl.item_id, lvl);
+    });
+    return map;
+  }, [stockLevels, locationId]);
 
   const addItem = useMutation({
     mutationFn: async () => {
       if (!user) throw new Error("Not authenticated");
       if (!name.trim()) throw new Error("Name is required");
 
-      const { error } = await supabase.from("inventory_items").insert({
+      const toPrice = (value: string) => (value ? Number(parseFloat(value).toFixed(2)) : null);
+      const currencyCode = (priceCurrency.trim() || baseCurrency).toUpperCase();
+      if (!isCurrencyCode(currencyCode)) throw new Error("Currency must be a 3-letter code, e.g. USD");
+      // A factor is how many base units one purchase or sale unit holds
+      const toFactor = (otherUnitId: string, value: string, label: string) => {
+        if (otherUnitId === NO_UNIT) return 1;
+        const factor = parseFloat(value);
+        if (!Number.isFinite(factor) || factor <= 0) {
+          throw new Error(`Enter how many ${baseSymbol} are in one ${label} unit`);
+        }
+        return factor;
+      };
+      const base = {
         user_id: user.id,
-        name: name.trim(),
         description: description.trim() || null,
-        sku: sku.trim() || null,
-        category: category.trim() || null,
-        quantity: Number.isFinite(quantity) ? quantity : 0,
-        unit_price: unitPrice ? Number(parseFloat(unitPrice).toFixed(2)) : null,
+        category_id: categoryId || null,
+        custom_values: buildCustomValues(customFields ?? [], customDraft),
+        currency: currencyCode,
+        // Variants share the product's cost; their selling prices are set per row
+        cost_price: toPrice(costPrice),
         low_stock_threshold: Number.isFinite(threshold) ? threshold : 10,
+        is_serialized: serialized,
+        unit_id: unitId || undefined,
+        purchase_unit_id: purchaseUnitId === NO_UNIT ? null : purchaseUnitId,
+        purchase_factor: toFactor(purchaseUnitId, purchaseFactor, "purchase"),
+        sale_unit_id: saleUnitId === NO_UNIT ? null : saleUnitId,
+        sale_factor: toFactor(saleUnitId, saleFactor, "sale"),
+      };
+
+      if (!hasVariants) {
+        const { error } = await supabase.from("inventory_items").insert({
+          ...base,
+          name: name.trim(),
+          sku: sku.trim() || null,
+          // Serialized stock is received unit by unit afterwards
+          quantity: !serialized && Number.isFinite(quantity) ? quantity : 0,
+          unit_price: toPrice(unitPrice),
+        });
+        if (error) throw error;
+        return;
+      }
+
+      const optionAxes = parseOptionAxes(axes);
+      if (!variantRows.length) throw new Error("Generate at least one variant");
+      if (duplicateSkus(variantRows.map((row) => row.sku), takenSkus).size) {
+        throw new Error("Some variant SKUs are already in use. Give each variant its own.");
+      }
+
+      const { error } = await supabase.rpc("create_item_with_variants", {
+        _item: {
+          ...base,
+          name: name.trim(),
+          sku: sku.trim() || null,
+          unit_price: toPrice(unitPrice),
+          option_axes: optionAxes,
+        } as unknown as Json,
+        _variants: variantRows.map((row) => ({
+          name: `${name.trim()} - ${variantLabel(row.values, optionAxes)}`,
+          sku: row.sku.trim() || null,
+          quantity: !serialized && Number.isFinite(row.quantity) ? row.quantity : 0,
+          unit_price: toPrice(row.price),
+          option_values: row.values,
+        })),
       });
       if (error) throw error;
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["inventory-items"] });
+      queryClient.invalidateQueries({ queryKey: ["stock-levels"] });
+      queryClient.invalidateQueries({ queryKey: ["locations"] });
       setName("");
       setSku("");
-      setCategory("");
+      setCategoryId("");
       setDescription("");
       setQuantity(0);
+      setCostPrice("");
       setUnitPrice("");
+      setPriceCurrency("");
       setThreshold(10);
+      setUnitId("");
+      setPurchaseUnitId(NO_UNIT);
+      setPurchaseFactor("");
+      setSaleUnitId(NO_UNIT);
+      setSaleFactor("");
+      setHasVariants(false);
+      setSerialized(false);
+      setCustomDraft({});
+      setAxes([{ name: "", values: "" }]);
+      setVariantRows([]);
       toast({ title: "Item added", description: "New item has been added to your inventory." });
     },
     onError: (err: any) => {
@@ -115,29 +243,38 @@ const Inventory = () => {
     },
   });
 
-  const updateQuantity = useMutation({
-    mutationFn: async ({ id, newQty }: { id: string; newQty: number }) => {
-      const { error } = await supabase
-        .from("inventory_items")
-        .update({ quantity: newQty })
-        .eq("id", id);
+  const updateThreshold = useMutation({
+    mutationFn: async ({ id, threshold }: { id: string; threshold: number }) => {
+      const { error } = await supabase.rpc("set_stock_threshold", {
+        _item_id: id,
+        _location_id: locationId,
+        _threshold: threshold,
+      });
       if (error) throw error;
     },
     onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: ["inventory-items"] });
+      queryClient.invalidateQueries({ queryKey: ["stock-levels"] });
     },
-    onError: (err: any) => {
-      toast({ title: "Update failed", description: err.message || "Could not update stock.", variant: "destructive" });
+    onError: (err: Error) => {
+      toast({ title: "Update failed", description: err.message || "Could not update threshold.", variant: "destructive" });
     },
   });
 
   const deleteItem = useMutation({
     mutationFn: async (id: string) => {
+      // Variants go with their parent, and so do the images of both
+      const ids = [id, ...(items ?? []).filter((it) => it.parent_id === id).map((it) => it.id)];
+      const files = (images ?? [])
+        .filter((image) => ids.includes(image.item_id))
+        .flatMap((image) => [image.path, image.thumbnail_path]);
+
       const { error } = await supabase.from("inventory_items").delete().eq("id", id);
       if (error) throw error;
+      if (files.length > 0) await supabase.storage.from(ITEM_IMAGES_BUCKET).remove(files);
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["inventory-items"] });
+      queryClient.invalidateQueries({ queryKey: ["item-images"] });
       toast({ title: "Item deleted", description: "The item was removed from your inventory." });
     },
     onError: (err: any) => {
@@ -145,16 +282,315 @@ const Inventory = () => {
     },
   });
 
+  const groups = useMemo(() => groupVariants(items ?? []), [items]);
+
+  // Products per category for the tree; variants are filed with their parent
+  const categoryCounts = useMemo(() => {
+    const map = new Map<string, number>();
+    groups.forEach((g) => {
+      const key = g.item.category_id ?? "";
+      map.set(key, (map.get(key) ?? 0) + 1);
+    });
+    return map;
+  }, [groups]);
+
+  // Picking a category also shows everything nested beneath it
+  const inCategory = useMemo(() => {
+    if (categoryFilter === ALL_CATEGORIES) return () => true;
+    if (categoryFilter === UNCATEGORISED) return (it: InventoryItem) => !it.category_id;
+    const ids = categorySubtree(categoryFilter, categories ?? []);
+    return (it: InventoryItem) => !!it.category_id && ids.has(it.category_id);
+  }, [categoryFilter, categories]);
+
+  // A parent stays visible when it or any of its variants matches the search
+  // and the custom field filter
   const filtered = useMemo(() => {
-    if (!items) return [] as InventoryItem[];
     const q = search.trim().toLowerCase();
-    if (!q) return items;
-    return items.filter((it) =>
-      [it.name, it.sku, it.category, it.description]
+    const inFilter = groups.filter((g) => inCategory(g.item));
+    if (!q && !(filterField && filterValue.trim())) return inFilter;
+    const matchesSearch = (it: InventoryItem) => {
+      const values = customValuesOf(it.custom_values);
+      return [
+        it.name,
+        it.sku,
+        categoryPath(it.category_id, categoriesById),
+        it.description,
+        ...(customFields ?? []).map((f) => formatCustomValue(f, values[f.id])),
+      ]
         .filter(Boolean)
-        .some((f) => (f as string).toLowerCase().includes(q))
+        .some((f) => (f as string).toLowerCase().includes(q));
+    };
+    const matches = (it: InventoryItem) =>
+      (!q || matchesSearch(it)) &&
+      (!filterField || customValueMatches(filterField, customValuesOf(it.custom_values)[filterField.id], filterValue));
+    return inFilter.flatMap((g) => {
+      if (matches(g.item)) return [g];
+      const variants = g.variants.filter(matches);
+      return variants.length ? [{ ...g, variants }] : [];
+    });
+  }, [groups, search, inCategory, categoriesById, customFields, filterField, filterValue]);
+
+  const toggleExpanded = (id: string) =>
+    setExpanded((prev) => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+
+  // Searching reveals matching variants without having to expand each product
+  const isExpanded = (id: string) => expanded.has(id) || !!search.trim();
+
+  const stockAt = (it: InventoryItem) => {
+    const level = levelsByItem.get(it.id);
+    return {
+      qty: locationId === ALL_LOCATIONS ? it.quantity : level?.quantity ?? 0,
+      threshold: level?.low_stock_threshold ?? it.low_stock_threshold,
+    };
+  };
+
+  const renderCustomCells = (it: InventoryItem) => {
+    const values = customValuesOf(it.custom_values);
+    return columnFields.map((f) => <TableCell key={f.id}>{formatCustomValue(f, values[f.id]) || "-"}</TableCell>);
+  };
+
+  const renderItemRow = (it: InventoryItem, isVariant = false) => {
+    const { qty, threshold } = stockAt(it);
+    const unit = unitsById.get(it.unit_id);
+    const low = typeof threshold === "number" && qty <= threshold;
+    // Reservations are held against the item as a whole, not a location
+    const available = qty - it.reserved_quantity;
+    // A kit can also be sold from the components that would build it
+    const kit = kits.get(it.id);
+    const buildable = kit
+      ? buildableKits(kit, (id) => {
+          const component = itemsById.get(id);
+          return component ? stockAt(component).qty - component.reserved_quantity : 0;
+        })
+      : 0;
+    return (
+      <TableRow key={it.id} className={low ? "bg-destructive/10" : undefined}>
+        <TableCell>
+          <div className={`flex items-center gap-3 ${isVariant ? "pl-6" : ""}`}>
+            {/* Variants without pictures of their own show their parent's */}
+            <ItemThumbnail
+              url={thumbnails.get(it.id) ?? (it.parent_id ? thumbnails.get(it.parent_id) : undefined)}
+              name={it.name}
+            />
+            <div>
+              <div className="font-medium flex items-center gap-2">
+                <button className="hover:underline text-left" onClick={() => navigate(`/inventory/${it.id}`)}>
+                  {it.name}
+                </button>
+                {kit ? <Badge variant="secondary">Kit</Badge> : null}
+                {it.is_serialized ? <Badge variant="outline">Serialized</Badge> : null}
+                {onOrder?.has(it.id) ? (
+                  <Badge variant="outline">On order: {formatQuantity(onOrder.get(it.id) ?? 0, unit)}</Badge>
+                ) : atReorderPoint(it, availableStock(it)) ? (
+                  <Badge variant="destructive">Reorder</Badge>
+                ) : null}
+              </div>
+              {it.description && !isVariant ? (
+                <div className="text-sm text-muted-foreground">{it.description}</div>
+              ) : null}
+            </div>
+          </div>
+        </TableCell>
+        <TableCell>{it.sku || "-"}</TableCell>
+        <TableCell>{categoryPath(it.category_id, categoriesById) || "-"}</TableCell>
+        <TableCell>{preferredSuppliers.get(it.id) || "-"}</TableCell>
+        {renderCustomCells(it)}
+        <TableCell className={`text-right font-medium ${low ? "text-destructive" : ""}`}>
+          {formatQuantity(qty, unit)}
+        </TableCell>
+        <TableCell className="text-right text-muted-foreground">{formatQuantity(it.reserved_quantity, unit)}</TableCell>
+        <TableCell className={`text-right ${available < 0 ? "text-destructive" : ""}`}>
+          {formatQuantity(available, unit)}
+          {kit ? <div className="text-xs text-muted-foreground">+{buildable} to build</div> : null}
+        </TableCell>
+        {locationId !== ALL_LOCATIONS ? (
+          <TableCell className="text-right">
+            <Input
+              key={`${it.id}:${locationId}:${threshold ?? ""}`}
+              type="number"
+              inputMode={unit?.decimal_places ? "decimal" : "numeric"}
+              min={0}
+              step={quantityStep(unit)}
+              defaultValue={threshold ?? ""}
+              onBlur={(e) => {
+                const next = parseFloat(e.target.value || "0");
+                if (Number.isFinite(next) && next !== threshold) {
+                  updateThreshold.mutate({ id: it.id, threshold: next });
+                }
+              }}
+              className="w-20 ml-auto text-right"
+              aria-label={`Low stock threshold for ${it.name} at this location`}
+            />
+          </TableCell>
+        ) : null}
+        <TableCell className="text-right">{it.cost_price != null ? formatMoney(it.cost_price, it.currency) : "-"}</TableCell>
+        <TableCell className="text-right">{it.unit_price != null ? formatMoney(it.unit_price, it.currency) : "-"}</TableCell>
+        <TableCell className={`text-right ${(marginPercent(it) ?? 0) < 0 ? "text-destructive" : ""}`}>
+          {formatPercent(marginPercent(it))}
+        </TableCell>
+        <TableCell className="text-right">{formatPercent(markupPercent(it))}</TableCell>
+        <TableCell className="text-right">
+          <div className="flex justify-end gap-2">
+            <Button
+              variant="secondary"
+              size="sm"
+              onClick={() =>
+                it.is_serialized
+                  ? setSerialTarget({ item: it, mode: "remove" })
+                  : setAdjustTarget({ item: it, delta: -1 })
+              }
+              disabled={qty <= 0}
+              aria-label={`Decrease ${it.name} quantity`}
+            >
+              <ArrowDown className="h-4 w-4" />
+            </Button>
+            <Button
+              variant="secondary"
+              size="sm"
+              onClick={() =>
+                it.is_serialized
+                  ? setSerialTarget({ item: it, mode: "receive" })
+                  : setAdjustTarget({ item: it, delta: 1 })
+              }
+              aria-label={`Increase ${it.name} quantity`}
+            >
+              <ArrowUp className="h-4 w-4" />
+            </Button>
+            <Button
+              variant="secondary"
+              size="sm"
+              onClick={() => setTransferItem(it)}
+              aria-label={`Transfer ${it.name}`}
+            >
+              <ArrowLeftRight className="h-4 w-4" />
+            </Button>
+            <Button
+              variant="secondary"
+              size="sm"
+              onClick={() => setPriceItem(it)}
+              aria-label={`Edit ${it.name} prices`}
+            >
+              <Tag className="h-4 w-4" />
+            </Button>
+            <Button
+              variant="secondary"
+              size="sm"
+              onClick={() => setReorderItem(it)}
+              aria-label={`Edit ${it.name} reorder settings`}
+            >
+              <ShoppingCart className="h-4 w-4" />
+            </Button>
+            <Button
+              variant="secondary"
+              size="sm"
+              onClick={() => setKitItem(it)}
+              aria-label={`Manage ${it.name} kit`}
+            >
+              <Boxes className="h-4 w-4" />
+            </Button>
+            <Separator orientation="vertical" className="h-6" />
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => {
+                if (confirm("Delete this item?")) deleteItem.mutate(it.id);
+              }}
+              aria-label={`Delete ${it.name}`}
+            >
+              <Trash2 className="h-4 w-4" />
+            </Button>
+          </div>
+        </TableCell>
+      </TableRow>
+    );
+  };
+
+  const priceRange = (values: (number | null)[], currency: string) => {
+    const prices = values.filter((p): p is number => p != null);
+    if (!prices.length) return "-";
+    const low = Math.min(...prices);
+    const high = Math.max(...prices);
+    return low === high ? formatMoney(low, currency) : `${formatMoney(low, currency)} – ${formatMoney(high, currency)}`;
+  };
+
+  // Parent products hold no stock themselves; their figures roll up from the variants
+  const renderParentRow = ({ item: parent, variants }: ItemGroup<InventoryItem>) => {
+    const open = isExpanded(parent.id);
+    const unit = unitsById.get(parent.unit_id);
+    const qty = variants.reduce((sum, v) => sum + stockAt(v).qty, 0);
+    const reserved = variants.reduce((sum, v) => sum + v.reserved_quantity, 0);
+    const margins = variants.map(marginPercent).filter((m): m is number => m !== null);
+    const low = variants.some((v) => {
+      const { qty, threshold } = stockAt(v);
+      return typeof threshold === "number" && qty <= threshold;
+    });
+    return (
+      <TableRow key={parent.id} className="bg-muted/40">
+        <TableCell>
+          <div className="flex items-center gap-1">
+            <Button
+              variant="ghost"
+              size="sm"
+              className="h-6 w-6 p-0"
+              onClick={() => toggleExpanded(parent.id)}
+              aria-label={`${open ? "Collapse" : "Expand"} ${parent.name} variants`}
+            >
+              {open ? <ChevronDown className="h-4 w-4" /> : <ChevronRight className="h-4 w-4" />}
+            </Button>
+            <ItemThumbnail url={thumbnails.get(parent.id)} name={parent.name} className="mr-2" />
+            <div>
+              <button className="font-medium hover:underline text-left" onClick={() => navigate(`/inventory/${parent.id}`)}>
+                {parent.name}
+              </button>
+              <div className="text-sm text-muted-foreground">
+                {variants.length} variant{variants.length === 1 ? "" : "s"}
+                {parent.description ? ` · ${parent.description}` : ""}
+              </div>
+            </div>
+          </div>
+        </TableCell>
+        <TableCell>{parent.sku || "-"}</TableCell>
+        <TableCell>{categoryPath(parent.category_id, categoriesById) || "-"}</TableCell>
+        <TableCell>-</TableCell>
+        {renderCustomCells(parent)}
+        <TableCell className={`text-right font-medium ${low ? "text-destructive" : ""}`}>
+          {formatQuantity(qty, unit)}
+        </TableCell>
+        <TableCell className="text-right text-muted-foreground">{formatQuantity(reserved, unit)}</TableCell>
+        <TableCell className="text-right">{formatQuantity(qty - reserved, unit)}</TableCell>
+        {locationId !== ALL_LOCATIONS ? <TableCell /> : null}
+        <TableCell className="text-right">{priceRange(variants.map((v) => v.cost_price), parent.currency)}</TableCell>
+        <TableCell className="text-right">{priceRange(variants.map((v) => v.unit_price), parent.currency)}</TableCell>
+        <TableCell className="text-right">
+          {!margins.length
+            ? "-"
+            : Math.min(...margins) === Math.max(...margins)
+              ? formatPercent(margins[0])
+              : `${formatPercent(Math.min(...margins))} – ${formatPercent(Math.max(...margins))}`}
+        </TableCell>
+        <TableCell />
+        <TableCell className="text-right">
+          <div className="flex justify-end gap-2">
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => {
+                if (confirm("Delete this product and all of its variants?")) deleteItem.mutate(parent.id);
+              }}
+              aria-label={`Delete ${parent.name}`}
+            >
+              <Trash2 className="h-4 w-4" />
+            </Button>
+          </div>
+        </TableCell>
+      </TableRow>
     );
-  }, [items, search]);
+  };
 
   if (loading) {
     return (
@@ -177,6 +613,20 @@ const Inventory = () => {
             <h1 className="text-xl font-bold">Inventory Management</h1>
           </div>
           <div className="flex items-center gap-2">
+            <Button variant="outline" onClick={() => navigate("/serials")}>Serials</Button>
+            <Button variant="outline" onClick={() => navigate("/expiring")}>Expiring</Button>
+            <Button variant="outline" onClick={() => navigate("/sales-orders")}>Sales Orders</Button>
+            <Button variant="outline" onClick={() => navigate("/returns")}>Returns</Button>
+            <Button variant="outline" onClick={() => navigate("/purchase-orders")}>Purchase Orders</Button>
+            <Button variant="outline" onClick={() => navigate("/reorder")}>Reorder</Button>
+            <Button variant="outline" onClick={() => navigate("/forecast")}>Forecast</Button>
+            <Button variant="outline" onClick={() => navigate("/stocktakes")}>Stocktakes</Button>
+            <Button variant="outline" onClick={() => navigate("/labels")}>Labels</Button>
+            <Button variant="outline" onClick={() => navigate("/suppliers")}>Suppliers</Button>
+            <Button variant="outline" onClick={() => navigate("/margins")}>Margins</Button>
+            <Button variant="outline" onClick={() => navigate("/valuation")}>Valuation</Button>
+            <Button variant="outline" onClick={() => navigate("/shrinkage")}>Shrinkage</Button>
+            <Button variant="outline" onClick={() => navigate("/settings")}>Settings</Button>
             <Button variant="outline" onClick={() => navigate("/")}>Dashboard</Button>
           </div>
         </div>
@@ -185,9 +635,14 @@ const Inventory = () => {
       <main className="container mx-auto px-4 py-8">
         <section className="mb-8">
           <Card>
-            <CardHeader>
-              <CardTitle className="text-2xl">Add Item</CardTitle>
-              <CardDescription>Quickly add a new product to your inventory</CardDescription>
+            <CardHeader className="flex flex-row items-start justify-between space-y-0">
+              <div className="space-y-1.5">
+                <CardTitle className="text-2xl">Add Item</CardTitle>
+                <CardDescription>Quickly add a new product to your inventory</CardDescription>
+              </div>
+              <Button variant="outline" size="sm" onClick={() => setFieldsOpen(true)}>
+                <Settings2 className="mr-2 h-4 w-4" /> Custom Fields
+              </Button>
             </CardHeader>
             <CardContent>
               <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
@@ -201,47 +656,163 @@ const Inventory = () => {
                 </div>
                 <div>
                   <Label htmlFor="category">Category</Label>
-                  <Input id="category" value={category} onChange={(e) => setCategory(e.target.value)} placeholder="e.g. Apparel" />
+                  <CategoryPicker id="category" value={categoryId} onChange={setCategoryId} />
                 </div>
                 <div className="md:col-span-2">
                   <Label htmlFor="description">Description</Label>
                   <Input id="description" value={description} onChange={(e) => setDescription(e.target.value)} placeholder="Optional details" />
                 </div>
                 <div>
-                  <Label htmlFor="quantity">Quantity</Label>
-                  <Input
-                    id="quantity"
-                    type="number"
-                    inputMode="numeric"
-                    value={quantity}
-                    onChange={(e) => setQuantity(parseInt(e.target.value || "0", 10))}
-                    min={0}
+                  <Label>Unit</Label>
+                  <UnitPicker value={unitId} onChange={setUnitId} ariaLabel="Base unit" />
+                </div>
+                <div>
+                  <Label>Bought In</Label>
+                  <UnitPicker
+                    value={purchaseUnitId}
+                    onChange={setPurchaseUnitId}
+                    noneLabel={`Same as base (${baseSymbol})`}
+                    ariaLabel="Purchase unit"
+                  />
+                  {purchaseUnitId !== NO_UNIT ? (
+                    <div className="flex items-center gap-2 mt-2">
+                      <Input
+                        type="number"
+                        inputMode="decimal"
+                        min={0}
+                        value={purchaseFactor}
+                        onChange={(e) => setPurchaseFactor(e.target.value)}
+                        placeholder="e.g. 24"
+                        className="w-24"
+                        aria-label="Base units per purchase unit"
+                      />
+                      <span className="text-sm text-muted-foreground">
+                        {baseSymbol} per {unitsById.get(purchaseUnitId)?.symbol}
+                      </span>
+                    </div>
+                  ) : null}
+                </div>
+                <div>
+                  <Label>Sold In</Label>
+                  <UnitPicker
+                    value={saleUnitId}
+                    onChange={setSaleUnitId}
+                    noneLabel={`Same as base (${baseSymbol})`}
+                    ariaLabel="Sale unit"
                   />
+                  {saleUnitId !== NO_UNIT ? (
+                    <div className="flex items-center gap-2 mt-2">
+                      <Input
+                        type="number"
+                        inputMode="decimal"
+                        min={0}
+                        value={saleFactor}
+                        onChange={(e) => setSaleFactor(e.target.value)}
+                        placeholder="e.g. 6"
+                        className="w-24"
+                        aria-label="Base units per sale unit"
+                      />
+                      <span className="text-sm text-muted-foreground">
+                        {baseSymbol} per {unitsById.get(saleUnitId)?.symbol}
+                      </span>
+                    </div>
+                  ) : null}
                 </div>
+                {!hasVariants && !serialized ? (
+                  <div>
+                    <Label htmlFor="quantity">Quantity ({baseSymbol})</Label>
+                    <Input
+                      id="quantity"
+                      type="number"
+                      inputMode={step < 1 ? "decimal" : "numeric"}
+                      step={step}
+                      value={quantity}
+                      onChange={(e) => setQuantity(parseFloat(e.target.value || "0"))}
+                      min={0}
+                    />
+                  </div>
+                ) : null}
                 <div>
-                  <Label htmlFor="unit_price">Unit Price</Label>
+                  <Label htmlFor="cost_price">Cost Price</Label>
                   <Input
-                    id="unit_price"
+                    id="cost_price"
                     type="number"
                     inputMode="decimal"
                     step="0.01"
-                    value={unitPrice}
-                    onChange={(e) => setUnitPrice(e.target.value)}
-                    placeholder="e.g. 19.99"
+                    value={costPrice}
+                    onChange={(e) => setCostPrice(e.target.value)}
+                    placeholder="e.g. 8.50"
                   />
                 </div>
                 <div>
-                  <Label htmlFor="threshold">Low Stock Threshold</Label>
+                  <Label htmlFor="unit_price">Selling Price</Label>
+                  <div className="flex gap-2">
+                    <Input
+                      id="unit_price"
+                      type="number"
+                      inputMode="decimal"
+                      step="0.01"
+                      value={unitPrice}
+                      onChange={(e) => setUnitPrice(e.target.value)}
+                      placeholder="e.g. 19.99"
+                    />
+                    <Input
+                      value={priceCurrency}
+                      onChange={(e) => setPriceCurrency(e.target.value)}
+                      maxLength={3}
+                      placeholder={baseCurrency}
+                      className="w-20"
+                      aria-label="Price currency"
+                    />
+                  </div>
+                </div>
+                <div>
+                  <Label htmlFor="threshold">Low Stock Threshold ({baseSymbol})</Label>
                   <Input
                     id="threshold"
                     type="number"
-                    inputMode="numeric"
+                    inputMode={step < 1 ? "decimal" : "numeric"}
+                    step={step}
                     value={threshold}
-                    onChange={(e) => setThreshold(parseInt(e.target.value || "0", 10))}
+                    onChange={(e) => setThreshold(parseFloat(e.target.value || "0"))}
                     min={0}
                   />
                 </div>
+                {customFields?.map((f) => (
+                  <div key={f.id}>
+                    <Label htmlFor={`custom_${f.id}`}>{f.name}</Label>
+                    <CustomFieldInput
+                      id={`custom_${f.id}`}
+                      field={f}
+                      value={customDraft[f.id] ?? ""}
+                      onChange={(value) => setCustomDraft((prev) => ({ ...prev, [f.id]: value }))}
+                    />
+                  </div>
+                ))}
+              </div>
+              <div className="mt-4 flex items-center gap-2">
+                <Switch id="has_variants" checked={hasVariants} onCheckedChange={setHasVariants} />
+                <Label htmlFor="has_variants">This product comes in variants (e.g. size or colour)</Label>
+              </div>
+              <div className="mt-2 flex items-center gap-2">
+                <Switch id="serialized" checked={serialized} onCheckedChange={setSerialized} />
+                <Label htmlFor="serialized">Track individual units by serial number</Label>
               </div>
+              {hasVariants ? (
+                <div className="mt-4">
+                  <VariantMatrixEditor
+                    axes={axes}
+                    onAxesChange={setAxes}
+                    rows={variantRows}
+                    onRowsChange={setVariantRows}
+                    baseSku={sku}
+                    basePrice={unitPrice}
+                    takenSkus={takenSkus}
+                    showQuantity={!serialized}
+                    quantityStep={step}
+                  />
+                </div>
+              ) : null}
               <div className="mt-4 flex justify-end">
                 <Button onClick={() => addItem.mutate()} disabled={addItem.isPending}>
                   <Plus className="mr-2" /> Add Item
@@ -252,98 +823,166 @@ const Inventory = () => {
         </section>
 
         <section>
+          <InTransitTransfers />
+
           <div className="flex items-center justify-between mb-3">
             <h2 className="text-xl font-semibold">Items</h2>
-            <div className="flex items-center gap-2">
+            <div className="flex flex-wrap items-center justify-end gap-2">
+              <LocationPicker value={locationId} onChange={setLocationId} />
+              {customFields?.length ? (
+                <Select
+                  value={filterFieldId}
+                  onValueChange={(v) => {
+                    setFilterFieldId(v);
+                    setFilterValue("");
+                  }}
+                >
+                  <SelectTrigger className="w-40" aria-label="Filter by custom field">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={ANY_FIELD}>Any field</SelectItem>
+                    {customFields.map((f) => (
+                      <SelectItem key={f.id} value={f.id}>
+                        {f.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              ) : null}
+              {filterField ? (
+                <div className="w-40">
+                  <CustomFieldInput field={filterField} value={filterValue} onChange={setFilterValue} blankLabel="Any" />
+                </div>
+              ) : null}
               <Input
-                placeholder="Search by name, SKU, or category"
+                placeholder="Search by name, SKU, category or field"
                 value={search}
                 onChange={(e) => setSearch(e.target.value)}
                 className="w-64"
                 aria-label="Search inventory"
               />
+              <Button variant="outline" onClick={() => setScanning(true)}>
+                <ScanBarcode className="h-4 w-4 mr-2" />
+                Scan
+              </Button>
             </div>
           </div>
 
-          <Card>
-            <CardHeader>
-              <CardDescription>Manage your stock levels and products</CardDescription>
-            </CardHeader>
-            <CardContent>
-              {isLoading ? (
-                <div className="flex items-center gap-2 text-muted-foreground"><PackageSearch className="h-4 w-4" /> Loading items...</div>
-              ) : filtered.length === 0 ? (
-                <div className="text-center text-muted-foreground py-8">No items found. Add your first item above.</div>
-              ) : (
-                <div className="w-full overflow-x-auto">
-                  <Table>
-                    <TableHeader>
-                      <TableRow>
-                        <TableHead>Name</TableHead>
-                        <TableHead>SKU</TableHead>
-                        <TableHead>Category</TableHead>
-                        <TableHead className="text-right">Qty</TableHead>
-                        <TableHead className="text-right">Unit Price</TableHead>
-                        <TableHead className="text-right">Actions</TableHead>
-                      </TableRow>
-                    </TableHeader>
-                    <TableBody>
-                      {filtered.map((it) => {
-                        const low = typeof it.low_stock_threshold === "number" && it.quantity <= it.low_stock_threshold;
-                        return (
-                          <TableRow key={it.id} className={low ? "bg-destructive/10" : undefined}>
-                            <TableCell>
-                              <div className="font-medium">{it.name}</div>
-                              {it.description ? (
-                                <div className="text-sm text-muted-foreground">{it.description}</div>
-                              ) : null}
-                            </TableCell>
-                            <TableCell>{it.sku || "-"}</TableCell>
-                            <TableCell>{it.category || "-"}</TableCell>
-                            <TableCell className={`text-right font-medium ${low ? "text-destructive" : ""}`}>{it.quantity}</TableCell>
-                            <TableCell className="text-right">{it.unit_price != null ? currency.format(it.unit_price) : "-"}</TableCell>
-                            <TableCell className="text-right">
-                              <div className="flex justify-end gap-2">
-                                <Button
-                                  variant="secondary"
-                                  size="sm"
-                                  onClick={() => updateQuantity.mutate({ id: it.id, newQty: Math.max(0, it.quantity - 1) })}
-                                  aria-label={`Decrease ${it.name} quantity`}
-                                >
-                                  <ArrowDown className="h-4 w-4" />
-                                </Button>
-                                <Button
-                                  variant="secondary"
-                                  size="sm"
-                                  onClick={() => updateQuantity.mutate({ id: it.id, newQty: it.quantity + 1 })}
-                                  aria-label={`Increase ${it.name} quantity`}
-                                >
-                                  <ArrowUp className="h-4 w-4" />
-                                </Button>
-                                <Separator orientation="vertical" className="h-6" />
-                                <Button
-                                  variant="outline"
-                                  size="sm"
-                                  onClick={() => {
-                                    if (confirm("Delete this item?")) deleteItem.mutate(it.id);
-                                  }}
-                                  aria-label={`Delete ${it.name}`}
-                                >
-                                  <Trash2 className="h-4 w-4" />
-                                </Button>
-                              </div>
-                            </TableCell>
-                          </TableRow>
-                        );
-                      })}
-                    </TableBody>
-                  </Table>
-                </div>
-              )}
-            </CardContent>
-          </Card>
+          <div className="grid gap-6 lg:grid-cols-[14rem_1fr]">
+            <Card className="h-fit">
+              <CardHeader>
+                <CardTitle className="text-base">Categories</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <CategoryTreeFilter value={categoryFilter} onChange={setCategoryFilter} counts={categoryCounts} />
+              </CardContent>
+            </Card>
+            <Card className="min-w-0">
+              <CardHeader>
+                <CardDescription>Manage your stock levels and products</CardDescription>
+              </CardHeader>
+              <CardContent>
+                {isLoading ? (
+                  <div className="flex items-center gap-2 text-muted-foreground"><PackageSearch className="h-4 w-4" /> Loading items...</div>
+                ) : filtered.length === 0 ? (
+                  <div className="text-center text-muted-foreground py-8">
+                    {categoryFilter === ALL_CATEGORIES
+                      ? "No items found. Add your first item above."
+                      : "No items found in this category."}
+                  </div>
+                ) : (
+                  <div className="w-full overflow-x-auto">
+                    <Table>
+                      <TableHeader>
+                        <TableRow>
+                          <TableHead>Name</TableHead>
+                          <TableHead>SKU</TableHead>
+                          <TableHead>Category</TableHead>
+                          <TableHead>Supplier</TableHead>
+                          {columnFields.map((f) => (
+                            <TableHead key={f.id}>{f.name}</TableHead>
+                          ))}
+                          <TableHead className="text-right">On Hand</TableHead>
+                          <TableHead className="text-right">Reserved</TableHead>
+                          <TableHead className="text-right">Available</TableHead>
+                          {locationId !== ALL_LOCATIONS ? <TableHead className="text-right">Low At</TableHead> : null}
+                          <TableHead className="text-right">Cost</TableHead>
+                          <TableHead className="text-right">Price</TableHead>
+                          <TableHead className="text-right">Margin</TableHead>
+                          <TableHead className="text-right">Markup</TableHead>
+                          <TableHead className="text-right">Actions</TableHead>
+                        </TableRow>
+                      </TableHeader>
+                      <TableBody>
+                        {filtered.map((group) =>
+                          isParentItem(group.item) ? (
+                            <Fragment key={group.item.id}>
+                              {renderParentRow(group)}
+                              {isExpanded(group.item.id) ? group.variants.map((v) => renderItemRow(v, true)) : null}
+                            </Fragment>
+                          ) : (
+                            renderItemRow(group.item)
+                          )
+                        )}
+                      </TableBody>
+                    </Table>
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+          </div>
         </section>
       </main>
+
+      <TransferDialog
+        item={transferItem}
+        defaultFromLocationId={locationId === ALL_LOCATIONS ? undefined : locationId}
+        onOpenChange={(open) => {
+          if (!open) setTransferItem(null);
+        }}
+      />
+      <KitDialog
+        item={kitItem}
+        defaultLocationId={locationId === ALL_LOCATIONS ? undefined : locationId}
+        onOpenChange={(open) => {
+          if (!open) setKitItem(null);
+        }}
+      />
+      <CustomFieldsDialog open={fieldsOpen} onOpenChange={setFieldsOpen} />
+      <PriceDialog
+        item={priceItem}
+        onOpenChange={(open) => {
+          if (!open) setPriceItem(null);
+        }}
+      />
+      <ReorderDialog
+        item={reorderItem}
+        onOpenChange={(open) => {
+          if (!open) setReorderItem(null);
+        }}
+      />
+      <AdjustStockDialog
+        item={adjustTarget?.item ?? null}
+        defaultDelta={adjustTarget?.delta ?? 1}
+        locationId={locationId === ALL_LOCATIONS ? undefined : locationId}
+        onOpenChange={(open) => {
+          if (!open) setAdjustTarget(null);
+        }}
+      />
+      <ScanSheet
+        open={scanning}
+        onOpenChange={setScanning}
+        locationId={locationId === ALL_LOCATIONS ? undefined : locationId}
+      />
+      <SerialsDialog
+        item={serialTarget?.item ?? null}
+        mode={serialTarget?.mode ?? "receive"}
+        defaultLocationId={locationId === ALL_LOCATIONS ? undefined : locationId}
+        onOpenChange={(open) => {
+          if (!open) setSerialTarget(null);
+        }}
+      />
     </div>
   );
 };
@@ -0,0 +1,397 @@
+import { useMemo, useState } from "react";
+import { useNavigate, useParams } from "react-router-dom";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { useToast } from "@/hooks/use-toast";
+import { usePageMeta } from "@/hooks/usePageMeta";
+import { useInventoryItems } from "@/hooks/useInventoryItems";
+import { useLocations, useStockLevels } from "@/hooks/useLocations";
+import { useStockLots } from "@/hooks/useStockLots";
+import { useSerialNumbers } from "@/hooks/useSerials";
+import { useUnits } from "@/hooks/useUnits";
+import { useCategories } from "@/hooks/useCategories";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import ExpiryBadge from "@/components/inventory/ExpiryBadge";
+import ItemImageGallery from "@/components/inventory/ItemImageGallery";
+import { parseDate } from "@/lib/lots";
+import { isParentItem } from "@/lib/variants";
+import { formatQuantity, quantityStep } from "@/lib/units";
+import { categoryPath } from "@/lib/categories";
+import { PackagePlus } from "lucide-react";
+
+const formatDate = (value: string | null) => (value ? parseDate(value).toLocaleDateString() : "-");
+
+const ItemDetail = () => {
+  const { id } = useParams<{ id: string }>();
+  const { toast } = useToast();
+  const navigate = useNavigate();
+  const queryClient = useQueryClient();
+
+  const [lotNumber, setLotNumber] = useState("");
+  const [lotQty, setLotQty] = useState<number>(1);
+  const [expiresOn, setExpiresOn] = useState("");
+  const [manufacturedOn, setManufacturedOn] = useState("");
+  const [locationId, setLocationId] = useState("");
+  const [lotCost, setLotCost] = useState("");
+
+  usePageMeta(
+    "Item | Inventory Tonic",
+    "Stock, locations and lots for a single inventory item.",
+    `/inventory/${id}`
+  );
+
+  const { data: items, isLoading } = useInventoryItems();
+  const { data: locations } = useLocations();
+  const { data: stockLevels } = useStockLevels();
+  const { data: allLots } = useStockLots();
+  const { data: serialNumbers } = useSerialNumbers();
+  const { data: units } = useUnits();
+  const { data: categories } = useCategories();
+
+  const item = items?.find((it) => it.id === id);
+  const unitsById = useMemo(() => new Map(units?.map((u) => [u.id, u]) ?? []), [units]);
+  const unit = item ? unitsById.get(item.unit_id) : undefined;
+  const qty = (value: number) => formatQuantity(value, unit);
+  const category = useMemo(
+    () => categoryPath(item?.category_id ?? null, new Map(categories?.map((c) => [c.id, c]) ?? [])),
+    [item, categories]
+  );
+
+  const orderUnit = (verb: string, unitId: string | null, factor: number) => {
+    const other = unitId ? unitsById.get(unitId) : undefined;
+    return other ? `${verb} in ${other.name} of ${qty(factor)}` : null;
+  };
+  // e.g. "Counted in Each (ea) · bought in Case of 24 ea"
+  const unitSummary = item
+    ? [
+        unit ? `Counted in ${unit.name} (${unit.symbol})` : null,
+        orderUnit("bought", item.purchase_unit_id, item.purchase_factor),
+        orderUnit("sold", item.sale_unit_id, item.sale_factor),
+      ]
+        .filter(Boolean)
+        .join(" · ")
+    : "";
+  const locationNames = useMemo(() => new Map(locations?.map((loc) => [loc.id, loc.name]) ?? []), [locations]);
+  const levels = stockLevels?.filter((lvl) => lvl.item_id === id && lvl.quantity !== 0) ?? [];
+  const lots = allLots?.filter((lot) => lot.item_id === id && lot.quantity > 0) ?? [];
+
+  const serials = serialNumbers?.filter((s) => s.item_id === id && s.status === "in_stock") ?? [];
+
+  // Stock received before lots were recorded, per location
+  const untracked = levels
+    .map((lvl) => ({
+      locationId: lvl.location_id,
+      quantity:
+        lvl.quantity - lots.filter((lot) => lot.location_id === lvl.location_id).reduce((sum, lot) => sum + lot.quantity, 0),
+    }))
+    .filter((row) => row.quantity > 0);
+
+  const receiveLot = useMutation({
+    mutationFn: async () => {
+      if (!item) throw new Error("Item not found");
+      if (!lotNumber.trim()) throw new Error("Lot number is required");
+      if (!Number.isFinite(lotQty) || lotQty <= 0) throw new Error("Quantity must be positive");
+      const cost = lotCost.trim() ? parseFloat(lotCost) : undefined;
+      if (cost !== undefined && (!Number.isFinite(cost) || cost < 0)) throw new Error("Unit cost can't be negative");
+
+      const { data, error } = await supabase.rpc("receive_lot", {
+        _item_id: item.id,
+        _lot_number: lotNumber.trim(),
+        _quantity: lotQty,
+        _expires_on: expiresOn || undefined,
+        _manufactured_on: manufacturedOn || undefined,
+        _location_id: locationId || undefined,
+        _unit_cost: cost,
+      });
+      if (error) throw error;
+      return data;
+    },
+    onSuccess: (lot) => {
+      queryClient.invalidateQueries({ queryKey: ["stock-lots"] });
+      queryClient.invalidateQueries({ queryKey: ["stock-levels"] });
+      queryClient.invalidateQueries({ queryKey: ["inventory-items"] });
+      setLotNumber("");
+      setLotQty(1);
+      setExpiresOn("");
+      setManufacturedOn("");
+      setLotCost("");
+      toast({ title: "Lot received", description: `Lot ${lot.lot_number} now holds ${lot.quantity}.` });
+    },
+    onError: (err: Error) => {
+      toast({ title: "Receive failed", description: err.message || "Could not receive lot.", variant: "destructive" });
+    },
+  });
+
+  const setSerialized = useMutation({
+    mutationFn: async (isSerialized: boolean) => {
+      if (!item) throw new Error("Item not found");
+      const { error } = await supabase.from("inventory_items").update({ is_serialized: isSerialized }).eq("id", item.id);
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["inventory-items"] });
+    },
+    onError: (err: Error) => {
+      toast({ title: "Update failed", description: err.message || "Could not change serial tracking.", variant: "destructive" });
+    },
+  });
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-background">
+        <p className="text-muted-foreground">Loading...</p>
+      </div>
+    );
+  }
+
+  if (!item) {
+    return (
+      <div className="min-h-screen flex flex-col items-center justify-center gap-4 bg-background">
+        <p className="text-muted-foreground">Item not found.</p>
+        <Button variant="outline" onClick={() => navigate("/inventory")}>Back to Inventory</Button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-background">
+      <header className="border-b bg-card">
+        <div className="container mx-auto px-4 py-4 flex items-center justify-between">
+          <div className="flex items-center gap-2">
+            <h1 className="text-xl font-bold">{item.name}</h1>
+          </div>
+          <div className="flex items-center gap-2">
+            <Button variant="outline" onClick={() => navigate(`/labels?item=${item.id}`)}>Print Labels</Button>
+            <Button variant="outline" onClick={() => navigate("/serials")}>Serial Lookup</Button>
+            <Button variant="outline" onClick={() => navigate("/expiring")}>Expiring</Button>
+            <Button variant="outline" onClick={() => navigate("/inventory")}>Inventory</Button>
+            <Button variant="outline" onClick={() => navigate("/")}>Dashboard</Button>
+          </div>
+        </div>
+      </header>
+
+      <main className="container mx-auto px-4 py-8 space-y-8">
+        <Card>
+          <CardHeader className="flex flex-row items-start justify-between space-y-0">
+            <div className="space-y-1.5">
+              <CardTitle className="text-2xl">Stock</CardTitle>
+              <CardDescription>
+                {[item.sku, category].filter(Boolean).join(" · ") || "No SKU or category"}
+              </CardDescription>
+              {item.description ? <p className="text-sm text-muted-foreground">{item.description}</p> : null}
+              {unitSummary ? <p className="text-sm text-muted-foreground">{unitSummary}</p> : null}
+            </div>
+            {!isParentItem(item) ? (
+              <div className="flex items-center gap-2">
+                <Switch
+                  id="item_serialized"
+                  checked={item.is_serialized}
+                  onCheckedChange={(checked) => setSerialized.mutate(checked)}
+                  disabled={setSerialized.isPending || item.quantity !== 0}
+                />
+                <Label htmlFor="item_serialized" title="Can only be changed while the item has no stock">
+                  Serial numbers
+                </Label>
+              </div>
+            ) : null}
+          </CardHeader>
+          <CardContent>
+            <div className="grid grid-cols-3 gap-4 mb-4">
+              <div>
+                <div className="text-sm text-muted-foreground">On Hand</div>
+                <div className="text-2xl font-bold">{qty(item.quantity)}</div>
+              </div>
+              <div>
+                <div className="text-sm text-muted-foreground">Reserved</div>
+                <div className="text-2xl font-bold">{qty(item.reserved_quantity)}</div>
+              </div>
+              <div>
+                <div className="text-sm text-muted-foreground">Available</div>
+                <div className="text-2xl font-bold">{qty(item.available_quantity ?? 0)}</div>
+              </div>
+            </div>
+            {levels.length ? (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Location</TableHead>
+                    <TableHead className="text-right">On Hand</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {levels.map((lvl) => (
+                    <TableRow key={lvl.id}>
+                      <TableCell>{locationNames.get(lvl.location_id) ?? "-"}</TableCell>
+                      <TableCell className="text-right">{qty(lvl.quantity)}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            ) : null}
+          </CardContent>
+        </Card>
+
+        <ItemImageGallery itemId={item.id} itemName={item.name} />
+
+        {isParentItem(item) ? (
+          <p className="text-muted-foreground">Stock for this product is kept on its variants.</p>
+        ) : item.is_serialized ? (
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-2xl">Serial Numbers</CardTitle>
+              <CardDescription>Units in stock. Open one to see its full history.</CardDescription>
+            </CardHeader>
+            <CardContent>
+              {serials.length ? (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Serial</TableHead>
+                      <TableHead>Location</TableHead>
+                      <TableHead>Since</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {serials.map((s) => (
+                      <TableRow
+                        key={s.id}
+                        className="cursor-pointer"
+                        onClick={() => navigate(`/serials?serial=${encodeURIComponent(s.serial)}`)}
+                      >
+                        <TableCell className="font-medium">{s.serial}</TableCell>
+                        <TableCell>{s.location_id ? locationNames.get(s.location_id) ?? "-" : "-"}</TableCell>
+                        <TableCell>{new Date(s.updated_at).toLocaleDateString()}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              ) : (
+                <div className="text-center text-muted-foreground py-4">No units in stock.</div>
+              )}
+            </CardContent>
+          </Card>
+        ) : (
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-2xl">Lots</CardTitle>
+              <CardDescription>Outgoing stock is taken from the lot that expires first</CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-6">
+              {lots.length || untracked.length ? (
+                <div className="w-full overflow-x-auto">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Lot</TableHead>
+                        <TableHead>Location</TableHead>
+                        <TableHead>Manufactured</TableHead>
+                        <TableHead>Expires</TableHead>
+                        <TableHead>Status</TableHead>
+                        <TableHead className="text-right">Quantity</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {lots.map((lot) => (
+                        <TableRow key={lot.id}>
+                          <TableCell className="font-medium">{lot.lot_number}</TableCell>
+                          <TableCell>{lot.locations?.name ?? "-"}</TableCell>
+                          <TableCell>{formatDate(lot.manufactured_on)}</TableCell>
+                          <TableCell>{formatDate(lot.expires_on)}</TableCell>
+                          <TableCell><ExpiryBadge expiresOn={lot.expires_on} /></TableCell>
+                          <TableCell className="text-right">{qty(lot.quantity)}</TableCell>
+                        </TableRow>
+                      ))}
+                      {untracked.map((row) => (
+                        <TableRow key={row.locationId}>
+                          <TableCell className="text-muted-foreground">No lot</TableCell>
+                          <TableCell>{locationNames.get(row.locationId) ?? "-"}</TableCell>
+                          <TableCell>-</TableCell>
+                          <TableCell>-</TableCell>
+                          <TableCell />
+                          <TableCell className="text-right">{qty(row.quantity)}</TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </div>
+              ) : (
+                <div className="text-center text-muted-foreground py-4">No stock on hand.</div>
+              )}
+
+              <div>
+                <h3 className="font-semibold mb-3">Receive a Lot</h3>
+                <div className="grid grid-cols-1 md:grid-cols-6 gap-4">
+                  <div>
+                    <Label htmlFor="lot_number">Lot Number</Label>
+                    <Input id="lot_number" value={lotNumber} onChange={(e) => setLotNumber(e.target.value)} placeholder="e.g. B-2025-041" />
+                  </div>
+                  <div>
+                    <Label htmlFor="lot_quantity">Quantity</Label>
+                    <Input
+                      id="lot_quantity"
+                      type="number"
+                      inputMode={unit?.decimal_places ? "decimal" : "numeric"}
+                      min={0}
+                      step={quantityStep(unit)}
+                      value={lotQty}
+                      onChange={(e) => setLotQty(parseFloat(e.target.value || "0"))}
+                    />
+                  </div>
+                  <div>
+                    <Label htmlFor="lot_unit_cost">Unit Cost ({item.currency})</Label>
+                    <Input
+                      id="lot_unit_cost"
+                      type="number"
+                      inputMode="decimal"
+                      min={0}
+                      step="0.01"
+                      value={lotCost}
+                      onChange={(e) => setLotCost(e.target.value)}
+                      placeholder={item.cost_price != null ? String(item.cost_price) : "e.g. 4.20"}
+                    />
+                  </div>
+                  <div>
+                    <Label htmlFor="lot_manufactured">Manufactured</Label>
+                    <Input id="lot_manufactured" type="date" value={manufacturedOn} onChange={(e) => setManufacturedOn(e.target.value)} />
+                  </div>
+                  <div>
+                    <Label htmlFor="lot_expires">Expires</Label>
+                    <Input id="lot_expires" type="date" value={expiresOn} onChange={(e) => setExpiresOn(e.target.value)} />
+                  </div>
+                  <div>
+                    <Label>Location</Label>
+                    <Select value={locationId} onValueChange={setLocationId}>
+                      <SelectTrigger aria-label="Receiving location">
+                        <SelectValue placeholder="Default location" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {locations?.map((loc) => (
+                          <SelectItem key={loc.id} value={loc.id}>
+                            {loc.name}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                </div>
+                <div className="mt-4 flex justify-end">
+                  <Button onClick={() => receiveLot.mutate()} disabled={receiveLot.isPending}>
+                    <PackagePlus className="mr-2 h-4 w-4" /> Receive Lot
+                  </Button>
+                </div>
+              </div>
+            </CardContent>
+          </Card>
+        )}
+      </main>
+    </div>
+  );
+};
+
+export default ItemDetail;
@@ -0,0 +1,279 @@
+import { useMemo, useState } from "react";
+import { useNavigate, useSearchParams } from "react-router-dom";
+import { usePageMeta } from "@/hooks/usePageMeta";
+import { useInventoryItems } from "@/hooks/useInventoryItems";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import LabelSheet, { type PrintLabel } from "@/components/labels/LabelSheet";
+import { encodeBarcode, isSymbology, SYMBOLOGIES, type Barcode } from "@/lib/barcodes";
+import { findTemplate, LABEL_TEMPLATES, labelsPerSheet, paginateLabels } from "@/lib/labels";
+import { PackageSearch, Printer } from "lucide-react";
+
+type CodeSource = "sku" | "id";
+
+const codeValue = (item: { id: string; sku: string | null }, source: CodeSource) =>
+  source === "sku" ? item.sku?.trim() ?? "" : item.id;
+
+const Labels = () => {
+  const navigate = useNavigate();
+  const [searchParams, setSearchParams] = useSearchParams();
+  // Opened from an item's page, that item starts out chosen
+  const [quantities, setQuantities] = useState<Map<string, number>>(() => {
+    const itemId = searchParams.get("item");
+    return new Map(itemId ? [[itemId, 1]] : []);
+  });
+  const [search, setSearch] = useState("");
+  const [skip, setSkip] = useState<number>(0);
+
+  usePageMeta(
+    "Labels | Inventory Tonic",
+    "Print barcode and QR code labels for shelves and products on standard label sheets.",
+    "/labels"
+  );
+
+  const { data: items, isLoading } = useInventoryItems();
+
+  const requested = searchParams.get("code");
+  const symbology = isSymbology(requested) ? requested : "code128";
+  const source: CodeSource = searchParams.get("from") === "id" ? "id" : "sku";
+  const template = findTemplate(searchParams.get("sheet"));
+  const setParam = (key: string, value: string) =>
+    setSearchParams(
+      (prev) => {
+        const next = new URLSearchParams(prev);
+        next.set(key, value);
+        return next;
+      },
+      { replace: true }
+    );
+
+  const sorted = useMemo(() => [...(items ?? [])].sort((a, b) => a.name.localeCompare(b.name)), [items]);
+  const matching = useMemo(() => {
+    const term = search.trim().toLowerCase();
+    if (!term) return sorted;
+    return sorted.filter((it) => it.name.toLowerCase().includes(term) || it.sku?.toLowerCase().includes(term));
+  }, [sorted, search]);
+
+  // Only chosen items are encoded; a value the symbology can't hold is reported on its row
+  const encoded = useMemo(() => {
+    const map = new Map<string, Barcode | Error>();
+    for (const it of sorted) {
+      const value = codeValue(it, source);
+      if (!quantities.has(it.id) || !value) continue;
+      try {
+        map.set(it.id, encodeBarcode(symbology, value));
+      } catch (err) {
+        map.set(it.id, err as Error);
+      }
+    }
+    return map;
+  }, [sorted, quantities, symbology, source]);
+
+  const labels = useMemo(() => {
+    const result: PrintLabel[] = [];
+    for (const it of sorted) {
+      const barcode = encoded.get(it.id);
+      if (!barcode || barcode instanceof Error) continue;
+      const label = { name: it.name, value: codeValue(it, source), barcode };
+      for (let i = 0; i < (quantities.get(it.id) ?? 0); i++) result.push(label);
+    }
+    return result;
+  }, [sorted, encoded, quantities, source]);
+
+  const sheets = useMemo(() => paginateLabels(template, labels, skip), [template, labels, skip]);
+
+  const setQuantity = (itemId: string, quantity: number | null) =>
+    setQuantities((prev) => {
+      const next = new Map(prev);
+      if (quantity === null) next.delete(itemId);
+      else next.set(itemId, Math.max(0, Math.floor(quantity)));
+      return next;
+    });
+
+  return (
+    <div className="min-h-screen bg-background print:bg-white">
+      {/* Sheets print at their real size, with no browser margins to shift them */}
+      <style>{`@page { size: ${template.pageWidth}mm ${template.pageHeight}mm; margin: 0; }`}</style>
+      <header className="border-b bg-card print:hidden">
+        <div className="container mx-auto px-4 py-4 flex items-center justify-between">
+          <div className="flex items-center gap-2">
+            <h1 className="text-xl font-bold">Labels</h1>
+          </div>
+          <div className="flex items-center gap-2">
+            <Button variant="outline" onClick={() => navigate("/inventory")}>Inventory</Button>
+            <Button variant="outline" onClick={() => navigate("/")}>Dashboard</Button>
+          </div>
+        </div>
+      </header>
+
+      <main className="container mx-auto px-4 py-8 space-y-8 print:p-0 print:m-0 print:max-w-none">
+        <Card className="print:hidden">
+          <CardHeader>
+            <CardTitle className="text-2xl">Layout</CardTitle>
+            <CardDescription>Print with the browser's scale at 100% so labels line up with the sheet</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <div className="grid gap-4 md:grid-cols-4">
+              <div>
+                <Label>Barcode</Label>
+                <Select value={symbology} onValueChange={(value) => setParam("code", value)}>
+                  <SelectTrigger aria-label="Barcode type">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {SYMBOLOGIES.map((s) => (
+                      <SelectItem key={s.value} value={s.value}>
+                        {s.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div>
+                <Label>Encode</Label>
+                <Select value={source} onValueChange={(value) => setParam("from", value)}>
+                  <SelectTrigger aria-label="Value to encode">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="sku">SKU</SelectItem>
+                    <SelectItem value="id">Item ID</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              <div>
+                <Label>Sheet</Label>
+                <Select value={template.id} onValueChange={(value) => setParam("sheet", value)}>
+                  <SelectTrigger aria-label="Label sheet">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {LABEL_TEMPLATES.map((t) => (
+                      <SelectItem key={t.id} value={t.id}>
+                        {t.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div>
+                <Label htmlFor="labels_skip">Skip labels</Label>
+                <Input
+                  id="labels_skip"
+                  type="number"
+                  min={0}
+                  max={labelsPerSheet(template) - 1}
+                  value={skip}
+                  onChange={(e) => setSkip(Math.max(0, parseInt(e.target.value) || 0))}
+                />
+                <p className="text-xs text-muted-foreground mt-1">Already used on the first sheet</p>
+              </div>
+            </div>
+          </CardContent>
+        </Card>
+
+        <Card className="print:hidden">
+          <CardHeader className="flex flex-row items-start justify-between space-y-0">
+            <div className="space-y-1.5">
+              <CardTitle className="text-2xl">Items</CardTitle>
+              <CardDescription>
+                {labels.length} label{labels.length === 1 ? "" : "s"} on {sheets.length} sheet{sheets.length === 1 ? "" : "s"}
+              </CardDescription>
+            </div>
+            <Button onClick={() => window.print()} disabled={!labels.length}>
+              <Printer className="h-4 w-4 mr-2" />
+              Print Labels
+            </Button>
+          </CardHeader>
+          <CardContent>
+            <Input
+              value={search}
+              onChange={(e) => setSearch(e.target.value)}
+              placeholder="Search by name or SKU"
+              className="mb-4 max-w-sm"
+              aria-label="Search items"
+            />
+            {isLoading ? (
+              <div className="flex items-center gap-2 text-muted-foreground"><PackageSearch className="h-4 w-4" /> Loading items...</div>
+            ) : !matching.length ? (
+              <div className="text-center text-muted-foreground py-8">No matching items.</div>
+            ) : (
+              <div className="w-full overflow-x-auto max-h-96 overflow-y-auto">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead className="w-10" />
+                      <TableHead>Item</TableHead>
+                      <TableHead>SKU</TableHead>
+                      <TableHead className="w-32">Labels</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {matching.map((it) => {
+                      const chosen = quantities.has(it.id);
+                      const result = encoded.get(it.id);
+                      const missing = !codeValue(it, source);
+                      return (
+                        <TableRow key={it.id}>
+                          <TableCell>
+                            <Checkbox
+                              checked={chosen}
+                              disabled={missing}
+                              onCheckedChange={(checked) => setQuantity(it.id, checked === true ? 1 : null)}
+                              aria-label={`Print labels for ${it.name}`}
+                            />
+                          </TableCell>
+                          <TableCell>
+                            <div className="font-medium">{it.name}</div>
+                            {missing ? (
+                              <div className="text-sm text-muted-foreground">No SKU to encode</div>
+                            ) : result instanceof Error ? (
+                              <div className="text-sm text-destructive">{result.message}</div>
+                            ) : null}
+                          </TableCell>
+                          <TableCell>{it.sku || "-"}</TableCell>
+                          <TableCell>
+                            <Input
+                              type="number"
+                              min={0}
+                              step={1}
+                              value={quantities.get(it.id) ?? 0}
+                              disabled={missing}
+                              onChange={(e) => {
+                                const quantity = parseInt(e.target.value) || 0;
+                                setQuantity(it.id, quantity > 0 || chosen ? quantity : null);
+                              }}
+                              aria-label={`Labels for ${it.name}`}
+                            />
+                          </TableCell>
+                        </TableRow>
+                      );
+                    })}
+                  </TableBody>
+                </Table>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
+        {sheets.length ? (
+          <section className="space-y-6 print:space-y-0">
+            <h2 className="text-xl font-semibold print:hidden">Preview</h2>
+            <div className="overflow-x-auto space-y-6 print:overflow-visible print:space-y-0">
+              {sheets.map((sheet, index) => (
+                <LabelSheet key={index} template={template} labels={sheet} />
+              ))}
+            </div>
+          </section>
+        ) : null}
+      </main>
+    </div>
+  );
+};
+
+export default Labels;
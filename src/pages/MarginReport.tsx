@@ -0,0 +1,218 @@
+import { useMemo } from "react";
+import { useNavigate } from "react-router-dom";
+import { usePageMeta } from "@/hooks/usePageMeta";
+import { useInventoryItems, type InventoryItem } from "@/hooks/useInventoryItems";
+import { useCategories } from "@/hooks/useCategories";
+import { useCurrency } from "@/hooks/useCurrency";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { categoryPath } from "@/lib/categories";
+import { formatMoney } from "@/lib/currency";
+import { formatPercent, marginPercent, markupPercent } from "@/lib/pricing";
+import { isParentItem } from "@/lib/variants";
+import { PackageSearch } from "lucide-react";
+
+type PricedItem = InventoryItem & { cost_price: number; unit_price: number };
+
+interface CategoryMargin {
+  key: string;
+  label: string;
+  items: number;
+  marginSum: number;
+  stockCost: number;
+  stockValue: number;
+}
+
+const isPriced = (it: InventoryItem): it is PricedItem => it.cost_price != null && it.unit_price != null;
+
+const stockMargin = (row: { stockCost: number; stockValue: number }) =>
+  row.stockValue ? ((row.stockValue - row.stockCost) / row.stockValue) * 100 : null;
+
+const MarginReport = () => {
+  const navigate = useNavigate();
+
+  usePageMeta(
+    "Margin Report | Inventory Tonic",
+    "Margin and markup by item and category, from cost and selling prices.",
+    "/margins"
+  );
+
+  const { data: items, isLoading } = useInventoryItems();
+  const { data: categories } = useCategories();
+  const { baseCurrency, toBase } = useCurrency();
+
+  const categoriesById = useMemo(() => new Map(categories?.map((c) => [c.id, c]) ?? []), [categories]);
+
+  // Parent products hold no stock, so the report is built from what is actually sold
+  const stockable = useMemo(() => items?.filter((it) => !isParentItem(it)) ?? [], [items]);
+  const priced = useMemo(
+    () =>
+      stockable
+        .filter(isPriced)
+        .sort((a, b) => (marginPercent(a) ?? 0) - (marginPercent(b) ?? 0) || a.name.localeCompare(b.name)),
+    [stockable]
+  );
+  const unpriced = stockable.length - priced.length;
+
+  // Stock on hand valued in the base currency; items without a rate are left out
+  const { byCategory, totals, unconverted } = useMemo(() => {
+    const map = new Map<string, CategoryMargin>();
+    const totals = { stockCost: 0, stockValue: 0 };
+    const unconverted = new Set<string>();
+    priced.forEach((it) => {
+      const key = it.category_id ?? "";
+      const row = map.get(key) ?? {
+        key,
+        label: categoryPath(it.category_id, categoriesById) || "Uncategorised",
+        items: 0,
+        marginSum: 0,
+        stockCost: 0,
+        stockValue: 0,
+      };
+      row.items += 1;
+      row.marginSum += marginPercent(it) ?? 0;
+      const quantity = Math.max(it.quantity, 0);
+      const cost = toBase(it.cost_price * quantity, it.currency);
+      const value = toBase(it.unit_price * quantity, it.currency);
+      if (cost === null || value === null) {
+        unconverted.add(it.currency);
+      } else {
+        row.stockCost += cost;
+        row.stockValue += value;
+        totals.stockCost += cost;
+        totals.stockValue += value;
+      }
+      map.set(key, row);
+    });
+    return {
+      byCategory: Array.from(map.values()).sort((a, b) => a.label.localeCompare(b.label)),
+      totals,
+      unconverted: Array.from(unconverted).sort(),
+    };
+  }, [priced, categoriesById, toBase]);
+
+  return (
+    <div className="min-h-screen bg-background">
+      <header className="border-b bg-card">
+        <div className="container mx-auto px-4 py-4 flex items-center justify-between">
+          <div className="flex items-center gap-2">
+            <h1 className="text-xl font-bold">Margin Report</h1>
+          </div>
+          <div className="flex items-center gap-2">
+            <Button variant="outline" onClick={() => navigate("/inventory")}>Inventory</Button>
+            <Button variant="outline" onClick={() => navigate("/")}>Dashboard</Button>
+          </div>
+        </div>
+      </header>
+
+      <main className="container mx-auto px-4 py-8 space-y-8">
+        {isLoading ? (
+          <div className="flex items-center gap-2 text-muted-foreground"><PackageSearch className="h-4 w-4" /> Loading items...</div>
+        ) : !priced.length ? (
+          <div className="text-center text-muted-foreground py-8">
+            No items have both a cost and a selling price yet. Set them from the Inventory page.
+          </div>
+        ) : (
+          <>
+            {unpriced || unconverted.length ? (
+              <p className="text-sm text-muted-foreground">
+                {unpriced ? `${unpriced} item${unpriced === 1 ? " is" : "s are"} missing a cost or selling price and left out. ` : ""}
+                {unconverted.length
+                  ? `Stock in ${unconverted.join(", ")} isn't included in stock values until you add a rate to ${baseCurrency}.`
+                  : ""}
+              </p>
+            ) : null}
+
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-2xl">By Category</CardTitle>
+                <CardDescription>Average margin per item, and the margin on stock on hand in {baseCurrency}</CardDescription>
+              </CardHeader>
+              <CardContent>
+                <div className="w-full overflow-x-auto">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Category</TableHead>
+                        <TableHead className="text-right">Items</TableHead>
+                        <TableHead className="text-right">Avg Margin</TableHead>
+                        <TableHead className="text-right">Stock at Cost</TableHead>
+                        <TableHead className="text-right">Stock at Price</TableHead>
+                        <TableHead className="text-right">Stock Margin</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {byCategory.map((row) => (
+                        <TableRow key={row.key}>
+                          <TableCell className="font-medium">{row.label}</TableCell>
+                          <TableCell className="text-right">{row.items}</TableCell>
+                          <TableCell className="text-right">{formatPercent(row.marginSum / row.items)}</TableCell>
+                          <TableCell className="text-right">{formatMoney(row.stockCost, baseCurrency)}</TableCell>
+                          <TableCell className="text-right">{formatMoney(row.stockValue, baseCurrency)}</TableCell>
+                          <TableCell className="text-right">{formatPercent(stockMargin(row))}</TableCell>
+                        </TableRow>
+                      ))}
+                      <TableRow>
+                        <TableCell colSpan={3} className="text-right font-medium">All categories</TableCell>
+                        <TableCell className="text-right font-bold">{formatMoney(totals.stockCost, baseCurrency)}</TableCell>
+                        <TableCell className="text-right font-bold">{formatMoney(totals.stockValue, baseCurrency)}</TableCell>
+                        <TableCell className="text-right font-bold">{formatPercent(stockMargin(totals))}</TableCell>
+                      </TableRow>
+                    </TableBody>
+                  </Table>
+                </div>
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-2xl">By Item</CardTitle>
+                <CardDescription>Lowest margins first, in each item's own currency</CardDescription>
+              </CardHeader>
+              <CardContent>
+                <div className="w-full overflow-x-auto">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Item</TableHead>
+                        <TableHead>SKU</TableHead>
+                        <TableHead>Category</TableHead>
+                        <TableHead className="text-right">Cost</TableHead>
+                        <TableHead className="text-right">Price</TableHead>
+                        <TableHead className="text-right">Profit</TableHead>
+                        <TableHead className="text-right">Margin</TableHead>
+                        <TableHead className="text-right">Markup</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {priced.map((it) => {
+                        const margin = marginPercent(it);
+                        return (
+                          <TableRow key={it.id} className="cursor-pointer" onClick={() => navigate(`/inventory/${it.id}`)}>
+                            <TableCell className="font-medium">{it.name}</TableCell>
+                            <TableCell>{it.sku || "-"}</TableCell>
+                            <TableCell>{categoryPath(it.category_id, categoriesById) || "-"}</TableCell>
+                            <TableCell className="text-right">{formatMoney(it.cost_price, it.currency)}</TableCell>
+                            <TableCell className="text-right">{formatMoney(it.unit_price, it.currency)}</TableCell>
+                            <TableCell className="text-right">{formatMoney(it.unit_price - it.cost_price, it.currency)}</TableCell>
+                            <TableCell className={`text-right ${(margin ?? 0) < 0 ? "text-destructive" : ""}`}>
+                              {formatPercent(margin)}
+                            </TableCell>
+                            <TableCell className="text-right">{formatPercent(markupPercent(it))}</TableCell>
+                          </TableRow>
+                        );
+                      })}
+                    </TableBody>
+                  </Table>
+                </div>
+              </CardContent>
+            </Card>
+          </>
+        )}
+      </main>
+    </div>
+  );
+};
+
+export default MarginReport;
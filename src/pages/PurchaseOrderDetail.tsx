@@ -0,0 +1,566 @@
+import { useMemo, useState } from "react";
+import { useNavigate, useParams } from "react-router-dom";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/hooks/useAuth";
+import { useToast } from "@/hooks/use-toast";
+import { usePageMeta } from "@/hooks/usePageMeta";
+import { useInventoryItems } from "@/hooks/useInventoryItems";
+import { useItemSuppliers } from "@/hooks/useSuppliers";
+import { useLocations } from "@/hooks/useLocations";
+import { useUnits } from "@/hooks/useUnits";
+import { useCurrency } from "@/hooks/useCurrency";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import PurchaseOrderStatusBadge from "@/components/purchasing/PurchaseOrderStatusBadge";
+import type { Tables } from "@/integrations/supabase/types";
+import { isParentItem } from "@/lib/variants";
+import { parseSerials } from "@/lib/serials";
+import { formatQuantity, quantityStep, toBaseQuantity, unitChoices } from "@/lib/units";
+import { DEFAULT_CURRENCY, formatMoney } from "@/lib/currency";
+import { Plus, Trash2, Send, PackageCheck, Lock, PackageSearch } from "lucide-react";
+
+type PurchaseOrderLine = Tables<"purchase_order_lines"> & {
+  inventory_items: { name: string; sku: string | null; is_serialized: boolean; unit_id: string } | null;
+  purchase_order_receipts: Tables<"purchase_order_receipts">[];
+};
+
+type PurchaseOrder = Tables<"purchase_orders"> & {
+  suppliers: { name: string; currency: string } | null;
+  purchase_order_lines: PurchaseOrderLine[];
+};
+
+const RECEIVABLE = ["sent", "partially_received", "received"];
+
+const PurchaseOrderDetail = () => {
+  const { id } = useParams<{ id: string }>();
+  const { user, loading } = useAuth();
+  const { toast } = useToast();
+  const navigate = useNavigate();
+  const queryClient = useQueryClient();
+
+  const [itemId, setItemId] = useState("");
+  const [lineQty, setLineQty] = useState<number>(1);
+  const [lineUnitId, setLineUnitId] = useState("");
+  const [lineCost, setLineCost] = useState<string>("");
+  const [receiveQty, setReceiveQty] = useState<Record<string, string>>({});
+  const [receiveSerials, setReceiveSerials] = useState<Record<string, string>>({});
+  const [receiveLocationId, setReceiveLocationId] = useState("");
+
+  usePageMeta(
+    "Purchase Order | Inventory Tonic",
+    "Review a purchase order and receive deliveries into stock.",
+    `/purchase-orders/${id}`
+  );
+
+  const { data: items } = useInventoryItems();
+  const { data: itemSuppliers } = useItemSuppliers();
+  const { data: locations } = useLocations();
+  const { data: units } = useUnits();
+  const { baseCurrency, toBase } = useCurrency();
+
+  const { data: order, isLoading } = useQuery<PurchaseOrder | null>({
+    queryKey: ["purchase-orders", id],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("purchase_orders")
+        .select(
+          "*, suppliers(name, currency), purchase_order_lines(*, inventory_items(name, sku, is_serialized, unit_id), purchase_order_receipts(*))"
+        )
+        .eq("id", id!)
+        .maybeSingle();
+      if (error) throw error;
+      return data as PurchaseOrder | null;
+    },
+    enabled: !!user && !loading && !!id,
+  });
+
+  // Purchase orders are priced in the supplier's currency
+  const orderCurrency = order?.suppliers?.currency ?? DEFAULT_CURRENCY;
+
+  const lines = useMemo(
+    () => [...(order?.purchase_order_lines ?? [])].sort((a, b) => a.created_at.localeCompare(b.created_at)),
+    [order]
+  );
+  const receipts = useMemo(
+    () =>
+      lines
+        .flatMap((line) =>
+          line.purchase_order_receipts.map((r) => ({ ...r, itemName: line.inventory_items?.name, unitId: line.unit_id }))
+        )
+        .sort((a, b) => b.received_at.localeCompare(a.received_at)),
+    [lines]
+  );
+  const locationNames = useMemo(() => new Map(locations?.map((loc) => [loc.id, loc.name]) ?? []), [locations]);
+  const unitsById = useMemo(() => new Map(units?.map((u) => [u.id, u]) ?? []), [units]);
+  const unitOf = (unitId: string | null | undefined) => (unitId ? unitsById.get(unitId) : undefined);
+
+  const chosenItem = items?.find((it) => it.id === itemId);
+  const lineUnit = unitOf(lineUnitId);
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: ["purchase-orders"] });
+  };
+
+  const chooseItem = (value: string) => {
+    setItemId(value);
+    // Suppliers usually sell in the item's purchase unit, e.g. cases
+    const item = items?.find((it) => it.id === value);
+    setLineUnitId(item?.purchase_unit_id ?? item?.unit_id ?? "");
+    // Default the cost to what this supplier charges for the item
+    const link = itemSuppliers?.find((l) => l.item_id === value && l.supplier_id === order?.supplier_id);
+    setLineCost(link?.cost != null ? String(link.cost) : "");
+    setLineQty(link?.min_order_qty ?? 1);
+  };
+
+  const addLine = useMutation({
+    mutationFn: async () => {
+      if (!user || !order) throw new Error("Not authenticated");
+      if (!itemId) throw new Error("Choose an item");
+      if (!Number.isFinite(lineQty) || lineQty <= 0) throw new Error("Quantity must be positive");
+
+      const { error } = await supabase.from("purchase_order_lines").insert({
+        user_id: user.id,
+        purchase_order_id: order.id,
+        item_id: itemId,
+        quantity_ordered: lineQty,
+        unit_id: lineUnitId || undefined,
+        unit_cost: lineCost ? Number(parseFloat(lineCost).toFixed(2)) : null,
+      });
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      invalidate();
+      setItemId("");
+      setLineQty(1);
+      setLineUnitId("");
+      setLineCost("");
+    },
+    onError: (err: Error) => {
+      toast({ title: "Add failed", description: err.message || "Could not add line.", variant: "destructive" });
+    },
+  });
+
+  const removeLine = useMutation({
+    mutationFn: async (lineId: string) => {
+      const { error } = await supabase.from("purchase_order_lines").delete().eq("id", lineId);
+      if (error) throw error;
+    },
+    onSuccess: invalidate,
+    onError: (err: Error) => {
+      toast({ title: "Remove failed", description: err.message || "Could not remove line.", variant: "destructive" });
+    },
+  });
+
+  const setStatus = useMutation({
+    mutationFn: async (status: "sent" | "closed") => {
+      if (!order) throw new Error("Order not loaded");
+      if (status === "sent" && lines.length === 0) throw new Error("Add at least one line before sending");
+
+      const args = { _order_id: order.id };
+      const { error } =
+        status === "sent"
+          ? await supabase.rpc("send_purchase_order", args)
+          : await supabase.rpc("close_purchase_order", args);
+      if (error) throw error;
+      return status;
+    },
+    onSuccess: (status) => {
+      invalidate();
+      toast({
+        title: status === "sent" ? "Order sent" : "Order closed",
+        description: status === "sent" ? "Deliveries can now be received." : "No further deliveries will be received.",
+      });
+    },
+    onError: (err: Error) => {
+      toast({ title: "Update failed", description: err.message || "Could not update order.", variant: "destructive" });
+    },
+  });
+
+  const deleteOrder = useMutation({
+    mutationFn: async () => {
+      if (!order) throw new Error("Order not loaded");
+      const { error } = await supabase.from("purchase_orders").delete().eq("id", order.id);
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      invalidate();
+      toast({ title: "Draft deleted", description: "The purchase order was removed." });
+      navigate("/purchase-orders");
+    },
+    onError: (err: Error) => {
+      toast({ title: "Delete failed", description: err.message || "Could not delete order.", variant: "destructive" });
+    },
+  });
+
+  const receiveLine = useMutation({
+    mutationFn: async ({ lineId, qty, serials }: { lineId: string; qty: number; serials?: string[] }) => {
+      if (!Number.isFinite(qty) || qty <= 0) throw new Error(serials ? "Enter the serial numbers received" : "Quantity must be positive");
+
+      const { data, error } = await supabase.rpc("receive_purchase_order_line", {
+        _line_id: lineId,
+        _quantity: qty,
+        _location_id: receiveLocationId || undefined,
+        _serials: serials,
+      });
+      if (error) throw error;
+      return data;
+    },
+    onSuccess: (line) => {
+      invalidate();
+      queryClient.invalidateQueries({ queryKey: ["inventory-items"] });
+      queryClient.invalidateQueries({ queryKey: ["stock-levels"] });
+      setReceiveQty((prev) => ({ ...prev, [line.id]: "" }));
+      setReceiveSerials((prev) => ({ ...prev, [line.id]: "" }));
+      toast({ title: "Stock received", description: `${line.quantity_received} of ${line.quantity_ordered} now received.` });
+    },
+    onError: (err: Error) => {
+      toast({ title: "Receive failed", description: err.message || "Could not receive stock.", variant: "destructive" });
+    },
+  });
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-background">
+        <p className="text-muted-foreground">Loading...</p>
+      </div>
+    );
+  }
+
+  if (!order) {
+    return (
+      <div className="min-h-screen flex flex-col items-center justify-center gap-4 bg-background">
+        <p className="text-muted-foreground">Purchase order not found.</p>
+        <Button variant="outline" onClick={() => navigate("/purchase-orders")}>Back to Purchase Orders</Button>
+      </div>
+    );
+  }
+
+  const isDraft = order.status === "draft";
+  const canReceive = RECEIVABLE.includes(order.status);
+  const total = lines.reduce((sum, line) => sum + line.quantity_ordered * (line.unit_cost ?? 0), 0);
+  const totalInBase = toBase(total, orderCurrency);
+
+  return (
+    <div className="min-h-screen bg-background">
+      <header className="border-b bg-card">
+        <div className="container mx-auto px-4 py-4 flex items-center justify-between">
+          <div className="flex items-center gap-3">
+            <h1 className="text-xl font-bold">{order.reference || `PO ${order.id.slice(0, 8)}`}</h1>
+            <PurchaseOrderStatusBadge status={order.status} />
+          </div>
+          <div className="flex items-center gap-2">
+            <Button variant="outline" onClick={() => navigate("/purchase-orders")}>All Orders</Button>
+            <Button variant="outline" onClick={() => navigate("/")}>Dashboard</Button>
+          </div>
+        </div>
+      </header>
+
+      <main className="container mx-auto px-4 py-8 space-y-8">
+        <Card>
+          <CardHeader className="flex flex-row items-start justify-between space-y-0">
+            <div>
+              <CardTitle className="text-2xl">{order.suppliers?.name}</CardTitle>
+              <CardDescription>
+                {order.expected_date ? `Expected ${new Date(order.expected_date).toLocaleDateString()}` : "No expected date"}
+                {order.location_id ? ` · Receiving into ${locationNames.get(order.location_id) ?? "-"}` : ""}
+              </CardDescription>
+              {order.notes ? <p className="text-sm text-muted-foreground mt-2">{order.notes}</p> : null}
+            </div>
+            <div className="flex gap-2">
+              {isDraft ? (
+                <>
+                  <Button onClick={() => setStatus.mutate("sent")} disabled={setStatus.isPending}>
+                    <Send className="mr-2 h-4 w-4" /> Mark as Sent
+                  </Button>
+                  <Button
+                    variant="outline"
+                    onClick={() => {
+                      if (confirm("Delete this draft purchase order?")) deleteOrder.mutate();
+                    }}
+                  >
+                    <Trash2 className="mr-2 h-4 w-4" /> Delete
+                  </Button>
+                </>
+              ) : null}
+              {canReceive ? (
+                <Button
+                  variant="outline"
+                  onClick={() => {
+                    if (confirm("Close this order? Outstanding quantities will not be received.")) setStatus.mutate("closed");
+                  }}
+                  disabled={setStatus.isPending}
+                >
+                  <Lock className="mr-2 h-4 w-4" /> Close Order
+                </Button>
+              ) : null}
+            </div>
+          </CardHeader>
+          <CardContent>
+            {canReceive ? (
+              <div className="flex items-center gap-2 mb-4">
+                <Label>Receive into</Label>
+                <Select value={receiveLocationId} onValueChange={setReceiveLocationId}>
+                  <SelectTrigger className="w-48" aria-label="Receiving location">
+                    <SelectValue placeholder="Order default" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {locations?.map((loc) => (
+                      <SelectItem key={loc.id} value={loc.id}>
+                        {loc.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            ) : null}
+
+            {lines.length === 0 ? (
+              <div className="text-center text-muted-foreground py-8">
+                <PackageSearch className="h-5 w-5 mx-auto mb-2" /> No lines yet.
+              </div>
+            ) : (
+              <div className="w-full overflow-x-auto">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Item</TableHead>
+                      <TableHead className="text-right">Ordered</TableHead>
+                      <TableHead className="text-right">Received</TableHead>
+                      <TableHead className="text-right">Variance</TableHead>
+                      <TableHead className="text-right">Unit Cost</TableHead>
+                      <TableHead className="text-right">Line Total</TableHead>
+                      <TableHead className="text-right">Actions</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {lines.map((line) => {
+                      const variance = line.variance ?? line.quantity_received - line.quantity_ordered;
+                      const unit = unitOf(line.unit_id);
+                      const baseUnit = unitOf(line.inventory_items?.unit_id);
+                      // Lines bought in another unit also show what they come to in base units
+                      const inBase = (qty: number) =>
+                        line.unit_factor !== 1 ? (
+                          <div className="text-xs text-muted-foreground">
+                            {formatQuantity(toBaseQuantity(qty, line.unit_factor), baseUnit)}
+                          </div>
+                        ) : null;
+                      return (
+                        <TableRow key={line.id}>
+                          <TableCell>
+                            <div className="font-medium">{line.inventory_items?.name ?? "-"}</div>
+                            {line.inventory_items?.sku ? (
+                              <div className="text-sm text-muted-foreground">{line.inventory_items.sku}</div>
+                            ) : null}
+                          </TableCell>
+                          <TableCell className="text-right">
+                            {formatQuantity(line.quantity_ordered, unit)}
+                            {inBase(line.quantity_ordered)}
+                          </TableCell>
+                          <TableCell className="text-right">
+                            {formatQuantity(line.quantity_received, unit)}
+                            {inBase(line.quantity_received)}
+                          </TableCell>
+                          <TableCell
+                            className={`text-right font-medium ${
+                              variance > 0 ? "text-primary" : variance < 0 && !isDraft ? "text-destructive" : ""
+                            }`}
+                          >
+                            {isDraft ? "-" : `${variance > 0 ? "+" : ""}${formatQuantity(variance, unit)}`}
+                          </TableCell>
+                          <TableCell className="text-right">
+                            {line.unit_cost != null ? `${formatMoney(line.unit_cost, orderCurrency)}${unit ? ` / ${unit.symbol}` : ""}` : "-"}
+                          </TableCell>
+                          <TableCell className="text-right">{formatMoney(line.quantity_ordered * (line.unit_cost ?? 0), orderCurrency)}</TableCell>
+                          <TableCell className="text-right">
+                            {isDraft ? (
+                              <Button
+                                variant="outline"
+                                size="sm"
+                                onClick={() => removeLine.mutate(line.id)}
+                                aria-label={`Remove ${line.inventory_items?.name ?? "line"}`}
+                              >
+                                <Trash2 className="h-4 w-4" />
+                              </Button>
+                            ) : canReceive && line.inventory_items?.is_serialized ? (
+                              <div className="flex justify-end gap-2">
+                                <Input
+                                  value={receiveSerials[line.id] ?? ""}
+                                  placeholder="Serial numbers, comma-separated"
+                                  onChange={(e) => setReceiveSerials((prev) => ({ ...prev, [line.id]: e.target.value }))}
+                                  className="w-56"
+                                  aria-label={`Serial numbers of ${line.inventory_items?.name ?? "item"} received`}
+                                />
+                                <Button
+                                  size="sm"
+                                  onClick={() => {
+                                    const serials = parseSerials(receiveSerials[line.id] ?? "");
+                                    // One serial per base unit, so a case of 24 needs 24 serials
+                                    receiveLine.mutate({ lineId: line.id, qty: serials.length / line.unit_factor, serials });
+                                  }}
+                                  disabled={receiveLine.isPending}
+                                >
+                                  <PackageCheck className="mr-2 h-4 w-4" /> Receive
+                                </Button>
+                              </div>
+                            ) : canReceive ? (
+                              <div className="flex justify-end gap-2">
+                                <Input
+                                  type="number"
+                                  inputMode={unit?.decimal_places ? "decimal" : "numeric"}
+                                  min={0}
+                                  step={quantityStep(unit)}
+                                  value={receiveQty[line.id] ?? ""}
+                                  placeholder={String(Math.max(1, line.quantity_ordered - line.quantity_received))}
+                                  onChange={(e) => setReceiveQty((prev) => ({ ...prev, [line.id]: e.target.value }))}
+                                  className="w-20 text-right"
+                                  aria-label={`Quantity of ${line.inventory_items?.name ?? "item"} to receive`}
+                                />
+                                <Button
+                                  size="sm"
+                                  onClick={() => {
+                                    const typed = receiveQty[line.id];
+                                    const qty = typed
+                                      ? parseFloat(typed)
+                                      : Math.max(1, line.quantity_ordered - line.quantity_received);
+                                    receiveLine.mutate({ lineId: line.id, qty });
+                                  }}
+                                  disabled={receiveLine.isPending}
+                                >
+                                  <PackageCheck className="mr-2 h-4 w-4" /> Receive
+                                </Button>
+                              </div>
+                            ) : null}
+                          </TableCell>
+                        </TableRow>
+                      );
+                    })}
+                    <TableRow>
+                      <TableCell colSpan={5} className="text-right font-medium">Total</TableCell>
+                      <TableCell className="text-right font-bold">
+                        {formatMoney(total, orderCurrency)}
+                        {orderCurrency !== baseCurrency ? (
+                          <div className="text-xs font-normal text-muted-foreground">
+                            {totalInBase !== null
+                              ? `≈ ${formatMoney(totalInBase, baseCurrency)}`
+                              : `No ${orderCurrency} → ${baseCurrency} rate`}
+                          </div>
+                        ) : null}
+                      </TableCell>
+                      <TableCell />
+                    </TableRow>
+                  </TableBody>
+                </Table>
+              </div>
+            )}
+
+            {isDraft ? (
+              <div className="grid grid-cols-1 md:grid-cols-5 gap-4 items-end border-t pt-4 mt-4">
+                <div className="md:col-span-2">
+                  <Label>Item</Label>
+                  <Select value={itemId} onValueChange={chooseItem}>
+                    <SelectTrigger aria-label="Item to order">
+                      <SelectValue placeholder="Choose item" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {items?.filter((it) => !isParentItem(it)).map((it) => (
+                        <SelectItem key={it.id} value={it.id}>
+                          {it.name}
+                          {it.sku ? ` (${it.sku})` : ""}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div>
+                  <Label htmlFor="line_qty">Quantity</Label>
+                  <Input
+                    id="line_qty"
+                    type="number"
+                    inputMode={lineUnit?.decimal_places ? "decimal" : "numeric"}
+                    min={0}
+                    step={quantityStep(lineUnit)}
+                    value={lineQty}
+                    onChange={(e) => setLineQty(parseFloat(e.target.value || "0"))}
+                  />
+                </div>
+                <div>
+                  <Label>Unit</Label>
+                  <Select value={lineUnitId} onValueChange={setLineUnitId} disabled={!chosenItem}>
+                    <SelectTrigger aria-label="Unit ordered in">
+                      <SelectValue placeholder="Base unit" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {chosenItem
+                        ? unitChoices(chosenItem).map((choice) => (
+                            <SelectItem key={choice.unitId} value={choice.unitId}>
+                              {unitOf(choice.unitId)?.name ?? "Unit"}
+                              {choice.factor !== 1 ? ` (${choice.factor} ${unitOf(chosenItem.unit_id)?.symbol ?? ""})` : ""}
+                            </SelectItem>
+                          ))
+                        : null}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div>
+                  <Label htmlFor="line_cost">Unit Cost ({order.suppliers?.currency})</Label>
+                  <Input
+                    id="line_cost"
+                    type="number"
+                    inputMode="decimal"
+                    step="0.01"
+                    value={lineCost}
+                    onChange={(e) => setLineCost(e.target.value)}
+                    placeholder="e.g. 8.50"
+                  />
+                </div>
+                <div className="md:col-span-5 flex justify-end">
+                  <Button onClick={() => addLine.mutate()} disabled={addLine.isPending}>
+                    <Plus className="mr-2" /> Add Line
+                  </Button>
+                </div>
+              </div>
+            ) : null}
+          </CardContent>
+        </Card>
+
+        {receipts.length ? (
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-lg">Receipts</CardTitle>
+              <CardDescription>Every delivery booked against this order</CardDescription>
+            </CardHeader>
+            <CardContent>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Received</TableHead>
+                    <TableHead>Item</TableHead>
+                    <TableHead>Location</TableHead>
+                    <TableHead className="text-right">Qty</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {receipts.map((r) => (
+                    <TableRow key={r.id}>
+                      <TableCell>{new Date(r.received_at).toLocaleString()}</TableCell>
+                      <TableCell>{r.itemName ?? "-"}</TableCell>
+                      <TableCell>{locationNames.get(r.location_id) ?? "-"}</TableCell>
+                      <TableCell className="text-right">{formatQuantity(r.quantity, unitOf(r.unitId))}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </CardContent>
+          </Card>
+        ) : null}
+      </main>
+    </div>
+  );
+};
+
+export default PurchaseOrderDetail;
@@ -0,0 +1,251 @@
+import { useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/hooks/useAuth";
+import { useToast } from "@/hooks/use-toast";
+import { usePageMeta } from "@/hooks/usePageMeta";
+import { useSuppliers } from "@/hooks/useSuppliers";
+import { useLocations } from "@/hooks/useLocations";
+import { useCurrency } from "@/hooks/useCurrency";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import PurchaseOrderStatusBadge from "@/components/purchasing/PurchaseOrderStatusBadge";
+import type { Tables } from "@/integrations/supabase/types";
+import { DEFAULT_CURRENCY, formatMoney } from "@/lib/currency";
+import { Plus, PackageSearch } from "lucide-react";
+
+type PurchaseOrderSummary = Tables<"purchase_orders"> & {
+  suppliers: { name: string; currency: string } | null;
+  purchase_order_lines: { quantity_ordered: number; quantity_received: number; unit_cost: number | null }[];
+};
+
+const PurchaseOrders = () => {
+  const { user, loading } = useAuth();
+  const { toast } = useToast();
+  const navigate = useNavigate();
+  const queryClient = useQueryClient();
+
+  const [supplierId, setSupplierId] = useState("");
+  const [reference, setReference] = useState("");
+  const [locationId, setLocationId] = useState("");
+  const [expectedDate, setExpectedDate] = useState("");
+  const [notes, setNotes] = useState("");
+
+  usePageMeta(
+    "Purchase Orders | Inventory Tonic",
+    "Order stock from suppliers and receive deliveries into inventory.",
+    "/purchase-orders"
+  );
+
+  const { data: suppliers } = useSuppliers();
+  const { data: locations } = useLocations();
+  const { baseCurrency, toBase, sumToBase } = useCurrency();
+
+  const { data: orders, isLoading } = useQuery<PurchaseOrderSummary[]>({
+    queryKey: ["purchase-orders"],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("purchase_orders")
+        .select("*, suppliers(name, currency), purchase_order_lines(quantity_ordered, quantity_received, unit_cost)")
+        .order("created_at", { ascending: false });
+      if (error) throw error;
+      return data as PurchaseOrderSummary[];
+    },
+    enabled: !!user && !loading,
+  });
+
+  const createOrder = useMutation({
+    mutationFn: async () => {
+      if (!user) throw new Error("Not authenticated");
+      if (!supplierId) throw new Error("Choose a supplier");
+
+      const { data, error } = await supabase
+        .from("purchase_orders")
+        .insert({
+          user_id: user.id,
+          supplier_id: supplierId,
+          reference: reference.trim() || null,
+          location_id: locationId || null,
+          expected_date: expectedDate || null,
+          notes: notes.trim() || null,
+        })
+        .select()
+        .single();
+      if (error) throw error;
+      return data;
+    },
+    onSuccess: (order) => {
+      queryClient.invalidateQueries({ queryKey: ["purchase-orders"] });
+      toast({ title: "Purchase order created", description: "Add the items you want to order." });
+      navigate(`/purchase-orders/${order.id}`);
+    },
+    onError: (err: Error) => {
+      toast({ title: "Create failed", description: err.message || "Could not create purchase order.", variant: "destructive" });
+    },
+  });
+
+  const orderTotal = (order: PurchaseOrderSummary) =>
+    order.purchase_order_lines.reduce((sum, line) => sum + line.quantity_ordered * (line.unit_cost ?? 0), 0);
+  const orderCurrency = (order: PurchaseOrderSummary) => order.suppliers?.currency ?? DEFAULT_CURRENCY;
+
+  // Orders still awaiting delivery, converted so mixed currencies add up
+  const openTotal = sumToBase(
+    orders
+      ?.filter((order) => ["draft", "sent", "partially_received"].includes(order.status))
+      .map((order) => ({ amount: orderTotal(order), currency: orderCurrency(order) })) ?? []
+  );
+
+  return (
+    <div className="min-h-screen bg-background">
+      <header className="border-b bg-card">
+        <div className="container mx-auto px-4 py-4 flex items-center justify-between">
+          <div className="flex items-center gap-2">
+            <h1 className="text-xl font-bold">Purchase Orders</h1>
+          </div>
+          <div className="flex items-center gap-2">
+            <Button variant="outline" onClick={() => navigate("/suppliers")}>Suppliers</Button>
+            <Button variant="outline" onClick={() => navigate("/inventory")}>Inventory</Button>
+            <Button variant="outline" onClick={() => navigate("/")}>Dashboard</Button>
+          </div>
+        </div>
+      </header>
+
+      <main className="container mx-auto px-4 py-8">
+        <section className="mb-8">
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-2xl">New Purchase Order</CardTitle>
+              <CardDescription>Start a draft order, then add the items you need</CardDescription>
+            </CardHeader>
+            <CardContent>
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                <div>
+                  <Label>Supplier</Label>
+                  <Select value={supplierId} onValueChange={setSupplierId}>
+                    <SelectTrigger aria-label="Supplier">
+                      <SelectValue placeholder={suppliers?.length ? "Choose supplier" : "Add a supplier first"} />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {suppliers?.map((s) => (
+                        <SelectItem key={s.id} value={s.id}>
+                          {s.name}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div>
+                  <Label htmlFor="po_reference">Reference</Label>
+                  <Input id="po_reference" value={reference} onChange={(e) => setReference(e.target.value)} placeholder="e.g. PO-1001" />
+                </div>
+                <div>
+                  <Label>Receive Into</Label>
+                  <Select value={locationId} onValueChange={setLocationId}>
+                    <SelectTrigger aria-label="Receiving location">
+                      <SelectValue placeholder="Default location" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {locations?.map((loc) => (
+                        <SelectItem key={loc.id} value={loc.id}>
+                          {loc.name}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div>
+                  <Label htmlFor="po_expected">Expected</Label>
+                  <Input id="po_expected" type="date" value={expectedDate} onChange={(e) => setExpectedDate(e.target.value)} />
+                </div>
+                <div className="md:col-span-2">
+                  <Label htmlFor="po_notes">Notes</Label>
+                  <Input id="po_notes" value={notes} onChange={(e) => setNotes(e.target.value)} placeholder="Optional details" />
+                </div>
+              </div>
+              <div className="mt-4 flex justify-end">
+                <Button onClick={() => createOrder.mutate()} disabled={createOrder.isPending}>
+                  <Plus className="mr-2" /> Create Draft
+                </Button>
+              </div>
+            </CardContent>
+          </Card>
+        </section>
+
+        <section>
+          <h2 className="text-xl font-semibold mb-3">Orders</h2>
+          <Card>
+            <CardHeader>
+              <CardDescription>Open an order to send it, receive deliveries, or close it</CardDescription>
+            </CardHeader>
+            <CardContent>
+              {isLoading ? (
+                <div className="flex items-center gap-2 text-muted-foreground"><PackageSearch className="h-4 w-4" /> Loading orders...</div>
+              ) : !orders?.length ? (
+                <div className="text-center text-muted-foreground py-8">No purchase orders yet.</div>
+              ) : (
+                <div className="w-full overflow-x-auto">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Reference</TableHead>
+                        <TableHead>Supplier</TableHead>
+                        <TableHead>Status</TableHead>
+                        <TableHead>Expected</TableHead>
+                        <TableHead className="text-right">Received</TableHead>
+                        <TableHead className="text-right">Total</TableHead>
+                        <TableHead className="text-right">In {baseCurrency}</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {orders.map((order) => {
+                        const ordered = order.purchase_order_lines.reduce((sum, l) => sum + l.quantity_ordered, 0);
+                        const received = order.purchase_order_lines.reduce((sum, l) => sum + l.quantity_received, 0);
+                        const total = orderTotal(order);
+                        const inBase = toBase(total, orderCurrency(order));
+                        return (
+                          <TableRow
+                            key={order.id}
+                            className="cursor-pointer"
+                            onClick={() => navigate(`/purchase-orders/${order.id}`)}
+                          >
+                            <TableCell className="font-medium">{order.reference || order.id.slice(0, 8)}</TableCell>
+                            <TableCell>{order.suppliers?.name ?? "-"}</TableCell>
+                            <TableCell><PurchaseOrderStatusBadge status={order.status} /></TableCell>
+                            <TableCell>{order.expected_date ? new Date(order.expected_date).toLocaleDateString() : "-"}</TableCell>
+                            <TableCell className="text-right">{received} / {ordered}</TableCell>
+                            <TableCell className="text-right">{formatMoney(total, orderCurrency(order))}</TableCell>
+                            <TableCell className="text-right text-muted-foreground">
+                              {inBase !== null ? formatMoney(inBase, baseCurrency) : "No rate"}
+                            </TableCell>
+                          </TableRow>
+                        );
+                      })}
+                      <TableRow>
+                        <TableCell colSpan={6} className="text-right font-medium">
+                          Open orders
+                          {openTotal.missing.length ? (
+                            <div className="text-xs font-normal text-muted-foreground">
+                              Excludes {openTotal.missing.join(", ")} (no rate)
+                            </div>
+                          ) : null}
+                        </TableCell>
+                        <TableCell className="text-right font-bold">{formatMoney(openTotal.total, baseCurrency)}</TableCell>
+                      </TableRow>
+                    </TableBody>
+                  </Table>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        </section>
+      </main>
+    </div>
+  );
+};
+
+export default PurchaseOrders;
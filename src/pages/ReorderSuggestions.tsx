@@ -0,0 +1,323 @@
+import { useMemo, useState } from "react";
+import { flushSync } from "react-dom";
+import { useNavigate } from "react-router-dom";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/hooks/useAuth";
+import { useToast } from "@/hooks/use-toast";
+import { usePageMeta } from "@/hooks/usePageMeta";
+import { useInventoryItems, type InventoryItem } from "@/hooks/useInventoryItems";
+import { useItemSuppliers, useSuppliers, type Supplier } from "@/hooks/useSuppliers";
+import { useOnOrder } from "@/hooks/useOnOrder";
+import { useUnits } from "@/hooks/useUnits";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { downloadCsv, toCsv } from "@/lib/csv";
+import { DEFAULT_CURRENCY, formatMoney } from "@/lib/currency";
+import { dateFromToday } from "@/lib/lots";
+import { atReorderPoint, availableStock, suggestedQuantity, toOrderQuantity } from "@/lib/reorder";
+import { formatQuantity, quantityStep } from "@/lib/units";
+import { isParentItem } from "@/lib/variants";
+import { Download, PackageSearch, Printer, Send } from "lucide-react";
+
+interface SuggestionLine {
+  item: InventoryItem;
+  /** On hand less what confirmed sales orders have reserved */
+  available: number;
+  onOrder: number;
+  /** The unit the supplier is ordered in, and base units in one of it */
+  orderUnitId: string;
+  factor: number;
+  suggested: number;
+  supplierSku: string | null;
+  unitCost: number | null;
+}
+
+interface SupplierGroup {
+  key: string;
+  supplier: Supplier | null;
+  lines: SuggestionLine[];
+}
+
+const NO_SUPPLIER = "none";
+
+const ReorderSuggestions = () => {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const navigate = useNavigate();
+  const queryClient = useQueryClient();
+
+  // Order quantities the user has changed, by item
+  const [overrides, setOverrides] = useState<Record<string, string>>({});
+  // The supplier group being printed; every other group is hidden meanwhile
+  const [printing, setPrinting] = useState<string | null>(null);
+
+  usePageMeta(
+    "Reorder Suggestions | Inventory Tonic",
+    "Items at or below their reorder point, grouped into order sheets by preferred supplier.",
+    "/reorder"
+  );
+
+  const { data: items, isLoading } = useInventoryItems();
+  const { data: suppliers } = useSuppliers();
+  const { data: itemSuppliers } = useItemSuppliers();
+  const { data: onOrder } = useOnOrder();
+  const { data: units } = useUnits();
+
+  const unitsById = useMemo(() => new Map(units?.map((u) => [u.id, u]) ?? []), [units]);
+
+  const groups = useMemo(() => {
+    const suppliersById = new Map(suppliers?.map((s) => [s.id, s]) ?? []);
+    const map = new Map<string, SupplierGroup>();
+    items
+      ?.filter((it) => !isParentItem(it) && atReorderPoint(it, availableStock(it)))
+      .forEach((it) => {
+        const available = availableStock(it);
+        const link = itemSuppliers?.find((l) => l.item_id === it.id && l.is_preferred);
+        const key = link?.supplier_id ?? NO_SUPPLIER;
+        const group = map.get(key) ?? { key, supplier: suppliersById.get(key) ?? null, lines: [] };
+        // Suppliers sell in the item's purchase unit, e.g. cases
+        const orderUnitId = it.purchase_unit_id ?? it.unit_id;
+        const pending = onOrder?.get(it.id) ?? 0;
+        group.lines.push({
+          item: it,
+          available,
+          onOrder: pending,
+          orderUnitId,
+          factor: it.purchase_factor,
+          suggested: toOrderQuantity(
+            suggestedQuantity(it, available, pending),
+            it.purchase_factor,
+            unitsById.get(orderUnitId)?.decimal_places ?? 0,
+            link?.min_order_qty
+          ),
+          supplierSku: link?.supplier_sku ?? null,
+          unitCost: link?.cost ?? null,
+        });
+        map.set(key, group);
+      });
+    // Groups that can become purchase orders first, then anything without a supplier
+    return Array.from(map.values()).sort(
+      (a, b) => Number(!a.supplier) - Number(!b.supplier) || (a.supplier?.name ?? "").localeCompare(b.supplier?.name ?? "")
+    );
+  }, [items, suppliers, itemSuppliers, onOrder, unitsById]);
+
+  const orderQuantity = (line: SuggestionLine) => {
+    const value = overrides[line.item.id];
+    return value === undefined ? line.suggested : parseFloat(value || "0");
+  };
+  const ordered = (group: SupplierGroup) =>
+    group.lines.filter((line) => {
+      const qty = orderQuantity(line);
+      return Number.isFinite(qty) && qty > 0;
+    });
+  const groupCurrency = (group: SupplierGroup) => group.supplier?.currency ?? DEFAULT_CURRENCY;
+  const groupTotal = (group: SupplierGroup) =>
+    ordered(group).reduce((sum, line) => sum + orderQuantity(line) * (line.unitCost ?? 0), 0);
+
+  const exportCsv = (group: SupplierGroup) => {
+    const currency = groupCurrency(group);
+    const rows = ordered(group).map((line) => {
+      const qty = orderQuantity(line);
+      return [
+        line.item.name,
+        line.item.sku,
+        line.supplierSku,
+        qty,
+        unitsById.get(line.orderUnitId)?.symbol,
+        line.unitCost,
+        line.unitCost != null ? Number((qty * line.unitCost).toFixed(2)) : null,
+      ];
+    });
+    const csv = toCsv([
+      ["Item", "SKU", "Supplier SKU", "Quantity", "Unit", `Unit Cost (${currency})`, `Line Total (${currency})`],
+      ...rows,
+    ]);
+    const name = (group.supplier?.name ?? "unassigned").toLowerCase().replace(/[^a-z0-9]+/g, "-");
+    downloadCsv(`order-${name}-${dateFromToday(0)}.csv`, csv);
+  };
+
+  const printSheet = (group: SupplierGroup) => {
+    flushSync(() => setPrinting(group.key));
+    window.print();
+    setPrinting(null);
+  };
+
+  // Sends a purchase order for the group, so its items count as on order until received
+  const placeOrder = useMutation({
+    mutationFn: async (group: SupplierGroup) => {
+      if (!user) throw new Error("Not authenticated");
+      if (!group.supplier) throw new Error("Set a preferred supplier for these items first");
+      const lines = ordered(group);
+      if (!lines.length) throw new Error("Enter a quantity for at least one item");
+
+      const { error } = await supabase.rpc("place_purchase_order", {
+        _supplier_id: group.supplier.id,
+        _lines: lines.map((line) => ({
+          item_id: line.item.id,
+          quantity_ordered: orderQuantity(line),
+          unit_id: line.orderUnitId,
+          unit_cost: line.unitCost,
+        })),
+        _notes: "Created from reorder suggestions",
+      });
+      if (error) throw error;
+      return group;
+    },
+    onSuccess: (group) => {
+      queryClient.invalidateQueries({ queryKey: ["purchase-orders"] });
+      setOverrides((prev) => {
+        const next = { ...prev };
+        group.lines.forEach((line) => delete next[line.item.id]);
+        return next;
+      });
+      toast({
+        title: "Purchase order sent",
+        description: `${group.supplier?.name}'s items show as on order until the delivery is received.`,
+      });
+    },
+    onError: (err: Error) => {
+      toast({ title: "Order failed", description: err.message || "Could not create purchase order.", variant: "destructive" });
+    },
+  });
+
+  return (
+    <div className="min-h-screen bg-background">
+      <header className="border-b bg-card print:hidden">
+        <div className="container mx-auto px-4 py-4 flex items-center justify-between">
+          <div className="flex items-center gap-2">
+            <h1 className="text-xl font-bold">Reorder Suggestions</h1>
+          </div>
+          <div className="flex items-center gap-2">
+            <Button variant="outline" onClick={() => navigate("/purchase-orders")}>Purchase Orders</Button>
+            <Button variant="outline" onClick={() => navigate("/inventory")}>Inventory</Button>
+            <Button variant="outline" onClick={() => navigate("/")}>Dashboard</Button>
+          </div>
+        </div>
+      </header>
+
+      <main className="container mx-auto px-4 py-8 space-y-8">
+        {isLoading ? (
+          <div className="flex items-center gap-2 text-muted-foreground"><PackageSearch className="h-4 w-4" /> Loading items...</div>
+        ) : !groups.length ? (
+          <div className="text-center text-muted-foreground py-8">
+            Nothing is at its reorder point. Set reorder points from the Inventory page.
+          </div>
+        ) : (
+          groups.map((group) => {
+            const currency = groupCurrency(group);
+            return (
+              <Card key={group.key} className={printing && printing !== group.key ? "print:hidden" : undefined}>
+                <CardHeader className="flex flex-row items-start justify-between gap-4 space-y-0">
+                  <div className="space-y-1.5">
+                    <CardTitle className="text-2xl">{group.supplier?.name ?? "No preferred supplier"}</CardTitle>
+                    <CardDescription>
+                      {group.supplier
+                        ? [group.supplier.contact_name, group.supplier.email, group.supplier.phone].filter(Boolean).join(" · ") ||
+                          "No contact details"
+                        : "Mark a preferred supplier for these items to order them"}
+                    </CardDescription>
+                    <p className="hidden print:block text-sm">Order date: {new Date().toLocaleDateString()}</p>
+                  </div>
+                  <div className="flex gap-2 print:hidden">
+                    <Button variant="outline" size="sm" onClick={() => exportCsv(group)} disabled={!ordered(group).length}>
+                      <Download className="mr-2 h-4 w-4" /> CSV
+                    </Button>
+                    <Button variant="outline" size="sm" onClick={() => printSheet(group)} disabled={!ordered(group).length}>
+                      <Printer className="mr-2 h-4 w-4" /> Print
+                    </Button>
+                    {group.supplier ? (
+                      <Button
+                        size="sm"
+                        onClick={() => placeOrder.mutate(group)}
+                        disabled={placeOrder.isPending || !ordered(group).length}
+                      >
+                        <Send className="mr-2 h-4 w-4" /> Mark as Ordered
+                      </Button>
+                    ) : null}
+                  </div>
+                </CardHeader>
+                <CardContent>
+                  <div className="w-full overflow-x-auto">
+                    <Table>
+                      <TableHeader>
+                        <TableRow>
+                          <TableHead>Item</TableHead>
+                          <TableHead>SKU</TableHead>
+                          <TableHead>Supplier SKU</TableHead>
+                          <TableHead className="text-right">Available</TableHead>
+                          <TableHead className="text-right">On Order</TableHead>
+                          <TableHead className="text-right">Reorder Point</TableHead>
+                          <TableHead className="text-right">Order Qty</TableHead>
+                          <TableHead className="text-right">Unit Cost</TableHead>
+                          <TableHead className="text-right">Line Total</TableHead>
+                        </TableRow>
+                      </TableHeader>
+                      <TableBody>
+                        {group.lines.map((line) => {
+                          const baseUnit = unitsById.get(line.item.unit_id);
+                          const orderUnit = unitsById.get(line.orderUnitId);
+                          const qty = orderQuantity(line);
+                          return (
+                            <TableRow key={line.item.id} className={qty > 0 ? undefined : "print:hidden"}>
+                              <TableCell className="font-medium">
+                                <div className="flex items-center gap-2">
+                                  {line.item.name}
+                                  {line.onOrder > 0 && !line.suggested ? <Badge variant="outline">On order</Badge> : null}
+                                </div>
+                              </TableCell>
+                              <TableCell>{line.item.sku || "-"}</TableCell>
+                              <TableCell>{line.supplierSku || "-"}</TableCell>
+                              <TableCell className="text-right">{formatQuantity(line.available, baseUnit)}</TableCell>
+                              <TableCell className="text-right">{formatQuantity(line.onOrder, baseUnit)}</TableCell>
+                              <TableCell className="text-right">{formatQuantity(line.item.reorder_point ?? 0, baseUnit)}</TableCell>
+                              <TableCell className="text-right">
+                                <div className="flex items-center justify-end gap-2">
+                                  <Input
+                                    type="number"
+                                    inputMode={orderUnit?.decimal_places ? "decimal" : "numeric"}
+                                    min={0}
+                                    step={quantityStep(orderUnit)}
+                                    value={overrides[line.item.id] ?? String(line.suggested)}
+                                    onChange={(e) => setOverrides((prev) => ({ ...prev, [line.item.id]: e.target.value }))}
+                                    className="w-24 text-right"
+                                    aria-label={`Quantity of ${line.item.name} to order`}
+                                  />
+                                  <span className="text-sm text-muted-foreground w-10 text-left">{orderUnit?.symbol}</span>
+                                </div>
+                                {line.factor !== 1 && qty > 0 ? (
+                                  <div className="text-xs text-muted-foreground">
+                                    = {formatQuantity(qty * line.factor, baseUnit)}
+                                  </div>
+                                ) : null}
+                              </TableCell>
+                              <TableCell className="text-right">
+                                {line.unitCost != null ? formatMoney(line.unitCost, currency) : "-"}
+                              </TableCell>
+                              <TableCell className="text-right">
+                                {line.unitCost != null && qty > 0 ? formatMoney(qty * line.unitCost, currency) : "-"}
+                              </TableCell>
+                            </TableRow>
+                          );
+                        })}
+                        <TableRow>
+                          <TableCell colSpan={8} className="text-right font-medium">Total</TableCell>
+                          <TableCell className="text-right font-bold">{formatMoney(groupTotal(group), currency)}</TableCell>
+                        </TableRow>
+                      </TableBody>
+                    </Table>
+                  </div>
+                </CardContent>
+              </Card>
+            );
+          })
+        )}
+      </main>
+    </div>
+  );
+};
+
+export default ReorderSuggestions;
@@ -0,0 +1,427 @@
+import { useMemo, useState } from "react";
+import { useNavigate, useSearchParams } from "react-router-dom";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/hooks/useAuth";
+import { useToast } from "@/hooks/use-toast";
+import { usePageMeta } from "@/hooks/usePageMeta";
+import { useInventoryItems } from "@/hooks/useInventoryItems";
+import { useLocations } from "@/hooks/useLocations";
+import { useUnits } from "@/hooks/useUnits";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import ReturnStatusBadge from "@/components/returns/ReturnStatusBadge";
+import type { Tables } from "@/integrations/supabase/types";
+import { RETURN_CONDITIONS, RETURN_STATUSES, conditionLabel, restocks, type ReturnCondition } from "@/lib/returns";
+import { formatQuantity, quantityStep } from "@/lib/units";
+import { isParentItem } from "@/lib/variants";
+import { Check, PackageSearch, Plus, X } from "lucide-react";
+
+type CustomerReturn = Tables<"returns"> & {
+  inventory_items: { name: string; sku: string | null; unit_id: string } | null;
+  locations: { name: string } | null;
+};
+
+const ALL_STATUSES = "all";
+
+const Returns = () => {
+  const { user, loading } = useAuth();
+  const { toast } = useToast();
+  const navigate = useNavigate();
+  const queryClient = useQueryClient();
+  const [searchParams, setSearchParams] = useSearchParams();
+
+  const [customerName, setCustomerName] = useState("");
+  const [reference, setReference] = useState("");
+  const [itemId, setItemId] = useState("");
+  const [quantity, setQuantity] = useState("1");
+  const [condition, setCondition] = useState<ReturnCondition>("resellable");
+  const [locationId, setLocationId] = useState("");
+  const [reason, setReason] = useState("");
+
+  usePageMeta(
+    "Returns | Inventory Tonic",
+    "Record customer returns, their condition, and restock or write them off.",
+    "/returns"
+  );
+
+  const { data: items } = useInventoryItems();
+  const { data: locations } = useLocations();
+  const { data: units } = useUnits();
+
+  const statusFilter = searchParams.get("status") ?? ALL_STATUSES;
+  const setStatusFilter = (value: string) =>
+    setSearchParams(value === ALL_STATUSES ? {} : { status: value }, { replace: true });
+
+  const { data: returns, isLoading } = useQuery<CustomerReturn[]>({
+    queryKey: ["returns"],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("returns")
+        .select("*, inventory_items(name, sku, unit_id), locations(name)")
+        .order("created_at", { ascending: false });
+      if (error) throw error;
+      return data as CustomerReturn[];
+    },
+    enabled: !!user && !loading,
+  });
+
+  // Serialized items come back by serial number, and parents hold no stock
+  const returnable = useMemo(
+    () => items?.filter((it) => !it.is_serialized && !isParentItem(it)).sort((a, b) => a.name.localeCompare(b.name)) ?? [],
+    [items]
+  );
+  const unitsById = useMemo(() => new Map(units?.map((u) => [u.id, u]) ?? []), [units]);
+  const selectedUnit = unitsById.get(returnable.find((it) => it.id === itemId)?.unit_id ?? "");
+  const shown = returns?.filter((r) => statusFilter === ALL_STATUSES || r.status === statusFilter) ?? [];
+
+  const createReturn = useMutation({
+    mutationFn: async () => {
+      if (!user) throw new Error("Not authenticated");
+      if (!customerName.trim()) throw new Error("Customer is required");
+      if (!itemId) throw new Error("Choose the item being returned");
+      const qty = parseFloat(quantity);
+      if (!Number.isFinite(qty) || qty <= 0) throw new Error("Quantity must be above zero");
+
+      const { error } = await supabase.from("returns").insert({
+        user_id: user.id,
+        customer_name: customerName.trim(),
+        reference: reference.trim() || null,
+        item_id: itemId,
+        quantity: qty,
+        condition,
+        location_id: locationId || null,
+        reason: reason.trim() || null,
+      });
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["returns"] });
+      setCustomerName("");
+      setReference("");
+      setItemId("");
+      setQuantity("1");
+      setCondition("resellable");
+      setReason("");
+      toast({ title: "Return recorded", description: "Approve it once the goods have been checked." });
+    },
+    onError: (err: Error) => {
+      toast({ title: "Create failed", description: err.message || "Could not record return.", variant: "destructive" });
+    },
+  });
+
+  const updateCondition = useMutation({
+    mutationFn: async ({ id, condition }: { id: string; condition: ReturnCondition }) => {
+      const { error } = await supabase.from("returns").update({ condition }).eq("id", id);
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["returns"] });
+    },
+    onError: (err: Error) => {
+      toast({ title: "Update failed", description: err.message || "Could not update condition.", variant: "destructive" });
+    },
+  });
+
+  const approveReturn = useMutation({
+    mutationFn: async (id: string) => {
+      const { data, error } = await supabase.rpc("approve_return", { _return_id: id });
+      if (error) throw error;
+      return data;
+    },
+    onSuccess: (row) => {
+      queryClient.invalidateQueries({ queryKey: ["returns"] });
+      queryClient.invalidateQueries({ queryKey: ["inventory-items"] });
+      queryClient.invalidateQueries({ queryKey: ["stock-levels"] });
+      queryClient.invalidateQueries({ queryKey: ["locations"] });
+      queryClient.invalidateQueries({ queryKey: ["stock-movements"] });
+      toast({
+        title: "Return approved",
+        description: restocks(row.condition) ? "The units are back in stock." : "The units were written off.",
+      });
+    },
+    onError: (err: Error) => {
+      toast({ title: "Approve failed", description: err.message || "Could not approve return.", variant: "destructive" });
+    },
+  });
+
+  const rejectReturn = useMutation({
+    mutationFn: async (id: string) => {
+      const { error } = await supabase.rpc("reject_return", { _return_id: id });
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["returns"] });
+      toast({ title: "Return rejected", description: "No stock was changed." });
+    },
+    onError: (err: Error) => {
+      toast({ title: "Reject failed", description: err.message || "Could not reject return.", variant: "destructive" });
+    },
+  });
+
+  return (
+    <div className="min-h-screen bg-background">
+      <header className="border-b bg-card">
+        <div className="container mx-auto px-4 py-4 flex items-center justify-between">
+          <div className="flex items-center gap-2">
+            <h1 className="text-xl font-bold">Returns</h1>
+          </div>
+          <div className="flex items-center gap-2">
+            <Button variant="outline" onClick={() => navigate("/sales-orders")}>Sales Orders</Button>
+            <Button variant="outline" onClick={() => navigate("/inventory")}>Inventory</Button>
+            <Button variant="outline" onClick={() => navigate("/")}>Dashboard</Button>
+          </div>
+        </div>
+      </header>
+
+      <main className="container mx-auto px-4 py-8">
+        <section className="mb-8">
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-2xl">New Return</CardTitle>
+              <CardDescription>Record what the customer is sending back and the state it arrived in</CardDescription>
+            </CardHeader>
+            <CardContent>
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                <div>
+                  <Label htmlFor="return_customer">Customer</Label>
+                  <Input
+                    id="return_customer"
+                    value={customerName}
+                    onChange={(e) => setCustomerName(e.target.value)}
+                    placeholder="e.g. Sam Rivera"
+                  />
+                </div>
+                <div>
+                  <Label htmlFor="return_reference">RMA Number</Label>
+                  <Input
+                    id="return_reference"
+                    value={reference}
+                    onChange={(e) => setReference(e.target.value)}
+                    placeholder="e.g. RMA-1001"
+                  />
+                </div>
+                <div>
+                  <Label>Item</Label>
+                  <Select value={itemId} onValueChange={setItemId}>
+                    <SelectTrigger aria-label="Returned item">
+                      <SelectValue placeholder="Choose item" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {returnable.map((it) => (
+                        <SelectItem key={it.id} value={it.id}>
+                          {it.name}
+                          {it.sku ? ` (${it.sku})` : ""}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div>
+                  <Label htmlFor="return_quantity">Quantity ({selectedUnit?.symbol ?? "ea"})</Label>
+                  <Input
+                    id="return_quantity"
+                    type="number"
+                    inputMode={selectedUnit?.decimal_places ? "decimal" : "numeric"}
+                    min={0}
+                    step={quantityStep(selectedUnit)}
+                    value={quantity}
+                    onChange={(e) => setQuantity(e.target.value)}
+                  />
+                </div>
+                <div>
+                  <Label>Condition</Label>
+                  <Select value={condition} onValueChange={(value) => setCondition(value as ReturnCondition)}>
+                    <SelectTrigger aria-label="Condition">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {RETURN_CONDITIONS.map((c) => (
+                        <SelectItem key={c.value} value={c.value}>
+                          {c.label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div>
+                  <Label>Return To</Label>
+                  <Select value={locationId} onValueChange={setLocationId}>
+                    <SelectTrigger aria-label="Restocking location">
+                      <SelectValue placeholder="Default location" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {locations?.map((loc) => (
+                        <SelectItem key={loc.id} value={loc.id}>
+                          {loc.name}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="md:col-span-3">
+                  <Label htmlFor="return_reason">Reason</Label>
+                  <Input
+                    id="return_reason"
+                    value={reason}
+                    onChange={(e) => setReason(e.target.value)}
+                    placeholder="Optional, e.g. wrong size ordered"
+                  />
+                </div>
+              </div>
+              <div className="mt-4 flex justify-end">
+                <Button onClick={() => createReturn.mutate()} disabled={createReturn.isPending}>
+                  <Plus className="mr-2" /> Record Return
+                </Button>
+              </div>
+            </CardContent>
+          </Card>
+        </section>
+
+        <section>
+          <div className="flex items-center justify-between mb-3">
+            <h2 className="text-xl font-semibold">Returns</h2>
+            <Select value={statusFilter} onValueChange={setStatusFilter}>
+              <SelectTrigger className="w-40" aria-label="Filter by status">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL_STATUSES}>All statuses</SelectItem>
+                {RETURN_STATUSES.map((status) => (
+                  <SelectItem key={status} value={status} className="capitalize">
+                    {status}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <Card>
+            <CardHeader>
+              <CardDescription>
+                Approving restocks resellable units at the return location; anything to refurbish or scrap is written off
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              {isLoading ? (
+                <div className="flex items-center gap-2 text-muted-foreground"><PackageSearch className="h-4 w-4" /> Loading returns...</div>
+              ) : !shown.length ? (
+                <div className="text-center text-muted-foreground py-8">
+                  {returns?.length ? "No returns with this status." : "No returns yet."}
+                </div>
+              ) : (
+                <div className="w-full overflow-x-auto">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>RMA</TableHead>
+                        <TableHead>Customer</TableHead>
+                        <TableHead>Item</TableHead>
+                        <TableHead className="text-right">Quantity</TableHead>
+                        <TableHead>Condition</TableHead>
+                        <TableHead>Status</TableHead>
+                        <TableHead>Created</TableHead>
+                        <TableHead className="text-right">Actions</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {shown.map((r) => {
+                        const name = r.inventory_items?.name ?? "Item";
+                        const qty = formatQuantity(r.quantity, unitsById.get(r.inventory_items?.unit_id ?? ""));
+                        const requested = r.status === "requested";
+                        return (
+                          <TableRow key={r.id}>
+                            <TableCell className="font-medium">{r.reference || r.id.slice(0, 8)}</TableCell>
+                            <TableCell>{r.customer_name}</TableCell>
+                            <TableCell>
+                              {name}
+                              {r.reason ? <div className="text-xs text-muted-foreground">{r.reason}</div> : null}
+                            </TableCell>
+                            <TableCell className="text-right">{qty}</TableCell>
+                            <TableCell>
+                              {requested ? (
+                                <Select
+                                  value={r.condition}
+                                  onValueChange={(value) =>
+                                    updateCondition.mutate({ id: r.id, condition: value as ReturnCondition })
+                                  }
+                                >
+                                  <SelectTrigger className="w-44" aria-label={`Condition of ${name}`}>
+                                    <SelectValue />
+                                  </SelectTrigger>
+                                  <SelectContent>
+                                    {RETURN_CONDITIONS.map((c) => (
+                                      <SelectItem key={c.value} value={c.value}>
+                                        {c.label}
+                                      </SelectItem>
+                                    ))}
+                                  </SelectContent>
+                                </Select>
+                              ) : (
+                                <>
+                                  {conditionLabel(r.condition)}
+                                  {r.status === "approved" ? (
+                                    <div className="text-xs text-muted-foreground">
+                                      {restocks(r.condition)
+                                        ? `Restocked${r.locations ? ` at ${r.locations.name}` : ""}`
+                                        : "Written off"}
+                                    </div>
+                                  ) : null}
+                                </>
+                              )}
+                            </TableCell>
+                            <TableCell><ReturnStatusBadge status={r.status} /></TableCell>
+                            <TableCell>{new Date(r.created_at).toLocaleDateString()}</TableCell>
+                            <TableCell className="text-right">
+                              {requested ? (
+                                <div className="flex justify-end gap-2">
+                                  <Button
+                                    size="sm"
+                                    onClick={() => {
+                                      const outcome = restocks(r.condition)
+                                        ? `${qty} ${name} will go back into stock`
+                                        : `${qty} ${name} will be written off`;
+                                      if (confirm(`Approve this return? ${outcome}.`)) approveReturn.mutate(r.id);
+                                    }}
+                                    disabled={approveReturn.isPending}
+                                    aria-label={`Approve return of ${name}`}
+                                  >
+                                    <Check className="h-4 w-4" />
+                                  </Button>
+                                  <Button
+                                    variant="outline"
+                                    size="sm"
+                                    onClick={() => {
+                                      if (confirm("Reject this return?")) rejectReturn.mutate(r.id);
+                                    }}
+                                    disabled={rejectReturn.isPending}
+                                    aria-label={`Reject return of ${name}`}
+                                  >
+                                    <X className="h-4 w-4" />
+                                  </Button>
+                                </div>
+                              ) : r.processed_at ? (
+                                <span className="text-sm text-muted-foreground">
+                                  {new Date(r.processed_at).toLocaleDateString()}
+                                </span>
+                              ) : null}
+                            </TableCell>
+                          </TableRow>
+                        );
+                      })}
+                    </TableBody>
+                  </Table>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        </section>
+      </main>
+    </div>
+  );
+};
+
+export default Returns;
@@ -0,0 +1,453 @@
+import { useMemo, useState } from "react";
+import { useNavigate, useParams } from "react-router-dom";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/hooks/useAuth";
+import { useToast } from "@/hooks/use-toast";
+import { usePageMeta } from "@/hooks/usePageMeta";
+import { useInventoryItems } from "@/hooks/useInventoryItems";
+import { useLocations } from "@/hooks/useLocations";
+import { useUnits } from "@/hooks/useUnits";
+import { useCurrency } from "@/hooks/useCurrency";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import SalesOrderStatusBadge from "@/components/sales/SalesOrderStatusBadge";
+import type { Tables } from "@/integrations/supabase/types";
+import { isParentItem } from "@/lib/variants";
+import { parseSerials } from "@/lib/serials";
+import { formatQuantity, quantityStep, toBaseQuantity, unitChoices } from "@/lib/units";
+import { formatMoney } from "@/lib/currency";
+import { Plus, Trash2, CheckCircle, Truck, XCircle, PackageSearch } from "lucide-react";
+
+type SalesOrderLine = Tables<"sales_order_lines"> & {
+  inventory_items: { name: string; sku: string | null; is_serialized: boolean } | null;
+};
+
+type SalesOrder = Tables<"sales_orders"> & { sales_order_lines: SalesOrderLine[] };
+
+type OrderAction = "confirm" | "fulfil" | "cancel";
+
+const SalesOrderDetail = () => {
+  const { id } = useParams<{ id: string }>();
+  const { user, loading } = useAuth();
+  const { toast } = useToast();
+  const navigate = useNavigate();
+  const queryClient = useQueryClient();
+
+  const [itemId, setItemId] = useState("");
+  const [lineQty, setLineQty] = useState<number>(1);
+  const [lineUnitId, setLineUnitId] = useState("");
+  const [linePrice, setLinePrice] = useState<string>("");
+  const [lineSerials, setLineSerials] = useState<Record<string, string>>({});
+
+  usePageMeta(
+    "Sales Order | Inventory Tonic",
+    "Review a sales order, reserve its stock, and fulfil it.",
+    `/sales-orders/${id}`
+  );
+
+  const { data: items } = useInventoryItems();
+  const { data: locations } = useLocations();
+  const { data: units } = useUnits();
+  const { baseCurrency, convert } = useCurrency();
+
+  const { data: order, isLoading } = useQuery<SalesOrder | null>({
+    queryKey: ["sales-orders", id],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("sales_orders")
+        .select("*, sales_order_lines(*, inventory_items(name, sku, is_serialized))")
+        .eq("id", id!)
+        .maybeSingle();
+      if (error) throw error;
+      return data as SalesOrder | null;
+    },
+    enabled: !!user && !loading && !!id,
+  });
+
+  const lines = useMemo(
+    () => [...(order?.sales_order_lines ?? [])].sort((a, b) => a.created_at.localeCompare(b.created_at)),
+    [order]
+  );
+  const itemsById = useMemo(() => new Map(items?.map((it) => [it.id, it]) ?? []), [items]);
+  const unitsById = useMemo(() => new Map(units?.map((u) => [u.id, u]) ?? []), [units]);
+  const unitOf = (unitId: string | null | undefined) => (unitId ? unitsById.get(unitId) : undefined);
+
+  const chosenItem = itemsById.get(itemId);
+  const lineUnit = unitOf(lineUnitId);
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: ["sales-orders"] });
+  };
+
+  // The item's price is per base unit, so it scales with the unit sold in. It is
+  // converted to the order's currency, and left blank when there's no rate for that.
+  const priceIn = (item: typeof chosenItem, unitId: string) => {
+    const factor = item && unitChoices(item).find((c) => c.unitId === unitId)?.factor;
+    if (item?.unit_price == null || !factor) return "";
+    const price = convert(item.unit_price * factor, item.currency, order?.currency ?? baseCurrency);
+    return price === null ? "" : String(Number(price.toFixed(2)));
+  };
+
+  const chooseItem = (value: string) => {
+    const item = itemsById.get(value);
+    const unitId = item?.sale_unit_id ?? item?.unit_id ?? "";
+    setItemId(value);
+    setLineUnitId(unitId);
+    setLinePrice(priceIn(item, unitId));
+  };
+
+  const chooseUnit = (value: string) => {
+    setLineUnitId(value);
+    setLinePrice(priceIn(chosenItem, value));
+  };
+
+  const addLine = useMutation({
+    mutationFn: async () => {
+      if (!user || !order) throw new Error("Not authenticated");
+      if (!itemId) throw new Error("Choose an item");
+      if (!Number.isFinite(lineQty) || lineQty <= 0) throw new Error("Quantity must be positive");
+
+      const { error } = await supabase.from("sales_order_lines").insert({
+        user_id: user.id,
+        sales_order_id: order.id,
+        item_id: itemId,
+        quantity: lineQty,
+        unit_id: lineUnitId || undefined,
+        unit_price: linePrice ? Number(parseFloat(linePrice).toFixed(2)) : null,
+      });
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      invalidate();
+      setItemId("");
+      setLineQty(1);
+      setLineUnitId("");
+      setLinePrice("");
+    },
+    onError: (err: Error) => {
+      toast({ title: "Add failed", description: err.message || "Could not add line.", variant: "destructive" });
+    },
+  });
+
+  const removeLine = useMutation({
+    mutationFn: async (lineId: string) => {
+      const { error } = await supabase.from("sales_order_lines").delete().eq("id", lineId);
+      if (error) throw error;
+    },
+    onSuccess: invalidate,
+    onError: (err: Error) => {
+      toast({ title: "Remove failed", description: err.message || "Could not remove line.", variant: "destructive" });
+    },
+  });
+
+  const runAction = useMutation({
+    mutationFn: async (action: OrderAction) => {
+      if (!order) throw new Error("Order not loaded");
+      const args = { _order_id: order.id };
+      const { error } =
+        action === "confirm"
+          ? await supabase.rpc("confirm_sales_order", args)
+          : action === "fulfil"
+            ? await supabase.rpc("fulfil_sales_order", {
+                ...args,
+                _serials: Object.values(lineSerials).flatMap(parseSerials),
+              })
+            : await supabase.rpc("cancel_sales_order", args);
+      if (error) throw error;
+      return action;
+    },
+    onSuccess: (action) => {
+      invalidate();
+      queryClient.invalidateQueries({ queryKey: ["inventory-items"] });
+      queryClient.invalidateQueries({ queryKey: ["stock-levels"] });
+      const messages: Record<OrderAction, { title: string; description: string }> = {
+        confirm: { title: "Order confirmed", description: "Stock has been reserved for this order." },
+        fulfil: { title: "Order fulfilled", description: "Stock has been deducted from inventory." },
+        cancel: { title: "Order cancelled", description: "Any reserved stock has been released." },
+      };
+      toast(messages[action]);
+    },
+    onError: (err: Error) => {
+      toast({ title: "Update failed", description: err.message || "Could not update order.", variant: "destructive" });
+    },
+  });
+
+  const deleteOrder = useMutation({
+    mutationFn: async () => {
+      if (!order) throw new Error("Order not loaded");
+      const { error } = await supabase.from("sales_orders").delete().eq("id", order.id);
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      invalidate();
+      toast({ title: "Draft deleted", description: "The sales order was removed." });
+      navigate("/sales-orders");
+    },
+    onError: (err: Error) => {
+      toast({ title: "Delete failed", description: err.message || "Could not delete order.", variant: "destructive" });
+    },
+  });
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-background">
+        <p className="text-muted-foreground">Loading...</p>
+      </div>
+    );
+  }
+
+  if (!order) {
+    return (
+      <div className="min-h-screen flex flex-col items-center justify-center gap-4 bg-background">
+        <p className="text-muted-foreground">Sales order not found.</p>
+        <Button variant="outline" onClick={() => navigate("/sales-orders")}>Back to Sales Orders</Button>
+      </div>
+    );
+  }
+
+  const isDraft = order.status === "draft";
+  const isConfirmed = order.status === "confirmed";
+  // Serialized items ship as named units, entered before fulfilling
+  const hasSerializedLines = isConfirmed && lines.some((line) => line.inventory_items?.is_serialized);
+  const total = lines.reduce((sum, line) => sum + line.quantity * (line.unit_price ?? 0), 0);
+  const totalInBase = convert(total, order.currency, baseCurrency);
+  const shipFrom = locations?.find((loc) => loc.id === order.location_id)?.name;
+
+  return (
+    <div className="min-h-screen bg-background">
+      <header className="border-b bg-card">
+        <div className="container mx-auto px-4 py-4 flex items-center justify-between">
+          <div className="flex items-center gap-3">
+            <h1 className="text-xl font-bold">{order.reference || `SO ${order.id.slice(0, 8)}`}</h1>
+            <SalesOrderStatusBadge status={order.status} />
+          </div>
+          <div className="flex items-center gap-2">
+            <Button variant="outline" onClick={() => navigate("/sales-orders")}>All Orders</Button>
+            <Button variant="outline" onClick={() => navigate("/")}>Dashboard</Button>
+          </div>
+        </div>
+      </header>
+
+      <main className="container mx-auto px-4 py-8">
+        <Card>
+          <CardHeader className="flex flex-row items-start justify-between space-y-0">
+            <div>
+              <CardTitle className="text-2xl">{order.customer_name}</CardTitle>
+              <CardDescription>Shipping from {shipFrom ?? "the default location"}</CardDescription>
+              {order.notes ? <p className="text-sm text-muted-foreground mt-2">{order.notes}</p> : null}
+            </div>
+            <div className="flex gap-2">
+              {isDraft ? (
+                <>
+                  <Button onClick={() => runAction.mutate("confirm")} disabled={runAction.isPending || lines.length === 0}>
+                    <CheckCircle className="mr-2 h-4 w-4" /> Confirm &amp; Reserve
+                  </Button>
+                  <Button
+                    variant="outline"
+                    onClick={() => {
+                      if (confirm("Delete this draft sales order?")) deleteOrder.mutate();
+                    }}
+                  >
+                    <Trash2 className="mr-2 h-4 w-4" /> Delete
+                  </Button>
+                </>
+              ) : null}
+              {isConfirmed ? (
+                <Button onClick={() => runAction.mutate("fulfil")} disabled={runAction.isPending}>
+                  <Truck className="mr-2 h-4 w-4" /> Fulfil
+                </Button>
+              ) : null}
+              {isDraft || isConfirmed ? (
+                <Button
+                  variant="outline"
+                  onClick={() => {
+                    if (confirm("Cancel this order? Reserved stock will be released.")) runAction.mutate("cancel");
+                  }}
+                  disabled={runAction.isPending}
+                >
+                  <XCircle className="mr-2 h-4 w-4" /> Cancel Order
+                </Button>
+              ) : null}
+            </div>
+          </CardHeader>
+          <CardContent>
+            {lines.length === 0 ? (
+              <div className="text-center text-muted-foreground py-8">
+                <PackageSearch className="h-5 w-5 mx-auto mb-2" /> No lines yet.
+              </div>
+            ) : (
+              <div className="w-full overflow-x-auto">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Item</TableHead>
+                      <TableHead className="text-right">Qty</TableHead>
+                      {isDraft ? <TableHead className="text-right">Available</TableHead> : null}
+                      {hasSerializedLines ? <TableHead>Serial Numbers</TableHead> : null}
+                      <TableHead className="text-right">Unit Price</TableHead>
+                      <TableHead className="text-right">Line Total</TableHead>
+                      {isDraft ? <TableHead className="text-right">Actions</TableHead> : null}
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {lines.map((line) => {
+                      const item = itemsById.get(line.item_id);
+                      const available = item ? item.quantity - item.reserved_quantity : null;
+                      const unit = unitOf(line.unit_id);
+                      const baseUnit = unitOf(item?.unit_id);
+                      // Stock, reservations and serials are all counted in base units
+                      const baseQty = toBaseQuantity(line.quantity, line.unit_factor);
+                      return (
+                        <TableRow key={line.id}>
+                          <TableCell>
+                            <div className="font-medium">{line.inventory_items?.name ?? "-"}</div>
+                            {line.inventory_items?.sku ? (
+                              <div className="text-sm text-muted-foreground">{line.inventory_items.sku}</div>
+                            ) : null}
+                          </TableCell>
+                          <TableCell className="text-right">
+                            {formatQuantity(line.quantity, unit)}
+                            {line.unit_factor !== 1 ? (
+                              <div className="text-xs text-muted-foreground">{formatQuantity(baseQty, baseUnit)}</div>
+                            ) : null}
+                          </TableCell>
+                          {isDraft ? (
+                            <TableCell
+                              className={`text-right ${available != null && available < baseQty ? "text-destructive" : ""}`}
+                            >
+                              {available != null ? formatQuantity(available, baseUnit) : "-"}
+                            </TableCell>
+                          ) : null}
+                          {hasSerializedLines ? (
+                            <TableCell>
+                              {line.inventory_items?.is_serialized ? (
+                                <Input
+                                  value={lineSerials[line.id] ?? ""}
+                                  placeholder={`${baseQty} serial${baseQty === 1 ? "" : "s"}, comma-separated`}
+                                  onChange={(e) => setLineSerials((prev) => ({ ...prev, [line.id]: e.target.value }))}
+                                  className="w-56"
+                                  aria-label={`Serial numbers of ${line.inventory_items.name} shipped`}
+                                />
+                              ) : null}
+                            </TableCell>
+                          ) : null}
+                          <TableCell className="text-right">
+                            {line.unit_price != null ? `${formatMoney(line.unit_price, order.currency)}${unit ? ` / ${unit.symbol}` : ""}` : "-"}
+                          </TableCell>
+                          <TableCell className="text-right">{formatMoney(line.quantity * (line.unit_price ?? 0), order.currency)}</TableCell>
+                          {isDraft ? (
+                            <TableCell className="text-right">
+                              <Button
+                                variant="outline"
+                                size="sm"
+                                onClick={() => removeLine.mutate(line.id)}
+                                aria-label={`Remove ${line.inventory_items?.name ?? "line"}`}
+                              >
+                                <Trash2 className="h-4 w-4" />
+                              </Button>
+                            </TableCell>
+                          ) : null}
+                        </TableRow>
+                      );
+                    })}
+                    <TableRow>
+                      <TableCell colSpan={(isDraft ? 4 : 3) + (hasSerializedLines ? 1 : 0)} className="text-right font-medium">
+                        Total
+                      </TableCell>
+                      <TableCell className="text-right font-bold">
+                        {formatMoney(total, order.currency)}
+                        {order.currency !== baseCurrency ? (
+                          <div className="text-xs font-normal text-muted-foreground">
+                            {totalInBase !== null
+                              ? `≈ ${formatMoney(totalInBase, baseCurrency)}`
+                              : `No ${order.currency} → ${baseCurrency} rate`}
+                          </div>
+                        ) : null}
+                      </TableCell>
+                      {isDraft ? <TableCell /> : null}
+                    </TableRow>
+                  </TableBody>
+                </Table>
+              </div>
+            )}
+
+            {isDraft ? (
+              <div className="grid grid-cols-1 md:grid-cols-5 gap-4 items-end border-t pt-4 mt-4">
+                <div className="md:col-span-2">
+                  <Label>Item</Label>
+                  <Select value={itemId} onValueChange={chooseItem}>
+                    <SelectTrigger aria-label="Item to sell">
+                      <SelectValue placeholder="Choose item" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {items?.filter((it) => !isParentItem(it)).map((it) => (
+                        <SelectItem key={it.id} value={it.id}>
+                          {it.name}
+                          {it.sku ? ` (${it.sku})` : ""}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div>
+                  <Label htmlFor="so_line_qty">Quantity</Label>
+                  <Input
+                    id="so_line_qty"
+                    type="number"
+                    inputMode={lineUnit?.decimal_places ? "decimal" : "numeric"}
+                    min={0}
+                    step={quantityStep(lineUnit)}
+                    value={lineQty}
+                    onChange={(e) => setLineQty(parseFloat(e.target.value || "0"))}
+                  />
+                </div>
+                <div>
+                  <Label>Unit</Label>
+                  <Select value={lineUnitId} onValueChange={chooseUnit} disabled={!chosenItem}>
+                    <SelectTrigger aria-label="Unit sold in">
+                      <SelectValue placeholder="Base unit" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {chosenItem
+                        ? unitChoices(chosenItem).map((choice) => (
+                            <SelectItem key={choice.unitId} value={choice.unitId}>
+                              {unitOf(choice.unitId)?.name ?? "Unit"}
+                              {choice.factor !== 1 ? ` (${choice.factor} ${unitOf(chosenItem.unit_id)?.symbol ?? ""})` : ""}
+                            </SelectItem>
+                          ))
+                        : null}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div>
+                  <Label htmlFor="so_line_price">Unit Price ({order.currency})</Label>
+                  <Input
+                    id="so_line_price"
+                    type="number"
+                    inputMode="decimal"
+                    step="0.01"
+                    value={linePrice}
+                    onChange={(e) => setLinePrice(e.target.value)}
+                    placeholder="e.g. 19.99"
+                  />
+                </div>
+                <div className="md:col-span-5 flex justify-end">
+                  <Button onClick={() => addLine.mutate()} disabled={addLine.isPending}>
+                    <Plus className="mr-2" /> Add Line
+                  </Button>
+                </div>
+              </div>
+            ) : null}
+          </CardContent>
+        </Card>
+      </main>
+    </div>
+  );
+};
+
+export default SalesOrderDetail;
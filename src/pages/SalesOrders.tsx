@@ -0,0 +1,242 @@
+import { useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/hooks/useAuth";
+import { useToast } from "@/hooks/use-toast";
+import { usePageMeta } from "@/hooks/usePageMeta";
+import { useLocations } from "@/hooks/useLocations";
+import { useCurrency } from "@/hooks/useCurrency";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import SalesOrderStatusBadge from "@/components/sales/SalesOrderStatusBadge";
+import type { Tables } from "@/integrations/supabase/types";
+import { formatMoney, isCurrencyCode } from "@/lib/currency";
+import { Plus, PackageSearch } from "lucide-react";
+
+type SalesOrderSummary = Tables<"sales_orders"> & {
+  sales_order_lines: { quantity: number; unit_price: number | null }[];
+};
+
+const SalesOrders = () => {
+  const { user, loading } = useAuth();
+  const { toast } = useToast();
+  const navigate = useNavigate();
+  const queryClient = useQueryClient();
+
+  const [customerName, setCustomerName] = useState("");
+  const [reference, setReference] = useState("");
+  const [locationId, setLocationId] = useState("");
+  const [notes, setNotes] = useState("");
+  const [orderCurrency, setOrderCurrency] = useState("");
+
+  usePageMeta(
+    "Sales Orders | Inventory Tonic",
+    "Take customer orders, reserve stock, and ship from inventory.",
+    "/sales-orders"
+  );
+
+  const { data: locations } = useLocations();
+  const { baseCurrency, toBase, sumToBase } = useCurrency();
+
+  const { data: orders, isLoading } = useQuery<SalesOrderSummary[]>({
+    queryKey: ["sales-orders"],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("sales_orders")
+        .select("*, sales_order_lines(quantity, unit_price)")
+        .order("created_at", { ascending: false });
+      if (error) throw error;
+      return data as SalesOrderSummary[];
+    },
+    enabled: !!user && !loading,
+  });
+
+  const createOrder = useMutation({
+    mutationFn: async () => {
+      if (!user) throw new Error("Not authenticated");
+      if (!customerName.trim()) throw new Error("Customer is required");
+      const code = (orderCurrency.trim() || baseCurrency).toUpperCase();
+      if (!isCurrencyCode(code)) throw new Error("Currency must be a 3-letter code, e.g. USD");
+
+      const { data, error } = await supabase
+        .from("sales_orders")
+        .insert({
+          user_id: user.id,
+          customer_name: customerName.trim(),
+          reference: reference.trim() || null,
+          location_id: locationId || null,
+          notes: notes.trim() || null,
+          currency: code,
+        })
+        .select()
+        .single();
+      if (error) throw error;
+      return data;
+    },
+    onSuccess: (order) => {
+      queryClient.invalidateQueries({ queryKey: ["sales-orders"] });
+      toast({ title: "Sales order created", description: "Add the items the customer wants." });
+      navigate(`/sales-orders/${order.id}`);
+    },
+    onError: (err: Error) => {
+      toast({ title: "Create failed", description: err.message || "Could not create sales order.", variant: "destructive" });
+    },
+  });
+
+  const orderTotal = (order: SalesOrderSummary) =>
+    order.sales_order_lines.reduce((sum, l) => sum + l.quantity * (l.unit_price ?? 0), 0);
+
+  // Drafts and confirmed orders, converted so mixed currencies add up
+  const openTotal = sumToBase(
+    orders
+      ?.filter((order) => order.status === "draft" || order.status === "confirmed")
+      .map((order) => ({ amount: orderTotal(order), currency: order.currency })) ?? []
+  );
+
+  return (
+    <div className="min-h-screen bg-background">
+      <header className="border-b bg-card">
+        <div className="container mx-auto px-4 py-4 flex items-center justify-between">
+          <div className="flex items-center gap-2">
+            <h1 className="text-xl font-bold">Sales Orders</h1>
+          </div>
+          <div className="flex items-center gap-2">
+            <Button variant="outline" onClick={() => navigate("/inventory")}>Inventory</Button>
+            <Button variant="outline" onClick={() => navigate("/")}>Dashboard</Button>
+          </div>
+        </div>
+      </header>
+
+      <main className="container mx-auto px-4 py-8">
+        <section className="mb-8">
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-2xl">New Sales Order</CardTitle>
+              <CardDescription>Start a draft order, then add the items being sold</CardDescription>
+            </CardHeader>
+            <CardContent>
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                <div>
+                  <Label htmlFor="so_customer">Customer</Label>
+                  <Input id="so_customer" value={customerName} onChange={(e) => setCustomerName(e.target.value)} placeholder="e.g. Sam Rivera" />
+                </div>
+                <div>
+                  <Label htmlFor="so_reference">Reference</Label>
+                  <Input id="so_reference" value={reference} onChange={(e) => setReference(e.target.value)} placeholder="e.g. SO-1001" />
+                </div>
+                <div>
+                  <Label>Ship From</Label>
+                  <Select value={locationId} onValueChange={setLocationId}>
+                    <SelectTrigger aria-label="Shipping location">
+                      <SelectValue placeholder="Default location" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {locations?.map((loc) => (
+                        <SelectItem key={loc.id} value={loc.id}>
+                          {loc.name}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div>
+                  <Label htmlFor="so_currency">Currency</Label>
+                  <Input
+                    id="so_currency"
+                    value={orderCurrency}
+                    onChange={(e) => setOrderCurrency(e.target.value)}
+                    maxLength={3}
+                    placeholder={baseCurrency}
+                  />
+                </div>
+                <div className="md:col-span-2">
+                  <Label htmlFor="so_notes">Notes</Label>
+                  <Input id="so_notes" value={notes} onChange={(e) => setNotes(e.target.value)} placeholder="Optional details" />
+                </div>
+              </div>
+              <div className="mt-4 flex justify-end">
+                <Button onClick={() => createOrder.mutate()} disabled={createOrder.isPending}>
+                  <Plus className="mr-2" /> Create Draft
+                </Button>
+              </div>
+            </CardContent>
+          </Card>
+        </section>
+
+        <section>
+          <h2 className="text-xl font-semibold mb-3">Orders</h2>
+          <Card>
+            <CardHeader>
+              <CardDescription>Confirm an order to reserve stock, then fulfil it when it ships</CardDescription>
+            </CardHeader>
+            <CardContent>
+              {isLoading ? (
+                <div className="flex items-center gap-2 text-muted-foreground"><PackageSearch className="h-4 w-4" /> Loading orders...</div>
+              ) : !orders?.length ? (
+                <div className="text-center text-muted-foreground py-8">No sales orders yet.</div>
+              ) : (
+                <div className="w-full overflow-x-auto">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Reference</TableHead>
+                        <TableHead>Customer</TableHead>
+                        <TableHead>Status</TableHead>
+                        <TableHead>Created</TableHead>
+                        <TableHead className="text-right">Units</TableHead>
+                        <TableHead className="text-right">Total</TableHead>
+                        <TableHead className="text-right">In {baseCurrency}</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {orders.map((order) => {
+                        const units = order.sales_order_lines.reduce((sum, l) => sum + l.quantity, 0);
+                        const total = orderTotal(order);
+                        const inBase = toBase(total, order.currency);
+                        return (
+                          <TableRow
+                            key={order.id}
+                            className="cursor-pointer"
+                            onClick={() => navigate(`/sales-orders/${order.id}`)}
+                          >
+                            <TableCell className="font-medium">{order.reference || order.id.slice(0, 8)}</TableCell>
+                            <TableCell>{order.customer_name}</TableCell>
+                            <TableCell><SalesOrderStatusBadge status={order.status} /></TableCell>
+                            <TableCell>{new Date(order.created_at).toLocaleDateString()}</TableCell>
+                            <TableCell className="text-right">{units}</TableCell>
+                            <TableCell className="text-right">{formatMoney(total, order.currency)}</TableCell>
+                            <TableCell className="text-right text-muted-foreground">
+                              {inBase !== null ? formatMoney(inBase, baseCurrency) : "No rate"}
+                            </TableCell>
+                          </TableRow>
+                        );
+                      })}
+                      <TableRow>
+                        <TableCell colSpan={6} className="text-right font-medium">
+                          Open orders
+                          {openTotal.missing.length ? (
+                            <div className="text-xs font-normal text-muted-foreground">
+                              Excludes {openTotal.missing.join(", ")} (no rate)
+                            </div>
+                          ) : null}
+                        </TableCell>
+                        <TableCell className="text-right font-bold">{formatMoney(openTotal.total, baseCurrency)}</TableCell>
+                      </TableRow>
+                    </TableBody>
+                  </Table>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        </section>
+      </main>
+    </div>
+  );
+};
+
+export default SalesOrders;
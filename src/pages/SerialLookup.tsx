@@ -0,0 +1,182 @@
+import { useState } from "react";
+import { useNavigate, useSearchParams } from "react-router-dom";
+import { useQuery } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/hooks/useAuth";
+import { usePageMeta } from "@/hooks/usePageMeta";
+import { Badge, type BadgeProps } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import type { Tables } from "@/integrations/supabase/types";
+import { PackageSearch, Search } from "lucide-react";
+
+type SerialEvent = Tables<"serial_events"> & {
+  locations: { name: string } | null;
+  stock_movements: { reason: string; reference_type: string | null; reference_id: string | null } | null;
+};
+
+type SerialHistory = Tables<"serial_numbers"> & {
+  inventory_items: { name: string; sku: string | null } | null;
+  locations: { name: string } | null;
+  serial_events: SerialEvent[];
+};
+
+const EVENT_STYLES: Record<string, { label: string; variant: BadgeProps["variant"] }> = {
+  received: { label: "Received", variant: "default" },
+  returned: { label: "Returned", variant: "secondary" },
+  transferred: { label: "Transferred", variant: "outline" },
+  sold: { label: "Sold", variant: "secondary" },
+  removed: { label: "Removed", variant: "destructive" },
+};
+
+const STATUS_LABELS: Record<string, string> = {
+  pending: "Not yet received",
+  in_stock: "In stock",
+  in_transit: "In transit",
+  sold: "Sold",
+  removed: "Removed",
+};
+
+// Documents a movement can point back to
+const REFERENCE_PATHS: Record<string, string> = {
+  sales_order: "/sales-orders",
+  purchase_order: "/purchase-orders",
+};
+
+const SerialLookup = () => {
+  const { user, loading } = useAuth();
+  const navigate = useNavigate();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const term = searchParams.get("serial")?.trim() ?? "";
+  const [draft, setDraft] = useState(term);
+
+  usePageMeta(
+    "Serial Lookup | Inventory Tonic",
+    "Look up a serial number and see the full history of that unit.",
+    "/serials"
+  );
+
+  const { data: results, isLoading } = useQuery<SerialHistory[]>({
+    queryKey: ["serial-lookup", term],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("serial_numbers")
+        .select(
+          "*, inventory_items(name, sku), locations(name), serial_events(*, locations(name), stock_movements(reason, reference_type, reference_id))"
+        )
+        .ilike("serial", term)
+        .order("created_at", { referencedTable: "serial_events", ascending: true });
+      if (error) throw error;
+      return data as SerialHistory[];
+    },
+    enabled: !!user && !loading && !!term,
+  });
+
+  const search = () => {
+    if (draft.trim()) setSearchParams({ serial: draft.trim() });
+  };
+
+  return (
+    <div className="min-h-screen bg-background">
+      <header className="border-b bg-card">
+        <div className="container mx-auto px-4 py-4 flex items-center justify-between">
+          <div className="flex items-center gap-2">
+            <h1 className="text-xl font-bold">Serial Lookup</h1>
+          </div>
+          <div className="flex items-center gap-2">
+            <Button variant="outline" onClick={() => navigate("/inventory")}>Inventory</Button>
+            <Button variant="outline" onClick={() => navigate("/")}>Dashboard</Button>
+          </div>
+        </div>
+      </header>
+
+      <main className="container mx-auto px-4 py-8 space-y-8">
+        <form
+          className="flex gap-2 max-w-lg"
+          onSubmit={(e) => {
+            e.preventDefault();
+            search();
+          }}
+        >
+          <Input
+            value={draft}
+            onChange={(e) => setDraft(e.target.value)}
+            placeholder="Type or scan a serial number"
+            aria-label="Serial number"
+            autoFocus
+          />
+          <Button type="submit">
+            <Search className="mr-2 h-4 w-4" /> Look up
+          </Button>
+        </form>
+
+        {!term ? null : isLoading ? (
+          <div className="flex items-center gap-2 text-muted-foreground"><PackageSearch className="h-4 w-4" /> Searching...</div>
+        ) : !results?.length ? (
+          <div className="text-center text-muted-foreground py-8">No unit with serial number "{term}".</div>
+        ) : (
+          results.map((unit) => (
+            <Card key={unit.id}>
+              <CardHeader>
+                <CardTitle className="text-2xl">{unit.serial}</CardTitle>
+                <CardDescription>
+                  <button className="hover:underline" onClick={() => navigate(`/inventory/${unit.item_id}`)}>
+                    {unit.inventory_items?.name ?? "Unknown item"}
+                  </button>
+                  {" · "}
+                  {STATUS_LABELS[unit.status] ?? unit.status}
+                  {unit.locations ? ` at ${unit.locations.name}` : ""}
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                {unit.serial_events.length ? (
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>When</TableHead>
+                        <TableHead>Event</TableHead>
+                        <TableHead>Location</TableHead>
+                        <TableHead>Reason</TableHead>
+                        <TableHead>Note</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {unit.serial_events.map((event) => {
+                        const style = EVENT_STYLES[event.event] ?? { label: event.event, variant: "outline" };
+                        const movement = event.stock_movements;
+                        const path = movement?.reference_type ? REFERENCE_PATHS[movement.reference_type] : undefined;
+                        return (
+                          <TableRow key={event.id}>
+                            <TableCell>{new Date(event.created_at).toLocaleString()}</TableCell>
+                            <TableCell><Badge variant={style.variant}>{style.label}</Badge></TableCell>
+                            <TableCell>{event.locations?.name ?? "-"}</TableCell>
+                            <TableCell>
+                              {path && movement?.reference_id ? (
+                                <button className="hover:underline" onClick={() => navigate(`${path}/${movement.reference_id}`)}>
+                                  {movement.reason}
+                                </button>
+                              ) : (
+                                movement?.reason ?? "-"
+                              )}
+                            </TableCell>
+                            <TableCell>{event.note || "-"}</TableCell>
+                          </TableRow>
+                        );
+                      })}
+                    </TableBody>
+                  </Table>
+                ) : (
+                  <div className="text-center text-muted-foreground py-4">No history yet.</div>
+                )}
+              </CardContent>
+            </Card>
+          ))
+        )}
+      </main>
+    </div>
+  );
+};
+
+export default SerialLookup;
@@ -0,0 +1,407 @@
+import { useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/hooks/useAuth";
+import { useToast } from "@/hooks/use-toast";
+import { usePageMeta } from "@/hooks/usePageMeta";
+import { useProfile } from "@/hooks/useProfile";
+import { useExchangeRates } from "@/hooks/useExchangeRates";
+import { useAdjustmentReasons } from "@/hooks/useAdjustmentReasons";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { BUILT_IN_REASONS, isBuiltInReason, reasonCode } from "@/lib/adjustments";
+import { DEFAULT_CURRENCY, isCurrencyCode } from "@/lib/currency";
+import { COSTING_METHODS, isCostingMethod, type CostingMethod } from "@/lib/valuation";
+import { Plus, Trash2 } from "lucide-react";
+
+const Settings = () => {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const navigate = useNavigate();
+  const queryClient = useQueryClient();
+
+  usePageMeta(
+    "Settings | Inventory Tonic",
+    "Choose your base currency, exchange rates, costing method and adjustment reasons.",
+    "/settings"
+  );
+
+  const { data: profile } = useProfile();
+  const { data: rates } = useExchangeRates();
+  const { data: customReasons } = useAdjustmentReasons();
+  const baseCurrency = profile?.base_currency ?? DEFAULT_CURRENCY;
+  const costingMethod = isCostingMethod(profile?.costing_method) ? profile.costing_method : "fifo";
+
+  const [baseDraft, setBaseDraft] = useState<string | null>(null);
+  const [fromCurrency, setFromCurrency] = useState("");
+  const [toCurrency, setToCurrency] = useState("");
+  const [rate, setRate] = useState("");
+  const [reasonName, setReasonName] = useState("");
+
+  const saveBaseCurrency = useMutation({
+    mutationFn: async () => {
+      if (!user) throw new Error("Not authenticated");
+      const code = (baseDraft ?? baseCurrency).trim().toUpperCase();
+      if (!isCurrencyCode(code)) throw new Error("Currency must be a 3-letter code, e.g. USD");
+
+      // Accounts created before profiles existed may not have one yet
+      const { error } = await supabase
+        .from("profiles")
+        .upsert({ user_id: user.id, base_currency: code }, { onConflict: "user_id" });
+      if (error) throw error;
+      return code;
+    },
+    onSuccess: (code) => {
+      queryClient.invalidateQueries({ queryKey: ["profile"] });
+      setBaseDraft(null);
+      toast({ title: "Base currency saved", description: `Totals and reports are now shown in ${code}.` });
+    },
+    onError: (err: Error) => {
+      toast({ title: "Save failed", description: err.message || "Could not save base currency.", variant: "destructive" });
+    },
+  });
+
+  const saveCostingMethod = useMutation({
+    mutationFn: async (method: CostingMethod) => {
+      if (!user) throw new Error("Not authenticated");
+      const { error } = await supabase
+        .from("profiles")
+        .upsert({ user_id: user.id, costing_method: method }, { onConflict: "user_id" });
+      if (error) throw error;
+      return method;
+    },
+    onSuccess: (method) => {
+      queryClient.invalidateQueries({ queryKey: ["profile"] });
+      const label = COSTING_METHODS.find((m) => m.value === method)?.label ?? method;
+      toast({ title: "Costing method saved", description: `Stock is now valued using ${label}.` });
+    },
+    onError: (err: Error) => {
+      toast({ title: "Save failed", description: err.message || "Could not save costing method.", variant: "destructive" });
+    },
+  });
+
+  const addRate = useMutation({
+    mutationFn: async () => {
+      if (!user) throw new Error("Not authenticated");
+      const from = fromCurrency.trim().toUpperCase();
+      const to = (toCurrency.trim() || baseCurrency).toUpperCase();
+      const value = parseFloat(rate);
+      if (!isCurrencyCode(from) || !isCurrencyCode(to)) throw new Error("Currencies must be 3-letter codes, e.g. EUR");
+      if (from === to) throw new Error("Choose two different currencies");
+      if (!Number.isFinite(value) || value <= 0) throw new Error("Rate must be positive");
+
+      const { error } = await supabase
+        .from("exchange_rates")
+        .upsert(
+          { user_id: user.id, from_currency: from, to_currency: to, rate: value },
+          { onConflict: "user_id,from_currency,to_currency" }
+        );
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["exchange-rates"] });
+      setFromCurrency("");
+      setToCurrency("");
+      setRate("");
+    },
+    onError: (err: Error) => {
+      toast({ title: "Add failed", description: err.message || "Could not save exchange rate.", variant: "destructive" });
+    },
+  });
+
+  const updateRate = useMutation({
+    mutationFn: async ({ id, rate }: { id: string; rate: number }) => {
+      const { error } = await supabase.from("exchange_rates").update({ rate }).eq("id", id);
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["exchange-rates"] });
+    },
+    onError: (err: Error) => {
+      toast({ title: "Update failed", description: err.message || "Could not update exchange rate.", variant: "destructive" });
+    },
+  });
+
+  const deleteRate = useMutation({
+    mutationFn: async (id: string) => {
+      const { error } = await supabase.from("exchange_rates").delete().eq("id", id);
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["exchange-rates"] });
+    },
+    onError: (err: Error) => {
+      toast({ title: "Delete failed", description: err.message || "Could not delete exchange rate.", variant: "destructive" });
+    },
+  });
+
+  const addReason = useMutation({
+    mutationFn: async () => {
+      if (!user) throw new Error("Not authenticated");
+      const name = reasonName.trim();
+      const code = reasonCode(name);
+      if (!code) throw new Error("Name the reason with at least one letter or number");
+      if (isBuiltInReason(code)) throw new Error(`${name} is already a built-in reason`);
+
+      const { error } = await supabase.from("adjustment_reasons").insert({ user_id: user.id, code, name });
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["adjustment-reasons"] });
+      setReasonName("");
+    },
+    onError: (err: Error) => {
+      toast({ title: "Add failed", description: err.message || "Could not add reason.", variant: "destructive" });
+    },
+  });
+
+  const deleteReason = useMutation({
+    mutationFn: async (id: string) => {
+      const { error } = await supabase.from("adjustment_reasons").delete().eq("id", id);
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["adjustment-reasons"] });
+    },
+    onError: (err: Error) => {
+      toast({ title: "Delete failed", description: err.message || "Could not delete reason.", variant: "destructive" });
+    },
+  });
+
+  return (
+    <div className="min-h-screen bg-background">
+      <header className="border-b bg-card">
+        <div className="container mx-auto px-4 py-4 flex items-center justify-between">
+          <div className="flex items-center gap-2">
+            <h1 className="text-xl font-bold">Settings</h1>
+          </div>
+          <div className="flex items-center gap-2">
+            <Button variant="outline" onClick={() => navigate("/inventory")}>Inventory</Button>
+            <Button variant="outline" onClick={() => navigate("/")}>Dashboard</Button>
+          </div>
+        </div>
+      </header>
+
+      <main className="container mx-auto px-4 py-8 space-y-8">
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-2xl">Base Currency</CardTitle>
+            <CardDescription>Totals and reports are converted to this currency</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <div className="flex items-end gap-2">
+              <div>
+                <Label htmlFor="base_currency">Currency</Label>
+                <Input
+                  id="base_currency"
+                  value={baseDraft ?? baseCurrency}
+                  onChange={(e) => setBaseDraft(e.target.value)}
+                  maxLength={3}
+                  className="w-28"
+                  placeholder="e.g. USD"
+                />
+              </div>
+              <Button
+                onClick={() => saveBaseCurrency.mutate()}
+                disabled={saveBaseCurrency.isPending || baseDraft === null}
+              >
+                Save
+              </Button>
+            </div>
+            <p className="text-sm text-muted-foreground mt-2">
+              New items and sales orders are priced in the base currency unless you pick another.
+            </p>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-2xl">Exchange Rates</CardTitle>
+            <CardDescription>
+              Rates you maintain yourself. Each one works in both directions, so EUR → {baseCurrency} also converts{" "}
+              {baseCurrency} → EUR.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {rates?.length ? (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>From</TableHead>
+                    <TableHead>To</TableHead>
+                    <TableHead className="text-right">Rate</TableHead>
+                    <TableHead>Updated</TableHead>
+                    <TableHead />
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {rates.map((r) => (
+                    <TableRow key={r.id}>
+                      <TableCell className="font-medium">1 {r.from_currency}</TableCell>
+                      <TableCell>{r.to_currency}</TableCell>
+                      <TableCell className="text-right">
+                        <Input
+                          key={`${r.id}:${r.rate}`}
+                          type="number"
+                          inputMode="decimal"
+                          min={0}
+                          step="any"
+                          defaultValue={r.rate}
+                          onBlur={(e) => {
+                            const next = parseFloat(e.target.value);
+                            if (Number.isFinite(next) && next > 0 && next !== r.rate) {
+                              updateRate.mutate({ id: r.id, rate: next });
+                            }
+                          }}
+                          className="w-32 ml-auto text-right"
+                          aria-label={`${r.to_currency} per ${r.from_currency}`}
+                        />
+                      </TableCell>
+                      <TableCell>{new Date(r.updated_at).toLocaleDateString()}</TableCell>
+                      <TableCell className="text-right">
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => deleteRate.mutate(r.id)}
+                          aria-label={`Delete ${r.from_currency} to ${r.to_currency} rate`}
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            ) : (
+              <p className="text-sm text-muted-foreground">
+                No exchange rates yet. Amounts in other currencies are left out of converted totals until you add one.
+              </p>
+            )}
+
+            <div className="grid grid-cols-[6rem_6rem_8rem_auto] gap-2 items-end">
+              <div>
+                <Label htmlFor="rate_from">From</Label>
+                <Input
+                  id="rate_from"
+                  value={fromCurrency}
+                  onChange={(e) => setFromCurrency(e.target.value)}
+                  maxLength={3}
+                  placeholder="e.g. EUR"
+                />
+              </div>
+              <div>
+                <Label htmlFor="rate_to">To</Label>
+                <Input
+                  id="rate_to"
+                  value={toCurrency}
+                  onChange={(e) => setToCurrency(e.target.value)}
+                  maxLength={3}
+                  placeholder={baseCurrency}
+                />
+              </div>
+              <div>
+                <Label htmlFor="rate_value">Rate</Label>
+                <Input
+                  id="rate_value"
+                  type="number"
+                  inputMode="decimal"
+                  min={0}
+                  step="any"
+                  value={rate}
+                  onChange={(e) => setRate(e.target.value)}
+                  placeholder="e.g. 1.08"
+                />
+              </div>
+              <Button onClick={() => addRate.mutate()} disabled={addRate.isPending}>
+                <Plus className="mr-2 h-4 w-4" /> Save Rate
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-2xl">Inventory Valuation</CardTitle>
+            <CardDescription>How stock on hand and cost of goods sold are valued by default</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <Label>Costing Method</Label>
+            <Select
+              value={costingMethod}
+              onValueChange={(value) => isCostingMethod(value) && saveCostingMethod.mutate(value)}
+              disabled={saveCostingMethod.isPending}
+            >
+              <SelectTrigger className="w-60" aria-label="Costing method">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {COSTING_METHODS.map((m) => (
+                  <SelectItem key={m.value} value={m.value}>
+                    {m.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <p className="text-sm text-muted-foreground mt-2">
+              Costs come from what you paid on each receipt. The valuation report can compare the other methods.
+            </p>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-2xl">Adjustment Reasons</CardTitle>
+            <CardDescription>Every stock adjustment needs one. Add your own next to the built-in reasons.</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="flex flex-wrap gap-2">
+              {BUILT_IN_REASONS.map((r) => (
+                <Badge key={r.code} variant="secondary">
+                  {r.name}
+                </Badge>
+              ))}
+              {customReasons?.map((r) => (
+                <Badge key={r.id} variant="outline" className="gap-1 pr-1">
+                  {r.name}
+                  <button
+                    type="button"
+                    onClick={() => deleteReason.mutate(r.id)}
+                    className="rounded-sm opacity-70 hover:opacity-100"
+                    aria-label={`Delete ${r.name} reason`}
+                  >
+                    <Trash2 className="h-3 w-3" />
+                  </button>
+                </Badge>
+              ))}
+            </div>
+            <div className="flex gap-2 items-end">
+              <div>
+                <Label htmlFor="reason_name">New Reason</Label>
+                <Input
+                  id="reason_name"
+                  value={reasonName}
+                  onChange={(e) => setReasonName(e.target.value)}
+                  placeholder="e.g. Water damage"
+                />
+              </div>
+              <Button onClick={() => addReason.mutate()} disabled={addReason.isPending || !reasonName.trim()}>
+                <Plus className="mr-2 h-4 w-4" /> Add Reason
+              </Button>
+            </div>
+            <p className="text-sm text-muted-foreground">
+              Deleting a reason keeps it on adjustments already made; it just can't be picked any more.
+            </p>
+          </CardContent>
+        </Card>
+      </main>
+    </div>
+  );
+};
+
+export default Settings;
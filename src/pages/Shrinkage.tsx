@@ -0,0 +1,333 @@
+import { useMemo, useState } from "react";
+import { useNavigate, useSearchParams } from "react-router-dom";
+import { usePageMeta } from "@/hooks/usePageMeta";
+import { useAdjustmentReasons } from "@/hooks/useAdjustmentReasons";
+import { useInventoryItems } from "@/hooks/useInventoryItems";
+import { useStockMovements, type StockMovement } from "@/hooks/useStockMovements";
+import { useUnits } from "@/hooks/useUnits";
+import { useProfile } from "@/hooks/useProfile";
+import { useCurrency } from "@/hooks/useCurrency";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import {
+  BUILT_IN_REASONS,
+  SHRINKAGE_PERIODS,
+  isShrinkagePeriod,
+  periodLabel,
+  periodStart,
+  periodsBetween,
+} from "@/lib/adjustments";
+import { formatMoney } from "@/lib/currency";
+import { dateFromToday, parseDate } from "@/lib/lots";
+import { formatQuantity } from "@/lib/units";
+import { COSTING_METHODS, isCostingMethod, valueLedger } from "@/lib/valuation";
+import { PackageSearch } from "lucide-react";
+
+// Stocktake variances have no reason of their own, and adjustments from
+// before reason codes existed have none recorded
+const STOCKTAKE = "stocktake";
+const NO_REASON = "";
+
+interface ReasonRow {
+  key: string;
+  label: string;
+  byPeriod: Map<number, number>;
+  value: number;
+  count: number;
+}
+
+interface ItemRow {
+  id: string;
+  name: string;
+  sku: string | null;
+  unitId: string;
+  quantity: number;
+  value: number;
+}
+
+/** Losses and gains are manual adjustments and stocktake variances; everything else has a business reason. */
+const isShrinkage = (m: StockMovement) => m.reason === "adjustment" || m.reason === STOCKTAKE;
+
+const reasonKey = (m: StockMovement) => (m.reason === STOCKTAKE ? STOCKTAKE : m.reason_code ?? NO_REASON);
+
+const Shrinkage = () => {
+  const navigate = useNavigate();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const [from, setFrom] = useState(() => {
+    const today = new Date();
+    return dateFromToday(0, new Date(today.getFullYear(), today.getMonth() - 5, 1));
+  });
+  const [to, setTo] = useState(() => dateFromToday(0));
+
+  usePageMeta(
+    "Shrinkage | Inventory Tonic",
+    "Stock lost to damage, theft, expiry and count differences, by reason and period.",
+    "/shrinkage"
+  );
+
+  const { data: items, isLoading: itemsLoading } = useInventoryItems();
+  const { data: movements, isLoading: movementsLoading } = useStockMovements();
+  const { data: customReasons } = useAdjustmentReasons();
+  const { data: units } = useUnits();
+  const { data: profile } = useProfile();
+  const { baseCurrency, toBase } = useCurrency();
+
+  const requested = searchParams.get("period");
+  const period = isShrinkagePeriod(requested) ? requested : "month";
+  const setPeriod = (value: string) => setSearchParams({ period: value }, { replace: true });
+  const method = isCostingMethod(profile?.costing_method) ? profile.costing_method : "fifo";
+
+  const unitsById = useMemo(() => new Map(units?.map((u) => [u.id, u]) ?? []), [units]);
+  const reasonNames = useMemo(
+    () =>
+      new Map<string, string>([
+        ...BUILT_IN_REASONS.map((r): [string, string] => [r.code, r.name]),
+        ...(customReasons ?? []).map((r): [string, string] => [r.code, r.name]),
+        [STOCKTAKE, "Stocktake variance"],
+        [NO_REASON, "No reason given"],
+      ]),
+    [customReasons]
+  );
+
+  // Losses are valued at what the stock cost under the account's costing method
+  const { valuations, missingRates } = useMemo(
+    () => valueLedger(movements ?? [], method, toBase),
+    [movements, method, toBase]
+  );
+
+  const periods = useMemo(
+    () => (from && to ? periodsBetween(parseDate(from), parseDate(to), period) : []),
+    [from, to, period]
+  );
+
+  const { reasons, byItem, totals } = useMemo(() => {
+    const start = from ? parseDate(from).getTime() : -Infinity;
+    const end = to ? parseDate(dateFromToday(1, parseDate(to))).getTime() : Infinity;
+    const itemsById = new Map(items?.map((it) => [it.id, it]) ?? []);
+
+    const reasonMap = new Map<string, ReasonRow>();
+    const itemMap = new Map<string, ItemRow>();
+    const totals = { lost: 0, recovered: 0 };
+    movements?.forEach((m) => {
+      if (!isShrinkage(m)) return;
+      const at = new Date(m.created_at);
+      if (at.getTime() < start || at.getTime() >= end) return;
+
+      if (m.delta > 0) {
+        const unitCost = m.unit_cost != null && m.cost_currency ? toBase(m.unit_cost, m.cost_currency) : null;
+        totals.recovered += m.delta * (unitCost ?? 0);
+        return;
+      }
+
+      const value = valuations.get(m.item_id)?.outboundCost.get(m.id) ?? 0;
+      totals.lost += value;
+
+      const key = reasonKey(m);
+      const row = reasonMap.get(key) ?? {
+        key,
+        label: reasonNames.get(key) ?? key,
+        byPeriod: new Map<number, number>(),
+        value: 0,
+        count: 0,
+      };
+      const bucket = periodStart(at, period).getTime();
+      row.byPeriod.set(bucket, (row.byPeriod.get(bucket) ?? 0) + value);
+      row.value += value;
+      row.count += 1;
+      reasonMap.set(key, row);
+
+      const item = itemsById.get(m.item_id);
+      if (!item) return;
+      const entry = itemMap.get(item.id) ?? {
+        id: item.id,
+        name: item.name,
+        sku: item.sku,
+        unitId: item.unit_id,
+        quantity: 0,
+        value: 0,
+      };
+      entry.quantity -= m.delta;
+      entry.value += value;
+      itemMap.set(item.id, entry);
+    });
+
+    return {
+      reasons: Array.from(reasonMap.values()).sort((a, b) => b.value - a.value || a.label.localeCompare(b.label)),
+      byItem: Array.from(itemMap.values()).sort((a, b) => b.value - a.value || a.name.localeCompare(b.name)),
+      totals,
+    };
+  }, [items, movements, valuations, reasonNames, toBase, from, to, period]);
+
+  const periodTotal = (start: Date) => reasons.reduce((sum, r) => sum + (r.byPeriod.get(start.getTime()) ?? 0), 0);
+  const money = (amount: number) => formatMoney(amount, baseCurrency);
+  const methodLabel = COSTING_METHODS.find((m) => m.value === method)?.label ?? method;
+
+  return (
+    <div className="min-h-screen bg-background">
+      <header className="border-b bg-card">
+        <div className="container mx-auto px-4 py-4 flex items-center justify-between">
+          <div className="flex items-center gap-2">
+            <h1 className="text-xl font-bold">Shrinkage</h1>
+          </div>
+          <div className="flex items-center gap-2">
+            <Button variant="outline" onClick={() => navigate("/valuation")}>Valuation</Button>
+            <Button variant="outline" onClick={() => navigate("/inventory")}>Inventory</Button>
+            <Button variant="outline" onClick={() => navigate("/")}>Dashboard</Button>
+          </div>
+        </div>
+      </header>
+
+      <main className="container mx-auto px-4 py-8 space-y-8">
+        <div className="flex flex-wrap items-end gap-4">
+          <div>
+            <Label>Period</Label>
+            <Select value={period} onValueChange={setPeriod}>
+              <SelectTrigger className="w-40" aria-label="Period">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {SHRINKAGE_PERIODS.map((p) => (
+                  <SelectItem key={p.value} value={p.value}>
+                    {p.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div>
+            <Label htmlFor="shrinkage_from">From</Label>
+            <Input id="shrinkage_from" type="date" value={from} onChange={(e) => setFrom(e.target.value)} />
+          </div>
+          <div>
+            <Label htmlFor="shrinkage_to">To</Label>
+            <Input id="shrinkage_to" type="date" value={to} onChange={(e) => setTo(e.target.value)} />
+          </div>
+        </div>
+
+        {itemsLoading || movementsLoading ? (
+          <div className="flex items-center gap-2 text-muted-foreground"><PackageSearch className="h-4 w-4" /> Loading stock movements...</div>
+        ) : (
+          <>
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+              <Card>
+                <CardHeader>
+                  <CardDescription>Stock lost</CardDescription>
+                  <CardTitle className="text-2xl">{money(totals.lost)}</CardTitle>
+                </CardHeader>
+              </Card>
+              <Card>
+                <CardHeader>
+                  <CardDescription>Stock found or counted over</CardDescription>
+                  <CardTitle className="text-2xl">{money(totals.recovered)}</CardTitle>
+                </CardHeader>
+              </Card>
+              <Card>
+                <CardHeader>
+                  <CardDescription>Net shrinkage</CardDescription>
+                  <CardTitle className="text-2xl">{money(totals.lost - totals.recovered)}</CardTitle>
+                </CardHeader>
+              </Card>
+            </div>
+
+            <p className="text-sm text-muted-foreground">
+              Covers stock adjustments and stocktake variances, valued at cost using {methodLabel}.
+              {missingRates.length ? ` Add a rate to ${baseCurrency} for ${missingRates.join(", ")} to include those costs.` : ""}
+            </p>
+
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-2xl">By Reason</CardTitle>
+                <CardDescription>Value lost in {baseCurrency}, largest first</CardDescription>
+              </CardHeader>
+              <CardContent>
+                {!reasons.length ? (
+                  <div className="text-center text-muted-foreground py-8">No stock was lost in this period.</div>
+                ) : (
+                  <div className="w-full overflow-x-auto">
+                    <Table>
+                      <TableHeader>
+                        <TableRow>
+                          <TableHead>Reason</TableHead>
+                          <TableHead className="text-right">Adjustments</TableHead>
+                          {periods.map((start) => (
+                            <TableHead key={start.getTime()} className="text-right whitespace-nowrap">
+                              {periodLabel(start, period)}
+                            </TableHead>
+                          ))}
+                          <TableHead className="text-right">Total</TableHead>
+                        </TableRow>
+                      </TableHeader>
+                      <TableBody>
+                        {reasons.map((row) => (
+                          <TableRow key={row.key}>
+                            <TableCell className="font-medium">{row.label}</TableCell>
+                            <TableCell className="text-right">{row.count}</TableCell>
+                            {periods.map((start) => (
+                              <TableCell key={start.getTime()} className="text-right">
+                                {row.byPeriod.has(start.getTime()) ? money(row.byPeriod.get(start.getTime()) ?? 0) : "-"}
+                              </TableCell>
+                            ))}
+                            <TableCell className="text-right">{money(row.value)}</TableCell>
+                          </TableRow>
+                        ))}
+                        <TableRow className="font-semibold">
+                          <TableCell>Total</TableCell>
+                          <TableCell className="text-right">{reasons.reduce((sum, r) => sum + r.count, 0)}</TableCell>
+                          {periods.map((start) => (
+                            <TableCell key={start.getTime()} className="text-right">
+                              {money(periodTotal(start))}
+                            </TableCell>
+                          ))}
+                          <TableCell className="text-right">{money(totals.lost)}</TableCell>
+                        </TableRow>
+                      </TableBody>
+                    </Table>
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+
+            {byItem.length ? (
+              <Card>
+                <CardHeader>
+                  <CardTitle className="text-2xl">By Item</CardTitle>
+                  <CardDescription>Where the losses came from</CardDescription>
+                </CardHeader>
+                <CardContent>
+                  <div className="w-full overflow-x-auto">
+                    <Table>
+                      <TableHeader>
+                        <TableRow>
+                          <TableHead>Item</TableHead>
+                          <TableHead>SKU</TableHead>
+                          <TableHead className="text-right">Quantity Lost</TableHead>
+                          <TableHead className="text-right">Value</TableHead>
+                        </TableRow>
+                      </TableHeader>
+                      <TableBody>
+                        {byItem.map((row) => (
+                          <TableRow key={row.id}>
+                            <TableCell className="font-medium">{row.name}</TableCell>
+                            <TableCell>{row.sku || "-"}</TableCell>
+                            <TableCell className="text-right">{formatQuantity(row.quantity, unitsById.get(row.unitId))}</TableCell>
+                            <TableCell className="text-right">{money(row.value)}</TableCell>
+                          </TableRow>
+                        ))}
+                      </TableBody>
+                    </Table>
+                  </div>
+                </CardContent>
+              </Card>
+            ) : null}
+          </>
+        )}
+      </main>
+    </div>
+  );
+};
+
+export default Shrinkage;
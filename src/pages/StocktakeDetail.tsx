@@ -0,0 +1,379 @@
+import { useMemo, useState } from "react";
+import { useNavigate, useParams } from "react-router-dom";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/hooks/useAuth";
+import { useToast } from "@/hooks/use-toast";
+import { usePageMeta } from "@/hooks/usePageMeta";
+import { useInventoryItems } from "@/hooks/useInventoryItems";
+import { useInTransitTransfers, useStockLevels } from "@/hooks/useLocations";
+import { useUnits } from "@/hooks/useUnits";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import StocktakeStatusBadge from "@/components/stocktakes/StocktakeStatusBadge";
+import type { Tables } from "@/integrations/supabase/types";
+import { formatQuantity, quantityStep } from "@/lib/units";
+import { CheckCircle2, ScanLine, XCircle } from "lucide-react";
+
+type StocktakeLine = Tables<"stocktake_lines"> & {
+  inventory_items: { name: string; sku: string | null; unit_id: string } | null;
+};
+
+type Stocktake = Tables<"stocktakes"> & {
+  locations: { name: string } | null;
+  stocktake_lines: StocktakeLine[];
+};
+
+// Other counters' entries show up within this many milliseconds
+const REFRESH_MS = 5000;
+
+const StocktakeDetail = () => {
+  const { id } = useParams<{ id: string }>();
+  const { user, loading } = useAuth();
+  const { toast } = useToast();
+  const navigate = useNavigate();
+  const queryClient = useQueryClient();
+
+  const [code, setCode] = useState("");
+  const [scanQty, setScanQty] = useState("1");
+
+  usePageMeta(
+    "Stocktake | Inventory Tonic",
+    "Count stock, review variances and post the stocktake.",
+    `/stocktakes/${id}`
+  );
+
+  const { data: items } = useInventoryItems();
+  const { data: stockLevels } = useStockLevels();
+  const { data: transfers } = useInTransitTransfers();
+  const { data: units } = useUnits();
+
+  const { data: stocktake, isLoading } = useQuery<Stocktake | null>({
+    queryKey: ["stocktakes", id],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("stocktakes")
+        .select("*, locations(name), stocktake_lines(*, inventory_items(name, sku, unit_id))")
+        .eq("id", id!)
+        .maybeSingle();
+      if (error) throw error;
+      return data as Stocktake | null;
+    },
+    enabled: !!user && !loading && !!id,
+    // Several devices may be counting the same session
+    refetchInterval: (query) => (query.state.data?.status === "counting" ? REFRESH_MS : false),
+  });
+
+  const lines = useMemo(
+    () =>
+      [...(stocktake?.stocktake_lines ?? [])].sort((a, b) =>
+        (a.inventory_items?.name ?? "").localeCompare(b.inventory_items?.name ?? "")
+      ),
+    [stocktake]
+  );
+  const unitsById = useMemo(() => new Map(units?.map((u) => [u.id, u]) ?? []), [units]);
+  const currentLevels = useMemo(
+    () =>
+      new Map(
+        stockLevels?.filter((l) => l.location_id === stocktake?.location_id).map((l) => [l.item_id, l.quantity]) ?? []
+      ),
+    [stockLevels, stocktake?.location_id]
+  );
+  // Items on their way into or out of the location aren't on the shelf to count
+  const inTransit = useMemo(
+    () =>
+      new Set(
+        transfers
+          ?.filter((t) => t.from_location_id === stocktake?.location_id || t.to_location_id === stocktake?.location_id)
+          .map((t) => t.item_id) ?? []
+      ),
+    [transfers, stocktake?.location_id]
+  );
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: ["stocktakes"] });
+  };
+
+  const confirmCount = (itemId: string, name: string) =>
+    !inTransit.has(itemId) ||
+    confirm(`${name} has a transfer in transit to or from this location, so some units may not be on the shelf. Count it anyway?`);
+
+  const countItem = useMutation({
+    mutationFn: async ({ itemId, quantity, add }: { itemId: string; quantity: number; add: boolean }) => {
+      if (!stocktake) throw new Error("Stocktake not found");
+      if (!Number.isFinite(quantity) || quantity < 0) throw new Error("Enter the quantity counted");
+      const { data, error } = await supabase.rpc("count_stocktake_item", {
+        _stocktake_id: stocktake.id,
+        _item_id: itemId,
+        _quantity: quantity,
+        _add: add,
+      });
+      if (error) throw error;
+      return data;
+    },
+    onSuccess: invalidate,
+    onError: (err: Error) => {
+      toast({ title: "Count failed", description: err.message || "Could not record the count.", variant: "destructive" });
+    },
+  });
+
+  const scan = () => {
+    const sku = code.trim().toLowerCase();
+    if (!sku) return;
+    const item = items?.find((it) => it.sku?.toLowerCase() === sku);
+    if (!item) {
+      toast({ title: "Unknown SKU", description: `No item has the SKU "${code.trim()}".`, variant: "destructive" });
+      return;
+    }
+    if (!confirmCount(item.id, item.name)) return;
+    countItem.mutate(
+      { itemId: item.id, quantity: parseFloat(scanQty || "1"), add: true },
+      { onSuccess: () => setCode("") }
+    );
+  };
+
+  const post = useMutation({
+    mutationFn: async () => {
+      const { error } = await supabase.rpc("post_stocktake", { _stocktake_id: id! });
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      invalidate();
+      queryClient.invalidateQueries({ queryKey: ["inventory-items"] });
+      queryClient.invalidateQueries({ queryKey: ["stock-levels"] });
+      queryClient.invalidateQueries({ queryKey: ["stock-movements"] });
+      toast({ title: "Stocktake posted", description: "Variances were booked as stock adjustments." });
+    },
+    onError: (err: Error) => {
+      toast({ title: "Post failed", description: err.message || "Could not post stocktake.", variant: "destructive" });
+    },
+  });
+
+  const cancel = useMutation({
+    mutationFn: async () => {
+      const { error } = await supabase.rpc("cancel_stocktake", { _stocktake_id: id! });
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      invalidate();
+      toast({ title: "Stocktake cancelled", description: "No stock was changed." });
+    },
+    onError: (err: Error) => {
+      toast({ title: "Cancel failed", description: err.message || "Could not cancel stocktake.", variant: "destructive" });
+    },
+  });
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-background">
+        <p className="text-muted-foreground">Loading...</p>
+      </div>
+    );
+  }
+
+  if (!stocktake) {
+    return (
+      <div className="min-h-screen flex flex-col items-center justify-center gap-4 bg-background">
+        <p className="text-muted-foreground">Stocktake not found.</p>
+        <Button variant="outline" onClick={() => navigate("/stocktakes")}>Back to Stocktakes</Button>
+      </div>
+    );
+  }
+
+  const counting = stocktake.status === "counting";
+  // Posting books counts against the stock on hand then, not the snapshot
+  const varianceOf = (line: (typeof lines)[number]) =>
+    counting && line.counted_quantity !== null
+      ? line.counted_quantity - (currentLevels.get(line.item_id) ?? 0)
+      : line.variance;
+  const counted = lines.filter((l) => l.counted_quantity !== null).length;
+  const withVariance = lines.filter((l) => {
+    const variance = varianceOf(l);
+    return variance !== null && variance !== 0;
+  }).length;
+
+  return (
+    <div className="min-h-screen bg-background">
+      <header className="border-b bg-card">
+        <div className="container mx-auto px-4 py-4 flex items-center justify-between">
+          <div className="flex items-center gap-3">
+            <h1 className="text-xl font-bold">{stocktake.reference || `Stocktake ${stocktake.id.slice(0, 8)}`}</h1>
+            <StocktakeStatusBadge status={stocktake.status} />
+          </div>
+          <div className="flex items-center gap-2">
+            <Button variant="outline" onClick={() => navigate("/stocktakes")}>All Stocktakes</Button>
+            <Button variant="outline" onClick={() => navigate("/")}>Dashboard</Button>
+          </div>
+        </div>
+      </header>
+
+      <main className="container mx-auto px-4 py-8 space-y-8">
+        <Card>
+          <CardHeader className="flex flex-row items-start justify-between space-y-0">
+            <div>
+              <CardTitle className="text-2xl">{stocktake.locations?.name}</CardTitle>
+              <CardDescription>
+                Started {new Date(stocktake.created_at).toLocaleString()}
+                {stocktake.posted_at ? ` · Posted ${new Date(stocktake.posted_at).toLocaleString()}` : ""}
+              </CardDescription>
+              <p className="text-sm text-muted-foreground mt-2">
+                {counted} of {lines.length} counted · {withVariance} with a variance
+              </p>
+            </div>
+            {counting ? (
+              <div className="flex gap-2">
+                <Button
+                  onClick={() => {
+                    if (confirm(`Post ${withVariance} adjustment${withVariance === 1 ? "" : "s"}? Items nobody counted are left as they are.`)) {
+                      post.mutate();
+                    }
+                  }}
+                  disabled={post.isPending || !counted}
+                >
+                  <CheckCircle2 className="mr-2 h-4 w-4" /> Post
+                </Button>
+                <Button
+                  variant="outline"
+                  onClick={() => {
+                    if (confirm("Cancel this stocktake? The counts will be discarded.")) cancel.mutate();
+                  }}
+                  disabled={cancel.isPending}
+                >
+                  <XCircle className="mr-2 h-4 w-4" /> Cancel
+                </Button>
+              </div>
+            ) : null}
+          </CardHeader>
+          {counting ? (
+            <CardContent>
+              <form
+                className="flex flex-wrap items-end gap-2"
+                onSubmit={(e) => {
+                  e.preventDefault();
+                  scan();
+                }}
+              >
+                <div className="flex-1 min-w-48">
+                  <Label htmlFor="count_code">Scan or enter SKU</Label>
+                  <Input
+                    id="count_code"
+                    value={code}
+                    onChange={(e) => setCode(e.target.value)}
+                    placeholder="Each scan adds to the count"
+                    autoFocus
+                  />
+                </div>
+                <div>
+                  <Label htmlFor="count_qty">Quantity</Label>
+                  <Input
+                    id="count_qty"
+                    type="number"
+                    inputMode="decimal"
+                    min={0}
+                    step="any"
+                    value={scanQty}
+                    onChange={(e) => setScanQty(e.target.value)}
+                    className="w-24"
+                  />
+                </div>
+                <Button type="submit" disabled={countItem.isPending}>
+                  <ScanLine className="mr-2 h-4 w-4" /> Add
+                </Button>
+              </form>
+            </CardContent>
+          ) : null}
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-2xl">Counts</CardTitle>
+            <CardDescription>
+              Expected quantities were captured when the stocktake started; variances are against the stock on hand now. Typing a count replaces it; scans add to it.
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <div className="w-full overflow-x-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Item</TableHead>
+                    <TableHead>SKU</TableHead>
+                    <TableHead className="text-right">Expected</TableHead>
+                    <TableHead className="text-right">Counted</TableHead>
+                    <TableHead className="text-right">Variance</TableHead>
+                    <TableHead>Counted By</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {lines.map((line) => {
+                    const unit = unitsById.get(line.inventory_items?.unit_id ?? "");
+                    const name = line.inventory_items?.name ?? "Item";
+                    const moved = counting && (currentLevels.get(line.item_id) ?? 0) !== line.expected_quantity;
+                    const variance = varianceOf(line);
+                    return (
+                      <TableRow key={line.id}>
+                        <TableCell className="font-medium">
+                          <div className="flex flex-wrap items-center gap-2">
+                            {name}
+                            {counting && inTransit.has(line.item_id) ? <Badge variant="destructive">In transit</Badge> : null}
+                            {moved ? <Badge variant="outline">Stock moved since start</Badge> : null}
+                          </div>
+                        </TableCell>
+                        <TableCell>{line.inventory_items?.sku || "-"}</TableCell>
+                        <TableCell className="text-right">{formatQuantity(line.expected_quantity, unit)}</TableCell>
+                        <TableCell className="text-right">
+                          {counting ? (
+                            <Input
+                              key={`${line.id}:${line.counted_quantity ?? ""}`}
+                              type="number"
+                              inputMode={unit?.decimal_places ? "decimal" : "numeric"}
+                              min={0}
+                              step={quantityStep(unit)}
+                              defaultValue={line.counted_quantity ?? ""}
+                              onBlur={(e) => {
+                                if (!e.target.value) return;
+                                const next = parseFloat(e.target.value);
+                                if (next === line.counted_quantity) return;
+                                if (!confirmCount(line.item_id, name)) {
+                                  e.target.value = line.counted_quantity !== null ? String(line.counted_quantity) : "";
+                                  return;
+                                }
+                                countItem.mutate({ itemId: line.item_id, quantity: next, add: false });
+                              }}
+                              className="w-24 ml-auto text-right"
+                              aria-label={`Counted quantity of ${name}`}
+                            />
+                          ) : line.counted_quantity !== null ? (
+                            formatQuantity(line.counted_quantity, unit)
+                          ) : (
+                            "Not counted"
+                          )}
+                        </TableCell>
+                        <TableCell
+                          className={`text-right ${variance !== null && variance < 0 ? "text-destructive" : ""}`}
+                        >
+                          {variance === null ? "-" : `${variance > 0 ? "+" : ""}${formatQuantity(variance, unit)}`}
+                        </TableCell>
+                        <TableCell className="text-sm text-muted-foreground">
+                          {line.counted_at
+                            ? `${line.counted_by === user?.id ? "You" : "Another user"}, ${new Date(line.counted_at).toLocaleTimeString()}`
+                            : "-"}
+                        </TableCell>
+                      </TableRow>
+                    );
+                  })}
+                </TableBody>
+              </Table>
+            </div>
+          </CardContent>
+        </Card>
+      </main>
+    </div>
+  );
+};
+
+export default StocktakeDetail;
@@ -0,0 +1,275 @@
+import { useMemo, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/hooks/useAuth";
+import { useToast } from "@/hooks/use-toast";
+import { usePageMeta } from "@/hooks/usePageMeta";
+import { useLocations } from "@/hooks/useLocations";
+import { useInventoryItems } from "@/hooks/useInventoryItems";
+import { useCategories } from "@/hooks/useCategories";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import CategoryPicker from "@/components/inventory/CategoryPicker";
+import StocktakeStatusBadge from "@/components/stocktakes/StocktakeStatusBadge";
+import type { Tables } from "@/integrations/supabase/types";
+import { categorySubtree } from "@/lib/categories";
+import { isParentItem } from "@/lib/variants";
+import { ClipboardCheck, PackageSearch } from "lucide-react";
+
+type StocktakeSummary = Tables<"stocktakes"> & {
+  locations: { name: string } | null;
+  stocktake_lines: { counted_quantity: number | null; variance: number | null }[];
+};
+
+type Scope = "location" | "category" | "items";
+
+const Stocktakes = () => {
+  const { user, loading } = useAuth();
+  const { toast } = useToast();
+  const navigate = useNavigate();
+  const queryClient = useQueryClient();
+
+  const [locationId, setLocationId] = useState("");
+  const [scope, setScope] = useState<Scope>("location");
+  const [categoryId, setCategoryId] = useState("");
+  const [chosen, setChosen] = useState<Set<string>>(new Set());
+  const [search, setSearch] = useState("");
+  const [reference, setReference] = useState("");
+
+  usePageMeta(
+    "Stocktakes | Inventory Tonic",
+    "Count stock at a location and post the differences as adjustments.",
+    "/stocktakes"
+  );
+
+  const { data: locations } = useLocations();
+  const { data: items } = useInventoryItems();
+  const { data: categories } = useCategories();
+
+  const { data: stocktakes, isLoading } = useQuery<StocktakeSummary[]>({
+    queryKey: ["stocktakes"],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("stocktakes")
+        .select("*, locations(name), stocktake_lines(counted_quantity, variance)")
+        .order("created_at", { ascending: false });
+      if (error) throw error;
+      return data as StocktakeSummary[];
+    },
+    enabled: !!user && !loading,
+  });
+
+  // Serialized items are counted by serial number, and parents hold no stock
+  const countable = useMemo(
+    () => items?.filter((it) => !it.is_serialized && !isParentItem(it)).sort((a, b) => a.name.localeCompare(b.name)) ?? [],
+    [items]
+  );
+  const matching = useMemo(() => {
+    const term = search.trim().toLowerCase();
+    if (!term) return countable;
+    return countable.filter((it) => it.name.toLowerCase().includes(term) || it.sku?.toLowerCase().includes(term));
+  }, [countable, search]);
+
+  const toggle = (itemId: string, checked: boolean) =>
+    setChosen((prev) => {
+      const next = new Set(prev);
+      if (checked) next.add(itemId);
+      else next.delete(itemId);
+      return next;
+    });
+
+  const startStocktake = useMutation({
+    mutationFn: async () => {
+      if (!locationId) throw new Error("Choose a location to count");
+
+      let itemIds: string[] | undefined;
+      if (scope === "category") {
+        if (!categoryId) throw new Error("Choose a category to count");
+        const subtree = categorySubtree(categoryId, categories ?? []);
+        itemIds = countable.filter((it) => it.category_id && subtree.has(it.category_id)).map((it) => it.id);
+        if (!itemIds.length) throw new Error("No countable items in this category");
+      } else if (scope === "items") {
+        itemIds = Array.from(chosen);
+        if (!itemIds.length) throw new Error("Choose at least one item to count");
+      }
+
+      const { data, error } = await supabase.rpc("start_stocktake", {
+        _location_id: locationId,
+        _item_ids: itemIds,
+        _reference: reference.trim() || undefined,
+      });
+      if (error) throw error;
+      return data;
+    },
+    onSuccess: (stocktake) => {
+      queryClient.invalidateQueries({ queryKey: ["stocktakes"] });
+      toast({ title: "Stocktake started", description: "Expected quantities were captured. Start counting." });
+      navigate(`/stocktakes/${stocktake.id}`);
+    },
+    onError: (err: Error) => {
+      toast({ title: "Start failed", description: err.message || "Could not start stocktake.", variant: "destructive" });
+    },
+  });
+
+  return (
+    <div className="min-h-screen bg-background">
+      <header className="border-b bg-card">
+        <div className="container mx-auto px-4 py-4 flex items-center justify-between">
+          <div className="flex items-center gap-2">
+            <h1 className="text-xl font-bold">Stocktakes</h1>
+          </div>
+          <div className="flex items-center gap-2">
+            <Button variant="outline" onClick={() => navigate("/inventory")}>Inventory</Button>
+            <Button variant="outline" onClick={() => navigate("/")}>Dashboard</Button>
+          </div>
+        </div>
+      </header>
+
+      <main className="container mx-auto px-4 py-8">
+        <section className="mb-8">
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-2xl">New Stocktake</CardTitle>
+              <CardDescription>Snapshot what should be on the shelf, then count what actually is</CardDescription>
+            </CardHeader>
+            <CardContent>
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                <div>
+                  <Label>Location</Label>
+                  <Select value={locationId} onValueChange={setLocationId}>
+                    <SelectTrigger aria-label="Location to count">
+                      <SelectValue placeholder="Choose location" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {locations?.map((loc) => (
+                        <SelectItem key={loc.id} value={loc.id}>
+                          {loc.name}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div>
+                  <Label>Count</Label>
+                  <Select value={scope} onValueChange={(value) => setScope(value as Scope)}>
+                    <SelectTrigger aria-label="What to count">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="location">Everything stocked there</SelectItem>
+                      <SelectItem value="category">A category</SelectItem>
+                      <SelectItem value="items">Chosen items</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div>
+                  <Label htmlFor="stocktake_reference">Reference</Label>
+                  <Input
+                    id="stocktake_reference"
+                    value={reference}
+                    onChange={(e) => setReference(e.target.value)}
+                    placeholder="e.g. Q4 count, aisle 3"
+                  />
+                </div>
+                {scope === "category" ? (
+                  <div>
+                    <Label htmlFor="stocktake_category">Category</Label>
+                    <CategoryPicker id="stocktake_category" value={categoryId} onChange={setCategoryId} />
+                    <p className="text-xs text-muted-foreground mt-1">Includes its subcategories</p>
+                  </div>
+                ) : null}
+                {scope === "items" ? (
+                  <div className="md:col-span-3">
+                    <Label htmlFor="stocktake_search">Items ({chosen.size} chosen)</Label>
+                    <Input
+                      id="stocktake_search"
+                      value={search}
+                      onChange={(e) => setSearch(e.target.value)}
+                      placeholder="Search by name or SKU"
+                      className="mb-2"
+                    />
+                    <div className="max-h-64 overflow-y-auto rounded-md border p-2 space-y-1">
+                      {matching.map((it) => (
+                        <label key={it.id} className="flex items-center gap-2 text-sm py-1 cursor-pointer">
+                          <Checkbox checked={chosen.has(it.id)} onCheckedChange={(checked) => toggle(it.id, checked === true)} />
+                          <span>{it.name}</span>
+                          {it.sku ? <span className="text-muted-foreground">{it.sku}</span> : null}
+                        </label>
+                      ))}
+                      {!matching.length ? <p className="text-sm text-muted-foreground p-2">No matching items.</p> : null}
+                    </div>
+                  </div>
+                ) : null}
+              </div>
+              <div className="mt-4 flex justify-end">
+                <Button onClick={() => startStocktake.mutate()} disabled={startStocktake.isPending}>
+                  <ClipboardCheck className="mr-2" /> Start Counting
+                </Button>
+              </div>
+            </CardContent>
+          </Card>
+        </section>
+
+        <section>
+          <h2 className="text-xl font-semibold mb-3">Sessions</h2>
+          <Card>
+            <CardHeader>
+              <CardDescription>Open a session to count, review variances, or post it</CardDescription>
+            </CardHeader>
+            <CardContent>
+              {isLoading ? (
+                <div className="flex items-center gap-2 text-muted-foreground"><PackageSearch className="h-4 w-4" /> Loading stocktakes...</div>
+              ) : !stocktakes?.length ? (
+                <div className="text-center text-muted-foreground py-8">No stocktakes yet.</div>
+              ) : (
+                <div className="w-full overflow-x-auto">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Reference</TableHead>
+                        <TableHead>Location</TableHead>
+                        <TableHead>Status</TableHead>
+                        <TableHead>Started</TableHead>
+                        <TableHead className="text-right">Counted</TableHead>
+                        <TableHead className="text-right">Variances</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {stocktakes.map((stocktake) => {
+                        const lines = stocktake.stocktake_lines;
+                        const counted = lines.filter((l) => l.counted_quantity !== null).length;
+                        const variances = lines.filter((l) => l.variance !== null && l.variance !== 0).length;
+                        return (
+                          <TableRow
+                            key={stocktake.id}
+                            className="cursor-pointer"
+                            onClick={() => navigate(`/stocktakes/${stocktake.id}`)}
+                          >
+                            <TableCell className="font-medium">{stocktake.reference || stocktake.id.slice(0, 8)}</TableCell>
+                            <TableCell>{stocktake.locations?.name ?? "-"}</TableCell>
+                            <TableCell><StocktakeStatusBadge status={stocktake.status} /></TableCell>
+                            <TableCell>{new Date(stocktake.created_at).toLocaleString()}</TableCell>
+                            <TableCell className="text-right">{counted} / {lines.length}</TableCell>
+                            <TableCell className="text-right">{variances}</TableCell>
+                          </TableRow>
+                        );
+                      })}
+                    </TableBody>
+                  </Table>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        </section>
+      </main>
+    </div>
+  );
+};
+
+export default Stocktakes;
@@ -0,0 +1,285 @@
+import { useMemo, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/hooks/useAuth";
+import { useToast } from "@/hooks/use-toast";
+import { usePageMeta } from "@/hooks/usePageMeta";
+import { useItemSuppliers, useSuppliers, type Supplier } from "@/hooks/useSuppliers";
+import { useCurrency } from "@/hooks/useCurrency";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Separator } from "@/components/ui/separator";
+import SupplierItemsDialog from "@/components/suppliers/SupplierItemsDialog";
+import { isCurrencyCode } from "@/lib/currency";
+import { Plus, Trash2, Link2, PackageSearch } from "lucide-react";
+
+const Suppliers = () => {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const navigate = useNavigate();
+  const queryClient = useQueryClient();
+
+  const [name, setName] = useState("");
+  const [contactName, setContactName] = useState("");
+  const [email, setEmail] = useState("");
+  const [phone, setPhone] = useState("");
+  const [leadTime, setLeadTime] = useState<string>("");
+  const [supplierCurrency, setSupplierCurrency] = useState("");
+  const [notes, setNotes] = useState("");
+  const [search, setSearch] = useState("");
+  const [linkSupplier, setLinkSupplier] = useState<Supplier | null>(null);
+
+  usePageMeta(
+    "Suppliers | Inventory Tonic",
+    "Keep track of the suppliers you buy from and the items they provide.",
+    "/suppliers"
+  );
+
+  const { data: suppliers, isLoading } = useSuppliers();
+  const { baseCurrency } = useCurrency();
+  const { data: itemSuppliers } = useItemSuppliers();
+
+  const itemCounts = useMemo(() => {
+    const map = new Map<string, number>();
+    itemSuppliers?.forEach((link) => map.set(link.supplier_id, (map.get(link.supplier_id) ?? 0) + 1));
+    return map;
+  }, [itemSuppliers]);
+
+  const addSupplier = useMutation({
+    mutationFn: async () => {
+      if (!user) throw new Error("Not authenticated");
+      if (!name.trim()) throw new Error("Name is required");
+      const code = (supplierCurrency.trim() || baseCurrency).toUpperCase();
+      if (!isCurrencyCode(code)) throw new Error("Currency must be a 3-letter code, e.g. USD");
+
+      const { error } = await supabase.from("suppliers").insert({
+        user_id: user.id,
+        name: name.trim(),
+        contact_name: contactName.trim() || null,
+        email: email.trim() || null,
+        phone: phone.trim() || null,
+        lead_time_days: leadTime ? parseInt(leadTime, 10) : null,
+        currency: code,
+        notes: notes.trim() || null,
+      });
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["suppliers"] });
+      setName("");
+      setContactName("");
+      setEmail("");
+      setPhone("");
+      setLeadTime("");
+      setSupplierCurrency("");
+      setNotes("");
+      toast({ title: "Supplier added", description: "New supplier has been added to your directory." });
+    },
+    onError: (err: Error) => {
+      toast({ title: "Add failed", description: err.message || "Could not add supplier.", variant: "destructive" });
+    },
+  });
+
+  const deleteSupplier = useMutation({
+    mutationFn: async (id: string) => {
+      const { error } = await supabase.from("suppliers").delete().eq("id", id);
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["suppliers"] });
+      queryClient.invalidateQueries({ queryKey: ["item-suppliers"] });
+      toast({ title: "Supplier deleted", description: "The supplier was removed from your directory." });
+    },
+    onError: (err: Error) => {
+      toast({ title: "Delete failed", description: err.message || "Could not delete supplier.", variant: "destructive" });
+    },
+  });
+
+  const filtered = useMemo(() => {
+    if (!suppliers) return [] as Supplier[];
+    const q = search.trim().toLowerCase();
+    if (!q) return suppliers;
+    return suppliers.filter((s) =>
+      [s.name, s.contact_name, s.email, s.phone]
+        .filter(Boolean)
+        .some((f) => (f as string).toLowerCase().includes(q))
+    );
+  }, [suppliers, search]);
+
+  return (
+    <div className="min-h-screen bg-background">
+      <header className="border-b bg-card">
+        <div className="container mx-auto px-4 py-4 flex items-center justify-between">
+          <div className="flex items-center gap-2">
+            <h1 className="text-xl font-bold">Suppliers</h1>
+          </div>
+          <div className="flex items-center gap-2">
+            <Button variant="outline" onClick={() => navigate("/inventory")}>Inventory</Button>
+            <Button variant="outline" onClick={() => navigate("/")}>Dashboard</Button>
+          </div>
+        </div>
+      </header>
+
+      <main className="container mx-auto px-4 py-8">
+        <section className="mb-8">
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-2xl">Add Supplier</CardTitle>
+              <CardDescription>Record who you buy from and how long they take to deliver</CardDescription>
+            </CardHeader>
+            <CardContent>
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                <div>
+                  <Label htmlFor="supplier_name">Name</Label>
+                  <Input id="supplier_name" value={name} onChange={(e) => setName(e.target.value)} placeholder="e.g. Acme Textiles" />
+                </div>
+                <div>
+                  <Label htmlFor="contact_name">Contact</Label>
+                  <Input id="contact_name" value={contactName} onChange={(e) => setContactName(e.target.value)} placeholder="e.g. Jordan Lee" />
+                </div>
+                <div>
+                  <Label htmlFor="supplier_email">Email</Label>
+                  <Input id="supplier_email" type="email" value={email} onChange={(e) => setEmail(e.target.value)} placeholder="orders@example.com" />
+                </div>
+                <div>
+                  <Label htmlFor="supplier_phone">Phone</Label>
+                  <Input id="supplier_phone" type="tel" value={phone} onChange={(e) => setPhone(e.target.value)} placeholder="Optional" />
+                </div>
+                <div>
+                  <Label htmlFor="lead_time">Lead Time (days)</Label>
+                  <Input
+                    id="lead_time"
+                    type="number"
+                    inputMode="numeric"
+                    min={0}
+                    value={leadTime}
+                    onChange={(e) => setLeadTime(e.target.value)}
+                    placeholder="e.g. 7"
+                  />
+                </div>
+                <div>
+                  <Label htmlFor="supplier_currency">Currency</Label>
+                  <Input
+                    id="supplier_currency"
+                    value={supplierCurrency}
+                    onChange={(e) => setSupplierCurrency(e.target.value)}
+                    maxLength={3}
+                    placeholder={baseCurrency}
+                  />
+                </div>
+                <div className="md:col-span-3">
+                  <Label htmlFor="supplier_notes">Notes</Label>
+                  <Textarea id="supplier_notes" value={notes} onChange={(e) => setNotes(e.target.value)} placeholder="Optional details" />
+                </div>
+              </div>
+              <div className="mt-4 flex justify-end">
+                <Button onClick={() => addSupplier.mutate()} disabled={addSupplier.isPending}>
+                  <Plus className="mr-2" /> Add Supplier
+                </Button>
+              </div>
+            </CardContent>
+          </Card>
+        </section>
+
+        <section>
+          <div className="flex items-center justify-between mb-3">
+            <h2 className="text-xl font-semibold">Directory</h2>
+            <Input
+              placeholder="Search by name, contact, or email"
+              value={search}
+              onChange={(e) => setSearch(e.target.value)}
+              className="w-64"
+              aria-label="Search suppliers"
+            />
+          </div>
+
+          <Card>
+            <CardHeader>
+              <CardDescription>Link suppliers to the items they provide</CardDescription>
+            </CardHeader>
+            <CardContent>
+              {isLoading ? (
+                <div className="flex items-center gap-2 text-muted-foreground"><PackageSearch className="h-4 w-4" /> Loading suppliers...</div>
+              ) : filtered.length === 0 ? (
+                <div className="text-center text-muted-foreground py-8">No suppliers found. Add your first supplier above.</div>
+              ) : (
+                <div className="w-full overflow-x-auto">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Name</TableHead>
+                        <TableHead>Contact</TableHead>
+                        <TableHead className="text-right">Lead Time</TableHead>
+                        <TableHead>Currency</TableHead>
+                        <TableHead className="text-right">Items</TableHead>
+                        <TableHead className="text-right">Actions</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {filtered.map((s) => (
+                        <TableRow key={s.id}>
+                          <TableCell>
+                            <div className="font-medium">{s.name}</div>
+                            {s.notes ? <div className="text-sm text-muted-foreground">{s.notes}</div> : null}
+                          </TableCell>
+                          <TableCell>
+                            <div>{s.contact_name || "-"}</div>
+                            <div className="text-sm text-muted-foreground">
+                              {[s.email, s.phone].filter(Boolean).join(" · ")}
+                            </div>
+                          </TableCell>
+                          <TableCell className="text-right">
+                            {s.lead_time_days != null ? `${s.lead_time_days} days` : "-"}
+                          </TableCell>
+                          <TableCell>{s.currency}</TableCell>
+                          <TableCell className="text-right">{itemCounts.get(s.id) ?? 0}</TableCell>
+                          <TableCell className="text-right">
+                            <div className="flex justify-end gap-2">
+                              <Button
+                                variant="secondary"
+                                size="sm"
+                                onClick={() => setLinkSupplier(s)}
+                                aria-label={`Manage items supplied by ${s.name}`}
+                              >
+                                <Link2 className="h-4 w-4" />
+                              </Button>
+                              <Separator orientation="vertical" className="h-6" />
+                              <Button
+                                variant="outline"
+                                size="sm"
+                                onClick={() => {
+                                  if (confirm("Delete this supplier?")) deleteSupplier.mutate(s.id);
+                                }}
+                                aria-label={`Delete ${s.name}`}
+                              >
+                                <Trash2 className="h-4 w-4" />
+                              </Button>
+                            </div>
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        </section>
+      </main>
+
+      <SupplierItemsDialog
+        supplier={linkSupplier}
+        onOpenChange={(open) => {
+          if (!open) setLinkSupplier(null);
+        }}
+      />
+    </div>
+  );
+};
+
+export default Suppliers;
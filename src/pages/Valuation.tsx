@@ -0,0 +1,311 @@
+import { useMemo, useState } from "react";
+import { useNavigate, useSearchParams } from "react-router-dom";
+import { usePageMeta } from "@/hooks/usePageMeta";
+import { useInventoryItems } from "@/hooks/useInventoryItems";
+import { useStockMovements } from "@/hooks/useStockMovements";
+import { useCategories } from "@/hooks/useCategories";
+import { useUnits } from "@/hooks/useUnits";
+import { useProfile } from "@/hooks/useProfile";
+import { useCurrency } from "@/hooks/useCurrency";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { categoryPath } from "@/lib/categories";
+import { formatMoney } from "@/lib/currency";
+import { dateFromToday, parseDate } from "@/lib/lots";
+import { formatQuantity } from "@/lib/units";
+import { COSTING_METHODS, isCostingMethod, valueLedger } from "@/lib/valuation";
+import { PackageSearch } from "lucide-react";
+
+interface ItemRow {
+  id: string;
+  name: string;
+  sku: string | null;
+  category: string;
+  unitId: string;
+  quantity: number;
+  value: number;
+  costOfSales: number;
+  otherOut: number;
+  hasUncosted: boolean;
+}
+
+interface CategoryRow {
+  label: string;
+  items: number;
+  value: number;
+  costOfSales: number;
+  otherOut: number;
+}
+
+const Valuation = () => {
+  const navigate = useNavigate();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const [from, setFrom] = useState(() => dateFromToday(1 - new Date().getDate()));
+  const [to, setTo] = useState(() => dateFromToday(0));
+
+  usePageMeta(
+    "Inventory Valuation | Inventory Tonic",
+    "Value stock on hand and cost of goods sold under FIFO, LIFO or moving average.",
+    "/valuation"
+  );
+
+  const { data: items, isLoading: itemsLoading } = useInventoryItems();
+  const { data: movements, isLoading: movementsLoading } = useStockMovements();
+  const { data: categories } = useCategories();
+  const { data: units } = useUnits();
+  const { data: profile } = useProfile();
+  const { baseCurrency, toBase } = useCurrency();
+
+  // The method lives in the URL so a report can be bookmarked; the account's
+  // own method is the default
+  const requested = searchParams.get("method");
+  const method = isCostingMethod(requested)
+    ? requested
+    : isCostingMethod(profile?.costing_method)
+      ? profile.costing_method
+      : "fifo";
+  const setMethod = (value: string) => setSearchParams({ method: value }, { replace: true });
+
+  const categoriesById = useMemo(() => new Map(categories?.map((c) => [c.id, c]) ?? []), [categories]);
+  const unitsById = useMemo(() => new Map(units?.map((u) => [u.id, u]) ?? []), [units]);
+
+  const { valuations, missingRates } = useMemo(
+    () => valueLedger(movements ?? [], method, toBase),
+    [movements, method, toBase]
+  );
+
+  const { rows, byCategory, totals } = useMemo(() => {
+    const start = from ? parseDate(from).getTime() : -Infinity;
+    const end = to ? parseDate(dateFromToday(1, parseDate(to))).getTime() : Infinity;
+
+    // Cost of what went out during the period, split into sales and everything else
+    const outflows = new Map<string, { costOfSales: number; otherOut: number }>();
+    movements?.forEach((m) => {
+      if (m.delta >= 0 || m.reference_type === "transfer") return;
+      const at = new Date(m.created_at).getTime();
+      if (at < start || at >= end) return;
+      const cost = valuations.get(m.item_id)?.outboundCost.get(m.id) ?? 0;
+      const entry = outflows.get(m.item_id) ?? { costOfSales: 0, otherOut: 0 };
+      if (m.reason === "sale") entry.costOfSales += cost;
+      else entry.otherOut += cost;
+      outflows.set(m.item_id, entry);
+    });
+
+    const rows: ItemRow[] = (items ?? [])
+      .flatMap((it) => {
+        const valuation = valuations.get(it.id);
+        const out = outflows.get(it.id);
+        if (!valuation || (!valuation.quantity && !out)) return [];
+        return [
+          {
+            id: it.id,
+            name: it.name,
+            sku: it.sku,
+            category: categoryPath(it.category_id, categoriesById) || "Uncategorised",
+            unitId: it.unit_id,
+            quantity: valuation.quantity,
+            value: valuation.value,
+            costOfSales: out?.costOfSales ?? 0,
+            otherOut: out?.otherOut ?? 0,
+            hasUncosted: valuation.hasUncosted,
+          },
+        ];
+      })
+      .sort((a, b) => b.value - a.value || a.name.localeCompare(b.name));
+
+    const categoryMap = new Map<string, CategoryRow>();
+    const totals = { value: 0, costOfSales: 0, otherOut: 0 };
+    rows.forEach((row) => {
+      const entry = categoryMap.get(row.category) ?? { label: row.category, items: 0, value: 0, costOfSales: 0, otherOut: 0 };
+      entry.items += 1;
+      entry.value += row.value;
+      entry.costOfSales += row.costOfSales;
+      entry.otherOut += row.otherOut;
+      categoryMap.set(row.category, entry);
+      totals.value += row.value;
+      totals.costOfSales += row.costOfSales;
+      totals.otherOut += row.otherOut;
+    });
+
+    return {
+      rows,
+      byCategory: Array.from(categoryMap.values()).sort((a, b) => a.label.localeCompare(b.label)),
+      totals,
+    };
+  }, [items, movements, valuations, categoriesById, from, to]);
+
+  const uncosted = rows.filter((row) => row.hasUncosted).length;
+  const money = (amount: number) => formatMoney(amount, baseCurrency);
+
+  return (
+    <div className="min-h-screen bg-background">
+      <header className="border-b bg-card">
+        <div className="container mx-auto px-4 py-4 flex items-center justify-between">
+          <div className="flex items-center gap-2">
+            <h1 className="text-xl font-bold">Inventory Valuation</h1>
+          </div>
+          <div className="flex items-center gap-2">
+            <Button variant="outline" onClick={() => navigate("/margins")}>Margins</Button>
+            <Button variant="outline" onClick={() => navigate("/inventory")}>Inventory</Button>
+            <Button variant="outline" onClick={() => navigate("/")}>Dashboard</Button>
+          </div>
+        </div>
+      </header>
+
+      <main className="container mx-auto px-4 py-8 space-y-8">
+        <div className="flex flex-wrap items-end gap-4">
+          <div>
+            <Label>Costing Method</Label>
+            <Select value={method} onValueChange={setMethod}>
+              <SelectTrigger className="w-60" aria-label="Costing method">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {COSTING_METHODS.map((m) => (
+                  <SelectItem key={m.value} value={m.value}>
+                    {m.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div>
+            <Label htmlFor="valuation_from">Cost of goods sold from</Label>
+            <Input id="valuation_from" type="date" value={from} onChange={(e) => setFrom(e.target.value)} />
+          </div>
+          <div>
+            <Label htmlFor="valuation_to">To</Label>
+            <Input id="valuation_to" type="date" value={to} onChange={(e) => setTo(e.target.value)} />
+          </div>
+        </div>
+
+        {itemsLoading || movementsLoading ? (
+          <div className="flex items-center gap-2 text-muted-foreground"><PackageSearch className="h-4 w-4" /> Loading stock movements...</div>
+        ) : !rows.length ? (
+          <div className="text-center text-muted-foreground py-8">No stock to value yet.</div>
+        ) : (
+          <>
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+              <Card>
+                <CardHeader>
+                  <CardDescription>Stock value</CardDescription>
+                  <CardTitle className="text-2xl">{money(totals.value)}</CardTitle>
+                </CardHeader>
+              </Card>
+              <Card>
+                <CardHeader>
+                  <CardDescription>Cost of goods sold</CardDescription>
+                  <CardTitle className="text-2xl">{money(totals.costOfSales)}</CardTitle>
+                </CardHeader>
+              </Card>
+              <Card>
+                <CardHeader>
+                  <CardDescription>Other stock out (adjustments, kits, write-offs)</CardDescription>
+                  <CardTitle className="text-2xl">{money(totals.otherOut)}</CardTitle>
+                </CardHeader>
+              </Card>
+            </div>
+
+            {uncosted || missingRates.length ? (
+              <p className="text-sm text-muted-foreground">
+                {uncosted
+                  ? `${uncosted} item${uncosted === 1 ? " has" : "s have"} stock received without a cost, valued at zero. `
+                  : ""}
+                {missingRates.length ? `Add a rate to ${baseCurrency} for ${missingRates.join(", ")} to include those costs.` : ""}
+              </p>
+            ) : null}
+
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-2xl">By Category</CardTitle>
+                <CardDescription>Values in {baseCurrency}, including stock in transit between locations</CardDescription>
+              </CardHeader>
+              <CardContent>
+                <div className="w-full overflow-x-auto">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Category</TableHead>
+                        <TableHead className="text-right">Items</TableHead>
+                        <TableHead className="text-right">Stock Value</TableHead>
+                        <TableHead className="text-right">Cost of Goods Sold</TableHead>
+                        <TableHead className="text-right">Other Out</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {byCategory.map((row) => (
+                        <TableRow key={row.label}>
+                          <TableCell className="font-medium">{row.label}</TableCell>
+                          <TableCell className="text-right">{row.items}</TableCell>
+                          <TableCell className="text-right">{money(row.value)}</TableCell>
+                          <TableCell className="text-right">{money(row.costOfSales)}</TableCell>
+                          <TableCell className="text-right">{money(row.otherOut)}</TableCell>
+                        </TableRow>
+                      ))}
+                      <TableRow>
+                        <TableCell colSpan={2} className="text-right font-medium">Total</TableCell>
+                        <TableCell className="text-right font-bold">{money(totals.value)}</TableCell>
+                        <TableCell className="text-right font-bold">{money(totals.costOfSales)}</TableCell>
+                        <TableCell className="text-right font-bold">{money(totals.otherOut)}</TableCell>
+                      </TableRow>
+                    </TableBody>
+                  </Table>
+                </div>
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-2xl">By Item</CardTitle>
+                <CardDescription>Most valuable stock first</CardDescription>
+              </CardHeader>
+              <CardContent>
+                <div className="w-full overflow-x-auto">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Item</TableHead>
+                        <TableHead>SKU</TableHead>
+                        <TableHead>Category</TableHead>
+                        <TableHead className="text-right">Quantity</TableHead>
+                        <TableHead className="text-right">Unit Cost</TableHead>
+                        <TableHead className="text-right">Stock Value</TableHead>
+                        <TableHead className="text-right">Cost of Goods Sold</TableHead>
+                        <TableHead className="text-right">Other Out</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {rows.map((row) => (
+                        <TableRow key={row.id} className="cursor-pointer" onClick={() => navigate(`/inventory/${row.id}`)}>
+                          <TableCell className="font-medium">
+                            {row.name}
+                            {row.hasUncosted ? (
+                              <div className="text-xs text-muted-foreground">Some stock has no cost</div>
+                            ) : null}
+                          </TableCell>
+                          <TableCell>{row.sku || "-"}</TableCell>
+                          <TableCell>{row.category}</TableCell>
+                          <TableCell className="text-right">{formatQuantity(row.quantity, unitsById.get(row.unitId))}</TableCell>
+                          <TableCell className="text-right">{row.quantity > 0 ? money(row.value / row.quantity) : "-"}</TableCell>
+                          <TableCell className="text-right">{money(row.value)}</TableCell>
+                          <TableCell className="text-right">{money(row.costOfSales)}</TableCell>
+                          <TableCell className="text-right">{money(row.otherOut)}</TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </div>
+              </CardContent>
+            </Card>
+          </>
+        )}
+      </main>
+    </div>
+  );
+};
+
+export default Valuation;
@@ -0,0 +1,77 @@
+-- Create stock_movements ledger table
+CREATE TABLE public.stock_movements (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  item_id UUID NOT NULL REFERENCES public.inventory_items(id) ON DELETE CASCADE,
+  delta INTEGER NOT NULL CHECK (delta <> 0),
+  reason TEXT NOT NULL DEFAULT 'adjustment',
+  note TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- Enable RLS
+ALTER TABLE public.stock_movements ENABLE ROW LEVEL SECURITY;
+
+-- Movements are append-only: no update or delete policies
+CREATE POLICY "Users can view their own stock movements" 
+ON public.stock_movements 
+FOR SELECT 
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can record movements for their own items" 
+ON public.stock_movements 
+FOR INSERT 
+WITH CHECK (
+  auth.uid() = user_id
+  AND EXISTS (
+    SELECT 1 FROM public.inventory_items i
+    WHERE i.id = item_id AND i.user_id = auth.uid()
+  )
+);
+
+-- Keep inventory_items.quantity equal to the sum of its ledger
+CREATE OR REPLACE FUNCTION public.apply_stock_movement()
+RETURNS TRIGGER AS $$
+BEGIN
+  UPDATE public.inventory_items
+  SET quantity = (
+    SELECT COALESCE(SUM(delta), 0)
+    FROM public.stock_movements
+    WHERE item_id = NEW.item_id
+  )
+  WHERE id = NEW.item_id;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+CREATE TRIGGER apply_stock_movement
+AFTER INSERT ON public.stock_movements
+FOR EACH ROW
+EXECUTE FUNCTION public.apply_stock_movement();
+
+-- Record the starting quantity of a new item as its opening movement
+CREATE OR REPLACE FUNCTION public.record_opening_stock()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.quantity <> 0 THEN
+    INSERT INTO public.stock_movements (user_id, item_id, delta, reason)
+    VALUES (NEW.user_id, NEW.id, NEW.quantity, 'opening');
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+CREATE TRIGGER record_opening_stock
+AFTER INSERT ON public.inventory_items
+FOR EACH ROW
+EXECUTE FUNCTION public.record_opening_stock();
+
+-- Backfill opening movements for existing stock
+INSERT INTO public.stock_movements (user_id, item_id, delta, reason, created_at)
+SELECT user_id, id, quantity, 'opening', created_at
+FROM public.inventory_items
+WHERE quantity <> 0;
+
+-- Create indexes for better performance
+CREATE INDEX idx_stock_movements_user_id ON public.stock_movements(user_id);
+CREATE INDEX idx_stock_movements_item_id ON public.stock_movements(item_id, created_at);
@@ -0,0 +1,39 @@
+-- Stock can never go negative
+ALTER TABLE public.inventory_items
+ADD CONSTRAINT inventory_items_quantity_non_negative CHECK (quantity >= 0);
+
+-- Atomically adjust an item's stock by a delta and return the updated row
+CREATE OR REPLACE FUNCTION public.adjust_stock(
+  _item_id UUID,
+  _delta INTEGER,
+  _reason TEXT DEFAULT 'adjustment'
+)
+RETURNS public.inventory_items AS $$
+DECLARE
+  _item public.inventory_items;
+BEGIN
+  IF _delta = 0 THEN
+    RAISE EXCEPTION 'Adjustment must not be zero';
+  END IF;
+
+  -- Lock the row so concurrent adjustments are applied one after another
+  SELECT * INTO _item
+  FROM public.inventory_items
+  WHERE id = _item_id AND user_id = auth.uid()
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Item not found';
+  END IF;
+
+  IF _item.quantity + _delta < 0 THEN
+    RAISE EXCEPTION 'Insufficient stock: % on hand', _item.quantity;
+  END IF;
+
+  INSERT INTO public.stock_movements (user_id, item_id, delta, reason)
+  VALUES (_item.user_id, _item.id, _delta, COALESCE(_reason, 'adjustment'));
+
+  SELECT * INTO _item FROM public.inventory_items WHERE id = _item_id;
+  RETURN _item;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
@@ -0,0 +1,224 @@
+-- Create locations table for warehouses, storefronts, vans, etc.
+CREATE TABLE public.locations (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  is_default BOOLEAN NOT NULL DEFAULT false,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (user_id, name)
+);
+
+-- Each user has at most one default location
+CREATE UNIQUE INDEX idx_locations_one_default ON public.locations(user_id) WHERE is_default;
+
+-- Enable RLS
+ALTER TABLE public.locations ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own locations" 
+ON public.locations 
+FOR SELECT 
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own locations" 
+ON public.locations 
+FOR INSERT 
+WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own locations" 
+ON public.locations 
+FOR UPDATE 
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own locations" 
+ON public.locations 
+FOR DELETE 
+USING (auth.uid() = user_id);
+
+CREATE TRIGGER update_locations_updated_at
+BEFORE UPDATE ON public.locations
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Per-location stock levels, derived from the movement ledger
+CREATE TABLE public.stock_levels (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  item_id UUID NOT NULL REFERENCES public.inventory_items(id) ON DELETE CASCADE,
+  location_id UUID NOT NULL REFERENCES public.locations(id) ON DELETE CASCADE,
+  quantity INTEGER NOT NULL DEFAULT 0 CHECK (quantity >= 0),
+  low_stock_threshold INTEGER,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (item_id, location_id)
+);
+
+-- Enable RLS; rows are written by triggers and functions only
+ALTER TABLE public.stock_levels ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own stock levels" 
+ON public.stock_levels 
+FOR SELECT 
+USING (auth.uid() = user_id);
+
+CREATE TRIGGER update_stock_levels_updated_at
+BEFORE UPDATE ON public.stock_levels
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Return the user's default location, creating one if needed
+CREATE OR REPLACE FUNCTION public.default_location_id(_user_id UUID)
+RETURNS UUID AS $$
+DECLARE
+  _location_id UUID;
+BEGIN
+  SELECT id INTO _location_id
+  FROM public.locations
+  WHERE user_id = _user_id AND is_default;
+
+  IF _location_id IS NULL THEN
+    INSERT INTO public.locations (user_id, name, is_default)
+    VALUES (_user_id, 'Main', true)
+    ON CONFLICT (user_id, name) DO UPDATE SET is_default = true
+    RETURNING id INTO _location_id;
+  END IF;
+
+  RETURN _location_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Every movement now happens at a location
+ALTER TABLE public.stock_movements
+ADD COLUMN location_id UUID REFERENCES public.locations(id) ON DELETE RESTRICT;
+
+UPDATE public.stock_movements
+SET location_id = public.default_location_id(user_id);
+
+ALTER TABLE public.stock_movements ALTER COLUMN location_id SET NOT NULL;
+
+CREATE INDEX idx_stock_movements_location_id ON public.stock_movements(location_id);
+
+-- Movements recorded without a location go to the default one
+CREATE OR REPLACE FUNCTION public.assign_default_location()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.location_id IS NULL THEN
+    NEW.location_id := public.default_location_id(NEW.user_id);
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+CREATE TRIGGER assign_default_location
+BEFORE INSERT ON public.stock_movements
+FOR EACH ROW
+EXECUTE FUNCTION public.assign_default_location();
+
+-- Keep the location's stock level and the item total in sync with the ledger
+CREATE OR REPLACE FUNCTION public.apply_stock_movement()
+RETURNS TRIGGER AS $$
+BEGIN
+  INSERT INTO public.stock_levels (user_id, item_id, location_id, quantity)
+  SELECT NEW.user_id, NEW.item_id, NEW.location_id, COALESCE(SUM(delta), 0)
+  FROM public.stock_movements
+  WHERE item_id = NEW.item_id AND location_id = NEW.location_id
+  ON CONFLICT (item_id, location_id) DO UPDATE SET quantity = EXCLUDED.quantity;
+
+  UPDATE public.inventory_items
+  SET quantity = (
+    SELECT COALESCE(SUM(quantity), 0)
+    FROM public.stock_levels
+    WHERE item_id = NEW.item_id
+  )
+  WHERE id = NEW.item_id;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Backfill stock levels for existing movements
+INSERT INTO public.stock_levels (user_id, item_id, location_id, quantity)
+SELECT user_id, item_id, location_id, SUM(delta)
+FROM public.stock_movements
+GROUP BY user_id, item_id, location_id;
+
+CREATE INDEX idx_stock_levels_user_id ON public.stock_levels(user_id);
+CREATE INDEX idx_stock_levels_location_id ON public.stock_levels(location_id);
+
+-- adjust_stock now works against a single location
+DROP FUNCTION public.adjust_stock(UUID, INTEGER, TEXT);
+
+CREATE OR REPLACE FUNCTION public.adjust_stock(
+  _item_id UUID,
+  _delta INTEGER,
+  _reason TEXT DEFAULT 'adjustment',
+  _location_id UUID DEFAULT NULL
+)
+RETURNS public.inventory_items AS $$
+DECLARE
+  _item public.inventory_items;
+  _on_hand INTEGER;
+BEGIN
+  IF _delta = 0 THEN
+    RAISE EXCEPTION 'Adjustment must not be zero';
+  END IF;
+
+  -- Lock the row so concurrent adjustments are applied one after another
+  SELECT * INTO _item
+  FROM public.inventory_items
+  WHERE id = _item_id AND user_id = auth.uid()
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Item not found';
+  END IF;
+
+  IF _location_id IS NULL THEN
+    _location_id := public.default_location_id(_item.user_id);
+  ELSIF NOT EXISTS (
+    SELECT 1 FROM public.locations WHERE id = _location_id AND user_id = _item.user_id
+  ) THEN
+    RAISE EXCEPTION 'Location not found';
+  END IF;
+
+  SELECT COALESCE(SUM(quantity), 0) INTO _on_hand
+  FROM public.stock_levels
+  WHERE item_id = _item_id AND location_id = _location_id;
+
+  IF _on_hand + _delta < 0 THEN
+    RAISE EXCEPTION 'Insufficient stock: % on hand at this location', _on_hand;
+  END IF;
+
+  INSERT INTO public.stock_movements (user_id, item_id, location_id, delta, reason)
+  VALUES (_item.user_id, _item.id, _location_id, _delta, COALESCE(_reason, 'adjustment'));
+
+  SELECT * INTO _item FROM public.inventory_items WHERE id = _item_id;
+  RETURN _item;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+-- Set the low-stock threshold for an item at one location
+CREATE OR REPLACE FUNCTION public.set_stock_threshold(
+  _item_id UUID,
+  _location_id UUID,
+  _threshold INTEGER
+)
+RETURNS public.stock_levels AS $$
+DECLARE
+  _level public.stock_levels;
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM public.inventory_items WHERE id = _item_id AND user_id = auth.uid()
+  ) OR NOT EXISTS (
+    SELECT 1 FROM public.locations WHERE id = _location_id AND user_id = auth.uid()
+  ) THEN
+    RAISE EXCEPTION 'Item or location not found';
+  END IF;
+
+  INSERT INTO public.stock_levels (user_id, item_id, location_id, low_stock_threshold)
+  VALUES (auth.uid(), _item_id, _location_id, _threshold)
+  ON CONFLICT (item_id, location_id) DO UPDATE SET low_stock_threshold = EXCLUDED.low_stock_threshold
+  RETURNING * INTO _level;
+
+  RETURN _level;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
@@ -0,0 +1,171 @@
+-- Link movements to the document that caused them (transfer, order, ...)
+ALTER TABLE public.stock_movements
+ADD COLUMN reference_type TEXT,
+ADD COLUMN reference_id UUID;
+
+CREATE INDEX idx_stock_movements_reference ON public.stock_movements(reference_type, reference_id);
+
+-- Create stock_transfers table for moving goods between locations
+CREATE TABLE public.stock_transfers (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  item_id UUID NOT NULL REFERENCES public.inventory_items(id) ON DELETE CASCADE,
+  from_location_id UUID NOT NULL REFERENCES public.locations(id) ON DELETE RESTRICT,
+  to_location_id UUID NOT NULL REFERENCES public.locations(id) ON DELETE RESTRICT,
+  quantity INTEGER NOT NULL CHECK (quantity > 0),
+  status TEXT NOT NULL DEFAULT 'completed' CHECK (status IN ('in_transit', 'completed', 'cancelled')),
+  note TEXT,
+  received_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CHECK (from_location_id <> to_location_id)
+);
+
+-- Enable RLS; transfers are written through the functions below
+ALTER TABLE public.stock_transfers ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own stock transfers" 
+ON public.stock_transfers 
+FOR SELECT 
+USING (auth.uid() = user_id);
+
+CREATE TRIGGER update_stock_transfers_updated_at
+BEFORE UPDATE ON public.stock_transfers
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE INDEX idx_stock_transfers_user_id ON public.stock_transfers(user_id);
+CREATE INDEX idx_stock_transfers_status ON public.stock_transfers(status);
+
+-- Move stock between two locations in one transaction. In-transit transfers
+-- leave the source immediately and arrive when receive_transfer is called.
+CREATE OR REPLACE FUNCTION public.transfer_stock(
+  _item_id UUID,
+  _from_location_id UUID,
+  _to_location_id UUID,
+  _quantity INTEGER,
+  _in_transit BOOLEAN DEFAULT false,
+  _note TEXT DEFAULT NULL
+)
+RETURNS public.stock_transfers AS $$
+DECLARE
+  _item public.inventory_items;
+  _transfer public.stock_transfers;
+  _on_hand INTEGER;
+BEGIN
+  IF _quantity IS NULL OR _quantity <= 0 THEN
+    RAISE EXCEPTION 'Transfer quantity must be positive';
+  END IF;
+
+  IF _from_location_id = _to_location_id THEN
+    RAISE EXCEPTION 'Source and destination must differ';
+  END IF;
+
+  SELECT * INTO _item
+  FROM public.inventory_items
+  WHERE id = _item_id AND user_id = auth.uid()
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Item not found';
+  END IF;
+
+  IF (
+    SELECT COUNT(*) FROM public.locations
+    WHERE id IN (_from_location_id, _to_location_id) AND user_id = _item.user_id
+  ) <> 2 THEN
+    RAISE EXCEPTION 'Location not found';
+  END IF;
+
+  SELECT COALESCE(SUM(quantity), 0) INTO _on_hand
+  FROM public.stock_levels
+  WHERE item_id = _item_id AND location_id = _from_location_id;
+
+  IF _on_hand < _quantity THEN
+    RAISE EXCEPTION 'Insufficient stock: % on hand at the source location', _on_hand;
+  END IF;
+
+  INSERT INTO public.stock_transfers (
+    user_id, item_id, from_location_id, to_location_id, quantity, status, note, received_at
+  )
+  VALUES (
+    _item.user_id, _item_id, _from_location_id, _to_location_id, _quantity,
+    CASE WHEN _in_transit THEN 'in_transit' ELSE 'completed' END,
+    _note,
+    CASE WHEN _in_transit THEN NULL ELSE now() END
+  )
+  RETURNING * INTO _transfer;
+
+  INSERT INTO public.stock_movements (user_id, item_id, location_id, delta, reason, note, reference_type, reference_id)
+  VALUES (_item.user_id, _item_id, _from_location_id, -_quantity, 'transfer_out', _note, 'transfer', _transfer.id);
+
+  IF NOT _in_transit THEN
+    INSERT INTO public.stock_movements (user_id, item_id, location_id, delta, reason, note, reference_type, reference_id)
+    VALUES (_item.user_id, _item_id, _to_location_id, _quantity, 'transfer_in', _note, 'transfer', _transfer.id);
+  END IF;
+
+  RETURN _transfer;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Book an in-transit transfer into its destination
+CREATE OR REPLACE FUNCTION public.receive_transfer(_transfer_id UUID)
+RETURNS public.stock_transfers AS $$
+DECLARE
+  _transfer public.stock_transfers;
+BEGIN
+  SELECT * INTO _transfer
+  FROM public.stock_transfers
+  WHERE id = _transfer_id AND user_id = auth.uid()
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Transfer not found';
+  END IF;
+
+  IF _transfer.status <> 'in_transit' THEN
+    RAISE EXCEPTION 'Transfer is already %', _transfer.status;
+  END IF;
+
+  INSERT INTO public.stock_movements (user_id, item_id, location_id, delta, reason, note, reference_type, reference_id)
+  VALUES (_transfer.user_id, _transfer.item_id, _transfer.to_location_id, _transfer.quantity, 'transfer_in', _transfer.note, 'transfer', _transfer.id);
+
+  UPDATE public.stock_transfers
+  SET status = 'completed', received_at = now()
+  WHERE id = _transfer_id
+  RETURNING * INTO _transfer;
+
+  RETURN _transfer;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Return an in-transit transfer to its source
+CREATE OR REPLACE FUNCTION public.cancel_transfer(_transfer_id UUID)
+RETURNS public.stock_transfers AS $$
+DECLARE
+  _transfer public.stock_transfers;
+BEGIN
+  SELECT * INTO _transfer
+  FROM public.stock_transfers
+  WHERE id = _transfer_id AND user_id = auth.uid()
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Transfer not found';
+  END IF;
+
+  IF _transfer.status <> 'in_transit' THEN
+    RAISE EXCEPTION 'Transfer is already %', _transfer.status;
+  END IF;
+
+  INSERT INTO public.stock_movements (user_id, item_id, location_id, delta, reason, note, reference_type, reference_id)
+  VALUES (_transfer.user_id, _transfer.item_id, _transfer.from_location_id, _transfer.quantity, 'transfer_cancelled', _transfer.note, 'transfer', _transfer.id);
+
+  UPDATE public.stock_transfers
+  SET status = 'cancelled'
+  WHERE id = _transfer_id
+  RETURNING * INTO _transfer;
+
+  RETURN _transfer;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
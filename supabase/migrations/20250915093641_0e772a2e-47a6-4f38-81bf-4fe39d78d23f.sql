@@ -0,0 +1,114 @@
+-- Create suppliers table
+CREATE TABLE public.suppliers (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  contact_name TEXT,
+  email TEXT,
+  phone TEXT,
+  lead_time_days INTEGER CHECK (lead_time_days >= 0),
+  currency TEXT NOT NULL DEFAULT 'USD' CHECK (currency ~ '^[A-Z]{3}$'),
+  notes TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- Enable RLS
+ALTER TABLE public.suppliers ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own suppliers" 
+ON public.suppliers 
+FOR SELECT 
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own suppliers" 
+ON public.suppliers 
+FOR INSERT 
+WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own suppliers" 
+ON public.suppliers 
+FOR UPDATE 
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own suppliers" 
+ON public.suppliers 
+FOR DELETE 
+USING (auth.uid() = user_id);
+
+CREATE TRIGGER update_suppliers_updated_at
+BEFORE UPDATE ON public.suppliers
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Link items to the suppliers that sell them
+CREATE TABLE public.item_suppliers (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  item_id UUID NOT NULL REFERENCES public.inventory_items(id) ON DELETE CASCADE,
+  supplier_id UUID NOT NULL REFERENCES public.suppliers(id) ON DELETE CASCADE,
+  supplier_sku TEXT,
+  cost DECIMAL(10,2) CHECK (cost >= 0),
+  min_order_qty INTEGER NOT NULL DEFAULT 1 CHECK (min_order_qty > 0),
+  is_preferred BOOLEAN NOT NULL DEFAULT false,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (item_id, supplier_id)
+);
+
+-- Enable RLS
+ALTER TABLE public.item_suppliers ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own item suppliers" 
+ON public.item_suppliers 
+FOR SELECT 
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can link their own items and suppliers" 
+ON public.item_suppliers 
+FOR INSERT 
+WITH CHECK (
+  auth.uid() = user_id
+  AND EXISTS (SELECT 1 FROM public.inventory_items i WHERE i.id = item_id AND i.user_id = auth.uid())
+  AND EXISTS (SELECT 1 FROM public.suppliers s WHERE s.id = supplier_id AND s.user_id = auth.uid())
+);
+
+CREATE POLICY "Users can update their own item suppliers" 
+ON public.item_suppliers 
+FOR UPDATE 
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own item suppliers" 
+ON public.item_suppliers 
+FOR DELETE 
+USING (auth.uid() = user_id);
+
+CREATE TRIGGER update_item_suppliers_updated_at
+BEFORE UPDATE ON public.item_suppliers
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- An item has at most one preferred supplier
+CREATE UNIQUE INDEX idx_item_suppliers_one_preferred ON public.item_suppliers(item_id) WHERE is_preferred;
+
+CREATE OR REPLACE FUNCTION public.clear_other_preferred_suppliers()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.is_preferred THEN
+    UPDATE public.item_suppliers
+    SET is_preferred = false
+    WHERE item_id = NEW.item_id AND id <> NEW.id AND is_preferred;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+CREATE TRIGGER clear_other_preferred_suppliers
+BEFORE INSERT OR UPDATE OF is_preferred ON public.item_suppliers
+FOR EACH ROW
+EXECUTE FUNCTION public.clear_other_preferred_suppliers();
+
+-- Create indexes for better performance
+CREATE INDEX idx_suppliers_user_id ON public.suppliers(user_id);
+CREATE INDEX idx_item_suppliers_user_id ON public.item_suppliers(user_id);
+CREATE INDEX idx_item_suppliers_supplier_id ON public.item_suppliers(supplier_id);
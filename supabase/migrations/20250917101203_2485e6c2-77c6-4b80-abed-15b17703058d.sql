@@ -0,0 +1,198 @@
+-- Create purchase_orders table
+CREATE TABLE public.purchase_orders (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  supplier_id UUID NOT NULL REFERENCES public.suppliers(id) ON DELETE RESTRICT,
+  location_id UUID REFERENCES public.locations(id) ON DELETE SET NULL,
+  reference TEXT,
+  status TEXT NOT NULL DEFAULT 'draft'
+    CHECK (status IN ('draft', 'sent', 'partially_received', 'received', 'closed')),
+  expected_date DATE,
+  notes TEXT,
+  sent_at TIMESTAMP WITH TIME ZONE,
+  closed_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- Enable RLS
+ALTER TABLE public.purchase_orders ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own purchase orders" 
+ON public.purchase_orders 
+FOR SELECT 
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own purchase orders" 
+ON public.purchase_orders 
+FOR INSERT 
+WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own purchase orders" 
+ON public.purchase_orders 
+FOR UPDATE 
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own draft purchase orders" 
+ON public.purchase_orders 
+FOR DELETE 
+USING (auth.uid() = user_id AND status = 'draft');
+
+CREATE TRIGGER update_purchase_orders_updated_at
+BEFORE UPDATE ON public.purchase_orders
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Create purchase_order_lines table; variance is positive for over-receipt
+CREATE TABLE public.purchase_order_lines (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  purchase_order_id UUID NOT NULL REFERENCES public.purchase_orders(id) ON DELETE CASCADE,
+  item_id UUID NOT NULL REFERENCES public.inventory_items(id) ON DELETE RESTRICT,
+  quantity_ordered INTEGER NOT NULL CHECK (quantity_ordered > 0),
+  quantity_received INTEGER NOT NULL DEFAULT 0 CHECK (quantity_received >= 0),
+  variance INTEGER GENERATED ALWAYS AS (quantity_received - quantity_ordered) STORED,
+  unit_cost DECIMAL(10,2) CHECK (unit_cost >= 0),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- Enable RLS; lines can only be edited while the order is a draft
+ALTER TABLE public.purchase_order_lines ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own purchase order lines" 
+ON public.purchase_order_lines 
+FOR SELECT 
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can add lines to their own draft purchase orders" 
+ON public.purchase_order_lines 
+FOR INSERT 
+WITH CHECK (
+  auth.uid() = user_id
+  AND EXISTS (
+    SELECT 1 FROM public.purchase_orders po
+    WHERE po.id = purchase_order_id AND po.user_id = auth.uid() AND po.status = 'draft'
+  )
+  AND EXISTS (SELECT 1 FROM public.inventory_items i WHERE i.id = item_id AND i.user_id = auth.uid())
+);
+
+CREATE POLICY "Users can update lines on their own draft purchase orders" 
+ON public.purchase_order_lines 
+FOR UPDATE 
+USING (
+  auth.uid() = user_id
+  AND EXISTS (
+    SELECT 1 FROM public.purchase_orders po
+    WHERE po.id = purchase_order_id AND po.status = 'draft'
+  )
+);
+
+CREATE POLICY "Users can delete lines on their own draft purchase orders" 
+ON public.purchase_order_lines 
+FOR DELETE 
+USING (
+  auth.uid() = user_id
+  AND EXISTS (
+    SELECT 1 FROM public.purchase_orders po
+    WHERE po.id = purchase_order_id AND po.status = 'draft'
+  )
+);
+
+CREATE TRIGGER update_purchase_order_lines_updated_at
+BEFORE UPDATE ON public.purchase_order_lines
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Every delivery against a line is kept, so partial receipts stay visible
+CREATE TABLE public.purchase_order_receipts (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  line_id UUID NOT NULL REFERENCES public.purchase_order_lines(id) ON DELETE CASCADE,
+  location_id UUID NOT NULL REFERENCES public.locations(id) ON DELETE RESTRICT,
+  quantity INTEGER NOT NULL CHECK (quantity > 0),
+  note TEXT,
+  received_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- Enable RLS; receipts are written by receive_purchase_order_line only
+ALTER TABLE public.purchase_order_receipts ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own purchase order receipts" 
+ON public.purchase_order_receipts 
+FOR SELECT 
+USING (auth.uid() = user_id);
+
+-- Receive units against a purchase order line and book them into stock
+CREATE OR REPLACE FUNCTION public.receive_purchase_order_line(
+  _line_id UUID,
+  _quantity INTEGER,
+  _location_id UUID DEFAULT NULL,
+  _note TEXT DEFAULT NULL
+)
+RETURNS public.purchase_order_lines AS $$
+DECLARE
+  _line public.purchase_order_lines;
+  _order public.purchase_orders;
+BEGIN
+  IF _quantity IS NULL OR _quantity <= 0 THEN
+    RAISE EXCEPTION 'Received quantity must be positive';
+  END IF;
+
+  SELECT * INTO _line
+  FROM public.purchase_order_lines
+  WHERE id = _line_id AND user_id = auth.uid()
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Purchase order line not found';
+  END IF;
+
+  SELECT * INTO _order
+  FROM public.purchase_orders
+  WHERE id = _line.purchase_order_id
+  FOR UPDATE;
+
+  IF _order.status NOT IN ('sent', 'partially_received', 'received') THEN
+    RAISE EXCEPTION 'Cannot receive against a % purchase order', _order.status;
+  END IF;
+
+  _location_id := COALESCE(_location_id, _order.location_id, public.default_location_id(_order.user_id));
+
+  IF NOT EXISTS (
+    SELECT 1 FROM public.locations WHERE id = _location_id AND user_id = _order.user_id
+  ) THEN
+    RAISE EXCEPTION 'Location not found';
+  END IF;
+
+  INSERT INTO public.purchase_order_receipts (user_id, line_id, location_id, quantity, note)
+  VALUES (_line.user_id, _line.id, _location_id, _quantity, _note);
+
+  INSERT INTO public.stock_movements (user_id, item_id, location_id, delta, reason, note, reference_type, reference_id)
+  VALUES (_line.user_id, _line.item_id, _location_id, _quantity, 'purchase_receipt', _note, 'purchase_order', _order.id);
+
+  UPDATE public.purchase_order_lines
+  SET quantity_received = quantity_received + _quantity
+  WHERE id = _line.id
+  RETURNING * INTO _line;
+
+  UPDATE public.purchase_orders
+  SET status = CASE
+    WHEN NOT EXISTS (
+      SELECT 1 FROM public.purchase_order_lines
+      WHERE purchase_order_id = _order.id AND quantity_received < quantity_ordered
+    ) THEN 'received'
+    ELSE 'partially_received'
+  END
+  WHERE id = _order.id;
+
+  RETURN _line;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Create indexes for better performance
+CREATE INDEX idx_purchase_orders_user_id ON public.purchase_orders(user_id);
+CREATE INDEX idx_purchase_orders_supplier_id ON public.purchase_orders(supplier_id);
+CREATE INDEX idx_purchase_order_lines_order_id ON public.purchase_order_lines(purchase_order_id);
+CREATE INDEX idx_purchase_order_lines_item_id ON public.purchase_order_lines(item_id);
+CREATE INDEX idx_purchase_order_receipts_line_id ON public.purchase_order_receipts(line_id);
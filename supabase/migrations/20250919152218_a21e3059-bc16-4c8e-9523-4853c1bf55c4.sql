@@ -0,0 +1,273 @@
+-- Track stock promised to confirmed sales orders
+ALTER TABLE public.inventory_items
+ADD COLUMN reserved_quantity INTEGER NOT NULL DEFAULT 0 CHECK (reserved_quantity >= 0),
+ADD COLUMN available_quantity INTEGER GENERATED ALWAYS AS (quantity - reserved_quantity) STORED;
+
+-- Create sales_orders table
+CREATE TABLE public.sales_orders (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  customer_name TEXT NOT NULL,
+  reference TEXT,
+  location_id UUID REFERENCES public.locations(id) ON DELETE SET NULL,
+  status TEXT NOT NULL DEFAULT 'draft'
+    CHECK (status IN ('draft', 'confirmed', 'fulfilled', 'cancelled')),
+  notes TEXT,
+  confirmed_at TIMESTAMP WITH TIME ZONE,
+  fulfilled_at TIMESTAMP WITH TIME ZONE,
+  cancelled_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- Enable RLS; status changes go through the functions below
+ALTER TABLE public.sales_orders ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own sales orders" 
+ON public.sales_orders 
+FOR SELECT 
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own sales orders" 
+ON public.sales_orders 
+FOR INSERT 
+WITH CHECK (auth.uid() = user_id AND status = 'draft');
+
+CREATE POLICY "Users can update their own draft sales orders" 
+ON public.sales_orders 
+FOR UPDATE 
+USING (auth.uid() = user_id AND status = 'draft')
+WITH CHECK (auth.uid() = user_id AND status = 'draft');
+
+CREATE POLICY "Users can delete their own draft sales orders" 
+ON public.sales_orders 
+FOR DELETE 
+USING (auth.uid() = user_id AND status = 'draft');
+
+CREATE TRIGGER update_sales_orders_updated_at
+BEFORE UPDATE ON public.sales_orders
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Create sales_order_lines table
+CREATE TABLE public.sales_order_lines (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  sales_order_id UUID NOT NULL REFERENCES public.sales_orders(id) ON DELETE CASCADE,
+  item_id UUID NOT NULL REFERENCES public.inventory_items(id) ON DELETE RESTRICT,
+  quantity INTEGER NOT NULL CHECK (quantity > 0),
+  unit_price DECIMAL(10,2) CHECK (unit_price >= 0),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- Enable RLS; lines can only be edited while the order is a draft
+ALTER TABLE public.sales_order_lines ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own sales order lines" 
+ON public.sales_order_lines 
+FOR SELECT 
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can add lines to their own draft sales orders" 
+ON public.sales_order_lines 
+FOR INSERT 
+WITH CHECK (
+  auth.uid() = user_id
+  AND EXISTS (
+    SELECT 1 FROM public.sales_orders so
+    WHERE so.id = sales_order_id AND so.user_id = auth.uid() AND so.status = 'draft'
+  )
+  AND EXISTS (SELECT 1 FROM public.inventory_items i WHERE i.id = item_id AND i.user_id = auth.uid())
+);
+
+CREATE POLICY "Users can update lines on their own draft sales orders" 
+ON public.sales_order_lines 
+FOR UPDATE 
+USING (
+  auth.uid() = user_id
+  AND EXISTS (
+    SELECT 1 FROM public.sales_orders so
+    WHERE so.id = sales_order_id AND so.status = 'draft'
+  )
+);
+
+CREATE POLICY "Users can delete lines on their own draft sales orders" 
+ON public.sales_order_lines 
+FOR DELETE 
+USING (
+  auth.uid() = user_id
+  AND EXISTS (
+    SELECT 1 FROM public.sales_orders so
+    WHERE so.id = sales_order_id AND so.status = 'draft'
+  )
+);
+
+CREATE TRIGGER update_sales_order_lines_updated_at
+BEFORE UPDATE ON public.sales_order_lines
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Confirm a draft order and reserve its stock
+CREATE OR REPLACE FUNCTION public.confirm_sales_order(_order_id UUID)
+RETURNS public.sales_orders AS $$
+DECLARE
+  _order public.sales_orders;
+  _line RECORD;
+  _available INTEGER;
+BEGIN
+  SELECT * INTO _order
+  FROM public.sales_orders
+  WHERE id = _order_id AND user_id = auth.uid()
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Sales order not found';
+  END IF;
+
+  IF _order.status <> 'draft' THEN
+    RAISE EXCEPTION 'Only draft orders can be confirmed';
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM public.sales_order_lines WHERE sales_order_id = _order_id) THEN
+    RAISE EXCEPTION 'Add at least one line before confirming';
+  END IF;
+
+  -- Lock items in a stable order so concurrent confirmations cannot deadlock
+  FOR _line IN
+    SELECT i.id, i.name, SUM(l.quantity) AS quantity
+    FROM public.sales_order_lines l
+    JOIN public.inventory_items i ON i.id = l.item_id
+    WHERE l.sales_order_id = _order_id
+    GROUP BY i.id
+    ORDER BY i.id
+  LOOP
+    SELECT quantity - reserved_quantity INTO _available
+    FROM public.inventory_items
+    WHERE id = _line.id
+    FOR UPDATE;
+
+    IF _available < _line.quantity THEN
+      RAISE EXCEPTION 'Insufficient stock for %: % available', _line.name, _available;
+    END IF;
+
+    UPDATE public.inventory_items
+    SET reserved_quantity = reserved_quantity + _line.quantity
+    WHERE id = _line.id;
+  END LOOP;
+
+  UPDATE public.sales_orders
+  SET status = 'confirmed', confirmed_at = now()
+  WHERE id = _order_id
+  RETURNING * INTO _order;
+
+  RETURN _order;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Ship a confirmed order: deduct its stock and release the reservations
+CREATE OR REPLACE FUNCTION public.fulfil_sales_order(_order_id UUID)
+RETURNS public.sales_orders AS $$
+DECLARE
+  _order public.sales_orders;
+  _location_id UUID;
+  _line RECORD;
+  _on_hand INTEGER;
+BEGIN
+  SELECT * INTO _order
+  FROM public.sales_orders
+  WHERE id = _order_id AND user_id = auth.uid()
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Sales order not found';
+  END IF;
+
+  IF _order.status <> 'confirmed' THEN
+    RAISE EXCEPTION 'Only confirmed orders can be fulfilled';
+  END IF;
+
+  _location_id := COALESCE(_order.location_id, public.default_location_id(_order.user_id));
+
+  FOR _line IN
+    SELECT i.id, i.name, SUM(l.quantity) AS quantity
+    FROM public.sales_order_lines l
+    JOIN public.inventory_items i ON i.id = l.item_id
+    WHERE l.sales_order_id = _order_id
+    GROUP BY i.id
+    ORDER BY i.id
+  LOOP
+    PERFORM 1 FROM public.inventory_items WHERE id = _line.id FOR UPDATE;
+
+    SELECT COALESCE(SUM(quantity), 0) INTO _on_hand
+    FROM public.stock_levels
+    WHERE item_id = _line.id AND location_id = _location_id;
+
+    IF _on_hand < _line.quantity THEN
+      RAISE EXCEPTION 'Insufficient stock for % at the shipping location: % on hand', _line.name, _on_hand;
+    END IF;
+
+    INSERT INTO public.stock_movements (user_id, item_id, location_id, delta, reason, reference_type, reference_id)
+    VALUES (_order.user_id, _line.id, _location_id, -_line.quantity, 'sale', 'sales_order', _order.id);
+
+    UPDATE public.inventory_items
+    SET reserved_quantity = GREATEST(reserved_quantity - _line.quantity, 0)
+    WHERE id = _line.id;
+  END LOOP;
+
+  UPDATE public.sales_orders
+  SET status = 'fulfilled', fulfilled_at = now()
+  WHERE id = _order_id
+  RETURNING * INTO _order;
+
+  RETURN _order;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Cancel an order, releasing any stock it had reserved
+CREATE OR REPLACE FUNCTION public.cancel_sales_order(_order_id UUID)
+RETURNS public.sales_orders AS $$
+DECLARE
+  _order public.sales_orders;
+  _line RECORD;
+BEGIN
+  SELECT * INTO _order
+  FROM public.sales_orders
+  WHERE id = _order_id AND user_id = auth.uid()
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Sales order not found';
+  END IF;
+
+  IF _order.status NOT IN ('draft', 'confirmed') THEN
+    RAISE EXCEPTION 'Cannot cancel a % order', _order.status;
+  END IF;
+
+  IF _order.status = 'confirmed' THEN
+    FOR _line IN
+      SELECT item_id, SUM(quantity) AS quantity
+      FROM public.sales_order_lines
+      WHERE sales_order_id = _order_id
+      GROUP BY item_id
+      ORDER BY item_id
+    LOOP
+      UPDATE public.inventory_items
+      SET reserved_quantity = GREATEST(reserved_quantity - _line.quantity, 0)
+      WHERE id = _line.item_id;
+    END LOOP;
+  END IF;
+
+  UPDATE public.sales_orders
+  SET status = 'cancelled', cancelled_at = now()
+  WHERE id = _order_id
+  RETURNING * INTO _order;
+
+  RETURN _order;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Create indexes for better performance
+CREATE INDEX idx_sales_orders_user_id ON public.sales_orders(user_id);
+CREATE INDEX idx_sales_order_lines_order_id ON public.sales_order_lines(sales_order_id);
+CREATE INDEX idx_sales_order_lines_item_id ON public.sales_order_lines(item_id);
@@ -0,0 +1,47 @@
+-- Parent products with variants: the parent defines option axes such as
+-- [{"name": "Size", "values": ["S", "M"]}], each variant stores its own
+-- combination such as {"Size": "M"} and carries its own SKU, price and stock.
+ALTER TABLE public.inventory_items
+ADD COLUMN parent_id UUID REFERENCES public.inventory_items(id) ON DELETE CASCADE,
+ADD COLUMN option_axes JSONB,
+ADD COLUMN option_values JSONB,
+ADD CONSTRAINT inventory_items_parent_or_variant CHECK (option_axes IS NULL OR parent_id IS NULL);
+
+CREATE INDEX idx_inventory_items_parent_id ON public.inventory_items(parent_id);
+
+-- Variants must belong to a parent product of the same owner
+CREATE OR REPLACE FUNCTION public.validate_variant_parent()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.parent_id IS NOT NULL AND NOT EXISTS (
+    SELECT 1 FROM public.inventory_items
+    WHERE id = NEW.parent_id AND user_id = NEW.user_id AND option_axes IS NOT NULL
+  ) THEN
+    RAISE EXCEPTION 'Parent product not found';
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+CREATE TRIGGER validate_variant_parent
+BEFORE INSERT OR UPDATE OF parent_id ON public.inventory_items
+FOR EACH ROW
+EXECUTE FUNCTION public.validate_variant_parent();
+
+-- Parent products hold no stock of their own; movements go to variants
+CREATE OR REPLACE FUNCTION public.reject_parent_stock_movement()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF EXISTS (
+    SELECT 1 FROM public.inventory_items WHERE id = NEW.item_id AND option_axes IS NOT NULL
+  ) THEN
+    RAISE EXCEPTION 'Stock is kept on variants, not on the parent product';
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+CREATE TRIGGER reject_parent_stock_movement
+BEFORE INSERT ON public.stock_movements
+FOR EACH ROW
+EXECUTE FUNCTION public.reject_parent_stock_movement();
@@ -0,0 +1,201 @@
+-- Kits (bills of materials): a kit item is built from other stocked items
+CREATE TABLE public.kit_components (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  kit_id UUID NOT NULL REFERENCES public.inventory_items(id) ON DELETE CASCADE,
+  component_id UUID NOT NULL REFERENCES public.inventory_items(id) ON DELETE CASCADE,
+  quantity INTEGER NOT NULL CHECK (quantity > 0),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (kit_id, component_id),
+  CHECK (kit_id <> component_id)
+);
+
+-- Enable Row Level Security
+ALTER TABLE public.kit_components ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own kit components" 
+ON public.kit_components 
+FOR SELECT 
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own kit components" 
+ON public.kit_components 
+FOR INSERT 
+WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own kit components" 
+ON public.kit_components 
+FOR UPDATE 
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own kit components" 
+ON public.kit_components 
+FOR DELETE 
+USING (auth.uid() = user_id);
+
+CREATE TRIGGER update_kit_components_updated_at
+BEFORE UPDATE ON public.kit_components
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Kits are one level deep: a kit cannot be a component and a component
+-- cannot be a kit. Parent products hold no stock so they are neither.
+CREATE OR REPLACE FUNCTION public.validate_kit_component()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF (
+    SELECT COUNT(*) FROM public.inventory_items
+    WHERE id IN (NEW.kit_id, NEW.component_id) AND user_id = NEW.user_id AND option_axes IS NULL
+  ) <> 2 THEN
+    RAISE EXCEPTION 'Item not found';
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM public.kit_components WHERE component_id = NEW.kit_id) THEN
+    RAISE EXCEPTION 'A kit component cannot itself be a kit';
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM public.kit_components WHERE kit_id = NEW.component_id) THEN
+    RAISE EXCEPTION 'A kit cannot be used as a component';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+CREATE TRIGGER validate_kit_component
+BEFORE INSERT OR UPDATE OF kit_id, component_id ON public.kit_components
+FOR EACH ROW
+EXECUTE FUNCTION public.validate_kit_component();
+
+-- One row per assemble/disassemble run; its movements reference it
+CREATE TABLE public.kit_assemblies (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  kit_id UUID NOT NULL REFERENCES public.inventory_items(id) ON DELETE CASCADE,
+  location_id UUID NOT NULL REFERENCES public.locations(id) ON DELETE RESTRICT,
+  direction TEXT NOT NULL CHECK (direction IN ('assemble', 'disassemble')),
+  quantity INTEGER NOT NULL CHECK (quantity > 0),
+  note TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- Enable RLS; assemblies are written through the functions below
+ALTER TABLE public.kit_assemblies ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own kit assemblies" 
+ON public.kit_assemblies 
+FOR SELECT 
+USING (auth.uid() = user_id);
+
+-- Build or break down kits at one location. Assembling consumes components
+-- and produces kits; disassembling does the reverse.
+CREATE OR REPLACE FUNCTION public.build_kit(
+  _kit_id UUID,
+  _quantity INTEGER,
+  _direction TEXT,
+  _location_id UUID,
+  _note TEXT
+)
+RETURNS public.kit_assemblies AS $$
+DECLARE
+  _kit public.inventory_items;
+  _assembly public.kit_assemblies;
+  _sign INTEGER;
+  _reason TEXT;
+  _component RECORD;
+  _on_hand INTEGER;
+BEGIN
+  IF _quantity IS NULL OR _quantity <= 0 THEN
+    RAISE EXCEPTION 'Quantity must be positive';
+  END IF;
+
+  SELECT * INTO _kit
+  FROM public.inventory_items
+  WHERE id = _kit_id AND user_id = auth.uid();
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Item not found';
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM public.kit_components WHERE kit_id = _kit_id) THEN
+    RAISE EXCEPTION '% has no components', _kit.name;
+  END IF;
+
+  IF _location_id IS NULL THEN
+    _location_id := public.default_location_id(_kit.user_id);
+  ELSIF NOT EXISTS (
+    SELECT 1 FROM public.locations WHERE id = _location_id AND user_id = _kit.user_id
+  ) THEN
+    RAISE EXCEPTION 'Location not found';
+  END IF;
+
+  _sign := CASE WHEN _direction = 'assemble' THEN 1 ELSE -1 END;
+  _reason := CASE WHEN _direction = 'assemble' THEN 'assembly' ELSE 'disassembly' END;
+
+  INSERT INTO public.kit_assemblies (user_id, kit_id, location_id, direction, quantity, note)
+  VALUES (_kit.user_id, _kit_id, _location_id, _direction, _quantity, _note)
+  RETURNING * INTO _assembly;
+
+  -- Lock the kit and its components in id order so concurrent builds can't deadlock
+  PERFORM 1 FROM public.inventory_items
+  WHERE id = _kit_id OR id IN (SELECT component_id FROM public.kit_components WHERE kit_id = _kit_id)
+  ORDER BY id
+  FOR UPDATE;
+
+  -- Whatever is leaving the location must be on hand there
+  FOR _component IN
+    SELECT i.id, i.name, CASE WHEN i.id = _kit_id THEN _quantity ELSE c.quantity * _quantity END AS quantity
+    FROM public.inventory_items i
+    LEFT JOIN public.kit_components c ON c.component_id = i.id AND c.kit_id = _kit_id
+    WHERE (i.id = _kit_id AND _sign < 0) OR (c.id IS NOT NULL AND _sign > 0)
+  LOOP
+    SELECT COALESCE(SUM(quantity), 0) INTO _on_hand
+    FROM public.stock_levels
+    WHERE item_id = _component.id AND location_id = _location_id;
+
+    IF _on_hand < _component.quantity THEN
+      RAISE EXCEPTION 'Insufficient stock for %: % on hand, % needed', _component.name, _on_hand, _component.quantity;
+    END IF;
+  END LOOP;
+
+  INSERT INTO public.stock_movements (user_id, item_id, location_id, delta, reason, note, reference_type, reference_id)
+  SELECT _kit.user_id, component_id, _location_id, -_sign * quantity * _quantity, _reason, _note, 'kit_assembly', _assembly.id
+  FROM public.kit_components
+  WHERE kit_id = _kit_id;
+
+  INSERT INTO public.stock_movements (user_id, item_id, location_id, delta, reason, note, reference_type, reference_id)
+  VALUES (_kit.user_id, _kit_id, _location_id, _sign * _quantity, _reason, _note, 'kit_assembly', _assembly.id);
+
+  RETURN _assembly;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION public.assemble_kit(
+  _kit_id UUID,
+  _quantity INTEGER,
+  _location_id UUID DEFAULT NULL,
+  _note TEXT DEFAULT NULL
+)
+RETURNS public.kit_assemblies AS $$
+  SELECT * FROM public.build_kit(_kit_id, _quantity, 'assemble', _location_id, _note);
+$$ LANGUAGE sql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION public.disassemble_kit(
+  _kit_id UUID,
+  _quantity INTEGER,
+  _location_id UUID DEFAULT NULL,
+  _note TEXT DEFAULT NULL
+)
+RETURNS public.kit_assemblies AS $$
+  SELECT * FROM public.build_kit(_kit_id, _quantity, 'disassemble', _location_id, _note);
+$$ LANGUAGE sql SECURITY DEFINER SET search_path = public;
+
+-- build_kit is an implementation detail of the two wrappers above
+REVOKE EXECUTE ON FUNCTION public.build_kit(UUID, INTEGER, TEXT, UUID, TEXT) FROM PUBLIC, anon, authenticated;
+
+CREATE INDEX idx_kit_components_user_id ON public.kit_components(user_id);
+CREATE INDEX idx_kit_components_kit_id ON public.kit_components(kit_id);
+CREATE INDEX idx_kit_components_component_id ON public.kit_components(component_id);
+CREATE INDEX idx_kit_assemblies_user_id ON public.kit_assemblies(user_id);
+CREATE INDEX idx_kit_assemblies_kit_id ON public.kit_assemblies(kit_id);
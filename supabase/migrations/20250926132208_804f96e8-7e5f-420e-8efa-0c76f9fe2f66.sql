@@ -0,0 +1,204 @@
+-- Lots (batches) of an item at a location, for perishables and recalls
+CREATE TABLE public.stock_lots (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  item_id UUID NOT NULL REFERENCES public.inventory_items(id) ON DELETE CASCADE,
+  location_id UUID NOT NULL REFERENCES public.locations(id) ON DELETE RESTRICT,
+  lot_number TEXT NOT NULL,
+  manufactured_on DATE,
+  expires_on DATE,
+  quantity INTEGER NOT NULL DEFAULT 0 CHECK (quantity >= 0),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (item_id, location_id, lot_number)
+);
+
+-- Enable RLS; lot quantities are derived from the movement ledger
+ALTER TABLE public.stock_lots ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own stock lots" 
+ON public.stock_lots 
+FOR SELECT 
+USING (auth.uid() = user_id);
+
+CREATE TRIGGER update_stock_lots_updated_at
+BEFORE UPDATE ON public.stock_lots
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+ALTER TABLE public.stock_movements
+ADD COLUMN lot_id UUID REFERENCES public.stock_lots(id) ON DELETE RESTRICT;
+
+CREATE INDEX idx_stock_movements_lot_id ON public.stock_movements(lot_id);
+
+-- Outbound movements without a lot are split across the location's lots,
+-- first-expired-first-out. Stock received before lot tracking goes last.
+-- Inbound transfer movements recreate the lots that left the source.
+CREATE OR REPLACE FUNCTION public.split_lot_movement()
+RETURNS TRIGGER AS $$
+DECLARE
+  _remaining INTEGER;
+  _take INTEGER;
+  _lot RECORD;
+  _lot_id UUID;
+BEGIN
+  IF NEW.lot_id IS NOT NULL THEN
+    IF NOT EXISTS (
+      SELECT 1 FROM public.stock_lots
+      WHERE id = NEW.lot_id AND item_id = NEW.item_id AND location_id = NEW.location_id
+    ) THEN
+      RAISE EXCEPTION 'Lot does not belong to this item and location';
+    END IF;
+    RETURN NEW;
+  END IF;
+
+  _remaining := abs(NEW.delta);
+
+  IF NEW.delta < 0 THEN
+    FOR _lot IN
+      SELECT id, quantity FROM public.stock_lots
+      WHERE item_id = NEW.item_id AND location_id = NEW.location_id AND quantity > 0
+      ORDER BY expires_on NULLS LAST, created_at
+      FOR UPDATE
+    LOOP
+      _take := LEAST(_lot.quantity, _remaining);
+      _remaining := _remaining - _take;
+
+      -- The last lot needed is booked on this row, earlier ones as siblings
+      IF _remaining = 0 THEN
+        NEW.lot_id := _lot.id;
+        NEW.delta := -_take;
+        RETURN NEW;
+      END IF;
+
+      INSERT INTO public.stock_movements (user_id, item_id, location_id, lot_id, delta, reason, note, reference_type, reference_id)
+      VALUES (NEW.user_id, NEW.item_id, NEW.location_id, _lot.id, -_take, NEW.reason, NEW.note, NEW.reference_type, NEW.reference_id);
+    END LOOP;
+
+    NEW.delta := -_remaining;
+  ELSIF NEW.delta > 0 AND NEW.reference_type = 'transfer' THEN
+    FOR _lot IN
+      SELECT l.lot_number, l.manufactured_on, l.expires_on, -SUM(m.delta) AS quantity
+      FROM public.stock_movements m
+      JOIN public.stock_lots l ON l.id = m.lot_id
+      WHERE m.reference_type = 'transfer' AND m.reference_id = NEW.reference_id
+        AND m.item_id = NEW.item_id AND m.delta < 0
+      GROUP BY l.lot_number, l.manufactured_on, l.expires_on
+      ORDER BY l.expires_on NULLS LAST
+    LOOP
+      EXIT WHEN _remaining = 0;
+
+      INSERT INTO public.stock_lots (user_id, item_id, location_id, lot_number, manufactured_on, expires_on)
+      VALUES (NEW.user_id, NEW.item_id, NEW.location_id, _lot.lot_number, _lot.manufactured_on, _lot.expires_on)
+      ON CONFLICT (item_id, location_id, lot_number) DO UPDATE SET lot_number = EXCLUDED.lot_number
+      RETURNING id INTO _lot_id;
+
+      _take := LEAST(_lot.quantity, _remaining);
+      _remaining := _remaining - _take;
+
+      IF _remaining = 0 THEN
+        NEW.lot_id := _lot_id;
+        NEW.delta := _take;
+        RETURN NEW;
+      END IF;
+
+      INSERT INTO public.stock_movements (user_id, item_id, location_id, lot_id, delta, reason, note, reference_type, reference_id)
+      VALUES (NEW.user_id, NEW.item_id, NEW.location_id, _lot_id, _take, NEW.reason, NEW.note, NEW.reference_type, NEW.reference_id);
+    END LOOP;
+
+    NEW.delta := _remaining;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Runs after assign_default_location (triggers fire in name order)
+CREATE TRIGGER split_lot_movement
+BEFORE INSERT ON public.stock_movements
+FOR EACH ROW
+EXECUTE FUNCTION public.split_lot_movement();
+
+-- Keep each lot's quantity in sync with the ledger
+CREATE OR REPLACE FUNCTION public.apply_lot_movement()
+RETURNS TRIGGER AS $$
+BEGIN
+  UPDATE public.stock_lots
+  SET quantity = (
+    SELECT COALESCE(SUM(delta), 0)
+    FROM public.stock_movements
+    WHERE lot_id = NEW.lot_id
+  )
+  WHERE id = NEW.lot_id;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER apply_lot_movement
+AFTER INSERT ON public.stock_movements
+FOR EACH ROW
+WHEN (NEW.lot_id IS NOT NULL)
+EXECUTE FUNCTION public.apply_lot_movement();
+
+-- Receive stock into a lot, creating the lot the first time it is seen
+CREATE OR REPLACE FUNCTION public.receive_lot(
+  _item_id UUID,
+  _lot_number TEXT,
+  _quantity INTEGER,
+  _expires_on DATE DEFAULT NULL,
+  _manufactured_on DATE DEFAULT NULL,
+  _location_id UUID DEFAULT NULL,
+  _note TEXT DEFAULT NULL
+)
+RETURNS public.stock_lots AS $$
+DECLARE
+  _item public.inventory_items;
+  _lot public.stock_lots;
+BEGIN
+  IF _quantity IS NULL OR _quantity <= 0 THEN
+    RAISE EXCEPTION 'Quantity must be positive';
+  END IF;
+
+  IF COALESCE(trim(_lot_number), '') = '' THEN
+    RAISE EXCEPTION 'Lot number is required';
+  END IF;
+
+  IF _manufactured_on IS NOT NULL AND _expires_on IS NOT NULL AND _expires_on < _manufactured_on THEN
+    RAISE EXCEPTION 'Expiry date is before the manufacture date';
+  END IF;
+
+  SELECT * INTO _item
+  FROM public.inventory_items
+  WHERE id = _item_id AND user_id = auth.uid()
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Item not found';
+  END IF;
+
+  IF _location_id IS NULL THEN
+    _location_id := public.default_location_id(_item.user_id);
+  ELSIF NOT EXISTS (
+    SELECT 1 FROM public.locations WHERE id = _location_id AND user_id = _item.user_id
+  ) THEN
+    RAISE EXCEPTION 'Location not found';
+  END IF;
+
+  INSERT INTO public.stock_lots (user_id, item_id, location_id, lot_number, manufactured_on, expires_on)
+  VALUES (_item.user_id, _item_id, _location_id, trim(_lot_number), _manufactured_on, _expires_on)
+  ON CONFLICT (item_id, location_id, lot_number) DO UPDATE
+  SET manufactured_on = COALESCE(EXCLUDED.manufactured_on, stock_lots.manufactured_on),
+      expires_on = COALESCE(EXCLUDED.expires_on, stock_lots.expires_on)
+  RETURNING * INTO _lot;
+
+  INSERT INTO public.stock_movements (user_id, item_id, location_id, lot_id, delta, reason, note)
+  VALUES (_item.user_id, _item_id, _location_id, _lot.id, _quantity, 'lot_receipt', _note);
+
+  SELECT * INTO _lot FROM public.stock_lots WHERE id = _lot.id;
+  RETURN _lot;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE INDEX idx_stock_lots_user_id ON public.stock_lots(user_id);
+CREATE INDEX idx_stock_lots_item_location ON public.stock_lots(item_id, location_id);
+CREATE INDEX idx_stock_lots_expires_on ON public.stock_lots(expires_on) WHERE quantity > 0;
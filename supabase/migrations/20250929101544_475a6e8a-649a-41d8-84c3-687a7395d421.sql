@@ -0,0 +1,488 @@
+-- Serialized items: every unit has its own serial number and every stock
+-- change of such an item is booked as one movement per serial.
+ALTER TABLE public.inventory_items
+ADD COLUMN is_serialized BOOLEAN NOT NULL DEFAULT false;
+
+CREATE TABLE public.serial_numbers (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  item_id UUID NOT NULL REFERENCES public.inventory_items(id) ON DELETE CASCADE,
+  serial TEXT NOT NULL,
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'in_stock', 'in_transit', 'sold', 'removed')),
+  location_id UUID REFERENCES public.locations(id) ON DELETE RESTRICT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (item_id, serial)
+);
+
+-- Enable RLS; serial state is derived from the movement ledger
+ALTER TABLE public.serial_numbers ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own serial numbers" 
+ON public.serial_numbers 
+FOR SELECT 
+USING (auth.uid() = user_id);
+
+CREATE TRIGGER update_serial_numbers_updated_at
+BEFORE UPDATE ON public.serial_numbers
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+ALTER TABLE public.stock_movements
+ADD COLUMN serial_id UUID REFERENCES public.serial_numbers(id) ON DELETE RESTRICT;
+
+CREATE INDEX idx_stock_movements_serial_id ON public.stock_movements(serial_id);
+
+-- History of a single unit: received, sold, returned, transferred, removed
+CREATE TABLE public.serial_events (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  serial_id UUID NOT NULL REFERENCES public.serial_numbers(id) ON DELETE CASCADE,
+  movement_id UUID NOT NULL REFERENCES public.stock_movements(id) ON DELETE CASCADE,
+  event TEXT NOT NULL CHECK (event IN ('received', 'sold', 'returned', 'transferred', 'removed')),
+  location_id UUID REFERENCES public.locations(id) ON DELETE SET NULL,
+  note TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.serial_events ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own serial events" 
+ON public.serial_events 
+FOR SELECT 
+USING (auth.uid() = user_id);
+
+-- Serial tracking can only be switched while the item holds no stock,
+-- so the on-hand quantity always equals the number of in-stock serials
+CREATE OR REPLACE FUNCTION public.guard_serialized_toggle()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.is_serialized <> OLD.is_serialized AND OLD.quantity <> 0 THEN
+    RAISE EXCEPTION 'Stock must be zero to change serial tracking';
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+CREATE TRIGGER guard_serialized_toggle
+BEFORE UPDATE OF is_serialized ON public.inventory_items
+FOR EACH ROW
+EXECUTE FUNCTION public.guard_serialized_toggle();
+
+-- Serialized items only move one known unit at a time
+CREATE OR REPLACE FUNCTION public.validate_serial_movement()
+RETURNS TRIGGER AS $$
+DECLARE
+  _serialized BOOLEAN;
+  _serial public.serial_numbers;
+BEGIN
+  SELECT is_serialized INTO _serialized FROM public.inventory_items WHERE id = NEW.item_id;
+
+  IF NEW.serial_id IS NULL THEN
+    IF _serialized AND NEW.delta <> 0 THEN
+      RAISE EXCEPTION 'Serial numbers are required to change stock of a serialized item';
+    END IF;
+    RETURN NEW;
+  END IF;
+
+  SELECT * INTO _serial
+  FROM public.serial_numbers
+  WHERE id = NEW.serial_id AND item_id = NEW.item_id
+  FOR UPDATE;
+
+  IF NOT FOUND OR NOT _serialized THEN
+    RAISE EXCEPTION 'Serial number does not belong to this item';
+  END IF;
+
+  IF abs(NEW.delta) <> 1 THEN
+    RAISE EXCEPTION 'A serial number is exactly one unit';
+  END IF;
+
+  IF NEW.delta > 0 AND _serial.status = 'in_stock' THEN
+    RAISE EXCEPTION 'Serial % is already in stock', _serial.serial;
+  END IF;
+
+  IF NEW.delta < 0 AND (_serial.status <> 'in_stock' OR _serial.location_id IS DISTINCT FROM NEW.location_id) THEN
+    RAISE EXCEPTION 'Serial % is not in stock at this location', _serial.serial;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+-- Runs after split_lot_movement (triggers fire in name order)
+CREATE TRIGGER validate_serial_movement
+BEFORE INSERT ON public.stock_movements
+FOR EACH ROW
+EXECUTE FUNCTION public.validate_serial_movement();
+
+-- Move the serial to its new state and record the event
+CREATE OR REPLACE FUNCTION public.apply_serial_movement()
+RETURNS TRIGGER AS $$
+DECLARE
+  _previous TEXT;
+  _event TEXT;
+BEGIN
+  SELECT status INTO _previous FROM public.serial_numbers WHERE id = NEW.serial_id;
+
+  IF NEW.delta > 0 THEN
+    _event := CASE
+      WHEN NEW.reason = 'transfer_in' THEN 'transferred'
+      WHEN _previous IN ('sold', 'removed') THEN 'returned'
+      ELSE 'received'
+    END;
+    UPDATE public.serial_numbers SET status = 'in_stock', location_id = NEW.location_id WHERE id = NEW.serial_id;
+  ELSIF NEW.reason = 'transfer_out' THEN
+    -- The transfer_in movement records the event once the unit arrives
+    UPDATE public.serial_numbers SET status = 'in_transit', location_id = NULL WHERE id = NEW.serial_id;
+    RETURN NEW;
+  ELSE
+    _event := CASE WHEN NEW.reason = 'sale' THEN 'sold' ELSE 'removed' END;
+    UPDATE public.serial_numbers SET status = _event, location_id = NULL WHERE id = NEW.serial_id;
+  END IF;
+
+  INSERT INTO public.serial_events (user_id, serial_id, movement_id, event, location_id, note)
+  VALUES (NEW.user_id, NEW.serial_id, NEW.id, _event, NEW.location_id, NEW.note);
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER apply_serial_movement
+AFTER INSERT ON public.stock_movements
+FOR EACH ROW
+WHEN (NEW.serial_id IS NOT NULL)
+EXECUTE FUNCTION public.apply_serial_movement();
+
+-- Book one movement per serial. Inbound serials are registered the first
+-- time they are seen; outbound ones leave from wherever they are stocked
+-- unless a location is given.
+CREATE OR REPLACE FUNCTION public.book_serial_movements(
+  _item public.inventory_items,
+  _serials TEXT[],
+  _direction INTEGER,
+  _location_id UUID,
+  _reason TEXT,
+  _note TEXT,
+  _reference_type TEXT,
+  _reference_id UUID
+)
+RETURNS SETOF public.serial_numbers AS $$
+DECLARE
+  _raw TEXT;
+  _serial public.serial_numbers;
+BEGIN
+  IF NOT _item.is_serialized THEN
+    RAISE EXCEPTION '% is not a serialized item', _item.name;
+  END IF;
+
+  IF COALESCE(array_length(_serials, 1), 0) = 0 THEN
+    RAISE EXCEPTION 'Enter at least one serial number';
+  END IF;
+
+  IF (SELECT COUNT(DISTINCT trim(s)) FROM unnest(_serials) s) <> array_length(_serials, 1) THEN
+    RAISE EXCEPTION 'Serial numbers must be unique';
+  END IF;
+
+  FOREACH _raw IN ARRAY _serials LOOP
+    IF COALESCE(trim(_raw), '') = '' THEN
+      RAISE EXCEPTION 'Serial numbers cannot be blank';
+    END IF;
+
+    IF _direction > 0 THEN
+      INSERT INTO public.serial_numbers (user_id, item_id, serial)
+      VALUES (_item.user_id, _item.id, trim(_raw))
+      ON CONFLICT (item_id, serial) DO UPDATE SET serial = EXCLUDED.serial
+      RETURNING * INTO _serial;
+    ELSE
+      SELECT * INTO _serial
+      FROM public.serial_numbers
+      WHERE item_id = _item.id AND serial = trim(_raw);
+
+      IF NOT FOUND THEN
+        RAISE EXCEPTION 'Serial % not found for %', trim(_raw), _item.name;
+      END IF;
+    END IF;
+
+    INSERT INTO public.stock_movements (user_id, item_id, location_id, serial_id, delta, reason, note, reference_type, reference_id)
+    VALUES (
+      _item.user_id, _item.id,
+      CASE WHEN _direction > 0 THEN _location_id ELSE COALESCE(_location_id, _serial.location_id) END,
+      _serial.id, _direction, _reason, _note, _reference_type, _reference_id
+    );
+
+    RETURN QUERY SELECT * FROM public.serial_numbers WHERE id = _serial.id;
+  END LOOP;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.book_serial_movements(public.inventory_items, TEXT[], INTEGER, UUID, TEXT, TEXT, TEXT, UUID) FROM PUBLIC, anon, authenticated;
+
+-- Receive (or take back) specific units of a serialized item
+CREATE OR REPLACE FUNCTION public.receive_serials(
+  _item_id UUID,
+  _serials TEXT[],
+  _location_id UUID DEFAULT NULL,
+  _reason TEXT DEFAULT 'receipt',
+  _note TEXT DEFAULT NULL
+)
+RETURNS SETOF public.serial_numbers AS $$
+DECLARE
+  _item public.inventory_items;
+BEGIN
+  SELECT * INTO _item
+  FROM public.inventory_items
+  WHERE id = _item_id AND user_id = auth.uid()
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Item not found';
+  END IF;
+
+  IF _location_id IS NOT NULL AND NOT EXISTS (
+    SELECT 1 FROM public.locations WHERE id = _location_id AND user_id = _item.user_id
+  ) THEN
+    RAISE EXCEPTION 'Location not found';
+  END IF;
+
+  RETURN QUERY
+  SELECT * FROM public.book_serial_movements(_item, _serials, 1, _location_id, _reason, _note, NULL, NULL);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Take specific units out of stock, e.g. damaged or written off
+CREATE OR REPLACE FUNCTION public.remove_serials(
+  _item_id UUID,
+  _serials TEXT[],
+  _reason TEXT DEFAULT 'adjustment',
+  _note TEXT DEFAULT NULL
+)
+RETURNS SETOF public.serial_numbers AS $$
+DECLARE
+  _item public.inventory_items;
+BEGIN
+  SELECT * INTO _item
+  FROM public.inventory_items
+  WHERE id = _item_id AND user_id = auth.uid()
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Item not found';
+  END IF;
+
+  RETURN QUERY
+  SELECT * FROM public.book_serial_movements(_item, _serials, -1, NULL, _reason, _note, NULL, NULL);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Move specific units to another location, one completed transfer per source
+CREATE OR REPLACE FUNCTION public.transfer_serials(
+  _item_id UUID,
+  _serials TEXT[],
+  _to_location_id UUID,
+  _note TEXT DEFAULT NULL
+)
+RETURNS SETOF public.stock_transfers AS $$
+DECLARE
+  _item public.inventory_items;
+  _group RECORD;
+  _transfer public.stock_transfers;
+BEGIN
+  SELECT * INTO _item
+  FROM public.inventory_items
+  WHERE id = _item_id AND user_id = auth.uid()
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Item not found';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM public.locations WHERE id = _to_location_id AND user_id = _item.user_id
+  ) THEN
+    RAISE EXCEPTION 'Location not found';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM unnest(_serials) s
+    LEFT JOIN public.serial_numbers sn ON sn.item_id = _item_id AND sn.serial = trim(s)
+    WHERE sn.id IS NULL OR sn.status <> 'in_stock'
+  ) THEN
+    RAISE EXCEPTION 'Every serial must be in stock to transfer it';
+  END IF;
+
+  FOR _group IN
+    SELECT sn.location_id, array_agg(sn.serial ORDER BY sn.serial) AS serials
+    FROM public.serial_numbers sn
+    WHERE sn.item_id = _item_id AND sn.serial IN (SELECT trim(s) FROM unnest(_serials) s)
+      AND sn.location_id <> _to_location_id
+    GROUP BY sn.location_id
+  LOOP
+    INSERT INTO public.stock_transfers (user_id, item_id, from_location_id, to_location_id, quantity, status, note, received_at)
+    VALUES (_item.user_id, _item_id, _group.location_id, _to_location_id, array_length(_group.serials, 1), 'completed', _note, now())
+    RETURNING * INTO _transfer;
+
+    PERFORM public.book_serial_movements(_item, _group.serials, -1, _group.location_id, 'transfer_out', _note, 'transfer', _transfer.id);
+    PERFORM public.book_serial_movements(_item, _group.serials, 1, _to_location_id, 'transfer_in', _note, 'transfer', _transfer.id);
+
+    RETURN NEXT _transfer;
+  END LOOP;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Purchase receipts of serialized items name the units that arrived
+DROP FUNCTION public.receive_purchase_order_line(UUID, INTEGER, UUID, TEXT);
+
+CREATE OR REPLACE FUNCTION public.receive_purchase_order_line(
+  _line_id UUID,
+  _quantity INTEGER,
+  _location_id UUID DEFAULT NULL,
+  _note TEXT DEFAULT NULL,
+  _serials TEXT[] DEFAULT NULL
+)
+RETURNS public.purchase_order_lines AS $$
+DECLARE
+  _line public.purchase_order_lines;
+  _order public.purchase_orders;
+  _item public.inventory_items;
+BEGIN
+  IF _quantity IS NULL OR _quantity <= 0 THEN
+    RAISE EXCEPTION 'Received quantity must be positive';
+  END IF;
+
+  SELECT * INTO _line
+  FROM public.purchase_order_lines
+  WHERE id = _line_id AND user_id = auth.uid()
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Purchase order line not found';
+  END IF;
+
+  SELECT * INTO _order
+  FROM public.purchase_orders
+  WHERE id = _line.purchase_order_id
+  FOR UPDATE;
+
+  IF _order.status NOT IN ('sent', 'partially_received', 'received') THEN
+    RAISE EXCEPTION 'Cannot receive against a % purchase order', _order.status;
+  END IF;
+
+  _location_id := COALESCE(_location_id, _order.location_id, public.default_location_id(_order.user_id));
+
+  IF NOT EXISTS (
+    SELECT 1 FROM public.locations WHERE id = _location_id AND user_id = _order.user_id
+  ) THEN
+    RAISE EXCEPTION 'Location not found';
+  END IF;
+
+  SELECT * INTO _item FROM public.inventory_items WHERE id = _line.item_id;
+
+  INSERT INTO public.purchase_order_receipts (user_id, line_id, location_id, quantity, note)
+  VALUES (_line.user_id, _line.id, _location_id, _quantity, _note);
+
+  IF _item.is_serialized THEN
+    IF COALESCE(array_length(_serials, 1), 0) <> _quantity THEN
+      RAISE EXCEPTION 'Enter one serial number per unit received (% needed)', _quantity;
+    END IF;
+    PERFORM public.book_serial_movements(_item, _serials, 1, _location_id, 'purchase_receipt', _note, 'purchase_order', _order.id);
+  ELSE
+    INSERT INTO public.stock_movements (user_id, item_id, location_id, delta, reason, note, reference_type, reference_id)
+    VALUES (_line.user_id, _line.item_id, _location_id, _quantity, 'purchase_receipt', _note, 'purchase_order', _order.id);
+  END IF;
+
+  UPDATE public.purchase_order_lines
+  SET quantity_received = quantity_received + _quantity
+  WHERE id = _line.id
+  RETURNING * INTO _line;
+
+  UPDATE public.purchase_orders
+  SET status = CASE
+    WHEN NOT EXISTS (
+      SELECT 1 FROM public.purchase_order_lines
+      WHERE purchase_order_id = _order.id AND quantity_received < quantity_ordered
+    ) THEN 'received'
+    ELSE 'partially_received'
+  END
+  WHERE id = _order.id;
+
+  RETURN _line;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Fulfilling serialized lines names the units that shipped
+DROP FUNCTION public.fulfil_sales_order(UUID);
+
+CREATE OR REPLACE FUNCTION public.fulfil_sales_order(_order_id UUID, _serials TEXT[] DEFAULT NULL)
+RETURNS public.sales_orders AS $$
+DECLARE
+  _order public.sales_orders;
+  _location_id UUID;
+  _line RECORD;
+  _item public.inventory_items;
+  _line_serials TEXT[];
+  _on_hand INTEGER;
+BEGIN
+  SELECT * INTO _order
+  FROM public.sales_orders
+  WHERE id = _order_id AND user_id = auth.uid()
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Sales order not found';
+  END IF;
+
+  IF _order.status <> 'confirmed' THEN
+    RAISE EXCEPTION 'Only confirmed orders can be fulfilled';
+  END IF;
+
+  _location_id := COALESCE(_order.location_id, public.default_location_id(_order.user_id));
+
+  FOR _line IN
+    SELECT i.id, i.name, SUM(l.quantity) AS quantity
+    FROM public.sales_order_lines l
+    JOIN public.inventory_items i ON i.id = l.item_id
+    WHERE l.sales_order_id = _order_id
+    GROUP BY i.id
+    ORDER BY i.id
+  LOOP
+    SELECT * INTO _item FROM public.inventory_items WHERE id = _line.id FOR UPDATE;
+
+    SELECT COALESCE(SUM(quantity), 0) INTO _on_hand
+    FROM public.stock_levels
+    WHERE item_id = _line.id AND location_id = _location_id;
+
+    IF _on_hand < _line.quantity THEN
+      RAISE EXCEPTION 'Insufficient stock for % at the shipping location: % on hand', _line.name, _on_hand;
+    END IF;
+
+    IF _item.is_serialized THEN
+      _line_serials := ARRAY(
+        SELECT sn.serial FROM public.serial_numbers sn
+        WHERE sn.item_id = _line.id AND sn.serial IN (SELECT trim(s) FROM unnest(_serials) s)
+      );
+      IF COALESCE(array_length(_line_serials, 1), 0) <> _line.quantity THEN
+        RAISE EXCEPTION 'Enter % serial numbers for %', _line.quantity, _line.name;
+      END IF;
+      PERFORM public.book_serial_movements(_item, _line_serials, -1, _location_id, 'sale', NULL, 'sales_order', _order.id);
+    ELSE
+      INSERT INTO public.stock_movements (user_id, item_id, location_id, delta, reason, reference_type, reference_id)
+      VALUES (_order.user_id, _line.id, _location_id, -_line.quantity, 'sale', 'sales_order', _order.id);
+    END IF;
+
+    UPDATE public.inventory_items
+    SET reserved_quantity = GREATEST(reserved_quantity - _line.quantity, 0)
+    WHERE id = _line.id;
+  END LOOP;
+
+  UPDATE public.sales_orders
+  SET status = 'fulfilled', fulfilled_at = now()
+  WHERE id = _order_id
+  RETURNING * INTO _order;
+
+  RETURN _order;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE INDEX idx_serial_numbers_user_id ON public.serial_numbers(user_id);
+CREATE INDEX idx_serial_numbers_serial ON public.serial_numbers(serial);
+CREATE INDEX idx_serial_events_serial_id ON public.serial_events(serial_id, created_at);
@@ -0,0 +1,893 @@
+-- Units of measure: each item is counted in a base unit and may be bought
+-- and sold in other units that convert to it by a fixed factor
+CREATE TABLE public.units (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  symbol TEXT NOT NULL,
+  decimal_places INTEGER NOT NULL DEFAULT 0 CHECK (decimal_places BETWEEN 0 AND 6),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (user_id, symbol)
+);
+
+-- Enable RLS
+ALTER TABLE public.units ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own units"
+ON public.units
+FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own units"
+ON public.units
+FOR INSERT
+WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own units"
+ON public.units
+FOR UPDATE
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own units"
+ON public.units
+FOR DELETE
+USING (auth.uid() = user_id);
+
+CREATE TRIGGER update_units_updated_at
+BEFORE UPDATE ON public.units
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Return the user's whole-number "each" unit, creating it if needed
+CREATE OR REPLACE FUNCTION public.default_unit_id(_user_id UUID)
+RETURNS UUID AS $$
+DECLARE
+  _unit_id UUID;
+BEGIN
+  SELECT id INTO _unit_id
+  FROM public.units
+  WHERE user_id = _user_id AND symbol = 'ea';
+
+  IF _unit_id IS NULL THEN
+    INSERT INTO public.units (user_id, name, symbol, decimal_places)
+    VALUES (_user_id, 'Each', 'ea', 0)
+    ON CONFLICT (user_id, symbol) DO UPDATE SET symbol = EXCLUDED.symbol
+    RETURNING id INTO _unit_id;
+  END IF;
+
+  RETURN _unit_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Reject quantities more precise than the unit allows
+CREATE OR REPLACE FUNCTION public.check_unit_quantity(_unit_id UUID, _quantity NUMERIC)
+RETURNS VOID AS $$
+DECLARE
+  _unit public.units;
+BEGIN
+  SELECT * INTO _unit FROM public.units WHERE id = _unit_id;
+
+  IF FOUND AND _quantity <> round(_quantity, _unit.decimal_places) THEN
+    IF _unit.decimal_places = 0 THEN
+      RAISE EXCEPTION 'Quantities in % must be whole numbers', _unit.name;
+    END IF;
+    RAISE EXCEPTION 'Quantities in % allow at most % decimal places', _unit.name, _unit.decimal_places;
+  END IF;
+END;
+$$ LANGUAGE plpgsql STABLE SET search_path = public;
+
+-- Quantities become NUMERIC so units like kg can hold fractions. Generated
+-- columns are dropped first and recreated against the new types.
+ALTER TABLE public.inventory_items DROP COLUMN available_quantity;
+ALTER TABLE public.purchase_order_lines DROP COLUMN variance;
+
+ALTER TABLE public.inventory_items
+ALTER COLUMN quantity TYPE NUMERIC,
+ALTER COLUMN low_stock_threshold TYPE NUMERIC,
+ALTER COLUMN reserved_quantity TYPE NUMERIC;
+
+ALTER TABLE public.inventory_items
+ADD COLUMN available_quantity NUMERIC GENERATED ALWAYS AS (quantity - reserved_quantity) STORED;
+
+ALTER TABLE public.purchase_order_lines
+ALTER COLUMN quantity_ordered TYPE NUMERIC,
+ALTER COLUMN quantity_received TYPE NUMERIC;
+
+ALTER TABLE public.purchase_order_lines
+ADD COLUMN variance NUMERIC GENERATED ALWAYS AS (quantity_received - quantity_ordered) STORED;
+
+ALTER TABLE public.stock_movements ALTER COLUMN delta TYPE NUMERIC;
+ALTER TABLE public.stock_levels
+ALTER COLUMN quantity TYPE NUMERIC,
+ALTER COLUMN low_stock_threshold TYPE NUMERIC;
+ALTER TABLE public.stock_transfers ALTER COLUMN quantity TYPE NUMERIC;
+ALTER TABLE public.stock_lots ALTER COLUMN quantity TYPE NUMERIC;
+ALTER TABLE public.item_suppliers ALTER COLUMN min_order_qty TYPE NUMERIC;
+ALTER TABLE public.purchase_order_receipts ALTER COLUMN quantity TYPE NUMERIC;
+ALTER TABLE public.sales_order_lines ALTER COLUMN quantity TYPE NUMERIC;
+ALTER TABLE public.kit_components ALTER COLUMN quantity TYPE NUMERIC;
+ALTER TABLE public.kit_assemblies ALTER COLUMN quantity TYPE NUMERIC;
+
+-- Base, purchase and sale units per item. A factor is the number of base
+-- units in one purchase or sale unit, e.g. 24 for a case of 24.
+ALTER TABLE public.inventory_items
+ADD COLUMN unit_id UUID REFERENCES public.units(id) ON DELETE RESTRICT,
+ADD COLUMN purchase_unit_id UUID REFERENCES public.units(id) ON DELETE RESTRICT,
+ADD COLUMN purchase_factor NUMERIC NOT NULL DEFAULT 1 CHECK (purchase_factor > 0),
+ADD COLUMN sale_unit_id UUID REFERENCES public.units(id) ON DELETE RESTRICT,
+ADD COLUMN sale_factor NUMERIC NOT NULL DEFAULT 1 CHECK (sale_factor > 0),
+ADD CHECK (purchase_unit_id IS NOT NULL OR purchase_factor = 1),
+ADD CHECK (sale_unit_id IS NOT NULL OR sale_factor = 1);
+
+UPDATE public.inventory_items
+SET unit_id = public.default_unit_id(user_id);
+
+ALTER TABLE public.inventory_items ALTER COLUMN unit_id SET NOT NULL;
+
+-- Items without a unit are counted in "each". The base unit can only change
+-- while the item holds no stock, so existing quantities keep their meaning.
+CREATE OR REPLACE FUNCTION public.validate_item_units()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.unit_id IS NULL THEN
+    NEW.unit_id := public.default_unit_id(NEW.user_id);
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM unnest(ARRAY[NEW.unit_id, NEW.purchase_unit_id, NEW.sale_unit_id]) AS u(id)
+    WHERE u.id IS NOT NULL
+      AND NOT EXISTS (SELECT 1 FROM public.units WHERE units.id = u.id AND units.user_id = NEW.user_id)
+  ) THEN
+    RAISE EXCEPTION 'Unit not found';
+  END IF;
+
+  IF TG_OP = 'UPDATE' AND NEW.unit_id <> OLD.unit_id AND (OLD.quantity <> 0 OR OLD.reserved_quantity <> 0) THEN
+    RAISE EXCEPTION 'Stock must be zero to change the base unit';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+CREATE TRIGGER validate_item_units
+BEFORE INSERT OR UPDATE OF unit_id, purchase_unit_id, sale_unit_id ON public.inventory_items
+FOR EACH ROW
+EXECUTE FUNCTION public.validate_item_units();
+
+-- Every movement is in the item's base unit and must respect its precision
+CREATE OR REPLACE FUNCTION public.validate_unit_quantity()
+RETURNS TRIGGER AS $$
+BEGIN
+  PERFORM public.check_unit_quantity(
+    (SELECT unit_id FROM public.inventory_items WHERE id = NEW.item_id),
+    NEW.delta
+  );
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+CREATE TRIGGER validate_unit_quantity
+BEFORE INSERT ON public.stock_movements
+FOR EACH ROW
+EXECUTE FUNCTION public.validate_unit_quantity();
+
+-- Order lines are entered in a unit of their own. The conversion factor is
+-- copied onto the line so later changes to the item don't alter open orders.
+ALTER TABLE public.purchase_order_lines
+ADD COLUMN unit_id UUID REFERENCES public.units(id) ON DELETE RESTRICT,
+ADD COLUMN unit_factor NUMERIC NOT NULL DEFAULT 1 CHECK (unit_factor > 0);
+
+ALTER TABLE public.sales_order_lines
+ADD COLUMN unit_id UUID REFERENCES public.units(id) ON DELETE RESTRICT,
+ADD COLUMN unit_factor NUMERIC NOT NULL DEFAULT 1 CHECK (unit_factor > 0);
+
+UPDATE public.purchase_order_lines l
+SET unit_id = i.unit_id
+FROM public.inventory_items i
+WHERE i.id = l.item_id;
+
+UPDATE public.sales_order_lines l
+SET unit_id = i.unit_id
+FROM public.inventory_items i
+WHERE i.id = l.item_id;
+
+CREATE OR REPLACE FUNCTION public.apply_line_unit()
+RETURNS TRIGGER AS $$
+DECLARE
+  _item public.inventory_items;
+  _quantity NUMERIC;
+BEGIN
+  SELECT * INTO _item FROM public.inventory_items WHERE id = NEW.item_id;
+
+  IF NOT FOUND THEN
+    RETURN NEW;
+  END IF;
+
+  NEW.unit_id := COALESCE(NEW.unit_id, _item.unit_id);
+  NEW.unit_factor := CASE NEW.unit_id
+    WHEN _item.unit_id THEN 1
+    WHEN _item.purchase_unit_id THEN _item.purchase_factor
+    WHEN _item.sale_unit_id THEN _item.sale_factor
+  END;
+
+  IF NEW.unit_factor IS NULL THEN
+    RAISE EXCEPTION '% is not bought or sold in that unit', _item.name;
+  END IF;
+
+  IF TG_TABLE_NAME = 'purchase_order_lines' THEN
+    _quantity := NEW.quantity_ordered;
+  ELSE
+    _quantity := NEW.quantity;
+  END IF;
+
+  PERFORM public.check_unit_quantity(NEW.unit_id, _quantity);
+  PERFORM public.check_unit_quantity(_item.unit_id, _quantity * NEW.unit_factor);
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+CREATE TRIGGER apply_line_unit
+BEFORE INSERT OR UPDATE OF item_id, unit_id, quantity_ordered ON public.purchase_order_lines
+FOR EACH ROW
+EXECUTE FUNCTION public.apply_line_unit();
+
+CREATE TRIGGER apply_line_unit
+BEFORE INSERT OR UPDATE OF item_id, unit_id, quantity ON public.sales_order_lines
+FOR EACH ROW
+EXECUTE FUNCTION public.apply_line_unit();
+
+-- Functions that take or hold quantities are recreated with NUMERIC types
+DROP FUNCTION public.adjust_stock(UUID, INTEGER, TEXT, UUID);
+
+CREATE OR REPLACE FUNCTION public.adjust_stock(
+  _item_id UUID,
+  _delta NUMERIC,
+  _reason TEXT DEFAULT 'adjustment',
+  _location_id UUID DEFAULT NULL
+)
+RETURNS public.inventory_items AS $$
+DECLARE
+  _item public.inventory_items;
+  _on_hand NUMERIC;
+BEGIN
+  IF _delta = 0 THEN
+    RAISE EXCEPTION 'Adjustment must not be zero';
+  END IF;
+
+  -- Lock the row so concurrent adjustments are applied one after another
+  SELECT * INTO _item
+  FROM public.inventory_items
+  WHERE id = _item_id AND user_id = auth.uid()
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Item not found';
+  END IF;
+
+  IF _location_id IS NULL THEN
+    _location_id := public.default_location_id(_item.user_id);
+  ELSIF NOT EXISTS (
+    SELECT 1 FROM public.locations WHERE id = _location_id AND user_id = _item.user_id
+  ) THEN
+    RAISE EXCEPTION 'Location not found';
+  END IF;
+
+  SELECT COALESCE(SUM(quantity), 0) INTO _on_hand
+  FROM public.stock_levels
+  WHERE item_id = _item_id AND location_id = _location_id;
+
+  IF _on_hand + _delta < 0 THEN
+    RAISE EXCEPTION 'Insufficient stock: % on hand at this location', _on_hand;
+  END IF;
+
+  INSERT INTO public.stock_movements (user_id, item_id, location_id, delta, reason)
+  VALUES (_item.user_id, _item.id, _location_id, _delta, COALESCE(_reason, 'adjustment'));
+
+  SELECT * INTO _item FROM public.inventory_items WHERE id = _item_id;
+  RETURN _item;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+DROP FUNCTION public.set_stock_threshold(UUID, UUID, INTEGER);
+
+CREATE OR REPLACE FUNCTION public.set_stock_threshold(
+  _item_id UUID,
+  _location_id UUID,
+  _threshold NUMERIC
+)
+RETURNS public.stock_levels AS $$
+DECLARE
+  _level public.stock_levels;
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM public.inventory_items WHERE id = _item_id AND user_id = auth.uid()
+  ) OR NOT EXISTS (
+    SELECT 1 FROM public.locations WHERE id = _location_id AND user_id = auth.uid()
+  ) THEN
+    RAISE EXCEPTION 'Item or location not found';
+  END IF;
+
+  INSERT INTO public.stock_levels (user_id, item_id, location_id, low_stock_threshold)
+  VALUES (auth.uid(), _item_id, _location_id, _threshold)
+  ON CONFLICT (item_id, location_id) DO UPDATE SET low_stock_threshold = EXCLUDED.low_stock_threshold
+  RETURNING * INTO _level;
+
+  RETURN _level;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP FUNCTION public.transfer_stock(UUID, UUID, UUID, INTEGER, BOOLEAN, TEXT);
+
+CREATE OR REPLACE FUNCTION public.transfer_stock(
+  _item_id UUID,
+  _from_location_id UUID,
+  _to_location_id UUID,
+  _quantity NUMERIC,
+  _in_transit BOOLEAN DEFAULT false,
+  _note TEXT DEFAULT NULL
+)
+RETURNS public.stock_transfers AS $$
+DECLARE
+  _item public.inventory_items;
+  _transfer public.stock_transfers;
+  _on_hand NUMERIC;
+BEGIN
+  IF _quantity IS NULL OR _quantity <= 0 THEN
+    RAISE EXCEPTION 'Transfer quantity must be positive';
+  END IF;
+
+  IF _from_location_id = _to_location_id THEN
+    RAISE EXCEPTION 'Source and destination must differ';
+  END IF;
+
+  SELECT * INTO _item
+  FROM public.inventory_items
+  WHERE id = _item_id AND user_id = auth.uid()
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Item not found';
+  END IF;
+
+  IF (
+    SELECT COUNT(*) FROM public.locations
+    WHERE id IN (_from_location_id, _to_location_id) AND user_id = _item.user_id
+  ) <> 2 THEN
+    RAISE EXCEPTION 'Location not found';
+  END IF;
+
+  SELECT COALESCE(SUM(quantity), 0) INTO _on_hand
+  FROM public.stock_levels
+  WHERE item_id = _item_id AND location_id = _from_location_id;
+
+  IF _on_hand < _quantity THEN
+    RAISE EXCEPTION 'Insufficient stock: % on hand at the source location', _on_hand;
+  END IF;
+
+  INSERT INTO public.stock_transfers (
+    user_id, item_id, from_location_id, to_location_id, quantity, status, note, received_at
+  )
+  VALUES (
+    _item.user_id, _item_id, _from_location_id, _to_location_id, _quantity,
+    CASE WHEN _in_transit THEN 'in_transit' ELSE 'completed' END,
+    _note,
+    CASE WHEN _in_transit THEN NULL ELSE now() END
+  )
+  RETURNING * INTO _transfer;
+
+  INSERT INTO public.stock_movements (user_id, item_id, location_id, delta, reason, note, reference_type, reference_id)
+  VALUES (_item.user_id, _item_id, _from_location_id, -_quantity, 'transfer_out', _note, 'transfer', _transfer.id);
+
+  IF NOT _in_transit THEN
+    INSERT INTO public.stock_movements (user_id, item_id, location_id, delta, reason, note, reference_type, reference_id)
+    VALUES (_item.user_id, _item_id, _to_location_id, _quantity, 'transfer_in', _note, 'transfer', _transfer.id);
+  END IF;
+
+  RETURN _transfer;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Receipts are counted in the line's unit and booked into stock in base units
+DROP FUNCTION public.receive_purchase_order_line(UUID, INTEGER, UUID, TEXT, TEXT[]);
+
+CREATE OR REPLACE FUNCTION public.receive_purchase_order_line(
+  _line_id UUID,
+  _quantity NUMERIC,
+  _location_id UUID DEFAULT NULL,
+  _note TEXT DEFAULT NULL,
+  _serials TEXT[] DEFAULT NULL
+)
+RETURNS public.purchase_order_lines AS $$
+DECLARE
+  _line public.purchase_order_lines;
+  _order public.purchase_orders;
+  _item public.inventory_items;
+  _base_quantity NUMERIC;
+BEGIN
+  IF _quantity IS NULL OR _quantity <= 0 THEN
+    RAISE EXCEPTION 'Received quantity must be positive';
+  END IF;
+
+  SELECT * INTO _line
+  FROM public.purchase_order_lines
+  WHERE id = _line_id AND user_id = auth.uid()
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Purchase order line not found';
+  END IF;
+
+  SELECT * INTO _order
+  FROM public.purchase_orders
+  WHERE id = _line.purchase_order_id
+  FOR UPDATE;
+
+  IF _order.status NOT IN ('sent', 'partially_received', 'received') THEN
+    RAISE EXCEPTION 'Cannot receive against a % purchase order', _order.status;
+  END IF;
+
+  _location_id := COALESCE(_location_id, _order.location_id, public.default_location_id(_order.user_id));
+
+  IF NOT EXISTS (
+    SELECT 1 FROM public.locations WHERE id = _location_id AND user_id = _order.user_id
+  ) THEN
+    RAISE EXCEPTION 'Location not found';
+  END IF;
+
+  PERFORM public.check_unit_quantity(_line.unit_id, _quantity);
+
+  SELECT * INTO _item FROM public.inventory_items WHERE id = _line.item_id;
+  _base_quantity := _quantity * _line.unit_factor;
+
+  INSERT INTO public.purchase_order_receipts (user_id, line_id, location_id, quantity, note)
+  VALUES (_line.user_id, _line.id, _location_id, _quantity, _note);
+
+  IF _item.is_serialized THEN
+    IF COALESCE(array_length(_serials, 1), 0) <> _base_quantity THEN
+      RAISE EXCEPTION 'Enter one serial number per unit received (% needed)', _base_quantity;
+    END IF;
+    PERFORM public.book_serial_movements(_item, _serials, 1, _location_id, 'purchase_receipt', _note, 'purchase_order', _order.id);
+  ELSE
+    INSERT INTO public.stock_movements (user_id, item_id, location_id, delta, reason, note, reference_type, reference_id)
+    VALUES (_line.user_id, _line.item_id, _location_id, _base_quantity, 'purchase_receipt', _note, 'purchase_order', _order.id);
+  END IF;
+
+  UPDATE public.purchase_order_lines
+  SET quantity_received = quantity_received + _quantity
+  WHERE id = _line.id
+  RETURNING * INTO _line;
+
+  UPDATE public.purchase_orders
+  SET status = CASE
+    WHEN NOT EXISTS (
+      SELECT 1 FROM public.purchase_order_lines
+      WHERE purchase_order_id = _order.id AND quantity_received < quantity_ordered
+    ) THEN 'received'
+    ELSE 'partially_received'
+  END
+  WHERE id = _order.id;
+
+  RETURN _line;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Sales lines reserve and ship their quantity converted to base units
+CREATE OR REPLACE FUNCTION public.confirm_sales_order(_order_id UUID)
+RETURNS public.sales_orders AS $$
+DECLARE
+  _order public.sales_orders;
+  _line RECORD;
+  _available NUMERIC;
+BEGIN
+  SELECT * INTO _order
+  FROM public.sales_orders
+  WHERE id = _order_id AND user_id = auth.uid()
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Sales order not found';
+  END IF;
+
+  IF _order.status <> 'draft' THEN
+    RAISE EXCEPTION 'Only draft orders can be confirmed';
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM public.sales_order_lines WHERE sales_order_id = _order_id) THEN
+    RAISE EXCEPTION 'Add at least one line before confirming';
+  END IF;
+
+  -- Lock items in a stable order so concurrent confirmations cannot deadlock
+  FOR _line IN
+    SELECT i.id, i.name, SUM(l.quantity * l.unit_factor) AS quantity
+    FROM public.sales_order_lines l
+    JOIN public.inventory_items i ON i.id = l.item_id
+    WHERE l.sales_order_id = _order_id
+    GROUP BY i.id
+    ORDER BY i.id
+  LOOP
+    SELECT quantity - reserved_quantity INTO _available
+    FROM public.inventory_items
+    WHERE id = _line.id
+    FOR UPDATE;
+
+    IF _available < _line.quantity THEN
+      RAISE EXCEPTION 'Insufficient stock for %: % available', _line.name, _available;
+    END IF;
+
+    UPDATE public.inventory_items
+    SET reserved_quantity = reserved_quantity + _line.quantity
+    WHERE id = _line.id;
+  END LOOP;
+
+  UPDATE public.sales_orders
+  SET status = 'confirmed', confirmed_at = now()
+  WHERE id = _order_id
+  RETURNING * INTO _order;
+
+  RETURN _order;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION public.fulfil_sales_order(_order_id UUID, _serials TEXT[] DEFAULT NULL)
+RETURNS public.sales_orders AS $$
+DECLARE
+  _order public.sales_orders;
+  _location_id UUID;
+  _line RECORD;
+  _item public.inventory_items;
+  _line_serials TEXT[];
+  _on_hand NUMERIC;
+BEGIN
+  SELECT * INTO _order
+  FROM public.sales_orders
+  WHERE id = _order_id AND user_id = auth.uid()
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Sales order not found';
+  END IF;
+
+  IF _order.status <> 'confirmed' THEN
+    RAISE EXCEPTION 'Only confirmed orders can be fulfilled';
+  END IF;
+
+  _location_id := COALESCE(_order.location_id, public.default_location_id(_order.user_id));
+
+  FOR _line IN
+    SELECT i.id, i.name, SUM(l.quantity * l.unit_factor) AS quantity
+    FROM public.sales_order_lines l
+    JOIN public.inventory_items i ON i.id = l.item_id
+    WHERE l.sales_order_id = _order_id
+    GROUP BY i.id
+    ORDER BY i.id
+  LOOP
+    SELECT * INTO _item FROM public.inventory_items WHERE id = _line.id FOR UPDATE;
+
+    SELECT COALESCE(SUM(quantity), 0) INTO _on_hand
+    FROM public.stock_levels
+    WHERE item_id = _line.id AND location_id = _location_id;
+
+    IF _on_hand < _line.quantity THEN
+      RAISE EXCEPTION 'Insufficient stock for % at the shipping location: % on hand', _line.name, _on_hand;
+    END IF;
+
+    IF _item.is_serialized THEN
+      _line_serials := ARRAY(
+        SELECT sn.serial FROM public.serial_numbers sn
+        WHERE sn.item_id = _line.id AND sn.serial IN (SELECT trim(s) FROM unnest(_serials) s)
+      );
+      IF COALESCE(array_length(_line_serials, 1), 0) <> _line.quantity THEN
+        RAISE EXCEPTION 'Enter % serial numbers for %', _line.quantity, _line.name;
+      END IF;
+      PERFORM public.book_serial_movements(_item, _line_serials, -1, _location_id, 'sale', NULL, 'sales_order', _order.id);
+    ELSE
+      INSERT INTO public.stock_movements (user_id, item_id, location_id, delta, reason, reference_type, reference_id)
+      VALUES (_order.user_id, _line.id, _location_id, -_line.quantity, 'sale', 'sales_order', _order.id);
+    END IF;
+
+    UPDATE public.inventory_items
+    SET reserved_quantity = GREATEST(reserved_quantity - _line.quantity, 0)
+    WHERE id = _line.id;
+  END LOOP;
+
+  UPDATE public.sales_orders
+  SET status = 'fulfilled', fulfilled_at = now()
+  WHERE id = _order_id
+  RETURNING * INTO _order;
+
+  RETURN _order;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION public.cancel_sales_order(_order_id UUID)
+RETURNS public.sales_orders AS $$
+DECLARE
+  _order public.sales_orders;
+  _line RECORD;
+BEGIN
+  SELECT * INTO _order
+  FROM public.sales_orders
+  WHERE id = _order_id AND user_id = auth.uid()
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Sales order not found';
+  END IF;
+
+  IF _order.status NOT IN ('draft', 'confirmed') THEN
+    RAISE EXCEPTION 'Cannot cancel a % order', _order.status;
+  END IF;
+
+  IF _order.status = 'confirmed' THEN
+    FOR _line IN
+      SELECT item_id, SUM(quantity * unit_factor) AS quantity
+      FROM public.sales_order_lines
+      WHERE sales_order_id = _order_id
+      GROUP BY item_id
+      ORDER BY item_id
+    LOOP
+      UPDATE public.inventory_items
+      SET reserved_quantity = GREATEST(reserved_quantity - _line.quantity, 0)
+      WHERE id = _line.item_id;
+    END LOOP;
+  END IF;
+
+  UPDATE public.sales_orders
+  SET status = 'cancelled', cancelled_at = now()
+  WHERE id = _order_id
+  RETURNING * INTO _order;
+
+  RETURN _order;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP FUNCTION public.assemble_kit(UUID, INTEGER, UUID, TEXT);
+DROP FUNCTION public.disassemble_kit(UUID, INTEGER, UUID, TEXT);
+DROP FUNCTION public.build_kit(UUID, INTEGER, TEXT, UUID, TEXT);
+
+CREATE OR REPLACE FUNCTION public.build_kit(
+  _kit_id UUID,
+  _quantity NUMERIC,
+  _direction TEXT,
+  _location_id UUID,
+  _note TEXT
+)
+RETURNS public.kit_assemblies AS $$
+DECLARE
+  _kit public.inventory_items;
+  _assembly public.kit_assemblies;
+  _sign INTEGER;
+  _reason TEXT;
+  _component RECORD;
+  _on_hand NUMERIC;
+BEGIN
+  IF _quantity IS NULL OR _quantity <= 0 THEN
+    RAISE EXCEPTION 'Quantity must be positive';
+  END IF;
+
+  SELECT * INTO _kit
+  FROM public.inventory_items
+  WHERE id = _kit_id AND user_id = auth.uid();
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Item not found';
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM public.kit_components WHERE kit_id = _kit_id) THEN
+    RAISE EXCEPTION '% has no components', _kit.name;
+  END IF;
+
+  IF _location_id IS NULL THEN
+    _location_id := public.default_location_id(_kit.user_id);
+  ELSIF NOT EXISTS (
+    SELECT 1 FROM public.locations WHERE id = _location_id AND user_id = _kit.user_id
+  ) THEN
+    RAISE EXCEPTION 'Location not found';
+  END IF;
+
+  _sign := CASE WHEN _direction = 'assemble' THEN 1 ELSE -1 END;
+  _reason := CASE WHEN _direction = 'assemble' THEN 'assembly' ELSE 'disassembly' END;
+
+  INSERT INTO public.kit_assemblies (user_id, kit_id, location_id, direction, quantity, note)
+  VALUES (_kit.user_id, _kit_id, _location_id, _direction, _quantity, _note)
+  RETURNING * INTO _assembly;
+
+  -- Lock the kit and its components in id order so concurrent builds can't deadlock
+  PERFORM 1 FROM public.inventory_items
+  WHERE id = _kit_id OR id IN (SELECT component_id FROM public.kit_components WHERE kit_id = _kit_id)
+  ORDER BY id
+  FOR UPDATE;
+
+  -- Whatever is leaving the location must be on hand there
+  FOR _component IN
+    SELECT i.id, i.name, CASE WHEN i.id = _kit_id THEN _quantity ELSE c.quantity * _quantity END AS quantity
+    FROM public.inventory_items i
+    LEFT JOIN public.kit_components c ON c.component_id = i.id AND c.kit_id = _kit_id
+    WHERE (i.id = _kit_id AND _sign < 0) OR (c.id IS NOT NULL AND _sign > 0)
+  LOOP
+    SELECT COALESCE(SUM(quantity), 0) INTO _on_hand
+    FROM public.stock_levels
+    WHERE item_id = _component.id AND location_id = _location_id;
+
+    IF _on_hand < _component.quantity THEN
+      RAISE EXCEPTION 'Insufficient stock for %: % on hand, % needed', _component.name, _on_hand, _component.quantity;
+    END IF;
+  END LOOP;
+
+  INSERT INTO public.stock_movements (user_id, item_id, location_id, delta, reason, note, reference_type, reference_id)
+  SELECT _kit.user_id, component_id, _location_id, -_sign * quantity * _quantity, _reason, _note, 'kit_assembly', _assembly.id
+  FROM public.kit_components
+  WHERE kit_id = _kit_id;
+
+  INSERT INTO public.stock_movements (user_id, item_id, location_id, delta, reason, note, reference_type, reference_id)
+  VALUES (_kit.user_id, _kit_id, _location_id, _sign * _quantity, _reason, _note, 'kit_assembly', _assembly.id);
+
+  RETURN _assembly;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION public.assemble_kit(
+  _kit_id UUID,
+  _quantity NUMERIC,
+  _location_id UUID DEFAULT NULL,
+  _note TEXT DEFAULT NULL
+)
+RETURNS public.kit_assemblies AS $$
+  SELECT * FROM public.build_kit(_kit_id, _quantity, 'assemble', _location_id, _note);
+$$ LANGUAGE sql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION public.disassemble_kit(
+  _kit_id UUID,
+  _quantity NUMERIC,
+  _location_id UUID DEFAULT NULL,
+  _note TEXT DEFAULT NULL
+)
+RETURNS public.kit_assemblies AS $$
+  SELECT * FROM public.build_kit(_kit_id, _quantity, 'disassemble', _location_id, _note);
+$$ LANGUAGE sql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.build_kit(UUID, NUMERIC, TEXT, UUID, TEXT) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION public.split_lot_movement()
+RETURNS TRIGGER AS $$
+DECLARE
+  _remaining NUMERIC;
+  _take NUMERIC;
+  _lot RECORD;
+  _lot_id UUID;
+BEGIN
+  IF NEW.lot_id IS NOT NULL THEN
+    IF NOT EXISTS (
+      SELECT 1 FROM public.stock_lots
+      WHERE id = NEW.lot_id AND item_id = NEW.item_id AND location_id = NEW.location_id
+    ) THEN
+      RAISE EXCEPTION 'Lot does not belong to this item and location';
+    END IF;
+    RETURN NEW;
+  END IF;
+
+  _remaining := abs(NEW.delta);
+
+  IF NEW.delta < 0 THEN
+    FOR _lot IN
+      SELECT id, quantity FROM public.stock_lots
+      WHERE item_id = NEW.item_id AND location_id = NEW.location_id AND quantity > 0
+      ORDER BY expires_on NULLS LAST, created_at
+      FOR UPDATE
+    LOOP
+      _take := LEAST(_lot.quantity, _remaining);
+      _remaining := _remaining - _take;
+
+      -- The last lot needed is booked on this row, earlier ones as siblings
+      IF _remaining = 0 THEN
+        NEW.lot_id := _lot.id;
+        NEW.delta := -_take;
+        RETURN NEW;
+      END IF;
+
+      INSERT INTO public.stock_movements (user_id, item_id, location_id, lot_id, delta, reason, note, reference_type, reference_id)
+      VALUES (NEW.user_id, NEW.item_id, NEW.location_id, _lot.id, -_take, NEW.reason, NEW.note, NEW.reference_type, NEW.reference_id);
+    END LOOP;
+
+    NEW.delta := -_remaining;
+  ELSIF NEW.delta > 0 AND NEW.reference_type = 'transfer' THEN
+    FOR _lot IN
+      SELECT l.lot_number, l.manufactured_on, l.expires_on, -SUM(m.delta) AS quantity
+      FROM public.stock_movements m
+      JOIN public.stock_lots l ON l.id = m.lot_id
+      WHERE m.reference_type = 'transfer' AND m.reference_id = NEW.reference_id
+        AND m.item_id = NEW.item_id AND m.delta < 0
+      GROUP BY l.lot_number, l.manufactured_on, l.expires_on
+      ORDER BY l.expires_on NULLS LAST
+    LOOP
+      EXIT WHEN _remaining = 0;
+
+      INSERT INTO public.stock_lots (user_id, item_id, location_id, lot_number, manufactured_on, expires_on)
+      VALUES (NEW.user_id, NEW.item_id, NEW.location_id, _lot.lot_number, _lot.manufactured_on, _lot.expires_on)
+      ON CONFLICT (item_id, location_id, lot_number) DO UPDATE SET lot_number = EXCLUDED.lot_number
+      RETURNING id INTO _lot_id;
+
+      _take := LEAST(_lot.quantity, _remaining);
+      _remaining := _remaining - _take;
+
+      IF _remaining = 0 THEN
+        NEW.lot_id := _lot_id;
+        NEW.delta := _take;
+        RETURN NEW;
+      END IF;
+
+      INSERT INTO public.stock_movements (user_id, item_id, location_id, lot_id, delta, reason, note, reference_type, reference_id)
+      VALUES (NEW.user_id, NEW.item_id, NEW.location_id, _lot_id, _take, NEW.reason, NEW.note, NEW.reference_type, NEW.reference_id);
+    END LOOP;
+
+    NEW.delta := _remaining;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP FUNCTION public.receive_lot(UUID, TEXT, INTEGER, DATE, DATE, UUID, TEXT);
+
+CREATE OR REPLACE FUNCTION public.receive_lot(
+  _item_id UUID,
+  _lot_number TEXT,
+  _quantity NUMERIC,
+  _expires_on DATE DEFAULT NULL,
+  _manufactured_on DATE DEFAULT NULL,
+  _location_id UUID DEFAULT NULL,
+  _note TEXT DEFAULT NULL
+)
+RETURNS public.stock_lots AS $$
+DECLARE
+  _item public.inventory_items;
+  _lot public.stock_lots;
+BEGIN
+  IF _quantity IS NULL OR _quantity <= 0 THEN
+    RAISE EXCEPTION 'Quantity must be positive';
+  END IF;
+
+  IF COALESCE(trim(_lot_number), '') = '' THEN
+    RAISE EXCEPTION 'Lot number is required';
+  END IF;
+
+  IF _manufactured_on IS NOT NULL AND _expires_on IS NOT NULL AND _expires_on < _manufactured_on THEN
+    RAISE EXCEPTION 'Expiry date is before the manufacture date';
+  END IF;
+
+  SELECT * INTO _item
+  FROM public.inventory_items
+  WHERE id = _item_id AND user_id = auth.uid()
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Item not found';
+  END IF;
+
+  IF _location_id IS NULL THEN
+    _location_id := public.default_location_id(_item.user_id);
+  ELSIF NOT EXISTS (
+    SELECT 1 FROM public.locations WHERE id = _location_id AND user_id = _item.user_id
+  ) THEN
+    RAISE EXCEPTION 'Location not found';
+  END IF;
+
+  INSERT INTO public.stock_lots (user_id, item_id, location_id, lot_number, manufactured_on, expires_on)
+  VALUES (_item.user_id, _item_id, _location_id, trim(_lot_number), _manufactured_on, _expires_on)
+  ON CONFLICT (item_id, location_id, lot_number) DO UPDATE
+  SET manufactured_on = COALESCE(EXCLUDED.manufactured_on, stock_lots.manufactured_on),
+      expires_on = COALESCE(EXCLUDED.expires_on, stock_lots.expires_on)
+  RETURNING * INTO _lot;
+
+  INSERT INTO public.stock_movements (user_id, item_id, location_id, lot_id, delta, reason, note)
+  VALUES (_item.user_id, _item_id, _location_id, _lot.id, _quantity, 'lot_receipt', _note);
+
+  SELECT * INTO _lot FROM public.stock_lots WHERE id = _lot.id;
+  RETURN _lot;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE INDEX idx_units_user_id ON public.units(user_id);
+CREATE INDEX idx_inventory_items_unit_id ON public.inventory_items(unit_id);
@@ -0,0 +1,210 @@
+-- Categories form a tree per user. Items point at a node instead of carrying
+-- free text, so "Apparel", "apparel" and "Apparel " are one category.
+CREATE TABLE public.categories (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  parent_id UUID REFERENCES public.categories(id) ON DELETE CASCADE,
+  name TEXT NOT NULL CHECK (name <> ''),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- Enable RLS
+ALTER TABLE public.categories ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own categories"
+ON public.categories
+FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own categories"
+ON public.categories
+FOR INSERT
+WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own categories"
+ON public.categories
+FOR UPDATE
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own categories"
+ON public.categories
+FOR DELETE
+USING (auth.uid() = user_id);
+
+CREATE TRIGGER update_categories_updated_at
+BEFORE UPDATE ON public.categories
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Names are compared without regard to case, so siblings can't differ only by it
+CREATE UNIQUE INDEX idx_categories_sibling_name
+ON public.categories (user_id, COALESCE(parent_id, '00000000-0000-0000-0000-000000000000'::uuid), lower(name));
+
+-- Tidy whitespace in names and keep the tree a tree: the parent must belong
+-- to the same user and a category can't be moved under its own subtree.
+-- Names folded in from the old free text may hold a separator; they keep it
+-- until renamed.
+CREATE OR REPLACE FUNCTION public.validate_category()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.name := btrim(regexp_replace(NEW.name, '\s+', ' ', 'g'));
+
+  IF NEW.name = '' THEN
+    RAISE EXCEPTION 'Category name is required';
+  END IF;
+
+  IF (TG_OP = 'INSERT' OR NEW.name IS DISTINCT FROM OLD.name) AND NEW.name ~ '[/>]' THEN
+    RAISE EXCEPTION 'Category names cannot contain "/" or ">"';
+  END IF;
+
+  IF NEW.parent_id IS NOT NULL THEN
+    IF NOT EXISTS (
+      SELECT 1 FROM public.categories WHERE id = NEW.parent_id AND user_id = NEW.user_id
+    ) THEN
+      RAISE EXCEPTION 'Parent category not found';
+    END IF;
+
+    IF TG_OP = 'UPDATE' AND EXISTS (
+      WITH RECURSIVE ancestors AS (
+        SELECT id, parent_id FROM public.categories WHERE id = NEW.parent_id
+        UNION
+        SELECT c.id, c.parent_id
+        FROM public.categories c
+        JOIN ancestors a ON c.id = a.parent_id
+      )
+      SELECT 1 FROM ancestors WHERE id = NEW.id
+    ) THEN
+      RAISE EXCEPTION 'A category cannot be moved inside itself';
+    END IF;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+CREATE TRIGGER validate_category
+BEFORE INSERT OR UPDATE OF name, parent_id ON public.categories
+FOR EACH ROW
+EXECUTE FUNCTION public.validate_category();
+
+-- Resolve a path such as "Apparel > Shirts" (or "Apparel/Shirts") to its
+-- leaf category, creating any missing levels. Returns NULL for a blank path.
+CREATE OR REPLACE FUNCTION public.category_path_id(_user_id UUID, _path TEXT)
+RETURNS UUID AS $$
+DECLARE
+  _segment TEXT;
+  _id UUID;
+  _parent_id UUID;
+BEGIN
+  FOREACH _segment IN ARRAY regexp_split_to_array(COALESCE(_path, ''), '[/>]') LOOP
+    _segment := btrim(regexp_replace(_segment, '\s+', ' ', 'g'));
+    CONTINUE WHEN _segment = '';
+
+    SELECT id INTO _id
+    FROM public.categories
+    WHERE user_id = _user_id
+      AND parent_id IS NOT DISTINCT FROM _parent_id
+      AND lower(name) = lower(_segment);
+
+    IF _id IS NULL THEN
+      INSERT INTO public.categories (user_id, parent_id, name)
+      VALUES (_user_id, _parent_id, _segment)
+      RETURNING id INTO _id;
+    END IF;
+
+    _parent_id := _id;
+  END LOOP;
+
+  RETURN _parent_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.category_path_id(UUID, TEXT) FROM PUBLIC, anon, authenticated;
+
+-- Find or create the caller's category at a path, returning the leaf
+CREATE OR REPLACE FUNCTION public.add_category(_path TEXT)
+RETURNS public.categories AS $$
+DECLARE
+  _id UUID;
+  _category public.categories;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  _id := public.category_path_id(auth.uid(), _path);
+
+  IF _id IS NULL THEN
+    RAISE EXCEPTION 'Category name is required';
+  END IF;
+
+  SELECT * INTO _category FROM public.categories WHERE id = _id;
+  RETURN _category;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+ALTER TABLE public.inventory_items
+ADD COLUMN category_id UUID REFERENCES public.categories(id) ON DELETE SET NULL;
+
+-- Fold the free-text values into the tree, each as a top-level category:
+-- "Food/Drink" was one flat name, not Food > Drink. The most common spelling
+-- of each category is seen first, so it becomes the name the others merge
+-- into. Separators are only refused in names typed from now on.
+ALTER TABLE public.categories DISABLE TRIGGER validate_category;
+
+DO $$
+DECLARE
+  _row RECORD;
+  _id UUID;
+BEGIN
+  FOR _row IN
+    SELECT user_id, category, btrim(regexp_replace(category, '\s+', ' ', 'g')) AS name
+    FROM public.inventory_items
+    WHERE btrim(COALESCE(category, '')) <> ''
+    GROUP BY user_id, category
+    ORDER BY count(*) DESC, category
+  LOOP
+    SELECT id INTO _id
+    FROM public.categories
+    WHERE user_id = _row.user_id AND parent_id IS NULL AND lower(name) = lower(_row.name);
+
+    IF NOT FOUND THEN
+      INSERT INTO public.categories (user_id, name)
+      VALUES (_row.user_id, _row.name)
+      RETURNING id INTO _id;
+    END IF;
+
+    UPDATE public.inventory_items
+    SET category_id = _id
+    WHERE user_id = _row.user_id AND category = _row.category;
+  END LOOP;
+END $$;
+
+ALTER TABLE public.categories ENABLE TRIGGER validate_category;
+
+DROP INDEX IF EXISTS public.idx_inventory_items_category;
+ALTER TABLE public.inventory_items DROP COLUMN category;
+
+-- An item can only be filed under one of its owner's categories
+CREATE OR REPLACE FUNCTION public.validate_item_category()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.category_id IS NOT NULL AND NOT EXISTS (
+    SELECT 1 FROM public.categories WHERE id = NEW.category_id AND user_id = NEW.user_id
+  ) THEN
+    RAISE EXCEPTION 'Category not found';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+CREATE TRIGGER validate_item_category
+BEFORE INSERT OR UPDATE OF category_id ON public.inventory_items
+FOR EACH ROW
+EXECUTE FUNCTION public.validate_item_category();
+
+CREATE INDEX idx_categories_user_id ON public.categories(user_id);
+CREATE INDEX idx_categories_parent_id ON public.categories(parent_id);
+CREATE INDEX idx_inventory_items_category_id ON public.inventory_items(category_id);
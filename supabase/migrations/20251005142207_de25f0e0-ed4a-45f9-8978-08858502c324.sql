@@ -0,0 +1,158 @@
+-- Custom fields: each account defines its own item attributes, such as
+-- material or HS code. Items keep their values in custom_values keyed by
+-- field id, e.g. {"<field id>": "Cotton"}, so renaming a field keeps them.
+CREATE TABLE public.custom_fields (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  name TEXT NOT NULL CHECK (btrim(name) <> ''),
+  field_type TEXT NOT NULL CHECK (field_type IN ('text', 'number', 'date', 'select', 'boolean')),
+  options TEXT[] NOT NULL DEFAULT '{}',
+  show_in_table BOOLEAN NOT NULL DEFAULT false,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (user_id, name),
+  CHECK (field_type = 'select' OR cardinality(options) = 0),
+  CHECK (field_type <> 'select' OR cardinality(options) > 0)
+);
+
+-- Enable RLS
+ALTER TABLE public.custom_fields ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own custom fields"
+ON public.custom_fields
+FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own custom fields"
+ON public.custom_fields
+FOR INSERT
+WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own custom fields"
+ON public.custom_fields
+FOR UPDATE
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own custom fields"
+ON public.custom_fields
+FOR DELETE
+USING (auth.uid() = user_id);
+
+CREATE TRIGGER update_custom_fields_updated_at
+BEFORE UPDATE ON public.custom_fields
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+ALTER TABLE public.inventory_items
+ADD COLUMN custom_values JSONB NOT NULL DEFAULT '{}';
+
+-- Reject a value that doesn't suit its field's type
+CREATE OR REPLACE FUNCTION public.check_custom_value(_field public.custom_fields, _value JSONB)
+RETURNS VOID AS $$
+BEGIN
+  CASE _field.field_type
+    WHEN 'text' THEN
+      IF jsonb_typeof(_value) <> 'string' THEN
+        RAISE EXCEPTION '% must be text', _field.name;
+      END IF;
+    WHEN 'number' THEN
+      IF jsonb_typeof(_value) <> 'number' THEN
+        RAISE EXCEPTION '% must be a number', _field.name;
+      END IF;
+    WHEN 'boolean' THEN
+      IF jsonb_typeof(_value) <> 'boolean' THEN
+        RAISE EXCEPTION '% must be yes or no', _field.name;
+      END IF;
+    WHEN 'date' THEN
+      BEGIN
+        IF jsonb_typeof(_value) <> 'string' OR (_value #>> '{}') !~ '^\d{4}-\d{2}-\d{2}$' THEN
+          RAISE invalid_datetime_format;
+        END IF;
+        PERFORM (_value #>> '{}')::date;
+      EXCEPTION WHEN invalid_datetime_format OR datetime_field_overflow THEN
+        RAISE EXCEPTION '% must be a date (YYYY-MM-DD)', _field.name;
+      END;
+    WHEN 'select' THEN
+      IF jsonb_typeof(_value) <> 'string' OR NOT (_value #>> '{}') = ANY (_field.options) THEN
+        RAISE EXCEPTION '% must be one of: %', _field.name, array_to_string(_field.options, ', ');
+      END IF;
+  END CASE;
+END;
+$$ LANGUAGE plpgsql IMMUTABLE SET search_path = public;
+
+-- Blank values are dropped; every other key must be one of the owner's
+-- fields and hold a value of the right type
+CREATE OR REPLACE FUNCTION public.validate_custom_values()
+RETURNS TRIGGER AS $$
+DECLARE
+  _entry RECORD;
+  _field public.custom_fields;
+BEGIN
+  IF jsonb_typeof(NEW.custom_values) IS DISTINCT FROM 'object' THEN
+    RAISE EXCEPTION 'Custom values must be an object';
+  END IF;
+
+  NEW.custom_values := jsonb_strip_nulls(NEW.custom_values);
+
+  FOR _entry IN SELECT key, value FROM jsonb_each(NEW.custom_values) LOOP
+    SELECT * INTO _field
+    FROM public.custom_fields
+    WHERE id::text = _entry.key AND user_id = NEW.user_id;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Custom field not found';
+    END IF;
+
+    PERFORM public.check_custom_value(_field, _entry.value);
+  END LOOP;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+CREATE TRIGGER validate_custom_values
+BEFORE INSERT OR UPDATE OF custom_values ON public.inventory_items
+FOR EACH ROW
+EXECUTE FUNCTION public.validate_custom_values();
+
+-- Changing a field's type or options must still suit the values items hold
+CREATE OR REPLACE FUNCTION public.recheck_custom_values()
+RETURNS TRIGGER AS $$
+DECLARE
+  _value JSONB;
+BEGIN
+  FOR _value IN
+    SELECT custom_values -> NEW.id::text
+    FROM public.inventory_items
+    WHERE user_id = NEW.user_id AND custom_values ? NEW.id::text
+  LOOP
+    PERFORM public.check_custom_value(NEW, _value);
+  END LOOP;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+CREATE TRIGGER recheck_custom_values
+AFTER UPDATE OF field_type, options ON public.custom_fields
+FOR EACH ROW
+EXECUTE FUNCTION public.recheck_custom_values();
+
+-- Deleting a field clears its values from the owner's items
+CREATE OR REPLACE FUNCTION public.clear_custom_values()
+RETURNS TRIGGER AS $$
+BEGIN
+  UPDATE public.inventory_items
+  SET custom_values = custom_values - OLD.id::text
+  WHERE user_id = OLD.user_id AND custom_values ? OLD.id::text;
+
+  RETURN OLD;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+CREATE TRIGGER clear_custom_values
+AFTER DELETE ON public.custom_fields
+FOR EACH ROW
+EXECUTE FUNCTION public.clear_custom_values();
+
+CREATE INDEX idx_custom_fields_user_id ON public.custom_fields(user_id);
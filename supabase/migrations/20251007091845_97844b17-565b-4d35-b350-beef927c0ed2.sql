@@ -0,0 +1,68 @@
+-- Each account reports in a base currency of its choosing
+ALTER TABLE public.profiles
+ADD COLUMN base_currency TEXT NOT NULL DEFAULT 'USD' CHECK (base_currency ~ '^[A-Z]{3}$');
+
+-- Prices carry their own currency: an item's unit price, and a sales order's
+-- lines, which are all priced in the order's currency. Purchase orders are
+-- already in their supplier's currency. Everything so far was shown as USD.
+ALTER TABLE public.inventory_items
+ADD COLUMN currency TEXT NOT NULL DEFAULT 'USD' CHECK (currency ~ '^[A-Z]{3}$');
+
+ALTER TABLE public.sales_orders
+ADD COLUMN currency TEXT NOT NULL DEFAULT 'USD' CHECK (currency ~ '^[A-Z]{3}$');
+
+-- New prices default to the base currency of whoever creates them
+CREATE OR REPLACE FUNCTION public.account_currency()
+RETURNS TEXT AS $$
+  SELECT COALESCE(
+    (SELECT base_currency FROM public.profiles WHERE user_id = auth.uid()),
+    'USD'
+  );
+$$ LANGUAGE sql STABLE SET search_path = public;
+
+ALTER TABLE public.inventory_items ALTER COLUMN currency SET DEFAULT public.account_currency();
+ALTER TABLE public.sales_orders ALTER COLUMN currency SET DEFAULT public.account_currency();
+
+-- Exchange rates the user keeps up to date themselves: one unit of
+-- from_currency is worth `rate` units of to_currency
+CREATE TABLE public.exchange_rates (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  from_currency TEXT NOT NULL CHECK (from_currency ~ '^[A-Z]{3}$'),
+  to_currency TEXT NOT NULL CHECK (to_currency ~ '^[A-Z]{3}$'),
+  rate NUMERIC NOT NULL CHECK (rate > 0),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (user_id, from_currency, to_currency),
+  CHECK (from_currency <> to_currency)
+);
+
+-- Enable RLS
+ALTER TABLE public.exchange_rates ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own exchange rates"
+ON public.exchange_rates
+FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own exchange rates"
+ON public.exchange_rates
+FOR INSERT
+WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own exchange rates"
+ON public.exchange_rates
+FOR UPDATE
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own exchange rates"
+ON public.exchange_rates
+FOR DELETE
+USING (auth.uid() = user_id);
+
+CREATE TRIGGER update_exchange_rates_updated_at
+BEFORE UPDATE ON public.exchange_rates
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE INDEX idx_exchange_rates_user_id ON public.exchange_rates(user_id);
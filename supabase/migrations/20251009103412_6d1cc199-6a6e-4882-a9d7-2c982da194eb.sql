@@ -0,0 +1,65 @@
+-- What an item costs us, next to what we sell it for (unit_price).
+-- Both prices are in the item's currency.
+ALTER TABLE public.inventory_items
+ADD COLUMN cost_price DECIMAL(10,2) CHECK (cost_price >= 0);
+
+-- Every change to either price, with who made it and when
+CREATE TABLE public.price_history (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  item_id UUID NOT NULL REFERENCES public.inventory_items(id) ON DELETE CASCADE,
+  price_type TEXT NOT NULL CHECK (price_type IN ('cost', 'sale')),
+  old_price DECIMAL(10,2),
+  new_price DECIMAL(10,2),
+  currency TEXT NOT NULL,
+  changed_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- Enable RLS
+ALTER TABLE public.price_history ENABLE ROW LEVEL SECURITY;
+
+-- History is written by the trigger below only: no insert, update or delete policies
+CREATE POLICY "Users can view their own price history"
+ON public.price_history
+FOR SELECT
+USING (auth.uid() = user_id);
+
+-- A price counts as changed when its amount or the item's currency changes
+CREATE OR REPLACE FUNCTION public.record_price_change()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    INSERT INTO public.price_history (user_id, item_id, price_type, new_price, currency, changed_by)
+    SELECT NEW.user_id, NEW.id, p.price_type, p.price, NEW.currency, auth.uid()
+    FROM (VALUES ('cost', NEW.cost_price), ('sale', NEW.unit_price)) AS p(price_type, price)
+    WHERE p.price IS NOT NULL;
+    RETURN NEW;
+  END IF;
+
+  INSERT INTO public.price_history (user_id, item_id, price_type, old_price, new_price, currency, changed_by)
+  SELECT NEW.user_id, NEW.id, p.price_type, p.old_price, p.new_price, NEW.currency, auth.uid()
+  FROM (
+    VALUES ('cost', OLD.cost_price, NEW.cost_price), ('sale', OLD.unit_price, NEW.unit_price)
+  ) AS p(price_type, old_price, new_price)
+  WHERE p.old_price IS DISTINCT FROM p.new_price
+     OR (NEW.currency <> OLD.currency AND p.new_price IS NOT NULL);
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER record_price_change
+AFTER INSERT OR UPDATE OF cost_price, unit_price, currency ON public.inventory_items
+FOR EACH ROW
+EXECUTE FUNCTION public.record_price_change();
+
+-- Start the history with the selling prices already set. Who set them
+-- wasn't recorded, so changed_by stays empty.
+INSERT INTO public.price_history (user_id, item_id, price_type, new_price, currency, created_at)
+SELECT user_id, id, 'sale', unit_price, currency, updated_at
+FROM public.inventory_items
+WHERE unit_price IS NOT NULL;
+
+-- Create indexes for better performance
+CREATE INDEX idx_price_history_user_id ON public.price_history(user_id);
+CREATE INDEX idx_price_history_item_id ON public.price_history(item_id, created_at);
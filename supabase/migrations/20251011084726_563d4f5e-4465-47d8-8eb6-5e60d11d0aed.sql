@@ -0,0 +1,327 @@
+-- Every stock-in records what one base unit cost, so stock on hand can be
+-- valued in cost layers. Outbound movements draw on those layers; their cost
+-- depends on the costing method and is worked out when valuing.
+ALTER TABLE public.stock_movements
+ADD COLUMN unit_cost NUMERIC CHECK (unit_cost >= 0),
+ADD COLUMN cost_currency TEXT CHECK (cost_currency ~ '^[A-Z]{3}$');
+
+-- The costing method valuations are reported in unless another is picked
+ALTER TABLE public.profiles
+ADD COLUMN costing_method TEXT NOT NULL DEFAULT 'fifo' CHECK (costing_method IN ('fifo', 'lifo', 'average'));
+
+-- Only stock-ins carry a cost. Transfers move stock that is already costed.
+-- A stock-in without a cost of its own takes the item's cost price.
+CREATE OR REPLACE FUNCTION public.cost_stock_movement()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.delta <= 0 OR NEW.reference_type IS NOT DISTINCT FROM 'transfer' THEN
+    NEW.unit_cost := NULL;
+    NEW.cost_currency := NULL;
+    RETURN NEW;
+  END IF;
+
+  IF NEW.unit_cost IS NULL THEN
+    SELECT cost_price, currency INTO NEW.unit_cost, NEW.cost_currency
+    FROM public.inventory_items
+    WHERE id = NEW.item_id;
+  ELSIF NEW.cost_currency IS NULL THEN
+    SELECT currency INTO NEW.cost_currency
+    FROM public.inventory_items
+    WHERE id = NEW.item_id;
+  END IF;
+
+  IF NEW.unit_cost IS NULL THEN
+    NEW.cost_currency := NULL;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+CREATE TRIGGER cost_stock_movement
+BEFORE INSERT ON public.stock_movements
+FOR EACH ROW
+EXECUTE FUNCTION public.cost_stock_movement();
+
+-- Cost the stock-ins booked so far: purchase receipts at their order line's
+-- cost per base unit, everything else at the item's cost price if it has one
+UPDATE public.stock_movements m
+SET unit_cost = l.unit_cost / l.unit_factor,
+    cost_currency = s.currency
+FROM public.purchase_order_lines l
+JOIN public.purchase_orders o ON o.id = l.purchase_order_id
+JOIN public.suppliers s ON s.id = o.supplier_id
+WHERE m.reason = 'purchase_receipt'
+  AND m.delta > 0
+  AND m.reference_id = o.id
+  AND l.item_id = m.item_id
+  AND l.unit_cost IS NOT NULL;
+
+UPDATE public.stock_movements m
+SET unit_cost = i.cost_price,
+    cost_currency = i.currency
+FROM public.inventory_items i
+WHERE i.id = m.item_id
+  AND m.delta > 0
+  AND m.unit_cost IS NULL
+  AND i.cost_price IS NOT NULL
+  AND m.reference_type IS DISTINCT FROM 'transfer';
+
+-- Serial movements can carry the cost of the units they bring in
+DROP FUNCTION public.book_serial_movements(public.inventory_items, TEXT[], INTEGER, UUID, TEXT, TEXT, TEXT, UUID);
+
+CREATE OR REPLACE FUNCTION public.book_serial_movements(
+  _item public.inventory_items,
+  _serials TEXT[],
+  _direction INTEGER,
+  _location_id UUID,
+  _reason TEXT,
+  _note TEXT,
+  _reference_type TEXT,
+  _reference_id UUID,
+  _unit_cost NUMERIC DEFAULT NULL,
+  _cost_currency TEXT DEFAULT NULL
+)
+RETURNS SETOF public.serial_numbers AS $$
+DECLARE
+  _raw TEXT;
+  _serial public.serial_numbers;
+BEGIN
+  IF NOT _item.is_serialized THEN
+    RAISE EXCEPTION '% is not a serialized item', _item.name;
+  END IF;
+
+  IF COALESCE(array_length(_serials, 1), 0) = 0 THEN
+    RAISE EXCEPTION 'Enter at least one serial number';
+  END IF;
+
+  IF (SELECT COUNT(DISTINCT trim(s)) FROM unnest(_serials) s) <> array_length(_serials, 1) THEN
+    RAISE EXCEPTION 'Serial numbers must be unique';
+  END IF;
+
+  FOREACH _raw IN ARRAY _serials LOOP
+    IF COALESCE(trim(_raw), '') = '' THEN
+      RAISE EXCEPTION 'Serial numbers cannot be blank';
+    END IF;
+
+    IF _direction > 0 THEN
+      INSERT INTO public.serial_numbers (user_id, item_id, serial)
+      VALUES (_item.user_id, _item.id, trim(_raw))
+      ON CONFLICT (item_id, serial) DO UPDATE SET serial = EXCLUDED.serial
+      RETURNING * INTO _serial;
+    ELSE
+      SELECT * INTO _serial
+      FROM public.serial_numbers
+      WHERE item_id = _item.id AND serial = trim(_raw);
+
+      IF NOT FOUND THEN
+        RAISE EXCEPTION 'Serial % not found for %', trim(_raw), _item.name;
+      END IF;
+    END IF;
+
+    INSERT INTO public.stock_movements (
+      user_id, item_id, location_id, serial_id, delta, reason, note, reference_type, reference_id, unit_cost, cost_currency
+    )
+    VALUES (
+      _item.user_id, _item.id,
+      CASE WHEN _direction > 0 THEN _location_id ELSE COALESCE(_location_id, _serial.location_id) END,
+      _serial.id, _direction, _reason, _note, _reference_type, _reference_id, _unit_cost, _cost_currency
+    );
+
+    RETURN QUERY SELECT * FROM public.serial_numbers WHERE id = _serial.id;
+  END LOOP;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.book_serial_movements(public.inventory_items, TEXT[], INTEGER, UUID, TEXT, TEXT, TEXT, UUID, NUMERIC, TEXT) FROM PUBLIC, anon, authenticated;
+
+DROP FUNCTION public.receive_serials(UUID, TEXT[], UUID, TEXT, TEXT);
+
+CREATE OR REPLACE FUNCTION public.receive_serials(
+  _item_id UUID,
+  _serials TEXT[],
+  _location_id UUID DEFAULT NULL,
+  _reason TEXT DEFAULT 'receipt',
+  _note TEXT DEFAULT NULL,
+  _unit_cost NUMERIC DEFAULT NULL
+)
+RETURNS SETOF public.serial_numbers AS $$
+DECLARE
+  _item public.inventory_items;
+BEGIN
+  SELECT * INTO _item
+  FROM public.inventory_items
+  WHERE id = _item_id AND user_id = auth.uid()
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Item not found';
+  END IF;
+
+  IF _location_id IS NOT NULL AND NOT EXISTS (
+    SELECT 1 FROM public.locations WHERE id = _location_id AND user_id = _item.user_id
+  ) THEN
+    RAISE EXCEPTION 'Location not found';
+  END IF;
+
+  RETURN QUERY
+  SELECT * FROM public.book_serial_movements(_item, _serials, 1, _location_id, _reason, _note, NULL, NULL, _unit_cost);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP FUNCTION public.receive_lot(UUID, TEXT, NUMERIC, DATE, DATE, UUID, TEXT);
+
+CREATE OR REPLACE FUNCTION public.receive_lot(
+  _item_id UUID,
+  _lot_number TEXT,
+  _quantity NUMERIC,
+  _expires_on DATE DEFAULT NULL,
+  _manufactured_on DATE DEFAULT NULL,
+  _location_id UUID DEFAULT NULL,
+  _note TEXT DEFAULT NULL,
+  _unit_cost NUMERIC DEFAULT NULL
+)
+RETURNS public.stock_lots AS $$
+DECLARE
+  _item public.inventory_items;
+  _lot public.stock_lots;
+BEGIN
+  IF _quantity IS NULL OR _quantity <= 0 THEN
+    RAISE EXCEPTION 'Quantity must be positive';
+  END IF;
+
+  IF COALESCE(trim(_lot_number), '') = '' THEN
+    RAISE EXCEPTION 'Lot number is required';
+  END IF;
+
+  IF _manufactured_on IS NOT NULL AND _expires_on IS NOT NULL AND _expires_on < _manufactured_on THEN
+    RAISE EXCEPTION 'Expiry date is before the manufacture date';
+  END IF;
+
+  SELECT * INTO _item
+  FROM public.inventory_items
+  WHERE id = _item_id AND user_id = auth.uid()
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Item not found';
+  END IF;
+
+  IF _location_id IS NULL THEN
+    _location_id := public.default_location_id(_item.user_id);
+  ELSIF NOT EXISTS (
+    SELECT 1 FROM public.locations WHERE id = _location_id AND user_id = _item.user_id
+  ) THEN
+    RAISE EXCEPTION 'Location not found';
+  END IF;
+
+  INSERT INTO public.stock_lots (user_id, item_id, location_id, lot_number, manufactured_on, expires_on)
+  VALUES (_item.user_id, _item_id, _location_id, trim(_lot_number), _manufactured_on, _expires_on)
+  ON CONFLICT (item_id, location_id, lot_number) DO UPDATE
+  SET manufactured_on = COALESCE(EXCLUDED.manufactured_on, stock_lots.manufactured_on),
+      expires_on = COALESCE(EXCLUDED.expires_on, stock_lots.expires_on)
+  RETURNING * INTO _lot;
+
+  INSERT INTO public.stock_movements (user_id, item_id, location_id, lot_id, delta, reason, note, unit_cost)
+  VALUES (_item.user_id, _item_id, _location_id, _lot.id, _quantity, 'lot_receipt', _note, _unit_cost);
+
+  SELECT * INTO _lot FROM public.stock_lots WHERE id = _lot.id;
+  RETURN _lot;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Purchase receipts are costed at the order line's price per base unit, in
+-- the supplier's currency
+CREATE OR REPLACE FUNCTION public.receive_purchase_order_line(
+  _line_id UUID,
+  _quantity NUMERIC,
+  _location_id UUID DEFAULT NULL,
+  _note TEXT DEFAULT NULL,
+  _serials TEXT[] DEFAULT NULL
+)
+RETURNS public.purchase_order_lines AS $$
+DECLARE
+  _line public.purchase_order_lines;
+  _order public.purchase_orders;
+  _item public.inventory_items;
+  _base_quantity NUMERIC;
+  _unit_cost NUMERIC;
+  _currency TEXT;
+BEGIN
+  IF _quantity IS NULL OR _quantity <= 0 THEN
+    RAISE EXCEPTION 'Received quantity must be positive';
+  END IF;
+
+  SELECT * INTO _line
+  FROM public.purchase_order_lines
+  WHERE id = _line_id AND user_id = auth.uid()
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Purchase order line not found';
+  END IF;
+
+  SELECT * INTO _order
+  FROM public.purchase_orders
+  WHERE id = _line.purchase_order_id
+  FOR UPDATE;
+
+  IF _order.status NOT IN ('sent', 'partially_received', 'received') THEN
+    RAISE EXCEPTION 'Cannot receive against a % purchase order', _order.status;
+  END IF;
+
+  _location_id := COALESCE(_location_id, _order.location_id, public.default_location_id(_order.user_id));
+
+  IF NOT EXISTS (
+    SELECT 1 FROM public.locations WHERE id = _location_id AND user_id = _order.user_id
+  ) THEN
+    RAISE EXCEPTION 'Location not found';
+  END IF;
+
+  PERFORM public.check_unit_quantity(_line.unit_id, _quantity);
+
+  SELECT * INTO _item FROM public.inventory_items WHERE id = _line.item_id;
+  _base_quantity := _quantity * _line.unit_factor;
+  _unit_cost := _line.unit_cost / _line.unit_factor;
+  SELECT currency INTO _currency FROM public.suppliers WHERE id = _order.supplier_id;
+
+  INSERT INTO public.purchase_order_receipts (user_id, line_id, location_id, quantity, note)
+  VALUES (_line.user_id, _line.id, _location_id, _quantity, _note);
+
+  IF _item.is_serialized THEN
+    IF COALESCE(array_length(_serials, 1), 0) <> _base_quantity THEN
+      RAISE EXCEPTION 'Enter one serial number per unit received (% needed)', _base_quantity;
+    END IF;
+    PERFORM public.book_serial_movements(
+      _item, _serials, 1, _location_id, 'purchase_receipt', _note, 'purchase_order', _order.id, _unit_cost, _currency
+    );
+  ELSE
+    INSERT INTO public.stock_movements (
+      user_id, item_id, location_id, delta, reason, note, reference_type, reference_id, unit_cost, cost_currency
+    )
+    VALUES (
+      _line.user_id, _line.item_id, _location_id, _base_quantity, 'purchase_receipt', _note, 'purchase_order', _order.id,
+      _unit_cost, _currency
+    );
+  END IF;
+
+  UPDATE public.purchase_order_lines
+  SET quantity_received = quantity_received + _quantity
+  WHERE id = _line.id
+  RETURNING * INTO _line;
+
+  UPDATE public.purchase_orders
+  SET status = CASE
+    WHEN NOT EXISTS (
+      SELECT 1 FROM public.purchase_order_lines
+      WHERE purchase_order_id = _order.id AND quantity_received < quantity_ordered
+    ) THEN 'received'
+    ELSE 'partially_received'
+  END
+  WHERE id = _order.id;
+
+  RETURN _line;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE INDEX idx_stock_movements_user_created_at ON public.stock_movements(user_id, created_at);
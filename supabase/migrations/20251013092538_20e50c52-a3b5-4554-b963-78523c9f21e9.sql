@@ -0,0 +1,11 @@
+-- Reorder settings, in the item's base unit. When stock falls to the reorder
+-- point, order either a fixed reorder quantity or enough to refill to the max level
+ALTER TABLE public.inventory_items
+ADD COLUMN reorder_point NUMERIC CHECK (reorder_point >= 0),
+ADD COLUMN reorder_quantity NUMERIC CHECK (reorder_quantity > 0),
+ADD COLUMN max_stock_level NUMERIC CHECK (max_stock_level > 0),
+ADD CHECK (max_stock_level > reorder_point),
+ADD CHECK (reorder_point IS NULL OR reorder_quantity IS NOT NULL OR max_stock_level IS NOT NULL);
+
+-- Reorder suggestions look up what is still awaiting delivery
+CREATE INDEX idx_purchase_orders_user_status ON public.purchase_orders(user_id, status);
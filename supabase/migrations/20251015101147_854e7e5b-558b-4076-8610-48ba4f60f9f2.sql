@@ -0,0 +1,4 @@
+-- Days it takes to restock an item, for recommended order dates. Items
+-- without one use their preferred supplier's lead time
+ALTER TABLE public.inventory_items
+ADD COLUMN lead_time_days INTEGER CHECK (lead_time_days >= 0);
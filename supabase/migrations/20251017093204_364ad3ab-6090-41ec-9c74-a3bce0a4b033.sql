@@ -0,0 +1,237 @@
+-- Stocktake sessions count the stock at one location
+CREATE TABLE public.stocktakes (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  location_id UUID NOT NULL REFERENCES public.locations(id) ON DELETE RESTRICT,
+  reference TEXT,
+  status TEXT NOT NULL DEFAULT 'counting' CHECK (status IN ('counting', 'posted', 'cancelled')),
+  posted_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- Enable RLS; sessions are changed through the stocktake functions only
+ALTER TABLE public.stocktakes ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own stocktakes" 
+ON public.stocktakes 
+FOR SELECT 
+USING (auth.uid() = user_id);
+
+CREATE TRIGGER update_stocktakes_updated_at
+BEFORE UPDATE ON public.stocktakes
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Expected quantities are snapshotted when the count starts; variance is
+-- positive when more was counted than expected
+CREATE TABLE public.stocktake_lines (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  stocktake_id UUID NOT NULL REFERENCES public.stocktakes(id) ON DELETE CASCADE,
+  item_id UUID NOT NULL REFERENCES public.inventory_items(id) ON DELETE CASCADE,
+  expected_quantity NUMERIC NOT NULL,
+  counted_quantity NUMERIC CHECK (counted_quantity >= 0),
+  variance NUMERIC GENERATED ALWAYS AS (counted_quantity - expected_quantity) STORED,
+  counted_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  counted_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (stocktake_id, item_id)
+);
+
+ALTER TABLE public.stocktake_lines ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own stocktake lines" 
+ON public.stocktake_lines 
+FOR SELECT 
+USING (auth.uid() = user_id);
+
+CREATE TRIGGER update_stocktake_lines_updated_at
+BEFORE UPDATE ON public.stocktake_lines
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Start counting a location, either every item stocked there or the given items.
+-- Serialized items are counted by serial number instead, and parents hold no stock
+CREATE OR REPLACE FUNCTION public.start_stocktake(
+  _location_id UUID,
+  _item_ids UUID[] DEFAULT NULL,
+  _reference TEXT DEFAULT NULL
+)
+RETURNS public.stocktakes AS $$
+DECLARE
+  _stocktake public.stocktakes;
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM public.locations WHERE id = _location_id AND user_id = auth.uid()
+  ) THEN
+    RAISE EXCEPTION 'Location not found';
+  END IF;
+
+  IF _item_ids IS NOT NULL AND EXISTS (
+    SELECT 1
+    FROM unnest(_item_ids) AS chosen(id)
+    LEFT JOIN public.inventory_items i ON i.id = chosen.id AND i.user_id = auth.uid()
+    WHERE i.id IS NULL OR i.is_serialized OR i.option_axes IS NOT NULL
+  ) THEN
+    RAISE EXCEPTION 'Only your own non-serialized items can be counted';
+  END IF;
+
+  INSERT INTO public.stocktakes (user_id, location_id, reference)
+  VALUES (auth.uid(), _location_id, NULLIF(trim(_reference), ''))
+  RETURNING * INTO _stocktake;
+
+  INSERT INTO public.stocktake_lines (user_id, stocktake_id, item_id, expected_quantity)
+  SELECT auth.uid(), _stocktake.id, i.id, COALESCE(sl.quantity, 0)
+  FROM public.inventory_items i
+  LEFT JOIN public.stock_levels sl ON sl.item_id = i.id AND sl.location_id = _location_id
+  WHERE i.user_id = auth.uid()
+    AND CASE
+      WHEN _item_ids IS NULL THEN sl.id IS NOT NULL AND NOT i.is_serialized AND i.option_axes IS NULL
+      ELSE i.id = ANY(_item_ids)
+    END;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'There is nothing to count at this location';
+  END IF;
+
+  RETURN _stocktake;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Record a count. Scans add to what other counters have already entered, so
+-- several devices can count the same session; typed counts replace it. Items
+-- that weren't expected are added with their current stock as the expectation
+CREATE OR REPLACE FUNCTION public.count_stocktake_item(
+  _stocktake_id UUID,
+  _item_id UUID,
+  _quantity NUMERIC,
+  _add BOOLEAN DEFAULT false
+)
+RETURNS public.stocktake_lines AS $$
+DECLARE
+  _stocktake public.stocktakes;
+  _item public.inventory_items;
+  _line public.stocktake_lines;
+BEGIN
+  SELECT * INTO _stocktake
+  FROM public.stocktakes
+  WHERE id = _stocktake_id AND user_id = auth.uid()
+  -- Counts wait for a post in progress, and then see it
+  FOR SHARE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Stocktake not found';
+  END IF;
+
+  IF _stocktake.status <> 'counting' THEN
+    RAISE EXCEPTION 'This stocktake is % and can no longer be counted', _stocktake.status;
+  END IF;
+
+  SELECT * INTO _item
+  FROM public.inventory_items
+  WHERE id = _item_id AND user_id = _stocktake.user_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Item not found';
+  END IF;
+
+  IF _item.is_serialized OR _item.option_axes IS NOT NULL THEN
+    RAISE EXCEPTION '% can''t be counted in a stocktake', _item.name;
+  END IF;
+
+  IF _quantity IS NULL OR _quantity < 0 OR (_add AND _quantity = 0) THEN
+    RAISE EXCEPTION 'Counted quantity must be positive';
+  END IF;
+
+  PERFORM public.check_unit_quantity(_item.unit_id, _quantity);
+
+  INSERT INTO public.stocktake_lines (
+    user_id, stocktake_id, item_id, expected_quantity, counted_quantity, counted_by, counted_at
+  )
+  SELECT _stocktake.user_id, _stocktake.id, _item.id, COALESCE(
+    (SELECT quantity FROM public.stock_levels WHERE item_id = _item.id AND location_id = _stocktake.location_id), 0
+  ), _quantity, auth.uid(), now()
+  ON CONFLICT (stocktake_id, item_id) DO UPDATE
+  SET counted_quantity = CASE
+      WHEN _add THEN COALESCE(stocktake_lines.counted_quantity, 0) + EXCLUDED.counted_quantity
+      ELSE EXCLUDED.counted_quantity
+    END,
+    counted_by = EXCLUDED.counted_by,
+    counted_at = EXCLUDED.counted_at
+  RETURNING * INTO _line;
+
+  RETURN _line;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Book the variances as stock movements. Lines nobody counted are left alone
+CREATE OR REPLACE FUNCTION public.post_stocktake(_stocktake_id UUID)
+RETURNS public.stocktakes AS $$
+DECLARE
+  _stocktake public.stocktakes;
+  _short RECORD;
+BEGIN
+  SELECT * INTO _stocktake
+  FROM public.stocktakes
+  WHERE id = _stocktake_id AND user_id = auth.uid()
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Stocktake not found';
+  END IF;
+
+  IF _stocktake.status <> 'counting' THEN
+    RAISE EXCEPTION 'Cannot post a % stocktake', _stocktake.status;
+  END IF;
+
+  -- Stock that left after the snapshot can make a shortfall larger than what's left
+  SELECT i.name, COALESCE(sl.quantity, 0) AS on_hand INTO _short
+  FROM public.stocktake_lines l
+  JOIN public.inventory_items i ON i.id = l.item_id
+  LEFT JOIN public.stock_levels sl ON sl.item_id = l.item_id AND sl.location_id = _stocktake.location_id
+  WHERE l.stocktake_id = _stocktake.id AND COALESCE(sl.quantity, 0) + l.variance < 0
+  LIMIT 1;
+
+  IF FOUND THEN
+    RAISE EXCEPTION 'Insufficient stock: only % of % left at this location', _short.on_hand, _short.name;
+  END IF;
+
+  INSERT INTO public.stock_movements (user_id, item_id, location_id, delta, reason, reference_type, reference_id)
+  SELECT l.user_id, l.item_id, _stocktake.location_id, l.variance, 'stocktake', 'stocktake', _stocktake.id
+  FROM public.stocktake_lines l
+  WHERE l.stocktake_id = _stocktake.id AND l.variance <> 0
+  ORDER BY l.created_at, l.id;
+
+  UPDATE public.stocktakes
+  SET status = 'posted', posted_at = now()
+  WHERE id = _stocktake.id
+  RETURNING * INTO _stocktake;
+
+  RETURN _stocktake;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION public.cancel_stocktake(_stocktake_id UUID)
+RETURNS public.stocktakes AS $$
+DECLARE
+  _stocktake public.stocktakes;
+BEGIN
+  UPDATE public.stocktakes
+  SET status = 'cancelled'
+  WHERE id = _stocktake_id AND user_id = auth.uid() AND status = 'counting'
+  RETURNING * INTO _stocktake;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Stocktake not found or already closed';
+  END IF;
+
+  RETURN _stocktake;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE INDEX idx_stocktakes_user_id ON public.stocktakes(user_id);
+CREATE INDEX idx_stocktakes_location_id ON public.stocktakes(location_id);
+CREATE INDEX idx_stocktake_lines_stocktake_id ON public.stocktake_lines(stocktake_id);
+CREATE INDEX idx_stocktake_lines_item_id ON public.stocktake_lines(item_id);
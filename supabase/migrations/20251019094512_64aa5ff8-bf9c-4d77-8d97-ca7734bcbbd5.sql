@@ -0,0 +1,110 @@
+-- Every manual adjustment records why stock changed. A handful of reasons are
+-- built in; users can add their own alongside them.
+CREATE OR REPLACE FUNCTION public.builtin_adjustment_reasons()
+RETURNS TEXT[] AS $$
+  SELECT ARRAY['damaged', 'theft', 'found', 'expired', 'correction', 'sample'];
+$$ LANGUAGE sql IMMUTABLE SET search_path = public;
+
+CREATE TABLE public.adjustment_reasons (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  code TEXT NOT NULL CHECK (code ~ '^[a-z0-9_]+$' AND NOT code = ANY (public.builtin_adjustment_reasons())),
+  name TEXT NOT NULL CHECK (length(trim(name)) > 0),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (user_id, code)
+);
+
+ALTER TABLE public.adjustment_reasons ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own adjustment reasons"
+ON public.adjustment_reasons
+FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own adjustment reasons"
+ON public.adjustment_reasons
+FOR INSERT
+WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own adjustment reasons"
+ON public.adjustment_reasons
+FOR UPDATE
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own adjustment reasons"
+ON public.adjustment_reasons
+FOR DELETE
+USING (auth.uid() = user_id);
+
+CREATE TRIGGER update_adjustment_reasons_updated_at
+BEFORE UPDATE ON public.adjustment_reasons
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- The code is copied onto the movement, so removing a reason later leaves
+-- the history intact. Adjustments from before reasons existed have none.
+ALTER TABLE public.stock_movements
+ADD COLUMN reason_code TEXT CHECK (reason_code IS NULL OR reason = 'adjustment');
+
+-- adjust_stock now requires a reason code and takes an optional note
+DROP FUNCTION public.adjust_stock(UUID, NUMERIC, TEXT, UUID);
+
+CREATE OR REPLACE FUNCTION public.adjust_stock(
+  _item_id UUID,
+  _delta NUMERIC,
+  _reason_code TEXT,
+  _location_id UUID DEFAULT NULL,
+  _note TEXT DEFAULT NULL
+)
+RETURNS public.inventory_items AS $$
+DECLARE
+  _item public.inventory_items;
+  _on_hand NUMERIC;
+BEGIN
+  IF _delta = 0 THEN
+    RAISE EXCEPTION 'Adjustment must not be zero';
+  END IF;
+
+  -- Lock the row so concurrent adjustments are applied one after another
+  SELECT * INTO _item
+  FROM public.inventory_items
+  WHERE id = _item_id AND user_id = auth.uid()
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Item not found';
+  END IF;
+
+  IF _reason_code IS NULL OR NOT (
+    _reason_code = ANY (public.builtin_adjustment_reasons())
+    OR EXISTS (SELECT 1 FROM public.adjustment_reasons WHERE user_id = _item.user_id AND code = _reason_code)
+  ) THEN
+    RAISE EXCEPTION 'Choose a reason for the adjustment';
+  END IF;
+
+  IF _location_id IS NULL THEN
+    _location_id := public.default_location_id(_item.user_id);
+  ELSIF NOT EXISTS (
+    SELECT 1 FROM public.locations WHERE id = _location_id AND user_id = _item.user_id
+  ) THEN
+    RAISE EXCEPTION 'Location not found';
+  END IF;
+
+  SELECT COALESCE(SUM(quantity), 0) INTO _on_hand
+  FROM public.stock_levels
+  WHERE item_id = _item_id AND location_id = _location_id;
+
+  IF _on_hand + _delta < 0 THEN
+    RAISE EXCEPTION 'Insufficient stock: % on hand at this location', _on_hand;
+  END IF;
+
+  INSERT INTO public.stock_movements (user_id, item_id, location_id, delta, reason, reason_code, note)
+  VALUES (_item.user_id, _item.id, _location_id, _delta, 'adjustment', _reason_code, NULLIF(trim(_note), ''));
+
+  SELECT * INTO _item FROM public.inventory_items WHERE id = _item_id;
+  RETURN _item;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+CREATE INDEX idx_adjustment_reasons_user_id ON public.adjustment_reasons(user_id);
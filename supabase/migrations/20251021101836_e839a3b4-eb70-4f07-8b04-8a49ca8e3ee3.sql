@@ -0,0 +1,143 @@
+-- Customer returns (RMAs). The condition decides what approval does:
+-- resellable units go back into stock, the rest are written off.
+CREATE TABLE public.returns (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  reference TEXT,
+  customer_name TEXT NOT NULL CHECK (length(trim(customer_name)) > 0),
+  item_id UUID NOT NULL REFERENCES public.inventory_items(id) ON DELETE RESTRICT,
+  quantity NUMERIC NOT NULL CHECK (quantity > 0),
+  condition TEXT NOT NULL DEFAULT 'resellable' CHECK (condition IN ('resellable', 'refurbish', 'scrap')),
+  location_id UUID REFERENCES public.locations(id) ON DELETE SET NULL,
+  reason TEXT,
+  status TEXT NOT NULL DEFAULT 'requested' CHECK (status IN ('requested', 'approved', 'rejected')),
+  processed_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- Enable RLS; requested returns can be edited, status changes go through
+-- the functions below
+ALTER TABLE public.returns ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own returns"
+ON public.returns
+FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own returns"
+ON public.returns
+FOR INSERT
+WITH CHECK (
+  auth.uid() = user_id
+  AND status = 'requested'
+  AND EXISTS (SELECT 1 FROM public.inventory_items i WHERE i.id = item_id AND i.user_id = auth.uid())
+);
+
+CREATE POLICY "Users can update their own requested returns"
+ON public.returns
+FOR UPDATE
+USING (auth.uid() = user_id AND status = 'requested')
+WITH CHECK (auth.uid() = user_id AND status = 'requested');
+
+CREATE POLICY "Users can delete their own requested returns"
+ON public.returns
+FOR DELETE
+USING (auth.uid() = user_id AND status = 'requested');
+
+CREATE TRIGGER update_returns_updated_at
+BEFORE UPDATE ON public.returns
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Serialized items come back by serial number through receive_serials, and
+-- parents hold no stock of their own
+CREATE OR REPLACE FUNCTION public.validate_return()
+RETURNS TRIGGER AS $$
+DECLARE
+  _item public.inventory_items;
+BEGIN
+  SELECT * INTO _item FROM public.inventory_items WHERE id = NEW.item_id;
+
+  IF _item.is_serialized THEN
+    RAISE EXCEPTION '% is serialized; receive returned units by serial number', _item.name;
+  END IF;
+
+  IF _item.option_axes IS NOT NULL THEN
+    RAISE EXCEPTION 'Choose a variant of %', _item.name;
+  END IF;
+
+  IF NEW.location_id IS NOT NULL AND NOT EXISTS (
+    SELECT 1 FROM public.locations WHERE id = NEW.location_id AND user_id = NEW.user_id
+  ) THEN
+    RAISE EXCEPTION 'Location not found';
+  END IF;
+
+  PERFORM public.check_unit_quantity(_item.unit_id, NEW.quantity);
+  NEW.reason := NULLIF(trim(NEW.reason), '');
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+CREATE TRIGGER validate_return
+BEFORE INSERT OR UPDATE OF item_id, quantity, location_id, reason ON public.returns
+FOR EACH ROW
+EXECUTE FUNCTION public.validate_return();
+
+-- Approve a requested return. Resellable units are booked back into stock;
+-- units to refurbish or scrap never re-enter it and are written off.
+CREATE OR REPLACE FUNCTION public.approve_return(_return_id UUID)
+RETURNS public.returns AS $$
+DECLARE
+  _return public.returns;
+BEGIN
+  SELECT * INTO _return
+  FROM public.returns
+  WHERE id = _return_id AND user_id = auth.uid()
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Return not found';
+  END IF;
+
+  IF _return.status <> 'requested' THEN
+    RAISE EXCEPTION 'This return was already %', _return.status;
+  END IF;
+
+  IF _return.condition = 'resellable' THEN
+    INSERT INTO public.stock_movements (user_id, item_id, location_id, delta, reason, note, reference_type, reference_id)
+    VALUES (
+      _return.user_id, _return.item_id, COALESCE(_return.location_id, public.default_location_id(_return.user_id)),
+      _return.quantity, 'return', _return.reason, 'return', _return.id
+    );
+  END IF;
+
+  UPDATE public.returns
+  SET status = 'approved', processed_at = now()
+  WHERE id = _return.id
+  RETURNING * INTO _return;
+
+  RETURN _return;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION public.reject_return(_return_id UUID)
+RETURNS public.returns AS $$
+DECLARE
+  _return public.returns;
+BEGIN
+  UPDATE public.returns
+  SET status = 'rejected', processed_at = now()
+  WHERE id = _return_id AND user_id = auth.uid() AND status = 'requested'
+  RETURNING * INTO _return;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Return not found or already processed';
+  END IF;
+
+  RETURN _return;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE INDEX idx_returns_user_id ON public.returns(user_id);
+CREATE INDEX idx_returns_item_id ON public.returns(item_id);
@@ -0,0 +1,82 @@
+-- Item images live in a private bucket under <user id>/<item id>/, each
+-- with a small thumbnail made in the browser before upload
+INSERT INTO storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+VALUES ('item-images', 'item-images', false, 5242880, ARRAY['image/jpeg', 'image/png', 'image/webp', 'image/gif']);
+
+-- Storage access mirrors inventory_items: owners only, and only under
+-- items they own
+CREATE POLICY "Users can view their own item images"
+ON storage.objects
+FOR SELECT
+USING (bucket_id = 'item-images' AND (storage.foldername(name))[1] = auth.uid()::text);
+
+CREATE POLICY "Users can upload images of their own items"
+ON storage.objects
+FOR INSERT
+WITH CHECK (
+  bucket_id = 'item-images'
+  AND (storage.foldername(name))[1] = auth.uid()::text
+  AND EXISTS (
+    SELECT 1 FROM public.inventory_items i
+    WHERE i.id::text = (storage.foldername(name))[2] AND i.user_id = auth.uid()
+  )
+);
+
+CREATE POLICY "Users can update their own item images"
+ON storage.objects
+FOR UPDATE
+USING (bucket_id = 'item-images' AND (storage.foldername(name))[1] = auth.uid()::text);
+
+CREATE POLICY "Users can delete their own item images"
+ON storage.objects
+FOR DELETE
+USING (bucket_id = 'item-images' AND (storage.foldername(name))[1] = auth.uid()::text);
+
+-- One row per uploaded image; the lowest position is the item's main picture
+CREATE TABLE public.item_images (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  item_id UUID NOT NULL REFERENCES public.inventory_items(id) ON DELETE CASCADE,
+  path TEXT NOT NULL UNIQUE,
+  thumbnail_path TEXT NOT NULL UNIQUE,
+  position INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CHECK (
+    split_part(path, '/', 1) = user_id::text AND split_part(path, '/', 2) = item_id::text
+    AND split_part(thumbnail_path, '/', 1) = user_id::text AND split_part(thumbnail_path, '/', 2) = item_id::text
+  )
+);
+
+ALTER TABLE public.item_images ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own item images"
+ON public.item_images
+FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can add images to their own items"
+ON public.item_images
+FOR INSERT
+WITH CHECK (
+  auth.uid() = user_id
+  AND EXISTS (SELECT 1 FROM public.inventory_items i WHERE i.id = item_id AND i.user_id = auth.uid())
+);
+
+CREATE POLICY "Users can update their own item images"
+ON public.item_images
+FOR UPDATE
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own item images"
+ON public.item_images
+FOR DELETE
+USING (auth.uid() = user_id);
+
+CREATE TRIGGER update_item_images_updated_at
+BEFORE UPDATE ON public.item_images
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE INDEX idx_item_images_user_id ON public.item_images(user_id);
+CREATE INDEX idx_item_images_item_id ON public.item_images(item_id, position);
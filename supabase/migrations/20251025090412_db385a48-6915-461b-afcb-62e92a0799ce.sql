@@ -0,0 +1,21 @@
+-- Stock only changes through the ledger. Clients can no longer write
+-- movements themselves or set an item's quantity directly; the functions
+-- that book movements run as the owner and check the caller instead.
+DROP POLICY "Users can record movements for their own items" ON public.stock_movements;
+
+REVOKE INSERT, UPDATE, DELETE ON public.stock_movements FROM anon, authenticated;
+
+-- quantity is left out: it follows the ledger. A new item's quantity is
+-- still taken as its opening stock on insert.
+REVOKE UPDATE ON public.inventory_items FROM anon, authenticated;
+
+GRANT UPDATE (
+  name, description, sku, unit_price, low_stock_threshold, reserved_quantity,
+  parent_id, option_axes, option_values, is_serialized, unit_id,
+  purchase_unit_id, purchase_factor, sale_unit_id, sale_factor, category_id,
+  custom_values, currency, cost_price, reorder_point, reorder_quantity,
+  max_stock_level, lead_time_days
+) ON public.inventory_items TO authenticated;
+
+ALTER FUNCTION public.record_opening_stock() SECURITY DEFINER;
+ALTER FUNCTION public.adjust_stock(UUID, NUMERIC, TEXT, UUID, TEXT) SECURITY DEFINER;
@@ -0,0 +1,36 @@
+-- Apply each movement as an increment. Recounting the ledger raced when two
+-- movements for the same item landed at once: each total was summed before
+-- the other movement was visible, so the last write lost one of them.
+-- Incrementing under the row lock the update takes applies both.
+CREATE OR REPLACE FUNCTION public.apply_stock_movement()
+RETURNS TRIGGER AS $$
+BEGIN
+  INSERT INTO public.stock_levels (user_id, item_id, location_id)
+  VALUES (NEW.user_id, NEW.item_id, NEW.location_id)
+  ON CONFLICT (item_id, location_id) DO NOTHING;
+
+  UPDATE public.stock_levels
+  SET quantity = quantity + NEW.delta
+  WHERE item_id = NEW.item_id AND location_id = NEW.location_id;
+
+  UPDATE public.inventory_items
+  SET quantity = quantity + NEW.delta
+  WHERE id = NEW.item_id;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- The opening movement now adds the new item's quantity on top of what is
+-- already there, so start the item from zero and let the movement book it
+CREATE OR REPLACE FUNCTION public.record_opening_stock()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.quantity <> 0 THEN
+    UPDATE public.inventory_items SET quantity = 0 WHERE id = NEW.id;
+
+    INSERT INTO public.stock_movements (user_id, item_id, delta, reason)
+    VALUES (NEW.user_id, NEW.id, NEW.quantity, 'opening');
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
@@ -0,0 +1,4 @@
+-- default_location_id runs as the owner and creates a location for whatever
+-- user it is given, so it must not be callable with someone else's id. Only
+-- the stock functions call it, and they pass the caller's own.
+REVOKE EXECUTE ON FUNCTION public.default_location_id(UUID) FROM PUBLIC, anon, authenticated;
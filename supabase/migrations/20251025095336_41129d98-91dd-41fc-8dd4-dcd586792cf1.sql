@@ -0,0 +1,76 @@
+-- Purchase orders can only be edited while they are drafts. Sending and
+-- closing go through the functions below, so a client can't reopen an order
+-- or mark one received without booking the stock.
+DROP POLICY "Users can create their own purchase orders" ON public.purchase_orders;
+DROP POLICY "Users can update their own purchase orders" ON public.purchase_orders;
+
+CREATE POLICY "Users can create their own purchase orders" 
+ON public.purchase_orders 
+FOR INSERT 
+WITH CHECK (auth.uid() = user_id AND status = 'draft');
+
+CREATE POLICY "Users can update their own draft purchase orders" 
+ON public.purchase_orders 
+FOR UPDATE 
+USING (auth.uid() = user_id AND status = 'draft')
+WITH CHECK (auth.uid() = user_id AND status = 'draft');
+
+-- Send a draft to the supplier; deliveries can be received from then on
+CREATE OR REPLACE FUNCTION public.send_purchase_order(_order_id UUID)
+RETURNS public.purchase_orders AS $$
+DECLARE
+  _order public.purchase_orders;
+BEGIN
+  SELECT * INTO _order
+  FROM public.purchase_orders
+  WHERE id = _order_id AND user_id = auth.uid()
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Purchase order not found';
+  END IF;
+
+  IF _order.status <> 'draft' THEN
+    RAISE EXCEPTION 'Only draft orders can be sent';
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM public.purchase_order_lines WHERE purchase_order_id = _order_id) THEN
+    RAISE EXCEPTION 'Add at least one line before sending';
+  END IF;
+
+  UPDATE public.purchase_orders
+  SET status = 'sent', sent_at = now()
+  WHERE id = _order_id
+  RETURNING * INTO _order;
+
+  RETURN _order;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Close a sent order; outstanding quantities will not be received
+CREATE OR REPLACE FUNCTION public.close_purchase_order(_order_id UUID)
+RETURNS public.purchase_orders AS $$
+DECLARE
+  _order public.purchase_orders;
+BEGIN
+  SELECT * INTO _order
+  FROM public.purchase_orders
+  WHERE id = _order_id AND user_id = auth.uid()
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Purchase order not found';
+  END IF;
+
+  IF _order.status NOT IN ('sent', 'partially_received', 'received') THEN
+    RAISE EXCEPTION 'Cannot close a % purchase order', _order.status;
+  END IF;
+
+  UPDATE public.purchase_orders
+  SET status = 'closed', closed_at = now()
+  WHERE id = _order_id
+  RETURNING * INTO _order;
+
+  RETURN _order;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
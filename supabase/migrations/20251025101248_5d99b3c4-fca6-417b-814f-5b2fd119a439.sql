@@ -0,0 +1,42 @@
+-- Reservations are only made and released by the sales order functions.
+-- Clients can no longer set reserved_quantity themselves.
+REVOKE INSERT ON public.inventory_items FROM anon, authenticated;
+REVOKE UPDATE (reserved_quantity) ON public.inventory_items FROM authenticated;
+
+GRANT INSERT (
+  id, user_id, name, description, sku, quantity, unit_price, low_stock_threshold,
+  parent_id, option_axes, option_values, is_serialized, unit_id,
+  purchase_unit_id, purchase_factor, sale_unit_id, sale_factor, category_id,
+  custom_values, currency, cost_price, reorder_point, reorder_quantity,
+  max_stock_level, lead_time_days
+) ON public.inventory_items TO authenticated;
+
+-- Stock promised to confirmed orders can't be taken out some other way, e.g.
+-- adjusted, removed or used in a kit. The check runs at commit so functions
+-- that move stock and release its reservation one after the other, like
+-- fulfilment, pass. Items already over-reserved can still gain stock.
+--
+-- Reservations are held per item across all locations; fulfilment then
+-- ships the whole order from the order's single location and checks stock
+-- there when it runs.
+CREATE OR REPLACE FUNCTION public.check_available_stock()
+RETURNS TRIGGER AS $$
+DECLARE
+  _item public.inventory_items;
+BEGIN
+  SELECT * INTO _item FROM public.inventory_items WHERE id = NEW.id;
+
+  IF FOUND AND _item.available_quantity < 0 AND _item.available_quantity < OLD.available_quantity THEN
+    RAISE EXCEPTION 'Insufficient stock for %: % on hand, % reserved for sales orders',
+      _item.name, _item.quantity, _item.reserved_quantity;
+  END IF;
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+CREATE CONSTRAINT TRIGGER check_available_stock
+AFTER UPDATE OF quantity, reserved_quantity ON public.inventory_items
+DEFERRABLE INITIALLY DEFERRED
+FOR EACH ROW
+EXECUTE FUNCTION public.check_available_stock();
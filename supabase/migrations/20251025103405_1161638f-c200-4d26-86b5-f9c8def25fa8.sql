@@ -0,0 +1,72 @@
+-- Create a product and its variants in one go, so a failed variant no longer
+-- leaves an empty parent behind. _item holds the product's fields; each
+-- variant gives its name, SKU, price, options and opening quantity and
+-- shares everything else with the product.
+CREATE OR REPLACE FUNCTION public.create_item_with_variants(_item JSONB, _variants JSONB)
+RETURNS public.inventory_items AS $$
+DECLARE
+  _fields public.inventory_items := jsonb_populate_record(NULL::public.inventory_items, _item);
+  _parent public.inventory_items;
+  _sku TEXT;
+BEGIN
+  IF jsonb_typeof(_variants) IS DISTINCT FROM 'array' OR jsonb_array_length(_variants) = 0 THEN
+    RAISE EXCEPTION 'Generate at least one variant';
+  END IF;
+
+  IF _fields.option_axes IS NULL THEN
+    RAISE EXCEPTION 'Add the options the variants differ by';
+  END IF;
+
+  -- SKUs are matched when scanning regardless of case, so each must be unique
+  SELECT MIN(sku) INTO _sku
+  FROM (
+    SELECT trim(v->>'sku') AS sku FROM jsonb_array_elements(_variants) v
+    UNION ALL
+    SELECT trim(_fields.sku)
+  ) s
+  WHERE sku <> ''
+  GROUP BY lower(sku)
+  HAVING COUNT(*) > 1
+  LIMIT 1;
+
+  IF _sku IS NULL THEN
+    SELECT trim(v->>'sku') INTO _sku
+    FROM jsonb_array_elements(_variants) v
+    JOIN public.inventory_items i ON lower(trim(i.sku)) = lower(trim(v->>'sku'))
+    WHERE i.user_id = auth.uid()
+    LIMIT 1;
+  END IF;
+
+  IF _sku IS NOT NULL THEN
+    RAISE EXCEPTION 'SKU % is already in use', _sku;
+  END IF;
+
+  INSERT INTO public.inventory_items (
+    user_id, name, description, sku, unit_price, low_stock_threshold, option_axes, is_serialized,
+    unit_id, purchase_unit_id, purchase_factor, sale_unit_id, sale_factor, category_id,
+    custom_values, currency, cost_price
+  )
+  VALUES (
+    auth.uid(), _fields.name, _fields.description, NULLIF(trim(_fields.sku), ''), _fields.unit_price,
+    COALESCE(_fields.low_stock_threshold, 10), _fields.option_axes, COALESCE(_fields.is_serialized, false),
+    _fields.unit_id, _fields.purchase_unit_id, COALESCE(_fields.purchase_factor, 1), _fields.sale_unit_id,
+    COALESCE(_fields.sale_factor, 1), _fields.category_id, COALESCE(_fields.custom_values, '{}'),
+    COALESCE(_fields.currency, public.account_currency()), _fields.cost_price
+  )
+  RETURNING * INTO _parent;
+
+  INSERT INTO public.inventory_items (
+    user_id, parent_id, name, sku, unit_price, option_values, quantity,
+    description, low_stock_threshold, is_serialized, unit_id, purchase_unit_id, purchase_factor,
+    sale_unit_id, sale_factor, category_id, custom_values, currency, cost_price
+  )
+  SELECT
+    _parent.user_id, _parent.id, v.name, NULLIF(trim(v.sku), ''), v.unit_price, v.option_values, COALESCE(v.quantity, 0),
+    _parent.description, _parent.low_stock_threshold, _parent.is_serialized, _parent.unit_id, _parent.purchase_unit_id,
+    _parent.purchase_factor, _parent.sale_unit_id, _parent.sale_factor, _parent.category_id, _parent.custom_values,
+    _parent.currency, _parent.cost_price
+  FROM jsonb_populate_recordset(NULL::public.inventory_items, _variants) v;
+
+  RETURN _parent;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
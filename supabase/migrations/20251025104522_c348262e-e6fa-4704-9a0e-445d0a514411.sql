@@ -0,0 +1,11 @@
+-- Apply lot movements as increments too; recounting the lot's ledger lost
+-- one of two movements that landed at the same time
+CREATE OR REPLACE FUNCTION public.apply_lot_movement()
+RETURNS TRIGGER AS $$
+BEGIN
+  UPDATE public.stock_lots
+  SET quantity = quantity + NEW.delta
+  WHERE id = NEW.lot_id;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
@@ -0,0 +1,7 @@
+-- default_unit_id runs as the owner and creates a unit for whatever user it
+-- is given, so clients must not call it. The item trigger that fills in the
+-- default unit now runs as the owner to keep calling it; the item's user_id
+-- is already checked against the caller by the insert policy.
+ALTER FUNCTION public.validate_item_units() SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION public.default_unit_id(UUID) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,32 @@
+-- Create a purchase order with its lines and send it in one step, as the
+-- reorder suggestions do. Nothing is left behind if a line is rejected.
+-- Each line gives item_id, quantity_ordered and optionally unit_id and
+-- unit_cost, as on purchase_order_lines.
+CREATE OR REPLACE FUNCTION public.place_purchase_order(
+  _supplier_id UUID,
+  _lines JSONB,
+  _notes TEXT DEFAULT NULL
+)
+RETURNS public.purchase_orders AS $$
+DECLARE
+  _order public.purchase_orders;
+BEGIN
+  IF jsonb_typeof(_lines) IS DISTINCT FROM 'array' OR jsonb_array_length(_lines) = 0 THEN
+    RAISE EXCEPTION 'Enter a quantity for at least one item';
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM public.suppliers WHERE id = _supplier_id AND user_id = auth.uid()) THEN
+    RAISE EXCEPTION 'Supplier not found';
+  END IF;
+
+  INSERT INTO public.purchase_orders (user_id, supplier_id, notes)
+  VALUES (auth.uid(), _supplier_id, NULLIF(trim(_notes), ''))
+  RETURNING * INTO _order;
+
+  INSERT INTO public.purchase_order_lines (user_id, purchase_order_id, item_id, quantity_ordered, unit_id, unit_cost)
+  SELECT _order.user_id, _order.id, l.item_id, l.quantity_ordered, l.unit_id, l.unit_cost
+  FROM jsonb_populate_recordset(NULL::public.purchase_order_lines, _lines) l;
+
+  RETURN public.send_purchase_order(_order.id);
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
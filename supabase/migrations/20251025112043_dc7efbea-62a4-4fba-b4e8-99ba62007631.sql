@@ -0,0 +1,45 @@
+-- Book stock coming in without a purchase order, e.g. scanned in at the
+-- door. It is a receipt, not an adjustment, so it is costed at the item's
+-- cost price and stays out of shrinkage.
+CREATE OR REPLACE FUNCTION public.receive_stock(
+  _item_id UUID,
+  _quantity NUMERIC,
+  _location_id UUID DEFAULT NULL,
+  _note TEXT DEFAULT NULL
+)
+RETURNS public.inventory_items AS $$
+DECLARE
+  _item public.inventory_items;
+BEGIN
+  IF _quantity IS NULL OR _quantity <= 0 THEN
+    RAISE EXCEPTION 'Quantity must be positive';
+  END IF;
+
+  SELECT * INTO _item
+  FROM public.inventory_items
+  WHERE id = _item_id AND user_id = auth.uid()
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Item not found';
+  END IF;
+
+  IF _item.is_serialized THEN
+    RAISE EXCEPTION 'Receive serialized items by serial number';
+  END IF;
+
+  IF _location_id IS NULL THEN
+    _location_id := public.default_location_id(_item.user_id);
+  ELSIF NOT EXISTS (
+    SELECT 1 FROM public.locations WHERE id = _location_id AND user_id = _item.user_id
+  ) THEN
+    RAISE EXCEPTION 'Location not found';
+  END IF;
+
+  INSERT INTO public.stock_movements (user_id, item_id, location_id, delta, reason, note)
+  VALUES (_item.user_id, _item.id, _location_id, _quantity, 'receipt', NULLIF(trim(_note), ''));
+
+  SELECT * INTO _item FROM public.inventory_items WHERE id = _item_id;
+  RETURN _item;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
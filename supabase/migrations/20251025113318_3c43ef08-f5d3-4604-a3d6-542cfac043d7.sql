@@ -0,0 +1,121 @@
+-- A line's item could be changed to one the user can't see: the unit
+-- trigger skips what RLS hides, and receiving then booked the stock on
+-- another user's item. Lines must keep to the user's own order and items.
+DROP POLICY "Users can update lines on their own draft purchase orders" ON public.purchase_order_lines;
+
+CREATE POLICY "Users can update lines on their own draft purchase orders" 
+ON public.purchase_order_lines 
+FOR UPDATE 
+USING (
+  auth.uid() = user_id
+  AND EXISTS (
+    SELECT 1 FROM public.purchase_orders po
+    WHERE po.id = purchase_order_id AND po.status = 'draft'
+  )
+)
+WITH CHECK (
+  auth.uid() = user_id
+  AND EXISTS (
+    SELECT 1 FROM public.purchase_orders po
+    WHERE po.id = purchase_order_id AND po.user_id = auth.uid() AND po.status = 'draft'
+  )
+  AND EXISTS (SELECT 1 FROM public.inventory_items i WHERE i.id = item_id AND i.user_id = auth.uid())
+);
+
+-- Only ever receive onto the order owner's items
+CREATE OR REPLACE FUNCTION public.receive_purchase_order_line(
+  _line_id UUID,
+  _quantity NUMERIC,
+  _location_id UUID DEFAULT NULL,
+  _note TEXT DEFAULT NULL,
+  _serials TEXT[] DEFAULT NULL
+)
+RETURNS public.purchase_order_lines AS $$
+DECLARE
+  _line public.purchase_order_lines;
+  _order public.purchase_orders;
+  _item public.inventory_items;
+  _base_quantity NUMERIC;
+  _unit_cost NUMERIC;
+  _currency TEXT;
+BEGIN
+  IF _quantity IS NULL OR _quantity <= 0 THEN
+    RAISE EXCEPTION 'Received quantity must be positive';
+  END IF;
+
+  SELECT * INTO _line
+  FROM public.purchase_order_lines
+  WHERE id = _line_id AND user_id = auth.uid()
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Purchase order line not found';
+  END IF;
+
+  SELECT * INTO _order
+  FROM public.purchase_orders
+  WHERE id = _line.purchase_order_id
+  FOR UPDATE;
+
+  IF _order.status NOT IN ('sent', 'partially_received', 'received') THEN
+    RAISE EXCEPTION 'Cannot receive against a % purchase order', _order.status;
+  END IF;
+
+  _location_id := COALESCE(_location_id, _order.location_id, public.default_location_id(_order.user_id));
+
+  IF NOT EXISTS (
+    SELECT 1 FROM public.locations WHERE id = _location_id AND user_id = _order.user_id
+  ) THEN
+    RAISE EXCEPTION 'Location not found';
+  END IF;
+
+  PERFORM public.check_unit_quantity(_line.unit_id, _quantity);
+
+  SELECT * INTO _item FROM public.inventory_items WHERE id = _line.item_id AND user_id = _order.user_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Item not found';
+  END IF;
+
+  _base_quantity := _quantity * _line.unit_factor;
+  _unit_cost := _line.unit_cost / _line.unit_factor;
+  SELECT currency INTO _currency FROM public.suppliers WHERE id = _order.supplier_id;
+
+  INSERT INTO public.purchase_order_receipts (user_id, line_id, location_id, quantity, note)
+  VALUES (_line.user_id, _line.id, _location_id, _quantity, _note);
+
+  IF _item.is_serialized THEN
+    IF COALESCE(array_length(_serials, 1), 0) <> _base_quantity THEN
+      RAISE EXCEPTION 'Enter one serial number per unit received (% needed)', _base_quantity;
+    END IF;
+    PERFORM public.book_serial_movements(
+      _item, _serials, 1, _location_id, 'purchase_receipt', _note, 'purchase_order', _order.id, _unit_cost, _currency
+    );
+  ELSE
+    INSERT INTO public.stock_movements (
+      user_id, item_id, location_id, delta, reason, note, reference_type, reference_id, unit_cost, cost_currency
+    )
+    VALUES (
+      _line.user_id, _line.item_id, _location_id, _base_quantity, 'purchase_receipt', _note, 'purchase_order', _order.id,
+      _unit_cost, _currency
+    );
+  END IF;
+
+  UPDATE public.purchase_order_lines
+  SET quantity_received = quantity_received + _quantity
+  WHERE id = _line.id
+  RETURNING * INTO _line;
+
+  UPDATE public.purchase_orders
+  SET status = CASE
+    WHEN NOT EXISTS (
+      SELECT 1 FROM public.purchase_order_lines
+      WHERE purchase_order_id = _order.id AND quantity_received < quantity_ordered
+    ) THEN 'received'
+    ELSE 'partially_received'
+  END
+  WHERE id = _order.id;
+
+  RETURN _line;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
@@ -0,0 +1,173 @@
+-- Same hole as on purchase order lines: a sales line's item could be
+-- changed to another user's, which confirming then reserved and fulfilling
+-- shipped. Lines keep to the user's own order and items, and the functions
+-- only touch the order owner's items and locations.
+DROP POLICY "Users can update lines on their own draft sales orders" ON public.sales_order_lines;
+
+CREATE POLICY "Users can update lines on their own draft sales orders" 
+ON public.sales_order_lines 
+FOR UPDATE 
+USING (
+  auth.uid() = user_id
+  AND EXISTS (
+    SELECT 1 FROM public.sales_orders so
+    WHERE so.id = sales_order_id AND so.status = 'draft'
+  )
+)
+WITH CHECK (
+  auth.uid() = user_id
+  AND EXISTS (
+    SELECT 1 FROM public.sales_orders so
+    WHERE so.id = sales_order_id AND so.user_id = auth.uid() AND so.status = 'draft'
+  )
+  AND EXISTS (SELECT 1 FROM public.inventory_items i WHERE i.id = item_id AND i.user_id = auth.uid())
+);
+
+CREATE OR REPLACE FUNCTION public.confirm_sales_order(_order_id UUID)
+RETURNS public.sales_orders AS $$
+DECLARE
+  _order public.sales_orders;
+  _line RECORD;
+  _available NUMERIC;
+BEGIN
+  SELECT * INTO _order
+  FROM public.sales_orders
+  WHERE id = _order_id AND user_id = auth.uid()
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Sales order not found';
+  END IF;
+
+  IF _order.status <> 'draft' THEN
+    RAISE EXCEPTION 'Only draft orders can be confirmed';
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM public.sales_order_lines WHERE sales_order_id = _order_id) THEN
+    RAISE EXCEPTION 'Add at least one line before confirming';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM public.sales_order_lines l
+    LEFT JOIN public.inventory_items i ON i.id = l.item_id AND i.user_id = _order.user_id
+    WHERE l.sales_order_id = _order_id AND i.id IS NULL
+  ) THEN
+    RAISE EXCEPTION 'Item not found';
+  END IF;
+
+  -- Lock items in a stable order so concurrent confirmations cannot deadlock
+  FOR _line IN
+    SELECT i.id, i.name, SUM(l.quantity * l.unit_factor) AS quantity
+    FROM public.sales_order_lines l
+    JOIN public.inventory_items i ON i.id = l.item_id AND i.user_id = _order.user_id
+    WHERE l.sales_order_id = _order_id
+    GROUP BY i.id
+    ORDER BY i.id
+  LOOP
+    SELECT quantity - reserved_quantity INTO _available
+    FROM public.inventory_items
+    WHERE id = _line.id
+    FOR UPDATE;
+
+    IF _available < _line.quantity THEN
+      RAISE EXCEPTION 'Insufficient stock for %: % available', _line.name, _available;
+    END IF;
+
+    UPDATE public.inventory_items
+    SET reserved_quantity = reserved_quantity + _line.quantity
+    WHERE id = _line.id;
+  END LOOP;
+
+  UPDATE public.sales_orders
+  SET status = 'confirmed', confirmed_at = now()
+  WHERE id = _order_id
+  RETURNING * INTO _order;
+
+  RETURN _order;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION public.fulfil_sales_order(_order_id UUID, _serials TEXT[] DEFAULT NULL)
+RETURNS public.sales_orders AS $$
+DECLARE
+  _order public.sales_orders;
+  _location_id UUID;
+  _line RECORD;
+  _item public.inventory_items;
+  _line_serials TEXT[];
+  _on_hand NUMERIC;
+BEGIN
+  SELECT * INTO _order
+  FROM public.sales_orders
+  WHERE id = _order_id AND user_id = auth.uid()
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Sales order not found';
+  END IF;
+
+  IF _order.status <> 'confirmed' THEN
+    RAISE EXCEPTION 'Only confirmed orders can be fulfilled';
+  END IF;
+
+  _location_id := COALESCE(_order.location_id, public.default_location_id(_order.user_id));
+
+  IF NOT EXISTS (
+    SELECT 1 FROM public.locations WHERE id = _location_id AND user_id = _order.user_id
+  ) THEN
+    RAISE EXCEPTION 'Location not found';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM public.sales_order_lines l
+    LEFT JOIN public.inventory_items i ON i.id = l.item_id AND i.user_id = _order.user_id
+    WHERE l.sales_order_id = _order_id AND i.id IS NULL
+  ) THEN
+    RAISE EXCEPTION 'Item not found';
+  END IF;
+
+  FOR _line IN
+    SELECT i.id, i.name, SUM(l.quantity * l.unit_factor) AS quantity
+    FROM public.sales_order_lines l
+    JOIN public.inventory_items i ON i.id = l.item_id AND i.user_id = _order.user_id
+    WHERE l.sales_order_id = _order_id
+    GROUP BY i.id
+    ORDER BY i.id
+  LOOP
+    SELECT * INTO _item FROM public.inventory_items WHERE id = _line.id FOR UPDATE;
+
+    SELECT COALESCE(SUM(quantity), 0) INTO _on_hand
+    FROM public.stock_levels
+    WHERE item_id = _line.id AND location_id = _location_id;
+
+    IF _on_hand < _line.quantity THEN
+      RAISE EXCEPTION 'Insufficient stock for % at the shipping location: % on hand', _line.name, _on_hand;
+    END IF;
+
+    IF _item.is_serialized THEN
+      _line_serials := ARRAY(
+        SELECT sn.serial FROM public.serial_numbers sn
+        WHERE sn.item_id = _line.id AND sn.serial IN (SELECT trim(s) FROM unnest(_serials) s)
+      );
+      IF COALESCE(array_length(_line_serials, 1), 0) <> _line.quantity THEN
+        RAISE EXCEPTION 'Enter % serial numbers for %', _line.quantity, _line.name;
+      END IF;
+      PERFORM public.book_serial_movements(_item, _line_serials, -1, _location_id, 'sale', NULL, 'sales_order', _order.id);
+    ELSE
+      INSERT INTO public.stock_movements (user_id, item_id, location_id, delta, reason, reference_type, reference_id)
+      VALUES (_order.user_id, _line.id, _location_id, -_line.quantity, 'sale', 'sales_order', _order.id);
+    END IF;
+
+    UPDATE public.inventory_items
+    SET reserved_quantity = GREATEST(reserved_quantity - _line.quantity, 0)
+    WHERE id = _line.id;
+  END LOOP;
+
+  UPDATE public.sales_orders
+  SET status = 'fulfilled', fulfilled_at = now()
+  WHERE id = _order_id
+  RETURNING * INTO _order;
+
+  RETURN _order;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
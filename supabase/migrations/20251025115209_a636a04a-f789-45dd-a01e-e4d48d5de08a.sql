@@ -0,0 +1,85 @@
+-- A requested return could be moved onto another user's item: the check
+-- trigger skipped items hidden by RLS, and approving then booked stock on it.
+DROP POLICY "Users can update their own requested returns" ON public.returns;
+
+CREATE POLICY "Users can update their own requested returns"
+ON public.returns
+FOR UPDATE
+USING (auth.uid() = user_id AND status = 'requested')
+WITH CHECK (
+  auth.uid() = user_id
+  AND status = 'requested'
+  AND EXISTS (SELECT 1 FROM public.inventory_items i WHERE i.id = item_id AND i.user_id = auth.uid())
+);
+
+CREATE OR REPLACE FUNCTION public.validate_return()
+RETURNS TRIGGER AS $$
+DECLARE
+  _item public.inventory_items;
+BEGIN
+  SELECT * INTO _item FROM public.inventory_items WHERE id = NEW.item_id AND user_id = NEW.user_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Item not found';
+  END IF;
+
+  IF _item.is_serialized THEN
+    RAISE EXCEPTION '% is serialized; receive returned units by serial number', _item.name;
+  END IF;
+
+  IF _item.option_axes IS NOT NULL THEN
+    RAISE EXCEPTION 'Choose a variant of %', _item.name;
+  END IF;
+
+  IF NEW.location_id IS NOT NULL AND NOT EXISTS (
+    SELECT 1 FROM public.locations WHERE id = NEW.location_id AND user_id = NEW.user_id
+  ) THEN
+    RAISE EXCEPTION 'Location not found';
+  END IF;
+
+  PERFORM public.check_unit_quantity(_item.unit_id, NEW.quantity);
+  NEW.reason := NULLIF(trim(NEW.reason), '');
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+CREATE OR REPLACE FUNCTION public.approve_return(_return_id UUID)
+RETURNS public.returns AS $$
+DECLARE
+  _return public.returns;
+BEGIN
+  SELECT * INTO _return
+  FROM public.returns
+  WHERE id = _return_id AND user_id = auth.uid()
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Return not found';
+  END IF;
+
+  IF _return.status <> 'requested' THEN
+    RAISE EXCEPTION 'This return was already %', _return.status;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM public.inventory_items WHERE id = _return.item_id AND user_id = _return.user_id
+  ) THEN
+    RAISE EXCEPTION 'Item not found';
+  END IF;
+
+  IF _return.condition = 'resellable' THEN
+    INSERT INTO public.stock_movements (user_id, item_id, location_id, delta, reason, note, reference_type, reference_id)
+    VALUES (
+      _return.user_id, _return.item_id, COALESCE(_return.location_id, public.default_location_id(_return.user_id)),
+      _return.quantity, 'return', _return.reason, 'return', _return.id
+    );
+  END IF;
+
+  UPDATE public.returns
+  SET status = 'approved', processed_at = now()
+  WHERE id = _return.id
+  RETURNING * INTO _return;
+
+  RETURN _return;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
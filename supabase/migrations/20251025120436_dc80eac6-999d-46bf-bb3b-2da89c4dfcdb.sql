@@ -0,0 +1,105 @@
+-- Serialized units taken out of stock need a reason like any other
+-- adjustment, so they show up as shrinkage under it
+DROP FUNCTION public.book_serial_movements(public.inventory_items, TEXT[], INTEGER, UUID, TEXT, TEXT, TEXT, UUID, NUMERIC, TEXT);
+
+CREATE OR REPLACE FUNCTION public.book_serial_movements(
+  _item public.inventory_items,
+  _serials TEXT[],
+  _direction INTEGER,
+  _location_id UUID,
+  _reason TEXT,
+  _note TEXT,
+  _reference_type TEXT,
+  _reference_id UUID,
+  _unit_cost NUMERIC DEFAULT NULL,
+  _cost_currency TEXT DEFAULT NULL,
+  _reason_code TEXT DEFAULT NULL
+)
+RETURNS SETOF public.serial_numbers AS $$
+DECLARE
+  _raw TEXT;
+  _serial public.serial_numbers;
+BEGIN
+  IF NOT _item.is_serialized THEN
+    RAISE EXCEPTION '% is not a serialized item', _item.name;
+  END IF;
+
+  IF COALESCE(array_length(_serials, 1), 0) = 0 THEN
+    RAISE EXCEPTION 'Enter at least one serial number';
+  END IF;
+
+  IF (SELECT COUNT(DISTINCT trim(s)) FROM unnest(_serials) s) <> array_length(_serials, 1) THEN
+    RAISE EXCEPTION 'Serial numbers must be unique';
+  END IF;
+
+  FOREACH _raw IN ARRAY _serials LOOP
+    IF COALESCE(trim(_raw), '') = '' THEN
+      RAISE EXCEPTION 'Serial numbers cannot be blank';
+    END IF;
+
+    IF _direction > 0 THEN
+      INSERT INTO public.serial_numbers (user_id, item_id, serial)
+      VALUES (_item.user_id, _item.id, trim(_raw))
+      ON CONFLICT (item_id, serial) DO UPDATE SET serial = EXCLUDED.serial
+      RETURNING * INTO _serial;
+    ELSE
+      SELECT * INTO _serial
+      FROM public.serial_numbers
+      WHERE item_id = _item.id AND serial = trim(_raw);
+
+      IF NOT FOUND THEN
+        RAISE EXCEPTION 'Serial % not found for %', trim(_raw), _item.name;
+      END IF;
+    END IF;
+
+    INSERT INTO public.stock_movements (
+      user_id, item_id, location_id, serial_id, delta, reason, reason_code, note, reference_type, reference_id, unit_cost,
+      cost_currency
+    )
+    VALUES (
+      _item.user_id, _item.id,
+      CASE WHEN _direction > 0 THEN _location_id ELSE COALESCE(_location_id, _serial.location_id) END,
+      _serial.id, _direction, _reason, _reason_code, _note, _reference_type, _reference_id, _unit_cost, _cost_currency
+    );
+
+    RETURN QUERY SELECT * FROM public.serial_numbers WHERE id = _serial.id;
+  END LOOP;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.book_serial_movements(public.inventory_items, TEXT[], INTEGER, UUID, TEXT, TEXT, TEXT, UUID, NUMERIC, TEXT, TEXT) FROM PUBLIC, anon, authenticated;
+
+DROP FUNCTION public.remove_serials(UUID, TEXT[], TEXT, TEXT);
+
+CREATE OR REPLACE FUNCTION public.remove_serials(
+  _item_id UUID,
+  _serials TEXT[],
+  _reason_code TEXT,
+  _note TEXT DEFAULT NULL
+)
+RETURNS SETOF public.serial_numbers AS $$
+DECLARE
+  _item public.inventory_items;
+BEGIN
+  SELECT * INTO _item
+  FROM public.inventory_items
+  WHERE id = _item_id AND user_id = auth.uid()
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Item not found';
+  END IF;
+
+  IF _reason_code IS NULL OR NOT (
+    _reason_code = ANY (public.builtin_adjustment_reasons())
+    OR EXISTS (SELECT 1 FROM public.adjustment_reasons WHERE user_id = _item.user_id AND code = _reason_code)
+  ) THEN
+    RAISE EXCEPTION 'Choose a reason for the adjustment';
+  END IF;
+
+  RETURN QUERY
+  SELECT * FROM public.book_serial_movements(
+    _item, _serials, -1, NULL, 'adjustment', NULLIF(trim(_note), ''), NULL, NULL, NULL, NULL, _reason_code
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
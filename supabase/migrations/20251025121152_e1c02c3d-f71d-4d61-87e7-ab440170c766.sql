@@ -0,0 +1,12 @@
+-- Supplier links can't be moved onto another user's item or supplier
+DROP POLICY "Users can update their own item suppliers" ON public.item_suppliers;
+
+CREATE POLICY "Users can update their own item suppliers" 
+ON public.item_suppliers 
+FOR UPDATE 
+USING (auth.uid() = user_id)
+WITH CHECK (
+  auth.uid() = user_id
+  AND EXISTS (SELECT 1 FROM public.inventory_items i WHERE i.id = item_id AND i.user_id = auth.uid())
+  AND EXISTS (SELECT 1 FROM public.suppliers s WHERE s.id = supplier_id AND s.user_id = auth.uid())
+);
@@ -0,0 +1,50 @@
+-- Stock that moved while the count was under way was overwritten: variances
+-- were booked against the quantities snapshotted at the start. Posting now
+-- books each count against the stock on hand at the time, and records that
+-- as the line's expected quantity so the variance shown is the one booked.
+CREATE OR REPLACE FUNCTION public.post_stocktake(_stocktake_id UUID)
+RETURNS public.stocktakes AS $$
+DECLARE
+  _stocktake public.stocktakes;
+BEGIN
+  SELECT * INTO _stocktake
+  FROM public.stocktakes
+  WHERE id = _stocktake_id AND user_id = auth.uid()
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Stocktake not found';
+  END IF;
+
+  IF _stocktake.status <> 'counting' THEN
+    RAISE EXCEPTION 'Cannot post a % stocktake', _stocktake.status;
+  END IF;
+
+  -- Lock the counted stock, then book each count against what's on hand now
+  PERFORM 1
+  FROM public.stock_levels sl
+  JOIN public.stocktake_lines l ON l.item_id = sl.item_id
+  WHERE l.stocktake_id = _stocktake.id AND l.counted_quantity IS NOT NULL AND sl.location_id = _stocktake.location_id
+  ORDER BY sl.item_id
+  FOR UPDATE OF sl;
+
+  UPDATE public.stocktake_lines l
+  SET expected_quantity = COALESCE(
+    (SELECT quantity FROM public.stock_levels WHERE item_id = l.item_id AND location_id = _stocktake.location_id), 0
+  )
+  WHERE l.stocktake_id = _stocktake.id AND l.counted_quantity IS NOT NULL;
+
+  INSERT INTO public.stock_movements (user_id, item_id, location_id, delta, reason, reference_type, reference_id)
+  SELECT l.user_id, l.item_id, _stocktake.location_id, l.variance, 'stocktake', 'stocktake', _stocktake.id
+  FROM public.stocktake_lines l
+  WHERE l.stocktake_id = _stocktake.id AND l.variance <> 0
+  ORDER BY l.created_at, l.id;
+
+  UPDATE public.stocktakes
+  SET status = 'posted', posted_at = now()
+  WHERE id = _stocktake.id
+  RETURNING * INTO _stocktake;
+
+  RETURN _stocktake;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;